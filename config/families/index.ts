@@ -0,0 +1,13 @@
+import cocMastersPl from './coc-masters-pl.json'
+
+/**
+ * Registry of family profiles the dashboard can be built for.
+ *
+ * To host another family, add `<id>.json` next to this file and register it
+ * below, then run the pipeline and build with `FAMILY=<id>`.
+ */
+export const FAMILY_PROFILES: Record<string, unknown> = {
+  'coc-masters-pl': cocMastersPl,
+}
+
+export const DEFAULT_FAMILY_ID = 'coc-masters-pl'
@@ -45,6 +45,23 @@ export default [
     },
   },
 
+  // src/lib modules the tsx scripts import (and what they import in turn) run
+  // under plain Node as well as Vite: no `@/` path aliases, no import.meta.env
+  {
+    files: [
+      "src/lib/{attackDuration,attackTypes,clutch,expectedStars,family,netStars,reliability,schemas,types,warPostMortem}.ts",
+    ],
+    rules: {
+      "no-restricted-imports": ["error", {
+        patterns: [{ group: ["@/*"], message: "Shared with the tsx scripts: use a relative import." }],
+      }],
+      "no-restricted-syntax": ["error", {
+        selector: "MemberExpression[object.type='MetaProperty'][property.name='env']",
+        message: "Shared with the tsx scripts, which run outside Vite: import.meta.env is undefined there.",
+      }],
+    },
+  },
+
   // Node globals for scripts
   {
     files: ["scripts/**/*.{ts,js,cjs}", "*.{js,ts,cjs}"],
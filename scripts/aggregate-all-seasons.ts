@@ -13,10 +13,26 @@
  *   npx tsx scripts/aggregate-all-seasons.ts --refresh  # Force refresh from API
  *   npx tsx scripts/aggregate-all-seasons.ts --start=2021-11  # Start from specific season
  *   npx tsx scripts/aggregate-all-seasons.ts --verbose  # Show detailed progress
+ *
+ * Environment:
+ *   CLASHKING_API_URL  Override the ClashK.ing base URL (e.g. the local mock: http://localhost:4010)
+ *   CWL_CACHE_DIR      Override the response cache directory (default: tmp/cwl-cache)
  */
 
 import fs from "node:fs";
 import path from "node:path";
+import {
+  addAttackTypeResult,
+  classifyAttack,
+  createAttackTypeBreakdown,
+  getMapRanks,
+  mergeAttackTypeBreakdowns,
+} from "../src/lib/attackTypes";
+import { FAMILY, FAMILY_DATA_DIR, getFamilyClans, isFamilyClan, stripClanTag } from "../src/lib/family";
+import { addClutchAttack, createClutchStats, getClutchAttacks, mergeClutchStats } from "../src/lib/clutch";
+import { getNetStarRate, getNetStars } from "../src/lib/netStars";
+import { calculateReliability } from "../src/lib/reliability";
+import type { AttackTypeBreakdown, ClutchStats } from "../src/lib/types";
 
 // ============================================================================
 // Types
@@ -37,6 +53,7 @@ type RawMember = {
   tag?: string;
   name?: string;
   townHallLevel?: number;
+  townhallLevel?: number; // Spelling used by the war endpoints
   mapPosition?: number;
   attacks?: RawMemberAttack[];
   opponentAttacks?: number;
@@ -105,6 +122,9 @@ type PlayerSeasonStats = {
     twoStars: number;
     threeStars: number;
   };
+  netStars: number;
+  netStarRate: number;
+  clutch: ClutchStats;
   timesAttacked?: number;
   starsAllowed?: number;
   avgStarsAllowed?: number;
@@ -127,6 +147,7 @@ type ReliabilityBreakdown = {
   attendance: number;     // (attacks/wars)*100
   leagueAdj: number;      // Weighted average based on seasons in each league
   weighted: number;       // Final weighted score: perf*0.45 + att*0.35 + league*0.20
+  formula?: string;       // RELIABILITY_FORMULA_ID the score was computed with
 };
 
 type PlayerCareerStats = {
@@ -149,6 +170,10 @@ type PlayerCareerStats = {
   clan: string;
   clanTag: string;
   seasons: PlayerSeasonStats[];
+  attackTypes: AttackTypeBreakdown;
+  netStars: number; // Stars added to the war score, see src/lib/netStars.ts
+  netStarRate?: number;
+  clutch: ClutchStats; // Late attacks while the war was open, see src/lib/clutch.ts
   threeStarRate?: number;
   reliabilityScore?: number;
   reliabilityBreakdown?: ReliabilityBreakdown;
@@ -197,52 +222,15 @@ type LeagueInfo = {
 // Configuration
 // ============================================================================
 
-// CoC Masters PL family clans:
-// - coc masters PL (#P0J2J8GJ) - main clan
-// - Akademia CoC PL (#JPRPRVUY) - academy
-// - Psychole! (#29RYVJ8C8) - training
-const FAMILY_CLANS: Record<string, string> = {
-  "coc masters PL": "#P0J2J8GJ",
-  "Akademia CoC PL": "#JPRPRVUY",
-  "Psychole!": "#29RYVJ8C8",
-};
+// Family clans (including retired ones) come from config/family.json via src/lib/family.ts
 
-/**
- * League tier difficulty scores (0-100 scale)
- * Higher leagues get higher scores as a bonus for competing at a harder level
- * 
- * These values reward players who maintain good performance in top-tier leagues
- * Champion I is the highest, so it gets 100 points as the LeagueAdj component
- */
-const LEAGUE_TIER_SCORES: Record<string, number> = {
-  "Champion League I": 100,
-  "Champion League II": 90,
-  "Champion League III": 80,
-  "Master League I": 70,
-  "Master League II": 60,
-  "Master League III": 50,
-  "Crystal League I": 40,
-  "Crystal League II": 35,
-  "Crystal League III": 30,
-  "Gold League I": 25,
-  "Gold League II": 20,
-  "Gold League III": 15,
-  // Default for unknown or lower leagues
-};
-const DEFAULT_LEAGUE_SCORE = 50; // Default score for unknown leagues
+// Reliability formula (weights and league tier scores) lives in src/lib/reliability.ts
 
-// Reliability formula weights
-const RELIABILITY_WEIGHTS = {
-  performance: 0.45,   // Weight for performance component (avgStars + threeStarRate)
-  attendance: 0.35,    // Weight for attendance component (attacks/wars)
-  leagueAdj: 0.20,     // Weight for league adjustment bonus
-};
-
-const OUTPUT_DIR = path.join("public", "data");
+const OUTPUT_DIR = FAMILY_DATA_DIR;
 const CLANS_DIR = path.join(OUTPUT_DIR, "clans");
 const HISTORY_DIR = path.join(OUTPUT_DIR, "history");
-const CACHE_DIR = path.join("tmp", "cwl-cache");
-const BASE_URL = "https://api.clashk.ing";
+const CACHE_DIR = process.env.CWL_CACHE_DIR || path.join("tmp", "cwl-cache");
+const BASE_URL = (process.env.CLASHKING_API_URL || "https://api.clashk.ing").replace(/\/$/, "");
 
 // Rate limiting configuration
 const RATE_LIMIT_DELAY = 400; // 400ms between requests (can be lowered)
@@ -636,6 +624,9 @@ function processPlayerFromWars(
   warsParticipated: number;
   latestName: string | null;
   latestTH: number | null;
+  attackTypes: AttackTypeBreakdown;
+  netStars: number;
+  clutch: ClutchStats;
 } {
   const normalizedPlayerTag = normalizeTag(playerTag);
   const normalizedClanTag = normalizeTag(clanTag);
@@ -651,17 +642,23 @@ function processPlayerFromWars(
   let warsParticipated = 0;
   let latestName: string | null = null;
   let latestTH: number | null = null;
+  const attackTypes = createAttackTypeBreakdown();
+  let netStars = 0;
+  const clutch = createClutchStats();
 
   const participatedWars = new Set<string>();
 
   for (const war of wars) {
     // FIX: Check both clan and opponent sides, as our clan may appear on either side
     let members: RawMember[] = [];
+    let enemies: RawMember[] = [];
 
     if (war.clan && normalizeTag(war.clan.tag ?? "") === normalizedClanTag) {
       members = war.clan.members ?? [];
+      enemies = war.opponent?.members ?? [];
     } else if (war.opponent && normalizeTag(war.opponent.tag ?? "") === normalizedClanTag) {
       members = war.opponent.members ?? [];
+      enemies = war.clan?.members ?? [];
     } else {
       continue;
     }
@@ -680,15 +677,41 @@ function processPlayerFromWars(
     if (member.name) latestName = member.name;
     if (member.townHallLevel) latestTH = member.townHallLevel;
 
+    // Attack types need the defender's TH and map rank from the other side
+    const memberRanks = getMapRanks(members);
+    const enemyRanks = getMapRanks(enemies);
+    const enemiesByTag = new Map(enemies.map((m) => [m.tag, m]));
+
+    // Net stars walk the whole side's attacks in order: only the best hit on a base counts
+    const sideNetStars = getNetStars(members.flatMap((m) => m.attacks ?? []));
+    const clutchAttacks = getClutchAttacks(
+      members.flatMap((m) => m.attacks ?? []),
+      enemies.flatMap((m) => m.attacks ?? []),
+      war.teamSize ?? members.length
+    );
+
     // Process attacks
     const memberAttacks = member.attacks ?? [];
     for (const attack of memberAttacks) {
       const attackStars = attack.stars ?? 0;
       const attackDestruction = attack.destructionPercentage ?? 0;
 
+      const defender = attack.defenderTag ? enemiesByTag.get(attack.defenderTag) : undefined;
+      const attackType = classifyAttack(
+        member.townhallLevel ?? member.townHallLevel,
+        defender?.townhallLevel ?? defender?.townHallLevel,
+        member.tag ? memberRanks.get(member.tag) : undefined,
+        attack.defenderTag ? enemyRanks.get(attack.defenderTag) : undefined
+      );
+      if (attackType) addAttackTypeResult(attackTypes, attackType, attackStars);
+
       attacks++;
       stars += attackStars;
       destruction += attackDestruction;
+      netStars += sideNetStars.get(attack) ?? 0;
+      if (clutchAttacks.has(attack)) {
+        addClutchAttack(clutch, attackStars, sideNetStars.get(attack) ?? 0);
+      }
 
       if (attackStars === 3) {
         triples++;
@@ -714,6 +737,9 @@ function processPlayerFromWars(
     warsParticipated,
     latestName,
     latestTH,
+    attackTypes,
+    netStars,
+    clutch,
   };
 }
 
@@ -760,7 +786,7 @@ async function aggregateAllData(
   const clanMap = new Map<string, ClanStats>();
 
   // Initialize clan stats
-  for (const [name, tag] of Object.entries(FAMILY_CLANS)) {
+  for (const { name, tag } of FAMILY.clans) {
     clanMap.set(normalizeTag(tag), {
       name,
       tag: normalizeTag(tag),
@@ -786,8 +812,8 @@ async function aggregateAllData(
 
     let seasonHasData = false;
 
-    // Process each clan
-    for (const [clanName, clanTag] of Object.entries(FAMILY_CLANS)) {
+    // Process each clan that was part of the family this season
+    for (const { name: clanName, tag: clanTag } of getFamilyClans(season)) {
       const normalizedClanTag = normalizeTag(clanTag);
 
       try {
@@ -884,6 +910,9 @@ async function aggregateAllData(
               clan: clanName,
               clanTag: normalizedClanTag,
               seasons: [],
+              attackTypes: createAttackTypeBreakdown(),
+              netStars: 0,
+              clutch: createClutchStats(),
             };
             playerMap.set(playerTag, player);
           }
@@ -908,6 +937,9 @@ async function aggregateAllData(
             avgDestruction: playerData.attacks > 0 ? playerData.destruction / playerData.attacks : 0,
             warsParticipated: playerData.warsParticipated,
             starBuckets: playerData.starBuckets,
+            netStars: playerData.netStars,
+            netStarRate: getNetStarRate(playerData.netStars, playerData.attacks),
+            clutch: playerData.clutch,
           };
           player.seasons.push(seasonStats);
 
@@ -917,10 +949,13 @@ async function aggregateAllData(
           player.stars += playerData.stars;
           player.destruction += playerData.destruction;
           player.triples += playerData.triples;
+          player.netStars += playerData.netStars;
           player.starBuckets.zeroStars += playerData.starBuckets.zeroStars;
           player.starBuckets.oneStars += playerData.starBuckets.oneStars;
           player.starBuckets.twoStars += playerData.starBuckets.twoStars;
           player.starBuckets.threeStars += playerData.starBuckets.threeStars;
+          mergeAttackTypeBreakdowns(player.attackTypes, playerData.attackTypes);
+          mergeClutchStats(player.clutch, playerData.clutch);
         }
 
         // Update clan stats - use only completed wars for accurate win/loss stats
@@ -1032,7 +1067,7 @@ async function aggregateAllData(
 
   // Build a map of clanTag+season -> leagueName from CSV files
   const leagueTierCache = new Map<string, string>(); // key: clanTag|season -> leagueName
-  const csvDir = path.join("public", "data", "mix csv");
+  const csvDir = path.join(FAMILY_DATA_DIR, "mix csv");
 
   if (fs.existsSync(csvDir)) {
     const csvFiles = fs.readdirSync(csvDir).filter(f => f.endsWith("-clan-war-leagues.csv"));
@@ -1153,7 +1188,7 @@ async function aggregateAllData(
 
     // TIER 5: Also read TH from individual player files as fallback
     log("\nPopulating TH data from individual player files...", "verbose");
-    const playersDir = path.join("public", "data", "players");
+    const playersDir = path.join(FAMILY_DATA_DIR, "players");
     let playerFilesRead = 0;
     let playerThUpdated = 0;
 
@@ -1213,55 +1248,23 @@ async function aggregateAllData(
   for (const player of playerMap.values()) {
     player.avgStars = player.attacks > 0 ? player.stars / player.attacks : 0;
     player.avgDestruction = player.attacks > 0 ? player.destruction / player.attacks : 0;
+    player.netStarRate = getNetStarRate(player.netStars, player.attacks);
 
     // TIER 1: Calculate three-star rate
     player.threeStarRate = player.attacks > 0 ? (player.triples / player.attacks) * 100 : 0;
 
     // TIER 3: Calculate advanced reliability score with weighted components
-    // Formula: (Performance × 0.45) + (Attendance × 0.35) + (LeagueAdj × 0.20)
+    // Formula: (Performance × 0.45) + (Attendance × 0.35) + (LeagueAdj × 0.20), see src/lib/reliability.ts
     {
-      // Performance component (0-100): based on avgStars and threeStarRate
-      // avgStars contribution: (avgStars / 3) * 50  (max 50 points for 3-star average)
-      // threeStarRate contribution: (threeStarRate / 100) * 50  (max 50 points for 100% three-star rate)
-      const avgStarsContrib = (player.avgStars / 3) * 50;
-      const threeStarContrib = (player.threeStarRate / 100) * 50;
-      const performanceScore = Math.min(100, avgStarsContrib + threeStarContrib);
-
-      // Attendance component (0-100): ratio of attacks to wars
-      const attendanceScore = player.wars > 0 ? Math.min(100, (player.attacks / player.wars) * 100) : 0;
-
-      // League adjustment component (0-100): weighted average of league tiers across seasons
-      // Players who competed in higher leagues (Champion I, II, III) get higher scores
-      let totalLeagueScore = 0;
-      let totalLeagueWeight = 0;
-
-      for (const season of player.seasons) {
-        const leagueTier = season.leagueTier;
-        const leagueScore = leagueTier && LEAGUE_TIER_SCORES[leagueTier] !== undefined
-          ? LEAGUE_TIER_SCORES[leagueTier]
-          : DEFAULT_LEAGUE_SCORE;
-
-        // Weight by number of attacks in the season (more active seasons matter more)
-        const weight = season.attacks;
-        totalLeagueScore += leagueScore * weight;
-        totalLeagueWeight += weight;
-      }
-
-      const leagueAdjScore = totalLeagueWeight > 0 ? totalLeagueScore / totalLeagueWeight : DEFAULT_LEAGUE_SCORE;
-
-      // Final weighted reliability score
-      const weightedScore =
-        (performanceScore * RELIABILITY_WEIGHTS.performance) +
-        (attendanceScore * RELIABILITY_WEIGHTS.attendance) +
-        (leagueAdjScore * RELIABILITY_WEIGHTS.leagueAdj);
-
-      player.reliabilityScore = weightedScore;
-      player.reliabilityBreakdown = {
-        performance: Math.round(performanceScore * 100) / 100,
-        attendance: Math.round(attendanceScore * 100) / 100,
-        leagueAdj: Math.round(leagueAdjScore * 100) / 100,
-        weighted: Math.round(weightedScore * 100) / 100,
-      };
+      // League adjustment is weighted by attacks per season (more active seasons matter more)
+      player.reliabilityBreakdown = calculateReliability({
+        avgStars: player.avgStars,
+        threeStarRate: player.threeStarRate,
+        attacks: player.attacks,
+        wars: player.wars,
+        leagues: player.seasons.map((season) => ({ tier: season.leagueTier, attacks: season.attacks })),
+      });
+      player.reliabilityScore = player.reliabilityBreakdown.weighted;
 
       // Calculate league history for projections
       const leagueCounts = new Map<string, { seasons: number; attacks: number }>();
@@ -1401,7 +1404,7 @@ async function aggregateAllData(
       const clansDir = path.join(SEASONS_DIR, season, "clans");
       if (!fs.existsSync(clansDir)) continue;
 
-      for (const clanTag of Object.values(FAMILY_CLANS).map((t) => t.replace("#", "").toUpperCase())) {
+      for (const clanTag of FAMILY.clans.map((c) => stripClanTag(c.tag))) {
         const detailPath = path.join(clansDir, `${clanTag}.json`);
         if (!fs.existsSync(detailPath)) continue;
 
@@ -1474,6 +1477,10 @@ async function aggregateAllData(
     // League history for projections
     primaryLeague: p.primaryLeague,
     leagueHistory: p.leagueHistory,
+    attackTypes: p.attackTypes,
+    netStars: p.netStars,
+    netStarRate: Math.round((p.netStarRate ?? 0) * 100) / 100,
+    clutch: p.clutch,
   }));
 
   fs.writeFileSync(
@@ -1483,6 +1490,8 @@ async function aggregateAllData(
   log(`  ✓ Written players.json (${players.length} players)`);
 
   // Write family.json
+  // Clans that have left the family keep their historical stats but get rank -1 (inactive)
+  let nextRank = 1;
   const familyStats = {
     generatedAt: new Date().toISOString(),
     currentSeason: getCurrentSeason(),
@@ -1492,10 +1501,10 @@ async function aggregateAllData(
     totalAttacks: Array.from(clanMap.values()).reduce((sum, c) => sum + c.attacks, 0),
     clans: Array.from(clanMap.values())
       .sort((a, b) => b.stars - a.stars)
-      .map((c, i) => ({
+      .map((c) => ({
         name: c.name,
         tag: c.tag,
-        rank: i + 1,
+        rank: isFamilyClan(c.tag) ? nextRank++ : -1,
         stars: c.stars,
         destruction: Math.round(c.destruction * 100) / 100,
         attacks: c.attacks,
@@ -1628,14 +1637,18 @@ Examples:
   npx tsx scripts/aggregate-all-seasons.ts --refresh --start=2021-11
 
 Output Files:
-  public/data/players.json         - Complete player statistics across all seasons
-  public/data/family.json          - Family-wide aggregated statistics
-  public/data/clans/*.json         - Individual clan files with player data
+  public/data/<family>/players.json         - Complete player statistics across all seasons
+  public/data/<family>/family.json          - Family-wide aggregated statistics
+  public/data/<family>/clans/*.json         - Individual clan files with player data
 
 Rate Limiting:
   - \${RATE_LIMIT_DELAY}ms delay between requests
   - \${MAX_RETRIES} retries with exponential backoff
   - Cached responses to minimize API calls
+
+Environment:
+  CLASHKING_API_URL   ClashK.ing base URL (default: https://api.clashk.ing)
+  CWL_CACHE_DIR       Response cache directory (default: tmp/cwl-cache)
 `);
 }
 
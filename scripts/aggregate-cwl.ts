@@ -18,14 +18,18 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { FAMILY_DATA_DIR } from '../src/lib/family';
+import { calculateReliability } from '../src/lib/reliability';
+import type { ReliabilityBreakdown } from '../src/lib/types';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CWL_CACHE_DIR = process.env.CWL_CACHE_DIR || path.join(__dirname, '../tmp/cwl-cache');
 
 // ============================================================================
 // League CSV Cache (for populating league tier per clan/season)
 // ============================================================================
 
-const CSV_DIR = path.join(__dirname, '../public/data/mix csv');
+const CSV_DIR = path.join(__dirname, '..', FAMILY_DATA_DIR, 'mix csv');
 
 interface LeagueCacheEntry {
   tier: string;
@@ -88,13 +92,6 @@ interface StarBuckets {
   threeStars: number;
 }
 
-interface ReliabilityBreakdown {
-  performance: number;
-  attendance: number;
-  leagueAdj: number;
-  weighted: number;
-}
-
 interface PlayerSeasonStats {
   playerTag: string;
   playerName: string;
@@ -196,32 +193,6 @@ interface RawCWLData {
   warTags?: RawWar[];
 }
 
-// ============================================================================
-// League tier scores for reliability calculation
-// ============================================================================
-
-const LEAGUE_TIER_SCORES: Record<string, number> = {
-  'Champion League I': 100,
-  'Champion League II': 90,
-  'Champion League III': 80,
-  'Master League I': 70,
-  'Master League II': 60,
-  'Master League III': 50,
-  'Crystal League I': 40,
-  'Crystal League II': 35,
-  'Crystal League III': 30,
-  'Gold League I': 25,
-  'Gold League II': 20,
-  'Gold League III': 15,
-};
-const DEFAULT_LEAGUE_SCORE = 50;
-
-const RELIABILITY_WEIGHTS = {
-  performance: 0.45,
-  attendance: 0.35,
-  leagueAdj: 0.20,
-};
-
 // ============================================================================
 // Utilities
 // ============================================================================
@@ -302,45 +273,6 @@ function createEmptyPlayer(
   };
 }
 
-function calculateReliabilityBreakdown(
-  avgStars: number,
-  threeStarRate: number,
-  attacks: number,
-  wars: number,
-  leagueHistory?: { leagueTier: string; attacksInLeague: number }[]
-): ReliabilityBreakdown {
-  // Performance: based on avgStars and threeStarRate
-  const performanceScore = ((avgStars / 3) * 50) + ((threeStarRate / 100) * 50);
-
-  // Attendance: attacks / expected attacks (CWL = 1 attack per war)
-  const attendanceScore = wars > 0 ? Math.min(100, (attacks / wars) * 100) : 0;
-
-  // League adjustment: weighted average based on attacks in each league
-  let leagueAdjScore = DEFAULT_LEAGUE_SCORE;
-  if (leagueHistory && leagueHistory.length > 0) {
-    const totalAttacks = leagueHistory.reduce((sum, l) => sum + l.attacksInLeague, 0);
-    if (totalAttacks > 0) {
-      leagueAdjScore = leagueHistory.reduce((sum, l) => {
-        const tierScore = LEAGUE_TIER_SCORES[l.leagueTier] ?? DEFAULT_LEAGUE_SCORE;
-        return sum + (tierScore * l.attacksInLeague);
-      }, 0) / totalAttacks;
-    }
-  }
-
-  // Weighted final score
-  const weighted =
-    (performanceScore * RELIABILITY_WEIGHTS.performance) +
-    (attendanceScore * RELIABILITY_WEIGHTS.attendance) +
-    (leagueAdjScore * RELIABILITY_WEIGHTS.leagueAdj);
-
-  return {
-    performance: Math.round(performanceScore * 100) / 100,
-    attendance: Math.round(attendanceScore * 100) / 100,
-    leagueAdj: Math.round(leagueAdjScore * 100) / 100,
-    weighted: Math.round(weighted * 100) / 100,
-  };
-}
-
 function calculatePerformanceTrend(seasons: PlayerSeasonStats[]): 'improving' | 'stable' | 'declining' | undefined {
   if (seasons.length < 2) return undefined;
 
@@ -369,7 +301,7 @@ function calculatePerformanceTrend(seasons: PlayerSeasonStats[]): 'improving' |
 // ============================================================================
 
 function aggregateCWLData(leagueCache: Map<string, LeagueCacheEntry>): Map<string, AggregatedPlayer> {
-  const cacheDir = path.join(__dirname, '../tmp/cwl-cache');
+  const cacheDir = CWL_CACHE_DIR;
   const playerMap = new Map<string, AggregatedPlayer>();
 
   if (!fs.existsSync(cacheDir)) {
@@ -633,13 +565,13 @@ function aggregateCWLData(leagueCache: Map<string, LeagueCacheEntry>): Map<strin
     }
 
     // Reliability score
-    player.reliabilityBreakdown = calculateReliabilityBreakdown(
-      player.avgStars,
-      player.threeStarRate,
-      player.totalAttacks,
-      player.totalWars,
-      player.leagueHistory
-    );
+    player.reliabilityBreakdown = calculateReliability({
+      avgStars: player.avgStars,
+      threeStarRate: player.threeStarRate,
+      attacks: player.totalAttacks,
+      wars: player.totalWars,
+      leagues: player.leagueHistory.map(l => ({ tier: l.leagueTier, attacks: l.attacksInLeague })),
+    });
     player.reliabilityScore = player.reliabilityBreakdown.weighted;
   }
 
@@ -658,7 +590,7 @@ async function main() {
   console.log(`✓ Aggregated ${players.length} unique players\n`);
 
   // Save to players-aggregated.json
-  const outputPath = path.join(__dirname, '../public/data/players-aggregated.json');
+  const outputPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players-aggregated.json');
   fs.writeFileSync(outputPath, JSON.stringify(players, null, 2));
   console.log(`✓ Saved ${outputPath}\n`);
 
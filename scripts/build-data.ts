@@ -4,9 +4,9 @@
  *
  * @remarks
  * This script reads from `data-src/cwl-stats.xlsx` and generates:
- * - `public/data/family.json` - Summary of all clans with total stars
- * - `public/data/clans/{tag}.json` - Individual clan data with player rosters
- * - `public/data/players.json` - Combined player statistics across all clans
+ * - `public/data/<family>/family.json` - Summary of all clans with total stars
+ * - `public/data/<family>/clans/{tag}.json` - Individual clan data with player rosters
+ * - `public/data/<family>/players.json` - Combined player statistics across all clans
  *
  * The Excel file is expected to have:
  * - Ranking sheets named "Ranking - {ClanName}" with clan standings
@@ -21,9 +21,10 @@
 import ExcelJS from "exceljs";
 import fs from "node:fs";
 import path from "node:path";
+import { FAMILY_DATA_DIR, getFamilyClans } from "../src/lib/family";
 
 const SRC_DIR = "data-src";
-const OUT_DIR = "public/data";
+const OUT_DIR = FAMILY_DATA_DIR;
 fs.mkdirSync(path.join(OUT_DIR, "clans"), { recursive: true });
 
 type LeagueInfo = { tier: string; group: number | null };
@@ -45,15 +46,8 @@ type PlayerRow = {
   };
 };
 
-// CoC Masters PL family clans:
-// - coc masters PL (#P0J2J8GJ) - main clan
-// - Akademia CoC PL (#JPRPRVUY) - academy
-// - Psychole! (#29RYVJ8C8) - training
-const CLANS: Record<string, string> = {
-  "coc masters PL": "#P0J2J8GJ",
-  "Akademia CoC PL": "#JPRPRVUY",
-  "Psychole!": "#29RYVJ8C8",
-};
+// Current family clans from config/family.json
+const CLANS = getFamilyClans();
 
 const cwlPath = path.join(SRC_DIR, "cwl-stats.xlsx");
 if (!fs.existsSync(cwlPath)) {
@@ -196,7 +190,7 @@ function getLeagueForClan(clanTag: string): LeagueInfo | null {
 const family: ClanRow[] = [];
 const playersAll: (PlayerRow & { clan: string; clanTag: string })[] = [];
 
-for (const [name, tag] of Object.entries(CLANS)) {
+for (const { name, tag } of CLANS) {
   const cs = clanStanding(name, tag);
   const league = getLeagueForClan(tag);
 
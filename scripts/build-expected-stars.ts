@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Fits the expected-stars baseline from all war timelines.
+ *
+ * @description Every attack in the war files (both sides) is a sample for the
+ * (attacker TH, defender TH, league tier) bucket it falls in; the fitting itself
+ * lives in `src/lib/expectedStars.ts`. The script also sums each family member's
+ * career stars above expected, which the players leaderboard shows.
+ *
+ * @remarks
+ * - Input: War timeline files from `public/data/<family>/history/seasons/<season>/clans/<clanTag>/wars/*.json`
+ *   and league tiers from the league CSVs
+ * - Output: `public/data/<family>/expected-stars.json`
+ * - Runs before build-season-clan-details.ts, which uses the baseline for per-season values
+ *
+ * @example
+ * ```bash
+ * npx tsx scripts/build-expected-stars.ts
+ * ```
+ *
+ * @module build-expected-stars
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  addExpectedStarsAttack,
+  EXPECTED_STARS_MODEL_ID,
+  EXPECTED_STARS_PRIOR_WEIGHT,
+  fitExpectedStarsModel,
+  getExpectedStars,
+  type ExpectedStarsSample,
+} from '../src/lib/expectedStars'
+import { FAMILY_DATA_DIR, getFamilyClanTags } from '../src/lib/family'
+import type { ExpectedStarsModel, StarsAboveExpected, WarTimeline } from '../src/lib/types'
+import { buildLeagueTierCache, resolveLeagueTier, type LeagueTierCache } from './lib/league-csv'
+
+const HISTORY_DIR = path.join(FAMILY_DATA_DIR, 'history', 'seasons')
+const OUTPUT_PATH = path.join(FAMILY_DATA_DIR, 'expected-stars.json')
+
+interface SeasonClanWars {
+  leagueTier: string | null
+  wars: WarTimeline[]
+}
+
+function loadWars(leagueCache: LeagueTierCache): SeasonClanWars[] {
+  const seasons = fs.readdirSync(HISTORY_DIR, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .map(dirent => dirent.name)
+    .sort()
+
+  const result: SeasonClanWars[] = []
+  for (const season of seasons) {
+    for (const clanTag of getFamilyClanTags(season)) {
+      const warsDir = path.join(HISTORY_DIR, season, 'clans', clanTag, 'wars')
+      if (!fs.existsSync(warsDir)) continue
+
+      const wars: WarTimeline[] = []
+      for (const warFile of fs.readdirSync(warsDir).filter(f => f.endsWith('.json'))) {
+        try {
+          wars.push(JSON.parse(fs.readFileSync(path.join(warsDir, warFile), 'utf8')))
+        } catch (err) {
+          console.warn(`  Warning: Failed to parse ${season}/${clanTag}/${warFile}:`, err)
+        }
+      }
+
+      result.push({ leagueTier: resolveLeagueTier(leagueCache, season, clanTag), wars })
+    }
+  }
+  return result
+}
+
+function main() {
+  if (!fs.existsSync(HISTORY_DIR)) {
+    console.log(`[build-expected-stars] No history directory found at ${HISTORY_DIR}`)
+    process.exit(0)
+  }
+
+  const clanSeasons = loadWars(buildLeagueTierCache())
+
+  const samples: ExpectedStarsSample[] = clanSeasons.flatMap(({ leagueTier, wars }) =>
+    wars.flatMap(war => war.attackTimeline.map(attack => ({
+      attackerTH: attack.attackerTH,
+      defenderTH: attack.defenderTH,
+      leagueTier,
+      stars: attack.stars,
+    })))
+  )
+  const baseline = fitExpectedStarsModel(samples)
+
+  // Career totals over the same attacks build-season-clan-details counts per season
+  const totals = new Map<string, StarsAboveExpected>()
+  for (const { leagueTier, wars } of clanSeasons) {
+    for (const war of wars) {
+      for (const member of war.clan.members) {
+        for (const attack of member.attacks ?? []) {
+          const total = totals.get(member.tag) ?? { attacks: 0, expectedStars: 0, starsAboveExpected: 0 }
+          addExpectedStarsAttack(total, attack.stars, getExpectedStars(baseline, attack.attackerTH, attack.defenderTH, leagueTier))
+          totals.set(member.tag, total)
+        }
+      }
+    }
+  }
+
+  const players: Record<string, StarsAboveExpected> = {}
+  for (const [tag, total] of totals) {
+    players[tag] = {
+      attacks: total.attacks,
+      expectedStars: Number(total.expectedStars.toFixed(2)),
+      starsAboveExpected: Number(total.starsAboveExpected.toFixed(2)),
+    }
+  }
+
+  const model: ExpectedStarsModel = {
+    generatedAt: new Date().toISOString(),
+    model: EXPECTED_STARS_MODEL_ID,
+    priorWeight: EXPECTED_STARS_PRIOR_WEIGHT,
+    ...baseline,
+    players,
+  }
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(model, null, 2), 'utf8')
+
+  console.log(`[build-expected-stars] Fitted on ${baseline.global.attacks} attacks (avg ${baseline.global.avgStars}★)`)
+  console.log(`  TH pairs: ${Object.keys(baseline.thPairs).length}, league buckets: ${Object.keys(baseline.buckets).length}`)
+  console.log(`  Players: ${totals.size}`)
+  console.log(`  Written ${OUTPUT_PATH}`)
+}
+
+main()
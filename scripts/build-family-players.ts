@@ -1,7 +1,7 @@
 /**
  * Build consolidated family-only players file with ALL statistics.
- * Input: public/data/players-aggregated.json (from aggregate-cwl.ts)
- * Output: public/data/players-full.json
+ * Input: public/data/<family>/players-aggregated.json (from aggregate-cwl.ts)
+ * Output: public/data/<family>/players-full.json
  * 
  * This file includes:
  * - Full player stats (stars, attacks, destruction)
@@ -15,12 +15,10 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { FAMILY_DATA_DIR, isFamilyClan } from '../src/lib/family';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-// CoC Masters PL family clan tags (without # prefix)
-const FAMILY_CLAN_TAGS = ['P0J2J8GJ', 'JPRPRVUY', '29RYVJ8C8'];
-
 interface StarBuckets {
   zeroStars: number;
   oneStars: number;
@@ -175,7 +173,7 @@ interface FamilyPlayerOutput {
 }
 
 async function main() {
-  const aggregatedPath = path.join(__dirname, '../public/data/players-aggregated.json');
+  const aggregatedPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players-aggregated.json');
   if (!fs.existsSync(aggregatedPath)) {
     console.error('Missing aggregated file at', aggregatedPath);
     console.error('Run: npx tsx scripts/aggregate-cwl.ts first');
@@ -188,9 +186,9 @@ async function main() {
   const familyPlayers: FamilyPlayerOutput[] = [];
 
   for (const p of players) {
-    // Filter to only family clan seasons
+    // Filter to only seasons played for a family clan while it was in the family
     const familySeasons = (p.allSeasons || []).filter(s => 
-      FAMILY_CLAN_TAGS.includes((s.clanTag || '').replace('#', ''))
+      isFamilyClan(s.clanTag || '', s.season)
     );
     
     if (familySeasons.length === 0) continue;
@@ -308,7 +306,7 @@ async function main() {
   // Sort by total stars (best performers first)
   familyPlayers.sort((a, b) => b.totals.stars - a.totals.stars);
 
-  const outPath = path.join(__dirname, '../public/data/players-full.json');
+  const outPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players-full.json');
   fs.writeFileSync(outPath, JSON.stringify(familyPlayers, null, 2));
   
   console.log(`\n✓ Wrote ${familyPlayers.length} family players → ${outPath}`);
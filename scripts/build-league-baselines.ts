@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Builds the per-league opponent baselines the promotion simulator samples from.
+ *
+ * @description Every CWL group in the cache shares one league, so its wars tell
+ * what an average clan of that league scores. For each league tier the script
+ * collects, over the ended wars of the non-family clans, the star distribution
+ * of single attacks and a histogram of total war stars per war size.
+ *
+ * @remarks
+ * - Input: CWL cache files from `tmp/cwl-cache/` in format `{clanTag}-{season}.json`
+ *   and league tiers from the league CSVs
+ * - Output: `public/data/<family>/league-baselines.json`
+ * - Groups whose league can't be resolved are skipped
+ *
+ * @example
+ * ```bash
+ * npx tsx scripts/build-league-baselines.ts
+ * ```
+ *
+ * @module build-league-baselines
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { FAMILY_DATA_DIR, isFamilyClan, stripClanTag } from '../src/lib/family'
+import type { LeagueBaseline, LeagueBaselines } from '../src/lib/types'
+import { buildLeagueTierCache, resolveLeagueTier } from './lib/league-csv'
+
+const CWL_CACHE_DIR = process.env.CWL_CACHE_DIR || path.join('tmp', 'cwl-cache')
+const OUTPUT_PATH = path.join(FAMILY_DATA_DIR, 'league-baselines.json')
+
+interface CWLCacheFile {
+  state: string
+  season: string
+  rounds: Array<{
+    warTags: Array<CWLWarData | string>
+  }>
+}
+
+interface CWLWarData {
+  state: string
+  teamSize: number
+  clan: CWLWarSide
+  opponent: CWLWarSide
+}
+
+interface CWLWarSide {
+  tag: string
+  stars: number
+  members: Array<{
+    attacks?: Array<{ stars: number }>
+  }>
+}
+
+function createBaseline(): LeagueBaseline {
+  return {
+    warSides: 0,
+    attackBuckets: { zeroStars: 0, oneStars: 0, twoStars: 0, threeStars: 0 },
+    warStars: {},
+  }
+}
+
+function addWarSide(baseline: LeagueBaseline, side: CWLWarSide, teamSize: number): void {
+  baseline.warSides++
+
+  for (const member of side.members) {
+    for (const attack of member.attacks ?? []) {
+      if (attack.stars === 3) baseline.attackBuckets.threeStars++
+      else if (attack.stars === 2) baseline.attackBuckets.twoStars++
+      else if (attack.stars === 1) baseline.attackBuckets.oneStars++
+      else baseline.attackBuckets.zeroStars++
+    }
+  }
+
+  // Histogram index = war stars, grown as needed (a war tops out at teamSize * 3)
+  const histogram = baseline.warStars[teamSize] ??= []
+  while (histogram.length <= side.stars) histogram.push(0)
+  histogram[side.stars]++
+}
+
+function main() {
+  if (!fs.existsSync(CWL_CACHE_DIR)) {
+    console.log(`[build-league-baselines] No CWL cache found at ${CWL_CACHE_DIR}`)
+    process.exit(0)
+  }
+
+  const leagueCache = buildLeagueTierCache()
+  const tiers: Record<string, LeagueBaseline> = {}
+  // Two family clans can land in one group: count each war once
+  const seenWars = new Set<string>()
+  let groups = 0
+
+  const files = fs.readdirSync(CWL_CACHE_DIR)
+    .map(file => file.match(/^([A-Z0-9]+)-(\d{4}-\d{2})\.json$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+
+  for (const [file, clanTag, season] of files) {
+    const leagueTier = resolveLeagueTier(leagueCache, season, clanTag)
+    if (!leagueTier) {
+      console.warn(`  Warning: No league for ${clanTag} in ${season}, skipping`)
+      continue
+    }
+
+    let cwlData: CWLCacheFile
+    try {
+      cwlData = JSON.parse(fs.readFileSync(path.join(CWL_CACHE_DIR, file), 'utf8'))
+    } catch (err) {
+      console.warn(`  Warning: Failed to parse ${file}:`, err)
+      continue
+    }
+
+    const baseline = tiers[leagueTier] ??= createBaseline()
+    let warsAdded = 0
+
+    for (const round of cwlData.rounds ?? []) {
+      for (const war of round.warTags) {
+        // Unfetched wars are plain tags; only finished wars have final scores
+        if (typeof war === 'string' || war.state !== 'warEnded') continue
+
+        const warKey = `${season}|${[war.clan.tag, war.opponent.tag].sort().join('|')}`
+        if (seenWars.has(warKey)) continue
+        seenWars.add(warKey)
+        warsAdded++
+
+        for (const side of [war.clan, war.opponent]) {
+          if (isFamilyClan(stripClanTag(side.tag), season)) continue
+          addWarSide(baseline, side, war.teamSize)
+        }
+      }
+    }
+
+    if (warsAdded > 0) groups++
+  }
+
+  for (const [tier, baseline] of Object.entries(tiers)) {
+    if (baseline.warSides === 0) delete tiers[tier]
+  }
+
+  const output: LeagueBaselines = {
+    generatedAt: new Date().toISOString(),
+    groups,
+    tiers,
+  }
+
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output, null, 2))
+  console.log(`[build-league-baselines] ${groups} groups, ${Object.keys(tiers).length} league tiers → ${OUTPUT_PATH}`)
+  for (const [tier, baseline] of Object.entries(tiers)) {
+    console.log(`  ${tier}: ${baseline.warSides} war sides`)
+  }
+}
+
+main()
@@ -0,0 +1,376 @@
+/**
+ * @fileoverview Builds scouting reports for every opponent in the family clans' CWL groups.
+ *
+ * @description The CWL cache holds every war of a group, including the wars between
+ * the other seven clans, while build-war-timelines only keeps the ones we played.
+ * This script profiles each opponent from its wars against the rest of the group
+ * (the war against the family clan is left out): roster TH spread, per-member
+ * attack and defense stats, the weakest defenders and who habitually attacks first.
+ *
+ * @remarks
+ * - Input: CWL cache files from `tmp/cwl-cache/` in format `{clanTag}-{season}.json`
+ * - Output: `public/data/<family>/history/seasons/<season>/opponents/<opponentTag>.json`
+ * - Output: `public/data/<family>/history/scouting.json`, the opponents with a report per season,
+ *   so the app only links those
+ * - Only the current season (the latest one in the cache) is scouted; pass
+ *   `--season=YYYY-MM` to build another one. Reports of earlier seasons are kept
+ *
+ * @example
+ * ```bash
+ * npx tsx scripts/build-opponent-scouting.ts
+ * npx tsx scripts/build-opponent-scouting.ts --season=2025-11
+ * ```
+ *
+ * @module build-opponent-scouting
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  addAttackTypeResult,
+  classifyAttack,
+  createAttackTypeBreakdown,
+  getMapRanks,
+} from '../src/lib/attackTypes'
+import { FAMILY_DATA_DIR, isFamilyClan, stripClanTag } from '../src/lib/family'
+import type { OpponentScoutingReport, ScoutingIndex, ScoutingMember } from '../src/lib/types'
+
+const CWL_CACHE_DIR = process.env.CWL_CACHE_DIR || path.join('tmp', 'cwl-cache')
+const HISTORY_DIR = path.join(FAMILY_DATA_DIR, 'history', 'seasons')
+const INDEX_PATH = path.join(FAMILY_DATA_DIR, 'history', 'scouting.json')
+
+// Defenders with fewer defenses than this are too noisy to call weak
+const MIN_DEFENSES = 2
+const WEAKEST_DEFENDERS = 5
+
+interface CWLCacheFile {
+  state: string
+  season: string
+  clans: Array<{
+    tag: string
+    name: string
+    clanLevel: number
+    members: Array<{
+      tag: string
+      name: string
+      townHallLevel: number
+    }>
+  }>
+  rounds: Array<{
+    warTags: Array<CWLWarData | string>
+  }>
+}
+
+interface CWLWarData {
+  state: string
+  clan: CWLWarSide
+  opponent: CWLWarSide
+}
+
+interface CWLWarSide {
+  tag: string
+  name: string
+  clanLevel: number
+  stars: number
+  destructionPercentage: number
+  members: Array<{
+    tag: string
+    name: string
+    townhallLevel: number
+    mapPosition: number
+    attacks?: Array<{
+      attackerTag: string
+      defenderTag: string
+      stars: number
+      destructionPercentage: number
+      order: number
+    }>
+  }>
+}
+
+interface MemberTotals {
+  member: ScoutingMember
+  mapRankTotal: number
+  destructionTotal: number
+  destructionAllowedTotal: number
+  timingTotal: number
+  timingSamples: number
+}
+
+function parseSeasonArg(): string | null {
+  const arg = process.argv.find(a => a.startsWith('--season='))
+  return arg ? arg.replace('--season=', '') : null
+}
+
+/**
+ * Family clan cache files of one season, keyed by clan tag
+ */
+function findSeasonCacheFiles(season: string | null): { season: string; files: Map<string, string> } | null {
+  const entries = fs.readdirSync(CWL_CACHE_DIR)
+    .map(file => file.match(/^([A-Z0-9]+)-(\d{4}-\d{2})\.json$/))
+    .filter((match): match is RegExpMatchArray => !!match && isFamilyClan(match[1], match[2]))
+
+  const target = season ?? entries.map(match => match[2]).sort().pop()
+  if (!target) return null
+
+  const files = new Map<string, string>()
+  for (const [file, clanTag, fileSeason] of entries) {
+    if (fileSeason === target) files.set(clanTag, path.join(CWL_CACHE_DIR, file))
+  }
+  return { season: target, files }
+}
+
+function createMemberTotals(tag: string, name: string, townHallLevel: number | null): MemberTotals {
+  return {
+    member: {
+      tag,
+      name,
+      townHallLevel,
+      warsPlayed: 0,
+      avgMapRank: null,
+      attacks: 0,
+      stars: 0,
+      triples: 0,
+      avgStars: 0,
+      avgDestruction: 0,
+      defenses: 0,
+      starsAllowed: 0,
+      triplesAllowed: 0,
+      avgStarsAllowed: 0,
+      avgDestructionAllowed: 0,
+      avgAttackTiming: null,
+    },
+    mapRankTotal: 0,
+    destructionTotal: 0,
+    destructionAllowedTotal: 0,
+    timingTotal: 0,
+    timingSamples: 0,
+  }
+}
+
+function buildReport(
+  cwlData: CWLCacheFile,
+  familyClanTag: string,
+  opponent: CWLCacheFile['clans'][number]
+): OpponentScoutingReport {
+  const familyClan = cwlData.clans.find(c => stripClanTag(c.tag) === familyClanTag)
+  const totals = new Map<string, MemberTotals>()
+  for (const m of opponent.members) {
+    totals.set(m.tag, createMemberTotals(m.tag, m.name, m.townHallLevel || null))
+  }
+
+  const attackTypes = createAttackTypeBreakdown()
+  const record = { wins: 0, losses: 0, ties: 0, stars: 0, starsAllowed: 0 }
+  let warsScouted = 0
+
+  for (const round of cwlData.rounds) {
+    for (const war of round.warTags) {
+      // Unfetched wars are plain tags; wars in preparation have no attacks yet
+      if (typeof war === 'string' || war.state === 'preparation') continue
+
+      const ownSide = war.clan.tag === opponent.tag ? war.clan : war.opponent.tag === opponent.tag ? war.opponent : null
+      if (!ownSide) continue
+      const enemySide = ownSide === war.clan ? war.opponent : war.clan
+      if (stripClanTag(enemySide.tag) === familyClanTag) continue
+
+      warsScouted++
+      record.stars += ownSide.stars
+      record.starsAllowed += enemySide.stars
+      if (ownSide.stars !== enemySide.stars) {
+        if (ownSide.stars > enemySide.stars) record.wins++
+        else record.losses++
+      } else if (ownSide.destructionPercentage !== enemySide.destructionPercentage) {
+        if (ownSide.destructionPercentage > enemySide.destructionPercentage) record.wins++
+        else record.losses++
+      } else {
+        record.ties++
+      }
+
+      const ownRanks = getMapRanks(ownSide.members)
+      const enemyRanks = getMapRanks(enemySide.members)
+      const enemyTH = new Map(enemySide.members.map(m => [m.tag, m.townhallLevel]))
+
+      // Attack timing: position of each attack among the clan's attacks in this war
+      const ownAttacks = ownSide.members
+        .flatMap(m => m.attacks ?? [])
+        .sort((a, b) => a.order - b.order)
+      const timing = new Map(ownAttacks.map((attack, i) => [
+        attack.order,
+        ownAttacks.length > 1 ? (i / (ownAttacks.length - 1)) * 100 : 0,
+      ]))
+
+      for (const m of ownSide.members) {
+        let entry = totals.get(m.tag)
+        if (!entry) {
+          // Joined the lineup without being in the registered roster snapshot
+          entry = createMemberTotals(m.tag, m.name, m.townhallLevel || null)
+          totals.set(m.tag, entry)
+        }
+        entry.member.warsPlayed++
+        entry.mapRankTotal += ownRanks.get(m.tag) ?? 0
+        if (m.townhallLevel) entry.member.townHallLevel = m.townhallLevel
+
+        for (const attack of m.attacks ?? []) {
+          entry.member.attacks++
+          entry.member.stars += attack.stars
+          if (attack.stars === 3) entry.member.triples++
+          entry.destructionTotal += attack.destructionPercentage
+          entry.timingTotal += timing.get(attack.order) ?? 0
+          entry.timingSamples++
+
+          const attackType = classifyAttack(
+            m.townhallLevel,
+            enemyTH.get(attack.defenderTag),
+            ownRanks.get(m.tag),
+            enemyRanks.get(attack.defenderTag)
+          )
+          if (attackType) addAttackTypeResult(attackTypes, attackType, attack.stars)
+        }
+      }
+
+      for (const enemy of enemySide.members) {
+        for (const attack of enemy.attacks ?? []) {
+          const entry = totals.get(attack.defenderTag)
+          if (!entry) continue
+          entry.member.defenses++
+          entry.member.starsAllowed += attack.stars
+          if (attack.stars === 3) entry.member.triplesAllowed++
+          entry.destructionAllowedTotal += attack.destructionPercentage
+        }
+      }
+    }
+  }
+
+  const members = Array.from(totals.values()).map(entry => {
+    const m = entry.member
+    return {
+      ...m,
+      avgMapRank: m.warsPlayed > 0 ? Number((entry.mapRankTotal / m.warsPlayed).toFixed(1)) : null,
+      avgStars: m.attacks > 0 ? Number((m.stars / m.attacks).toFixed(2)) : 0,
+      avgDestruction: m.attacks > 0 ? Number((entry.destructionTotal / m.attacks).toFixed(1)) : 0,
+      avgStarsAllowed: m.defenses > 0 ? Number((m.starsAllowed / m.defenses).toFixed(2)) : 0,
+      avgDestructionAllowed: m.defenses > 0 ? Number((entry.destructionAllowedTotal / m.defenses).toFixed(1)) : 0,
+      avgAttackTiming: entry.timingSamples > 0 ? Math.round(entry.timingTotal / entry.timingSamples) : null,
+    }
+  })
+
+  // Lineup order first, bench (never played) by TH at the end
+  members.sort((a, b) =>
+    (a.avgMapRank ?? Infinity) - (b.avgMapRank ?? Infinity) ||
+    (b.townHallLevel ?? 0) - (a.townHallLevel ?? 0)
+  )
+
+  const weakestDefenders = members
+    .filter(m => m.defenses >= MIN_DEFENSES)
+    .sort((a, b) =>
+      b.avgStarsAllowed - a.avgStarsAllowed ||
+      b.triplesAllowed / b.defenses - a.triplesAllowed / a.defenses ||
+      b.avgDestructionAllowed - a.avgDestructionAllowed
+    )
+    .slice(0, WEAKEST_DEFENDERS)
+    .map(m => m.tag)
+
+  const attackOrder = members
+    .filter(m => m.avgAttackTiming !== null)
+    .sort((a, b) => (a.avgAttackTiming ?? 0) - (b.avgAttackTiming ?? 0))
+    .map(m => m.tag)
+
+  return {
+    generatedAt: new Date().toISOString(),
+    season: cwlData.season,
+    opponent: {
+      tag: opponent.tag,
+      name: opponent.name,
+      clanLevel: opponent.clanLevel,
+    },
+    familyClan: {
+      tag: familyClan?.tag ?? `#${familyClanTag}`,
+      name: familyClan?.name ?? familyClanTag,
+    },
+    warsScouted,
+    record,
+    attackTypes,
+    members,
+    weakestDefenders,
+    attackOrder,
+  }
+}
+
+/**
+ * Index every report on disk, including those kept from earlier seasons
+ */
+function writeScoutingIndex(): void {
+  const seasons: Record<string, string[]> = {}
+  const seasonDirs = fs.readdirSync(HISTORY_DIR, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .map(dirent => dirent.name)
+    .sort()
+
+  for (const season of seasonDirs) {
+    const opponentsDir = path.join(HISTORY_DIR, season, 'opponents')
+    if (!fs.existsSync(opponentsDir)) continue
+    const tags = fs.readdirSync(opponentsDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.replace(/\.json$/, ''))
+      .sort()
+    if (tags.length > 0) seasons[season] = tags
+  }
+
+  const index: ScoutingIndex = { generatedAt: new Date().toISOString(), seasons }
+  fs.writeFileSync(INDEX_PATH, JSON.stringify(index, null, 2), 'utf8')
+  console.log(`[build-opponent-scouting] Indexed reports of ${Object.keys(seasons).length} season(s) in ${INDEX_PATH}`)
+}
+
+function main() {
+  if (!fs.existsSync(CWL_CACHE_DIR)) {
+    console.log(`[build-opponent-scouting] No CWL cache directory found at ${CWL_CACHE_DIR}`)
+    process.exit(0)
+  }
+
+  const seasonFiles = findSeasonCacheFiles(parseSeasonArg())
+  if (!seasonFiles || seasonFiles.files.size === 0) {
+    console.log('[build-opponent-scouting] No family cache files for the requested season')
+    process.exit(0)
+  }
+
+  const { season, files } = seasonFiles
+  const outputDir = path.join(HISTORY_DIR, season, 'opponents')
+  let written = 0
+
+  for (const [familyClanTag, cacheFile] of files) {
+    let cwlData: CWLCacheFile
+    try {
+      cwlData = JSON.parse(fs.readFileSync(cacheFile, 'utf8'))
+    } catch (err) {
+      console.error(`[build-opponent-scouting] Error reading ${cacheFile}:`, err)
+      continue
+    }
+
+    if (!cwlData.clans || !cwlData.rounds) {
+      console.log(`[build-opponent-scouting] No group data in ${path.basename(cacheFile)}`)
+      continue
+    }
+
+    fs.mkdirSync(outputDir, { recursive: true })
+    let scouted = 0
+    for (const clan of cwlData.clans) {
+      if (isFamilyClan(clan.tag, season)) continue
+
+      const report = buildReport(cwlData, familyClanTag, clan)
+      fs.writeFileSync(
+        path.join(outputDir, `${stripClanTag(clan.tag)}.json`),
+        JSON.stringify(report, null, 2),
+        'utf8'
+      )
+      scouted++
+    }
+    written += scouted
+    console.log(`[build-opponent-scouting] Scouted ${scouted} opponents in the group of #${familyClanTag}`)
+  }
+
+  console.log(`[build-opponent-scouting] Written ${written} reports for ${season} to ${outputDir}`)
+
+  writeScoutingIndex()
+}
+
+main()
@@ -15,7 +15,7 @@
  * 3. Extracts player tags from clan rosters
  * 4. Builds an index mapping player tags to their season/clan entries
  * 5. Sorts each player's entries chronologically (newest first)
- * 6. Saves the index to `public/data/player-seasons-index.json`
+ * 6. Saves the index to `public/data/<family>/player-seasons-index.json`
  * 
  * @returns A promise that resolves when the index has been built and saved
  * 
@@ -48,6 +48,7 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'url';
+import { FAMILY_DATA_DIR } from '../src/lib/family';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -61,7 +62,7 @@ type PlayerSeasonsIndex = Record<string, PlayerSeasonEntry[]>;
 async function buildPlayerSeasonsIndex() {
   console.log('Building player-seasons index...\n');
 
-  const historyDir = path.join(__dirname, '../public/data/history/seasons');
+  const historyDir = path.join(__dirname, '..', FAMILY_DATA_DIR, 'history', 'seasons');
 
   if (!fs.existsSync(historyDir)) {
     console.log('No history directory found. Skipping player-seasons index generation.');
@@ -139,7 +140,7 @@ async function buildPlayerSeasonsIndex() {
   }
 
   // Save the index
-  const outputPath = path.join(__dirname, '../public/data/player-seasons-index.json');
+  const outputPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'player-seasons-index.json');
   fs.writeFileSync(outputPath, JSON.stringify(index, null, 2), 'utf-8');
 
   const playerCount = Object.keys(index).length;
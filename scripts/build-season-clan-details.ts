@@ -8,16 +8,28 @@
  * - Correctly calculates warsParticipated by counting roster appearances (not just attacks)
  * - Tracks missed attacks for reliability scoring
  * - Aggregates all player stats: attacks, stars, destruction, triples, etc.
+ * - Splits each player's attacks into mirror / hit-up / hit-down / off-mirror (`attackTypes`)
+ * - Counts each player's net stars, the stars their attacks added to the war score (`netStars`)
+ * - Buckets each player's attacks by duration (`durations`) and totals their clutch attacks,
+ *   the late ones made while the war was still open (`clutch`)
  * - Preserves war history and league information
  * 
  * @remarks
- * - Input: War timeline files from `public/data/history/seasons/<season>/clans/<clanTag>/wars/*.json`
- * - Output: Season clan detail files at `public/data/history/seasons/<season>/clans/<clanTag>.json`
+ * - Input: War timeline files from `public/data/<family>/history/seasons/<season>/clans/<clanTag>/wars/*.json`
+ * - Output: Season clan detail files at `public/data/<family>/history/seasons/<season>/clans/<clanTag>.json`
  * - Requires war timeline files to be generated first (by build-war-timelines.ts)
+ * - Stars above expected use the baseline in `public/data/<family>/expected-stars.json`
+ *   (build-expected-stars.ts must run first)
+ * - Incremental: a clan-season is only rebuilt when its war files or league CSV
+ *   row changed since the last run, or the expected-stars baseline was refitted
+ *   (see `scripts/lib/build-manifest.ts`). A rebuilt file is only rewritten when
+ *   more than its `generatedAt` changed, since a refit after one new war rarely
+ *   moves an old season's values
  * 
  * @example
  * ```bash
  * npx tsx scripts/build-season-clan-details.ts
+ * npx tsx scripts/build-season-clan-details.ts --force  # rebuild every clan-season
  * ```
  * 
  * @module build-season-clan-details
@@ -25,78 +37,36 @@
 
 import fs from 'node:fs'
 import path from 'node:path'
-
-const HISTORY_DIR = path.join('public', 'data', 'history', 'seasons')
-const CSV_DIR = path.join('public', 'data', 'mix csv')
-
-// CoC Masters PL family clan tags (without # prefix)
-const FAMILY_CLAN_TAGS = ['P0J2J8GJ', 'JPRPRVUY', '29RYVJ8C8']
-
-/**
- * Build a map of clanTag+season -> leagueName from CSV files
- */
-function buildLeagueTierCache(): Map<string, { tier: string; group: number | null }> {
-  const cache = new Map<string, { tier: string; group: number | null }>()
-
-  if (!fs.existsSync(CSV_DIR)) {
-    console.log('No CSV directory found, league data will not be populated')
-    return cache
-  }
-
-  const csvFiles = fs.readdirSync(CSV_DIR).filter(f => f.endsWith('-clan-war-leagues.csv'))
-  console.log(`Found ${csvFiles.length} league CSV files`)
-
-  for (const csvFile of csvFiles) {
-    try {
-      const content = fs.readFileSync(path.join(CSV_DIR, csvFile), 'utf-8')
-      const lines = content.split('\n').filter(line => line.trim())
-
-      if (lines.length < 2) continue
-
-      // Parse header to find column indices
-      const header = lines[0].split(',').map(h => h.replace(/"/g, '').trim())
-      const tagIdx = header.indexOf('Tag')
-      const seasonIdx = header.indexOf('Season')
-      const leagueNameIdx = header.indexOf('League Name')
-      const positionIdx = header.indexOf('Position')
-
-      if (tagIdx === -1 || seasonIdx === -1 || leagueNameIdx === -1) continue
-
-      // Parse data rows
-      for (let i = 1; i < lines.length; i++) {
-        // Simple CSV parsing (handles quoted fields)
-        const fields: string[] = []
-        let current = ''
-        let inQuotes = false
-        for (const char of lines[i]) {
-          if (char === '"') {
-            inQuotes = !inQuotes
-          } else if (char === ',' && !inQuotes) {
-            fields.push(current.trim())
-            current = ''
-          } else {
-            current += char
-          }
-        }
-        fields.push(current.trim())
-
-        const clanTag = (fields[tagIdx] ?? '').replace('#', '').toUpperCase()
-        const season = fields[seasonIdx] ?? ''
-        const leagueName = fields[leagueNameIdx]?.replace(/"/g, '') ?? ''
-        const position = positionIdx !== -1 ? parseInt(fields[positionIdx] || '0', 10) : null
-
-        if (clanTag && season && leagueName) {
-          cache.set(`${clanTag}|${season}`, { tier: leagueName, group: position })
-        }
-      }
-    } catch (error) {
-      console.error(`Error parsing CSV ${csvFile}:`, (error as Error).message)
-    }
-  }
-
-  console.log(`Loaded ${cache.size} league tier entries from CSV files`)
-  return cache
-}
+import { fileURLToPath } from 'node:url'
+import {
+  addAttackTypeResult,
+  classifyAttack,
+  createAttackTypeBreakdown,
+  getMapRanks,
+} from '../src/lib/attackTypes'
+import { addDurationResult, createDurationBreakdown } from '../src/lib/attackDuration'
+import { addClutchAttack, createClutchStats, getClutchAttacks } from '../src/lib/clutch'
+import { FAMILY_DATA_DIR, getFamilyClanTags } from '../src/lib/family'
+import {
+  addExpectedStarsAttack,
+  getAvgStarsAboveExpected,
+  getExpectedStars,
+  type ExpectedStarsBaseline,
+} from '../src/lib/expectedStars'
+import { getNetStarRate, getNetStars } from '../src/lib/netStars'
+import { calculateSeasonReliability, RELIABILITY_FORMULA_ID } from '../src/lib/reliability'
+import type {
+  AttackTypeBreakdown,
+  ClutchStats,
+  DurationBreakdown,
+  ExpectedStarsModel,
+  StarsAboveExpected,
+} from '../src/lib/types'
+import { hashContent, hashFiles, openStep, writeJsonIfChanged } from './lib/build-manifest'
+import { buildLeagueTierCache, type LeagueTierCache } from './lib/league-csv'
+
+const HISTORY_DIR = path.join(FAMILY_DATA_DIR, 'history', 'seasons')
+const EXPECTED_STARS_PATH = path.join(FAMILY_DATA_DIR, 'expected-stars.json')
 
 interface WarTimeline {
   generatedAt: string
@@ -119,9 +89,13 @@ interface WarTimeline {
       townhallLevel: number
       mapPosition: number
       attacks: Array<{
+        attackerTH: number
+        defenderTag: string
+        defenderTH: number
         stars: number
         destructionPercentage: number
         duration: number
+        order: number
       }>
       stars: number
       destruction: number
@@ -145,9 +119,11 @@ interface WarTimeline {
       townhallLevel: number
       mapPosition: number
       attacks: Array<{
+        defenderTag: string
         stars: number
         destructionPercentage: number
         duration: number
+        order: number
       }>
       stars: number
       destruction: number
@@ -183,6 +159,11 @@ interface PlayerStats {
   timesAttacked: number
   starsAllowed: number
   triplesAllowed: number
+  aboveExpected: StarsAboveExpected
+  attackTypes: AttackTypeBreakdown
+  netStars: number
+  durations: DurationBreakdown
+  clutch: ClutchStats
 }
 
 interface SeasonWar {
@@ -204,6 +185,7 @@ interface SeasonWar {
 
 interface SeasonClanDetail {
   generatedAt: string
+  reliabilityFormula: string
   season: string
   clan: {
     tag: string
@@ -255,6 +237,14 @@ interface SeasonClanDetail {
     }
     threeStarRate: number
     reliabilityScore: number
+    expectedStars?: number
+    starsAboveExpected?: number
+    avgStarsAboveExpected?: number
+    attackTypes: AttackTypeBreakdown
+    netStars: number
+    netStarRate: number
+    durations: DurationBreakdown
+    clutch: ClutchStats
   }>
   cwlGroup?: Array<{
     tag: string
@@ -272,7 +262,8 @@ function aggregateSeasonClanData(
   season: string,
   clanTag: string,
   warTimelines: WarTimeline[],
-  leagueCache: Map<string, { tier: string; group: number | null }>
+  leagueCache: LeagueTierCache,
+  expectedStars: ExpectedStarsBaseline | null
 ): SeasonClanDetail | null {
   if (warTimelines.length === 0) return null
 
@@ -292,6 +283,43 @@ function aggregateSeasonClanData(
     clanLevel: 0
   }
 
+  // Try to load existing season clan file to preserve state info
+  let existingGroupPosition = 0
+  let existingState = 'ended'
+
+  try {
+    const existingFilePath = path.join(HISTORY_DIR, season, 'clans', `${clanTag}.json`)
+    if (fs.existsSync(existingFilePath)) {
+      const existingData = JSON.parse(fs.readFileSync(existingFilePath, 'utf8'))
+      if (existingData.groupPosition !== undefined) existingGroupPosition = existingData.groupPosition
+      if (existingData.state) existingState = existingData.state
+    }
+  } catch {
+    // Ignore errors, use defaults
+  }
+
+  // Get league data from CSV cache (primary source) or fall back to existing file
+  let leagueData: { tier: string | null; group: number | null } = { tier: null, group: null }
+  const cacheKey = `${clanTag}|${season}`
+  const cachedLeague = leagueCache.get(cacheKey)
+  if (cachedLeague) {
+    leagueData = cachedLeague
+    if (cachedLeague.group !== null) {
+      existingGroupPosition = cachedLeague.group
+    }
+  } else {
+    // Fall back to existing file if no CSV data
+    try {
+      const existingFilePath = path.join(HISTORY_DIR, season, 'clans', `${clanTag}.json`)
+      if (fs.existsSync(existingFilePath)) {
+        const existingData = JSON.parse(fs.readFileSync(existingFilePath, 'utf8'))
+        if (existingData.league) leagueData = existingData.league
+      }
+    } catch {
+      // Ignore
+    }
+  }
+
   // Process each war
   for (const warTimeline of warTimelines) {
     // Capture clan info from first war
@@ -330,6 +358,15 @@ function aggregateSeasonClanData(
     totalDestruction += warTimeline.clan.destructionPercentage
     totalAttacks += warTimeline.clan.attacks
 
+    const clanRanks = getMapRanks(warTimeline.clan.members)
+    const opponentRanks = getMapRanks(warTimeline.opponent.members)
+    const netStars = getNetStars(warTimeline.clan.members.flatMap(m => m.attacks ?? []))
+    const clutchAttacks = getClutchAttacks(
+      warTimeline.clan.members.flatMap(m => m.attacks ?? []),
+      warTimeline.opponent.members.flatMap(m => m.attacks ?? []),
+      warTimeline.teamSize
+    )
+
     // Process each member in the war
     // KEY FIX: Count ALL members in the war, not just those who attacked
     for (const member of warTimeline.clan.members) {
@@ -357,7 +394,12 @@ function aggregateSeasonClanData(
           },
           timesAttacked: 0,
           starsAllowed: 0,
-          triplesAllowed: 0
+          triplesAllowed: 0,
+          aboveExpected: { attacks: 0, expectedStars: 0, starsAboveExpected: 0 },
+          attackTypes: createAttackTypeBreakdown(),
+          netStars: 0,
+          durations: createDurationBreakdown(),
+          clutch: createClutchStats()
         }
         playerStatsMap.set(member.tag, playerStats)
       }
@@ -376,6 +418,10 @@ function aggregateSeasonClanData(
           playerStats.attacks++
           playerStats.stars += attack.stars
           playerStats.destruction += attack.destructionPercentage
+          playerStats.netStars += netStars.get(attack) ?? 0
+          if (clutchAttacks.has(attack)) {
+            addClutchAttack(playerStats.clutch, attack.stars, netStars.get(attack) ?? 0)
+          }
 
           // Track star buckets
           if (attack.stars === 3) playerStats.triples++
@@ -388,10 +434,24 @@ function aggregateSeasonClanData(
             playerStats.bestDestruction = attack.destructionPercentage
           }
 
+          if (expectedStars) {
+            const expected = getExpectedStars(expectedStars, attack.attackerTH, attack.defenderTH, leagueData.tier)
+            addExpectedStarsAttack(playerStats.aboveExpected, attack.stars, expected)
+          }
+
+          const attackType = classifyAttack(
+            attack.attackerTH,
+            attack.defenderTH,
+            clanRanks.get(member.tag),
+            opponentRanks.get(attack.defenderTag)
+          )
+          if (attackType) addAttackTypeResult(playerStats.attackTypes, attackType, attack.stars)
+
           // Track duration
           if (attack.duration) {
             playerStats.durationTotal += attack.duration
             playerStats.durationSamples++
+            addDurationResult(playerStats.durations, attack.duration, attack.stars, attack.destructionPercentage)
           }
 
           // Track best attack
@@ -461,53 +521,32 @@ function aggregateSeasonClanData(
       avgDuration: player.durationSamples > 0 ? player.durationTotal / player.durationSamples : undefined,
       bestAttack: player.bestAttack,
       threeStarRate: player.attacks > 0 ? (player.triples / player.attacks) * 100 : 0,
-      reliabilityScore: player.warsParticipated > 0 ? (player.attacks / player.warsParticipated) * 100 : 0,
+      // Filled in below once the season's league is known
+      reliabilityScore: 0,
       timesAttacked: player.timesAttacked,
       starsAllowed: player.starsAllowed,
       avgStarsAllowed: Number(avgStarsAllowed.toFixed(2)),
       triplesAllowed: player.triplesAllowed,
-      defenseQuality: Number(defenseQuality.toFixed(2))
+      defenseQuality: Number(defenseQuality.toFixed(2)),
+      ...(expectedStars && {
+        expectedStars: Number(player.aboveExpected.expectedStars.toFixed(2)),
+        starsAboveExpected: Number(player.aboveExpected.starsAboveExpected.toFixed(2)),
+        avgStarsAboveExpected: Number(getAvgStarsAboveExpected(player.aboveExpected).toFixed(3)),
+      }),
+      attackTypes: player.attackTypes,
+      netStars: player.netStars,
+      netStarRate: getNetStarRate(player.netStars, player.attacks),
+      durations: player.durations,
+      clutch: player.clutch
     }
   })
 
   // Sort roster by total stars (descending)
   roster.sort((a, b) => b.stars - a.stars)
 
-  // Try to load existing season clan file to preserve state info
-  let existingGroupPosition = 0
-  let existingState = 'ended'
-
-  try {
-    const existingFilePath = path.join(HISTORY_DIR, season, 'clans', `${clanTag}.json`)
-    if (fs.existsSync(existingFilePath)) {
-      const existingData = JSON.parse(fs.readFileSync(existingFilePath, 'utf8'))
-      if (existingData.groupPosition !== undefined) existingGroupPosition = existingData.groupPosition
-      if (existingData.state) existingState = existingData.state
-    }
-  } catch {
-    // Ignore errors, use defaults
-  }
-
-  // Get league data from CSV cache (primary source) or fall back to existing file
-  let leagueData: { tier: string | null; group: number | null } = { tier: null, group: null }
-  const cacheKey = `${clanTag}|${season}`
-  const cachedLeague = leagueCache.get(cacheKey)
-  if (cachedLeague) {
-    leagueData = cachedLeague
-    if (cachedLeague.group !== null) {
-      existingGroupPosition = cachedLeague.group
-    }
-  } else {
-    // Fall back to existing file if no CSV data
-    try {
-      const existingFilePath = path.join(HISTORY_DIR, season, 'clans', `${clanTag}.json`)
-      if (fs.existsSync(existingFilePath)) {
-        const existingData = JSON.parse(fs.readFileSync(existingFilePath, 'utf8'))
-        if (existingData.league) leagueData = existingData.league
-      }
-    } catch {
-      // Ignore
-    }
+  // Same formula as the app and the career scores, with the whole season in this league
+  for (const player of roster) {
+    player.reliabilityScore = calculateSeasonReliability(player, leagueData.tier)
   }
 
   // Calculate win rate
@@ -521,6 +560,7 @@ function aggregateSeasonClanData(
 
   return {
     generatedAt: new Date().toISOString(),
+    reliabilityFormula: RELIABILITY_FORMULA_ID,
     season,
     clan: clanInfo,
     league: leagueData,
@@ -543,6 +583,18 @@ function aggregateSeasonClanData(
   }
 }
 
+/**
+ * Load the baseline fitted by build-expected-stars.ts, if it has run
+ */
+function loadExpectedStarsModel(): ExpectedStarsBaseline | null {
+  if (!fs.existsSync(EXPECTED_STARS_PATH)) {
+    console.log('No expected-stars.json found, stars above expected will not be populated')
+    return null
+  }
+  const { global, thDiffs, thPairs, buckets }: ExpectedStarsModel = JSON.parse(fs.readFileSync(EXPECTED_STARS_PATH, 'utf8'))
+  return { global, thDiffs, thPairs, buckets }
+}
+
 function main() {
   if (!fs.existsSync(HISTORY_DIR)) {
     console.log(`[build-season-clan-details] No history directory found at ${HISTORY_DIR}`)
@@ -557,8 +609,25 @@ function main() {
   // Build league tier cache from CSV files
   const leagueCache = buildLeagueTierCache()
 
+  // A refitted baseline can change any clan-season's stars above expected
+  const expectedStars = loadExpectedStarsModel()
+  const expectedStarsHash = hashContent(JSON.stringify(expectedStars))
+
+  const manifest = openStep('build-season-clan-details', [
+    fileURLToPath(import.meta.url),
+    'src/lib/reliability.ts',
+    'src/lib/expectedStars.ts',
+    'src/lib/attackTypes.ts',
+    'src/lib/netStars.ts',
+    'src/lib/attackDuration.ts',
+    'src/lib/clutch.ts',
+    'scripts/lib/league-csv.ts',
+  ])
+  const units: string[] = []
   let totalClansProcessed = 0
   let totalSeasonsProcessed = 0
+  let skipped = 0
+  let unchanged = 0
 
   for (const season of seasonDirs) {
     const clansDir = path.join(HISTORY_DIR, season, 'clans')
@@ -567,12 +636,25 @@ function main() {
     console.log(`[build-season-clan-details] Processing season ${season}...`)
     let clansInSeason = 0
 
-    for (const clanTag of FAMILY_CLAN_TAGS) {
+    for (const clanTag of getFamilyClanTags(season)) {
       const warsDir = path.join(clansDir, clanTag, 'wars')
       if (!fs.existsSync(warsDir)) continue
 
       // Load all war timelines for this clan/season
       const warFiles = fs.readdirSync(warsDir).filter(f => f.endsWith('.json'))
+      const unit = `${season}/${clanTag}`
+      const inputHash = hashContent(
+        hashFiles(warFiles.map(f => path.join(warsDir, f))),
+        JSON.stringify(leagueCache.get(`${clanTag}|${season}`) ?? null),
+        expectedStarsHash
+      )
+      units.push(unit)
+
+      if (manifest.isFresh(unit, inputHash)) {
+        skipped++
+        continue
+      }
+
       const warTimelines: WarTimeline[] = []
 
       for (const warFile of warFiles) {
@@ -590,12 +672,17 @@ function main() {
       warTimelines.sort((a, b) => a.startTime.localeCompare(b.startTime))
 
       // Aggregate season data
-      const seasonClanDetail = aggregateSeasonClanData(season, clanTag, warTimelines, leagueCache)
+      const seasonClanDetail = aggregateSeasonClanData(season, clanTag, warTimelines, leagueCache, expectedStars)
 
       if (seasonClanDetail) {
         // Write season clan detail file
         const outputPath = path.join(clansDir, `${clanTag}.json`)
-        fs.writeFileSync(outputPath, JSON.stringify(seasonClanDetail, null, 2), 'utf8')
+        const written = writeJsonIfChanged(outputPath, seasonClanDetail)
+        manifest.record(unit, inputHash, [outputPath])
+        if (!written) {
+          unchanged++
+          continue
+        }
 
         const totalRosterPlayers = seasonClanDetail.roster.length
         const leagueInfo = seasonClanDetail.league?.tier || 'No league'
@@ -611,9 +698,18 @@ function main() {
     }
   }
 
+  manifest.retain(units)
+  manifest.save()
+
   console.log(`\n[build-season-clan-details] Complete!`)
   console.log(`  Seasons processed: ${totalSeasonsProcessed}`)
   console.log(`  Clan-seasons processed: ${totalClansProcessed}`)
+  if (skipped > 0) {
+    console.log(`  Clan-seasons unchanged (skipped): ${skipped}`)
+  }
+  if (unchanged > 0) {
+    console.log(`  Clan-seasons rebuilt without changes (not rewritten): ${unchanged}`)
+  }
 }
 
 main()
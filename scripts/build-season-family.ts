@@ -5,13 +5,16 @@
  * League info per clan is loaded from CSV files.
  * 
  * @remarks
- * - Input: Clan detail files from `public/data/history/seasons/<season>/clans/<clanTag>.json`
- * - Input: League CSV files from `public/data/mix csv/<clanTag>-clan-war-leagues.csv`
- * - Output: Family summary at `public/data/history/seasons/<season>/family.json`
+ * - Input: Clan detail files from `public/data/<family>/history/seasons/<season>/clans/<clanTag>.json`
+ * - Input: League CSV files from `public/data/<family>/mix csv/<clanTag>-clan-war-leagues.csv`
+ * - Output: Family summary at `public/data/<family>/history/seasons/<season>/family.json`
+ * - Incremental: a season is only rebuilt when its clan files or league CSV rows
+ *   changed since the last run (see `scripts/lib/build-manifest.ts`)
  * 
  * @example
  * ```bash
  * npx tsx scripts/build-season-family.ts
+ * npx tsx scripts/build-season-family.ts --force  # rebuild every season
  * ```
  * 
  * @module build-season-family
@@ -19,12 +22,12 @@
 
 import fs from 'node:fs'
 import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { ALL_FAMILY_CLAN_TAGS, FAMILY_DATA_DIR, getFamilyClanTags } from '../src/lib/family'
+import { hashContent, hashFiles, openStep } from './lib/build-manifest'
 
-const HISTORY_DIR = path.join('public', 'data', 'history', 'seasons')
-const CSV_DIR = path.join('public', 'data', 'mix csv')
-
-// CoC Masters PL family clan tags (without # prefix)
-const FAMILY_CLAN_TAGS = ['P0J2J8GJ', 'JPRPRVUY', '29RYVJ8C8']
+const HISTORY_DIR = path.join(FAMILY_DATA_DIR, 'history', 'seasons')
+const CSV_DIR = path.join(FAMILY_DATA_DIR, 'mix csv')
 
 // Map of clanTag -> season -> leagueName
 type LeagueMap = Map<string, Map<string, string>>
@@ -92,7 +95,7 @@ interface SeasonFamily {
 function loadLeagueDataFromCSV(): LeagueMap {
   const leagueMap: LeagueMap = new Map()
 
-  for (const clanTag of FAMILY_CLAN_TAGS) {
+  for (const clanTag of ALL_FAMILY_CLAN_TAGS) {
     const csvPath = path.join(CSV_DIR, `${clanTag}-clan-war-leagues.csv`)
 
     if (!fs.existsSync(csvPath)) {
@@ -169,7 +172,7 @@ function buildSeasonFamily(seasonDir: string, leagueMap: LeagueMap): SeasonFamil
 
   const clans: SeasonFamilyClan[] = []
 
-  for (const clanTag of FAMILY_CLAN_TAGS) {
+  for (const clanTag of getFamilyClanTags(seasonDir)) {
     const clanFile = path.join(clansDir, `${clanTag}.json`)
 
     if (!fs.existsSync(clanFile)) {
@@ -239,10 +242,24 @@ function main(): void {
 
   console.log(`[build-season-family] Found ${seasonDirs.length} seasons`)
 
+  const manifest = openStep('build-season-family', [fileURLToPath(import.meta.url)])
   let generated = 0
   let skipped = 0
+  let unchanged = 0
 
   for (const seasonDir of seasonDirs) {
+    // A season reads only its own clan files and its CSV rows
+    const clanTags = getFamilyClanTags(seasonDir)
+    const inputHash = hashContent(
+      hashFiles(clanTags.map(clanTag => path.join(HISTORY_DIR, seasonDir, 'clans', `${clanTag}.json`))),
+      JSON.stringify(clanTags.map(clanTag => leagueMap.get(clanTag)?.get(seasonDir) ?? null))
+    )
+
+    if (manifest.isFresh(seasonDir, inputHash)) {
+      unchanged++
+      continue
+    }
+
     console.log(`Processing ${seasonDir}...`)
 
     const familyData = buildSeasonFamily(seasonDir, leagueMap)
@@ -250,6 +267,7 @@ function main(): void {
     if (familyData) {
       const outputPath = path.join(HISTORY_DIR, seasonDir, 'family.json')
       fs.writeFileSync(outputPath, JSON.stringify(familyData, null, 2), 'utf-8')
+      manifest.record(seasonDir, inputHash, [outputPath])
       console.log(`  ✓ Written family.json (${familyData.clans.length} clans)`)
       generated++
     } else {
@@ -257,7 +275,13 @@ function main(): void {
     }
   }
 
+  manifest.retain(seasonDirs)
+  manifest.save()
+
   console.log(`\n[build-season-family] Complete: ${generated} generated, ${skipped} skipped`)
+  if (unchanged > 0) {
+    console.log(`  Seasons unchanged (skipped): ${unchanged}`)
+  }
 }
 
 main()
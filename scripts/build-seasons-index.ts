@@ -2,15 +2,15 @@
  * Builds an index of all CWL (Clan War Leagues) seasons from historical data.
  * 
  * This script scans the history directory for season folders and reads league info
- * from CSV files in `public/data/mix csv/` to get accurate league names.
+ * from CSV files in `public/data/<family>/mix csv/` to get accurate league names.
  * 
  * @remarks
  * The script expects:
- * - `public/data/history/seasons/<season-id>/family.json`
- * - `public/data/mix csv/<clan-tag>-clan-war-leagues.csv` (for league names)
+ * - `public/data/<family>/history/seasons/<season-id>/family.json`
+ * - `public/data/<family>/mix csv/<clan-tag>-clan-war-leagues.csv` (for league names)
  * 
  * The output file is written to:
- * - `public/data/history/seasons.json`
+ * - `public/data/<family>/history/seasons.json`
  * 
  * @example
  * Run this script using:
@@ -23,13 +23,11 @@
 // scripts/build-seasons-index.ts
 import fs from "node:fs";
 import path from "node:path";
+import { ALL_FAMILY_CLAN_TAGS, FAMILY_DATA_DIR, isFamilyClan } from "../src/lib/family";
 
-const HISTORY_DIR = path.join("public", "data", "history", "seasons");
-const CSV_DIR = path.join("public", "data", "mix csv");
-const OUTPUT_FILE = path.join("public", "data", "history", "seasons.json");
-
-// CoC Masters PL family clan tags (without #)
-const FAMILY_CLAN_TAGS = ['P0J2J8GJ', 'JPRPRVUY', '29RYVJ8C8'];
+const HISTORY_DIR = path.join(FAMILY_DATA_DIR, "history", "seasons");
+const CSV_DIR = path.join(FAMILY_DATA_DIR, "mix csv");
+const OUTPUT_FILE = path.join(FAMILY_DATA_DIR, "history", "seasons.json");
 
 interface CsvLeagueRecord {
   clanTag: string;
@@ -132,11 +130,14 @@ function loadAllLeagueRecords(): Map<string, Map<string, CsvLeagueRecord>> {
   // Map: season -> clanTag -> record
   const seasonMap = new Map<string, Map<string, CsvLeagueRecord>>();
 
-  for (const clanTag of FAMILY_CLAN_TAGS) {
+  for (const clanTag of ALL_FAMILY_CLAN_TAGS) {
     const csvPath = path.join(CSV_DIR, `${clanTag}-clan-war-leagues.csv`);
     const records = parseCsvFile(csvPath);
 
     for (const record of records) {
+      // Skip seasons outside the clan's time in the family
+      if (!isFamilyClan(clanTag, record.season)) continue;
+
       if (!seasonMap.has(record.season)) {
         seasonMap.set(record.season, new Map());
       }
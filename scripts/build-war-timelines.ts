@@ -8,28 +8,36 @@
  * 
  * @remarks
  * - Input: CWL cache files from `tmp/cwl-cache/` in format `{clanTag}-{season}.json`
- * - Output: War timeline JSON files at `public/data/history/seasons/<season>/clans/<clanTag>/wars/<warEndTime>.json`
+ * - Output: War timeline JSON files at `public/data/<family>/history/seasons/<season>/clans/<clanTag>/wars/<warEndTime>.json`
  * - Only processes wars involving configured family clans
  * - Automatically swaps perspective to always show family clan as the "clan" side
+ * - Every attack gets its `netStars`, the stars it added to the war score (see `src/lib/netStars.ts`)
+ * - Ended wars get a `postMortem` (see `src/lib/warPostMortem.ts`)
+ * - Incremental: cache files whose content is unchanged since the last run (see
+ *   `scripts/lib/build-manifest.ts`) are skipped and their war files left untouched
  * 
  * @example
  * ```bash
  * npx tsx scripts/build-war-timelines.ts
+ * npx tsx scripts/build-war-timelines.ts --force  # rebuild every season
  * ```
  * 
  * @module build-war-timelines
  */
 // scripts/build-war-timelines.ts
-// Extracts war timeline data from CWL cache files and writes to public/data/history/seasons/<season>/clans/<clanTag>/wars/<warTag>.json
+// Extracts war timeline data from CWL cache files and writes to public/data/<family>/history/seasons/<season>/clans/<clanTag>/wars/<warTag>.json
 
 import fs from 'node:fs'
 import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { FAMILY_DATA_DIR, isFamilyClan } from '../src/lib/family'
+import { getNetStarRate, getNetStars } from '../src/lib/netStars'
+import type { WarPostMortem } from '../src/lib/types'
+import { analyzeWar } from '../src/lib/warPostMortem'
+import { hashFile, openStep } from './lib/build-manifest'
 
-const CWL_CACHE_DIR = path.join('tmp', 'cwl-cache')
-const HISTORY_DIR = path.join('public', 'data', 'history', 'seasons')
-
-// CoC Masters PL family clan tags (without # prefix)
-const FAMILY_CLAN_TAGS = ['P0J2J8GJ', 'JPRPRVUY', '29RYVJ8C8']
+const CWL_CACHE_DIR = process.env.CWL_CACHE_DIR || path.join('tmp', 'cwl-cache')
+const HISTORY_DIR = path.join(FAMILY_DATA_DIR, 'history', 'seasons')
 
 interface CWLCacheFile {
   state: string
@@ -108,6 +116,7 @@ interface WarAttack {
   duration: number
   order: number
   side: 'clan' | 'opponent'
+  netStars?: number
 }
 
 interface WarMemberSummary {
@@ -124,6 +133,8 @@ interface WarMemberSummary {
     destructionPercentage: number
     attackerName: string
   }
+  netStars: number
+  netStarRate: number
 }
 
 interface WarTimeline {
@@ -153,6 +164,7 @@ interface WarTimeline {
     members: WarMemberSummary[]
   }
   attackTimeline: WarAttack[]
+  postMortem?: WarPostMortem
 }
 
 function determineWarResult(clanStars: number, opponentStars: number, clanDestruction: number, opponentDestruction: number): 'win' | 'loss' | 'tie' {
@@ -256,6 +268,11 @@ function processWarData(cwlData: CWLCacheFile, familyClanTag: string): WarTimeli
       // Sort by attack order
       attackTimeline.sort((a, b) => a.order - b.order)
 
+      // Stars each attack added to its side's score (only the best hit on a base counts)
+      for (const [attack, netStars] of getNetStars(attackTimeline)) {
+        attack.netStars = netStars
+      }
+
       // Build member summaries
       const processMemberSummaries = (
         members: CWLWarSide['members'],
@@ -267,6 +284,7 @@ function processWarData(cwlData: CWLCacheFile, familyClanTag: string): WarTimeli
           const memberAttacksList = memberAttacks.filter(a => a.side === side && a.attackerTag === m.tag)
           const totalStars = memberAttacksList.reduce((sum, a) => sum + a.stars, 0)
           const totalDestruction = memberAttacksList.reduce((sum, a) => sum + a.destructionPercentage, 0)
+          const netStars = memberAttacksList.reduce((sum, a) => sum + (a.netStars ?? 0), 0)
 
           let bestOpponentAttack: WarMemberSummary['bestOpponentAttack']
           if (m.bestOpponentAttack) {
@@ -287,7 +305,9 @@ function processWarData(cwlData: CWLCacheFile, familyClanTag: string): WarTimeli
             stars: totalStars,
             destruction: totalDestruction,
             opponentAttacks: m.opponentAttacks || 0,
-            bestOpponentAttack
+            bestOpponentAttack,
+            netStars,
+            netStarRate: getNetStarRate(netStars, memberAttacksList.length)
           }
         }).sort((a, b) => a.mapPosition - b.mapPosition)
       }
@@ -331,6 +351,11 @@ function processWarData(cwlData: CWLCacheFile, familyClanTag: string): WarTimeli
         attackTimeline
       }
 
+      // Lost stars, wasted hits and what would have flipped the result
+      if (warData.state === 'warEnded') {
+        timeline.postMortem = analyzeWar(timeline)
+      }
+
       timelines.push(timeline)
     }
   }
@@ -345,7 +370,15 @@ function main() {
   }
 
   const cacheFiles = fs.readdirSync(CWL_CACHE_DIR).filter(f => f.endsWith('.json'))
+  const manifest = openStep('build-war-timelines', [
+    fileURLToPath(import.meta.url),
+    'src/lib/warPostMortem.ts',
+    'src/lib/attackTypes.ts',
+    'src/lib/netStars.ts',
+  ])
+  const units: string[] = []
   let totalWarsProcessed = 0
+  let skipped = 0
 
   for (const cacheFile of cacheFiles) {
     // Parse filename: {clanTag}-{season}.json e.g. 2LC99JJUQ-2021-11.json
@@ -357,12 +390,20 @@ function main() {
 
     const [, clanTag, season] = match
 
-    if (!FAMILY_CLAN_TAGS.includes(clanTag)) {
-      console.log(`[build-war-timelines] Skipping ${cacheFile} - not a family clan`)
+    if (!isFamilyClan(clanTag, season)) {
+      console.log(`[build-war-timelines] Skipping ${cacheFile} - not a family clan in ${season}`)
       continue
     }
 
     const cacheFilePath = path.join(CWL_CACHE_DIR, cacheFile)
+    const unit = `${clanTag}-${season}`
+    const inputHash = hashFile(cacheFilePath)!
+    units.push(unit)
+
+    if (manifest.isFresh(unit, inputHash)) {
+      skipped++
+      continue
+    }
 
     try {
       const cwlData: CWLCacheFile = JSON.parse(fs.readFileSync(cacheFilePath, 'utf8'))
@@ -373,6 +414,7 @@ function main() {
       }
 
       const timelines = processWarData(cwlData, clanTag)
+      const outputs: string[] = []
 
       // Write each timeline to its own file
       for (const timeline of timelines) {
@@ -384,16 +426,25 @@ function main() {
         const outputPath = path.join(warsDir, `${safeEndTime}.json`)
 
         fs.writeFileSync(outputPath, JSON.stringify(timeline, null, 2), 'utf8')
+        outputs.push(outputPath)
         totalWarsProcessed++
       }
 
+      manifest.record(unit, inputHash, outputs)
+
       console.log(`[build-war-timelines] Processed ${timelines.length} wars for ${clanTag} season ${season}`)
     } catch (err) {
       console.error(`[build-war-timelines] Error processing ${cacheFile}:`, err)
     }
   }
 
+  manifest.retain(units)
+  manifest.save()
+
   console.log(`[build-war-timelines] Total wars processed: ${totalWarsProcessed}`)
+  if (skipped > 0) {
+    console.log(`[build-war-timelines] Skipped ${skipped} unchanged cache files (use --force to rebuild)`)
+  }
 }
 
 main()
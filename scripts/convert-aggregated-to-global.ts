@@ -27,6 +27,7 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { FAMILY_DATA_DIR, isFamilyClan } from '../src/lib/family';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -65,7 +66,7 @@ interface GlobalPlayer {
 }
 
 async function main() {
-  const aggregatedPath = path.join(__dirname, '../public/data/players-aggregated.json');
+  const aggregatedPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players-aggregated.json');
 
   if (!fs.existsSync(aggregatedPath)) {
     console.error('aggregated data not found at', aggregatedPath);
@@ -78,13 +79,10 @@ async function main() {
 
   console.log(`Converting ${aggregatedData.length} aggregated players to GlobalPlayer format...\n`);
 
-  // CoC Masters PL family clan tags (no '#')
-  const FAMILY_CLAN_TAGS = ['P0J2J8GJ', 'JPRPRVUY', '29RYVJ8C8'];
-
   // Convert to GlobalPlayer format (family-only)
   const globalPlayers: GlobalPlayer[] = aggregatedData
     .map(p => {
-      const familySeasons = (p.allSeasons || []).filter(s => FAMILY_CLAN_TAGS.includes((s.clanTag || '').replace('#', '')));
+      const familySeasons = (p.allSeasons || []).filter(s => isFamilyClan(s.clanTag || '', s.season));
       if (familySeasons.length === 0) return null;
 
       // Recompute totals based only on family seasons
@@ -108,7 +106,7 @@ async function main() {
     .sort((a, b) => b.stars - a.stars); // Sort by total stars descending
 
   // Save to players.json
-  const outputPath = path.join(__dirname, '../public/data/players.json');
+  const outputPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players.json');
   fs.writeFileSync(outputPath, JSON.stringify(globalPlayers, null, 2));
 
   console.log(`✓ Converted and saved ${globalPlayers.length} players to ${outputPath}\n`);
@@ -6,6 +6,7 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { FAMILY_DATA_DIR, isFamilyClan } from '../src/lib/family';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -53,7 +54,7 @@ interface PlayerCareerStats {
 }
 
 async function main() {
-  const aggregatedPath = path.join(__dirname, '../public/data/players-aggregated.json');
+  const aggregatedPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players-aggregated.json');
   
   if (!fs.existsSync(aggregatedPath)) {
     console.error('aggregated data not found at', aggregatedPath);
@@ -66,7 +67,7 @@ async function main() {
 
   console.log(`Creating player detail files for ${aggregatedData.length} players...\n`);
 
-  const playersDir = path.join(__dirname, '../public/data/players');
+  const playersDir = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players');
   if (!fs.existsSync(playersDir)) {
     fs.mkdirSync(playersDir, { recursive: true });
   }
@@ -75,9 +76,8 @@ async function main() {
 
   for (const player of aggregatedData) {
     try {
-      // CoC Masters PL family-only filter
-      const FAMILY_CLAN_TAGS = ['P0J2J8GJ', 'JPRPRVUY', '29RYVJ8C8'];
-      const familySeasons = (player.allSeasons || []).filter(s => FAMILY_CLAN_TAGS.includes((s.clanTag || '').replace('#','')));
+      // Family-only filter
+      const familySeasons = (player.allSeasons || []).filter(s => isFamilyClan(s.clanTag || '', s.season));
       if (familySeasons.length === 0) continue;
 
       // Recompute totals from family seasons
@@ -126,7 +126,7 @@ async function main() {
     seasons: p.seasons,
   }));
 
-  const indexPath = path.join(__dirname, '../public/data/players-index.json');
+  const indexPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players-index.json');
   fs.writeFileSync(indexPath, JSON.stringify(playerIndex, null, 2));
   console.log(`✓ Created player index at ${indexPath}`);
 }
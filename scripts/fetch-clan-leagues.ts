@@ -1,26 +1,25 @@
 /**
  * Fetch current clan data from Clash of Clans API
- * Updates league information for all CoC Masters PL clans
+ * Updates league information for all current family clans (config/family.json)
  */
 import dotenv from "dotenv";
 import fs from "node:fs";
 import path from "node:path";
+import { FAMILY_DATA_DIR, getFamilyClans } from "../src/lib/family";
 
 dotenv.config({ path: ".env.local" });
 
 // Official CoC API - set COC_API_KEY in .env.local or environment
+// (COC_API_URL overrides the host, e.g. http://localhost:4010/v1 for the local mock)
 const COC_API_KEY = process.env.COC_API_KEY;
+const COC_API_URL = (process.env.COC_API_URL || "https://api.clashofclans.com/v1").replace(/\/$/, "");
 if (!COC_API_KEY) {
   console.error("❌ COC_API_KEY environment variable is required");
   console.error("   Set it in .env.local or as environment variable");
   process.exit(1);
 }
 
-const FAMILY_CLANS = [
-  { name: "coc masters PL", tag: "#P0J2J8GJ" },
-  { name: "Akademia CoC PL", tag: "#JPRPRVUY" },
-  { name: "Psychole!", tag: "#29RYVJ8C8" },
-];
+const FAMILY_CLANS = getFamilyClans();
 
 interface ClanSearchResult {
   tag: string;
@@ -48,7 +47,7 @@ interface ClanApiResponse {
 
 async function fetchClanFromApi(tag: string): Promise<ClanApiResponse | null> {
   const encodedTag = encodeURIComponent(tag);
-  const url = `https://api.clashofclans.com/v1/clans/${encodedTag}`;
+  const url = `${COC_API_URL}/clans/${encodedTag}`;
 
   try {
     const response = await fetch(url, {
@@ -162,7 +161,7 @@ async function main() {
   // Update the 2026-01 season files if needed
   console.log("\n📝 Updating 2026-01 season data...");
 
-  const seasonPath = "public/data/history/seasons/2026-01/clans";
+  const seasonPath = path.join(FAMILY_DATA_DIR, "history", "seasons", "2026-01", "clans");
 
   for (const [tag, league] of Object.entries(leagueData)) {
     const filePath = path.join(seasonPath, `${tag}.json`);
@@ -182,7 +181,7 @@ async function main() {
   }
 
   // Update family.json for 2026-01
-  const familyPath = "public/data/history/seasons/2026-01/family.json";
+  const familyPath = path.join(FAMILY_DATA_DIR, "history", "seasons", "2026-01", "family.json");
   if (fs.existsSync(familyPath)) {
     const familyData = JSON.parse(fs.readFileSync(familyPath, "utf8"));
 
@@ -198,7 +197,7 @@ async function main() {
   }
 
   // Update main family.json
-  const mainFamilyPath = "public/data/family.json";
+  const mainFamilyPath = path.join(FAMILY_DATA_DIR, "family.json");
   if (fs.existsSync(mainFamilyPath)) {
     const familyData = JSON.parse(fs.readFileSync(mainFamilyPath, "utf8"));
 
@@ -11,21 +11,20 @@
  * @example
  * npx tsx scripts/fetch-clashking-cwl.ts 2026-01
  * npx tsx scripts/fetch-clashking-cwl.ts  # defaults to current month
+ *
+ * Set CLASHKING_API_URL to point at another host (e.g. the local mock server)
+ * and CWL_CACHE_DIR to write somewhere other than tmp/cwl-cache.
  */
 
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { getFamilyClans } from "../src/lib/family";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-const FAMILY_CLANS = [
-  { name: "coc masters PL", tag: "#P0J2J8GJ" },
-  { name: "Akademia CoC PL", tag: "#JPRPRVUY" },
-  { name: "Psychole!", tag: "#29RYVJ8C8" },
-];
-
-const CWL_CACHE_DIR = path.join(__dirname, "..", "tmp", "cwl-cache");
+const CWL_CACHE_DIR = process.env.CWL_CACHE_DIR || path.join(__dirname, "..", "tmp", "cwl-cache");
+const CLASHKING_API_URL = (process.env.CLASHKING_API_URL || "https://api.clashk.ing").replace(/\/$/, "");
 
 interface ClashKingCWLResponse {
   state: string;
@@ -101,7 +100,7 @@ interface ClashKingWarSide {
 
 async function fetchClashKingCWL(clanTag: string, season: string): Promise<ClashKingCWLResponse | null> {
   const encodedTag = encodeURIComponent(clanTag);
-  const url = `https://api.clashk.ing/cwl/${encodedTag}/${season}`;
+  const url = `${CLASHKING_API_URL}/cwl/${encodedTag}/${season}`;
 
   console.log(`  📡 Fetching from ClashKing: ${url}`);
 
@@ -195,7 +194,7 @@ async function main(): Promise<void> {
 
   console.log("\n🔄 Fetching CWL data from ClashKing API...");
 
-  for (const clan of FAMILY_CLANS) {
+  for (const clan of getFamilyClans(season)) {
     await processClan(clan.name, clan.tag, season);
     await new Promise(resolve => setTimeout(resolve, 500)); // Rate limit
   }
@@ -10,6 +10,9 @@
  * NOTE: CoC API only provides CURRENT season CWL data, not historical.
  * Historical data must be collected during each CWL season.
  * 
+ * Set COC_API_URL to point at another host (e.g. the local mock server:
+ * http://localhost:4010/v1) and CWL_CACHE_DIR to write somewhere other than tmp/cwl-cache.
+ * 
  * @example
  * npx tsx scripts/fetch-cwl-data.ts
  */
@@ -18,6 +21,7 @@ import dotenv from "dotenv";
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { FAMILY_DATA_DIR, getFamilyClans } from "../src/lib/family";
 
 dotenv.config({ path: ".env.local" });
 
@@ -29,13 +33,11 @@ if (!COC_API_KEY) {
   console.warn("⚠️  COC_API_KEY not set - some features may not work");
 }
 
-const FAMILY_CLANS = [
-  { name: "coc masters PL", tag: "#P0J2J8GJ" },
-  { name: "Akademia CoC PL", tag: "#JPRPRVUY" },
-  { name: "Psychole!", tag: "#29RYVJ8C8" },
-];
+// Only current family members take part in the ongoing CWL season
+const FAMILY_CLANS = getFamilyClans();
 
-const CWL_CACHE_DIR = path.join(__dirname, "..", "tmp", "cwl-cache");
+const CWL_CACHE_DIR = process.env.CWL_CACHE_DIR || path.join(__dirname, "..", "tmp", "cwl-cache");
+const COC_API_URL = (process.env.COC_API_URL || "https://api.clashofclans.com/v1").replace(/\/$/, "");
 
 // API Types
 interface CWLGroup {
@@ -106,7 +108,7 @@ interface CWLAttack {
 }
 
 async function fetchApi<T>(endpoint: string): Promise<T | null> {
-  const url = `https://api.clashofclans.com/v1${endpoint}`;
+  const url = `${COC_API_URL}${endpoint}`;
 
   try {
     const response = await fetch(url, {
@@ -251,7 +253,7 @@ async function processClan(clanName: string, clanTag: string): Promise<void> {
 async function generateSeasonSummary(): Promise<void> {
   console.log("\n📊 Generating season summary from CSV files...");
 
-  const csvDir = path.join(__dirname, "..", "public", "data", "mix csv");
+  const csvDir = path.join(__dirname, "..", FAMILY_DATA_DIR, "mix csv");
 
   if (!fs.existsSync(csvDir)) {
     console.log("  ❌ CSV directory not found");
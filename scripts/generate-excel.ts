@@ -8,11 +8,12 @@ import ExcelJS from "exceljs";
 import fs from "node:fs";
 import path from "node:path";
 import { Client } from "pg";
+import { FAMILY_DATA_DIR } from "../src/lib/family";
 
 dotenv.config({ path: ".env.local" });
 
 const OUT_DIR = "data-src";
-const DATA_DIR = "public/data";
+const DATA_DIR = FAMILY_DATA_DIR;
 
 interface ClanData {
   name: string;
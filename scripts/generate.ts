@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Runs the data generation pipeline (`npm run generate`) incrementally.
+ *
+ * @description The pipeline is declared below as a build graph: each step names
+ * the files it reads and writes. Before running a step, its inputs are hashed
+ * and compared against the build manifest (`scripts/lib/build-manifest.ts`);
+ * when nothing changed and the step's outputs are still intact, the step is
+ * skipped. Steps run in order, so a step that rewrites its outputs invalidates
+ * the steps downstream of it.
+ *
+ * `build-war-timelines`, `build-season-clan-details` and `build-season-family`
+ * track their inputs per season/clan themselves, so they always run but only
+ * touch affected folders.
+ *
+ * @remarks
+ * - Inputs: CWL cache files (`tmp/cwl-cache/` or CWL_CACHE_DIR) and league CSVs in `public/data/<family>/mix csv/`
+ * - Outputs: everything under `public/data/<family>/` that the app reads
+ * - A step also re-runs when its script (or listed sources) or the family profile changes
+ *
+ * @example
+ * ```bash
+ * npm run generate
+ * npm run generate -- --force   # ignore the manifest and rebuild everything
+ * npx tsx scripts/generate.ts --dry-run
+ * ```
+ *
+ * @module generate
+ */
+
+import { spawnSync } from 'node:child_process'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { FAMILY, FAMILY_DATA_DIR } from '../src/lib/family'
+import { FORCE_REBUILD, hashFiles, listFiles, openStep, type FileSet } from './lib/build-manifest'
+
+const SCRIPTS_DIR = path.dirname(fileURLToPath(import.meta.url))
+const CWL_CACHE_DIR = process.env.CWL_CACHE_DIR || path.join('tmp', 'cwl-cache')
+const HISTORY_DIR = path.join(FAMILY_DATA_DIR, 'history', 'seasons')
+const CSV_DIR = path.join(FAMILY_DATA_DIR, 'mix csv')
+const DRY_RUN = process.argv.includes('--dry-run')
+
+interface BuildStep {
+  script: string
+  // Steps that track their own units are always run (they skip internally)
+  incremental?: boolean
+  // Modules besides the script whose changes should re-run the step
+  sources?: string[]
+  inputs: FileSet[]
+  outputs: FileSet[]
+}
+
+const CACHE_FILES: FileSet = { dir: CWL_CACHE_DIR, match: /^[A-Z0-9]+-\d{4}-\d{2}\.json$/ }
+const LEAGUE_CSVS: FileSet = { dir: CSV_DIR, match: /-clan-war-leagues\.csv$/ }
+const WAR_FILES: FileSet = { dir: HISTORY_DIR, match: /^[^/]+\/clans\/[^/]+\/wars\/[^/]+\.json$/ }
+const SEASON_CLAN_FILES: FileSet = { dir: HISTORY_DIR, match: /^[^/]+\/clans\/[^/]+\.json$/ }
+const SEASON_FAMILY_FILES: FileSet = { dir: HISTORY_DIR, match: /^[^/]+\/family\.json$/ }
+const OPPONENT_FILES: FileSet = { dir: HISTORY_DIR, match: /^[^/]+\/opponents\/[^/]+\.json$/ }
+
+const fileIn = (file: string): FileSet => ({ dir: FAMILY_DATA_DIR, match: new RegExp(`^${file.replace(/\./g, '\\.')}$`) })
+
+/**
+ * Build graph, in execution order
+ */
+const BUILD_GRAPH: BuildStep[] = [
+  {
+    script: 'build-war-timelines.ts',
+    incremental: true,
+    inputs: [CACHE_FILES],
+    outputs: [WAR_FILES],
+  },
+  {
+    script: 'build-expected-stars.ts',
+    sources: ['src/lib/expectedStars.ts', 'scripts/lib/league-csv.ts'],
+    inputs: [WAR_FILES, LEAGUE_CSVS],
+    outputs: [fileIn('expected-stars.json')],
+  },
+  {
+    script: 'build-season-clan-details.ts',
+    incremental: true,
+    inputs: [WAR_FILES, LEAGUE_CSVS, fileIn('expected-stars.json')],
+    outputs: [SEASON_CLAN_FILES],
+  },
+  {
+    script: 'build-season-family.ts',
+    incremental: true,
+    inputs: [SEASON_CLAN_FILES, LEAGUE_CSVS],
+    outputs: [SEASON_FAMILY_FILES],
+  },
+  {
+    script: 'build-player-seasons-index.ts',
+    inputs: [SEASON_CLAN_FILES],
+    outputs: [fileIn('player-seasons-index.json')],
+  },
+  {
+    script: 'build-seasons-index.ts',
+    inputs: [SEASON_FAMILY_FILES, LEAGUE_CSVS],
+    outputs: [fileIn('history/seasons.json')],
+  },
+  {
+    script: 'build-opponent-scouting.ts',
+    sources: ['src/lib/attackTypes.ts'],
+    inputs: [CACHE_FILES],
+    outputs: [OPPONENT_FILES, fileIn('history/scouting.json')],
+  },
+  {
+    script: 'build-league-baselines.ts',
+    sources: ['scripts/lib/league-csv.ts'],
+    inputs: [CACHE_FILES, LEAGUE_CSVS],
+    outputs: [fileIn('league-baselines.json')],
+  },
+  {
+    script: 'aggregate-cwl.ts',
+    sources: ['src/lib/reliability.ts'],
+    inputs: [CACHE_FILES, LEAGUE_CSVS],
+    outputs: [fileIn('players-aggregated.json')],
+  },
+  {
+    script: 'build-family-players.ts',
+    inputs: [fileIn('players-aggregated.json')],
+    outputs: [fileIn('players-full.json')],
+  },
+  {
+    // Fails the run when any generated file drifts from src/lib/schemas.ts
+    script: 'validate-data.ts',
+    sources: ['src/lib/schemas.ts', 'src/lib/types.ts'],
+    inputs: [{ dir: FAMILY_DATA_DIR, match: /\.json$/ }],
+    outputs: [],
+  },
+]
+
+function runScript(script: string): void {
+  const args = ['--import', 'tsx', path.join(SCRIPTS_DIR, script)]
+  if (FORCE_REBUILD) args.push('--force')
+
+  const result = spawnSync(process.execPath, args, { stdio: 'inherit' })
+  if (result.status !== 0) {
+    console.error(`\n❌ ${script} failed (exit code ${result.status ?? result.signal})`)
+    process.exit(result.status ?? 1)
+  }
+}
+
+function main(): void {
+  console.log(`🔧 Generating data for ${FAMILY.name} → ${FAMILY_DATA_DIR}${FORCE_REBUILD ? ' (forced)' : ''}\n`)
+
+  let ran = 0
+  for (const step of BUILD_GRAPH) {
+    const name = step.script.replace(/\.ts$/, '')
+
+    if (step.incremental) {
+      if (DRY_RUN) {
+        console.log(`▶ ${name} (incremental)`)
+        continue
+      }
+      console.log(`▶ ${name}`)
+      runScript(step.script)
+      ran++
+      continue
+    }
+
+    // Graph-level steps are a single unit whose input is every file they read
+    const tracker = openStep(`graph:${name}`, [path.join(SCRIPTS_DIR, step.script), ...(step.sources ?? [])])
+    const inputHash = hashFiles(listFiles(step.inputs))
+
+    if (tracker.isFresh(name, inputHash)) {
+      console.log(`✓ ${name} (up to date)`)
+      continue
+    }
+
+    console.log(`▶ ${name}`)
+    if (DRY_RUN) continue
+
+    runScript(step.script)
+    tracker.record(name, inputHash, listFiles(step.outputs))
+    tracker.save()
+    ran++
+  }
+
+  console.log(`\n✅ Done! ${ran} of ${BUILD_GRAPH.length} steps ran.`)
+}
+
+main()
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Content-hash manifest for incremental `npm run generate`.
+ *
+ * @description Each build step records, per unit of work (a whole step, or a
+ * season/clan folder), the hash of the inputs it consumed and the hashes of
+ * the files it wrote. A unit is fresh when its inputs hash is unchanged, the
+ * step's fingerprint (script source + family profile) is unchanged, and every
+ * recorded output still exists with the recorded content. Fresh units are
+ * skipped, so unchanged seasons are neither rebuilt nor rewritten.
+ *
+ * Because outputs are verified against their recorded hashes, a stale or
+ * foreign manifest can only cause extra rebuilds, never skipped ones.
+ *
+ * @remarks
+ * - Manifest: `tmp/build-manifest/<family>.json` (override with BUILD_MANIFEST_DIR)
+ * - Pass `--force` (or set GENERATE_FORCE=1) to ignore the manifest and rebuild everything
+ *
+ * @module build-manifest
+ */
+
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { FAMILY } from '../../src/lib/family'
+
+const MANIFEST_DIR = process.env.BUILD_MANIFEST_DIR || path.join('tmp', 'build-manifest')
+const MANIFEST_PATH = path.join(MANIFEST_DIR, `${FAMILY.id}.json`)
+const MANIFEST_VERSION = 1
+
+export const FORCE_REBUILD = process.argv.includes('--force') || process.env.GENERATE_FORCE === '1'
+
+interface UnitRecord {
+  inputs: string
+  outputs: Record<string, string>
+}
+
+interface StepRecord {
+  fingerprint: string
+  units: Record<string, UnitRecord>
+}
+
+interface ManifestFile {
+  version: number
+  family: string
+  steps: Record<string, StepRecord>
+}
+
+/**
+ * A set of files under `dir` whose path relative to `dir` (with forward
+ * slashes) matches `match`
+ */
+export interface FileSet {
+  dir: string
+  match: RegExp
+}
+
+export interface StepTracker {
+  /** Whether `unit` was built from the same inputs and its outputs are intact */
+  isFresh(unit: string, inputHash: string): boolean
+  /** Record the inputs and outputs of a unit that was just built */
+  record(unit: string, inputHash: string, outputs: string[]): void
+  /** Drop units that no longer exist (e.g. clans removed from the family) */
+  retain(units: Iterable<string>): void
+  save(): void
+}
+
+export function hashContent(...parts: Array<string | Buffer>): string {
+  const hash = crypto.createHash('sha256')
+  for (const part of parts) {
+    hash.update(part)
+    hash.update('\0')
+  }
+  return hash.digest('hex').slice(0, 16)
+}
+
+export function hashFile(filePath: string): string | null {
+  return fs.existsSync(filePath) ? hashContent(fs.readFileSync(filePath)) : null
+}
+
+/**
+ * Hash a list of files by name and content, independent of list order
+ */
+export function hashFiles(filePaths: string[]): string {
+  const parts = [...filePaths]
+    .map(p => p.split(path.sep).join('/'))
+    .sort()
+    .flatMap(p => [p, hashFile(p) ?? 'missing'])
+  return hashContent(...parts)
+}
+
+/**
+ * Expand file sets into a sorted list of existing file paths
+ */
+export function listFiles(sets: FileSet[]): string[] {
+  const files: string[] = []
+
+  const walk = (root: string, dir: string, match: RegExp) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        walk(root, fullPath, match)
+      } else if (match.test(path.relative(root, fullPath).split(path.sep).join('/'))) {
+        files.push(fullPath)
+      }
+    }
+  }
+
+  for (const set of sets) {
+    if (fs.existsSync(set.dir)) walk(set.dir, set.dir, set.match)
+  }
+
+  return files.sort()
+}
+
+/**
+ * Write `data` as JSON unless the file already holds the same data apart from
+ * its `generatedAt` timestamp, so a rebuilt unit whose result didn't change
+ * leaves no diff. Returns whether the file was written.
+ */
+export function writeJsonIfChanged(filePath: string, data: { generatedAt: string }): boolean {
+  try {
+    const existing = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    if (JSON.stringify({ ...existing, generatedAt: data.generatedAt }) === JSON.stringify(data)) return false
+  } catch {
+    // Missing or unreadable file: write it
+  }
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf8')
+  return true
+}
+
+function readManifest(): ManifestFile {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8')) as ManifestFile
+    if (manifest.version === MANIFEST_VERSION && manifest.family === FAMILY.id) return manifest
+  } catch {
+    // Missing or unreadable manifest: start fresh
+  }
+  return { version: MANIFEST_VERSION, family: FAMILY.id, steps: {} }
+}
+
+/**
+ * Open the manifest entry for a build step.
+ *
+ * @param step - Step name (unique across the build graph)
+ * @param sourceFiles - Files whose changes invalidate every unit of the step (usually the script itself)
+ */
+export function openStep(step: string, sourceFiles: string[]): StepTracker {
+  const fingerprint = hashContent(hashFiles(sourceFiles), JSON.stringify(FAMILY))
+  const previous = readManifest().steps[step]
+  const units: Record<string, UnitRecord> = previous?.fingerprint === fingerprint ? { ...previous.units } : {}
+
+  return {
+    isFresh(unit, inputHash) {
+      if (FORCE_REBUILD) return false
+      const record = units[unit]
+      if (!record || record.inputs !== inputHash) return false
+      return Object.entries(record.outputs).every(([file, hash]) => hashFile(file) === hash)
+    },
+
+    record(unit, inputHash, outputs) {
+      units[unit] = {
+        inputs: inputHash,
+        outputs: Object.fromEntries(
+          outputs.map(file => [file.split(path.sep).join('/'), hashFile(file) ?? 'missing'])
+        ),
+      }
+    },
+
+    retain(keep) {
+      const keepSet = new Set(keep)
+      for (const unit of Object.keys(units)) {
+        if (!keepSet.has(unit)) delete units[unit]
+      }
+    },
+
+    save() {
+      // Re-read so steps running one after another don't clobber each other
+      const manifest = readManifest()
+      manifest.steps[step] = { fingerprint, units }
+      fs.mkdirSync(MANIFEST_DIR, { recursive: true })
+      fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2), 'utf8')
+    },
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview League tier lookup from the ClashK.ing league CSV exports
+ * (`public/data/<family>/mix csv/*-clan-war-leagues.csv`).
+ *
+ * @module lib/league-csv
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { FAMILY_DATA_DIR } from '../../src/lib/family'
+
+const CSV_DIR = path.join(FAMILY_DATA_DIR, 'mix csv')
+
+/** key: `<CLANTAG without #>|<YYYY-MM>` */
+export type LeagueTierCache = Map<string, { tier: string; group: number | null }>
+
+/**
+ * Build a map of clanTag+season -> league from the league CSV files
+ */
+export function buildLeagueTierCache(csvDir: string = CSV_DIR): LeagueTierCache {
+  const cache: LeagueTierCache = new Map()
+
+  if (!fs.existsSync(csvDir)) {
+    console.log('No CSV directory found, league data will not be populated')
+    return cache
+  }
+
+  const csvFiles = fs.readdirSync(csvDir).filter(f => f.endsWith('-clan-war-leagues.csv'))
+  console.log(`Found ${csvFiles.length} league CSV files`)
+
+  for (const csvFile of csvFiles) {
+    try {
+      const content = fs.readFileSync(path.join(csvDir, csvFile), 'utf-8')
+      const lines = content.split('\n').filter(line => line.trim())
+
+      if (lines.length < 2) continue
+
+      // Parse header to find column indices
+      const header = lines[0].split(',').map(h => h.replace(/"/g, '').trim())
+      const tagIdx = header.indexOf('Tag')
+      const seasonIdx = header.indexOf('Season')
+      const leagueNameIdx = header.indexOf('League Name')
+      const positionIdx = header.indexOf('Position')
+
+      if (tagIdx === -1 || seasonIdx === -1 || leagueNameIdx === -1) continue
+
+      // Parse data rows
+      for (let i = 1; i < lines.length; i++) {
+        // Simple CSV parsing (handles quoted fields)
+        const fields: string[] = []
+        let current = ''
+        let inQuotes = false
+        for (const char of lines[i]) {
+          if (char === '"') {
+            inQuotes = !inQuotes
+          } else if (char === ',' && !inQuotes) {
+            fields.push(current.trim())
+            current = ''
+          } else {
+            current += char
+          }
+        }
+        fields.push(current.trim())
+
+        const clanTag = (fields[tagIdx] ?? '').replace('#', '').toUpperCase()
+        const season = fields[seasonIdx] ?? ''
+        const leagueName = fields[leagueNameIdx]?.replace(/"/g, '') ?? ''
+        const position = positionIdx !== -1 ? parseInt(fields[positionIdx] || '0', 10) : null
+
+        if (clanTag && season && leagueName) {
+          cache.set(`${clanTag}|${season}`, { tier: leagueName, group: position })
+        }
+      }
+    } catch (error) {
+      console.error(`Error parsing CSV ${csvFile}:`, (error as Error).message)
+    }
+  }
+
+  console.log(`Loaded ${cache.size} league tier entries from CSV files`)
+  return cache
+}
+
+/**
+ * League of a clan-season from the CSVs, or null when they have no row for it.
+ * Generated season clan files are not consulted: the steps calling this run
+ * before build-season-clan-details, and the build graph only declares the CSVs
+ * as their inputs.
+ */
+export function resolveLeagueTier(leagueCache: LeagueTierCache, season: string, clanTag: string): string | null {
+  return leagueCache.get(`${clanTag}|${season}`)?.tier ?? null
+}
@@ -3,7 +3,7 @@
  * 
  * @description
  * This script performs the following operations:
- * 1. Reads CSV files from the `public/data/mix csv` directory containing clan league history
+ * 1. Reads CSV files from the `public/data/<family>/mix csv` directory containing clan league history
  * 2. Parses clan league data including league IDs, names, positions, and performance metrics
  * 3. Loads the aggregated player data from `players-aggregated.json`
  * 4. Enriches each player's season statistics with corresponding league information
@@ -31,6 +31,7 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { FAMILY_DATA_DIR } from '../src/lib/family';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -107,7 +108,7 @@ function parseCSVLine(line: string): string[] {
 }
 
 function loadLeagueDataFromCSVs(): Map<string, ClanLeagueData[]> {
-  const csvDir = path.join(__dirname, '../public/data/mix csv');
+  const csvDir = path.join(__dirname, '..', FAMILY_DATA_DIR, 'mix csv');
   const leagueDataMap = new Map<string, ClanLeagueData[]>();
 
   if (!fs.existsSync(csvDir)) {
@@ -196,7 +197,7 @@ async function main() {
   console.log(`\nLoaded ${leagueDataMap.size} clans with league history\n`);
 
   // Load aggregated players
-  const aggregatedPath = path.join(__dirname, '../public/data/players-aggregated.json');
+  const aggregatedPath = path.join(__dirname, '..', FAMILY_DATA_DIR, 'players-aggregated.json');
   if (!fs.existsSync(aggregatedPath)) {
     console.log('Aggregated players file not found. Run "npm run prebuild" first.');
     return;
@@ -243,7 +244,7 @@ async function main() {
   let updatedHistory = 0;
   for (const [clanTag, seasons] of leagueDataMap) {
     for (const s of seasons) {
-      const seasonDir = path.join(__dirname, `../public/data/history/seasons/${s.season}/clans`);
+      const seasonDir = path.join(__dirname, '..', FAMILY_DATA_DIR, 'history', 'seasons', s.season, 'clans');
       const clanFile = path.join(seasonDir, `${clanTag}.json`);
       if (!fs.existsSync(clanFile)) continue;
       try {
@@ -0,0 +1,300 @@
+/**
+ * Local stand-in for the ClashK.ing and official Clash of Clans APIs
+ *
+ * @description
+ * Serves CWL data from fixture files (see `scripts/seed-mock-api.ts`) so the
+ * fetch scripts can run deterministically without a network connection:
+ *
+ * ClashK.ing
+ * - GET /cwl/{clanTag}/group               → `{ data: <in-progress season> }`
+ * - GET /cwl/{clanTag}/{season}            → season with full war objects
+ *
+ * Official CoC API (requires any `Authorization: Bearer ...` header)
+ * - GET /v1/clans/{clanTag}
+ * - GET /v1/clans/{clanTag}/currentwar/leaguegroup
+ * - GET /v1/clanwarleagues/wars/{warTag}
+ *
+ * Faults can be injected to exercise retry/backoff in the fetch scripts.
+ * Random faults use a seeded PRNG, so a given `--seed` always produces the
+ * same sequence of responses.
+ *
+ * Point the scripts at it with:
+ *   CLASHKING_API_URL=http://localhost:4010
+ *   COC_API_URL=http://localhost:4010/v1
+ *   CWL_CACHE_DIR=tmp/mock-cache   (keeps mock responses out of tmp/cwl-cache)
+ *
+ * @example
+ * npx tsx scripts/mock-api-server.ts
+ * npx tsx scripts/mock-api-server.ts --latency=200 --jitter=100
+ * npx tsx scripts/mock-api-server.ts --rate-limit=0.2 --error-rate=0.1 --seed=42
+ * npx tsx scripts/mock-api-server.ts --fail-first=1   # every URL fails once, then succeeds
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+
+type RawWar = {
+  tag?: string;
+  [key: string]: unknown;
+};
+
+type RawSeason = {
+  state?: string;
+  season?: string;
+  clans?: unknown[];
+  rounds?: Array<{ warTags?: Array<RawWar | string> }>;
+  [key: string]: unknown;
+};
+
+interface ServerOptions {
+  port: number;
+  fixtures: string;
+  latency: number;
+  jitter: number;
+  rateLimit: number;
+  errorRate: number;
+  failFirst: number;
+  seed: number;
+  verbose: boolean;
+}
+
+type MockResponse = { status: number; body: unknown; headers?: Record<string, string> };
+
+function parseArgs(argv: string[]): ServerOptions {
+  const options: ServerOptions = {
+    port: Number(process.env.MOCK_API_PORT) || 4010,
+    fixtures: path.join("tmp", "mock-api"),
+    latency: 0,
+    jitter: 0,
+    rateLimit: 0,
+    errorRate: 0,
+    failFirst: 0,
+    seed: 1,
+    verbose: false,
+  };
+
+  const numberArgs: Record<string, keyof ServerOptions> = {
+    "--port=": "port",
+    "--latency=": "latency",
+    "--jitter=": "jitter",
+    "--rate-limit=": "rateLimit",
+    "--error-rate=": "errorRate",
+    "--fail-first=": "failFirst",
+    "--seed=": "seed",
+  };
+
+  for (const arg of argv) {
+    const numberArg = Object.keys(numberArgs).find((prefix) => arg.startsWith(prefix));
+    if (numberArg) {
+      const value = Number(arg.replace(numberArg, ""));
+      if (Number.isNaN(value) || value < 0) {
+        throw new Error(`Invalid value for ${numberArg.slice(0, -1)}: ${arg}`);
+      }
+      (options[numberArgs[numberArg]] as number) = value;
+    } else if (arg.startsWith("--fixtures=")) {
+      options.fixtures = arg.replace("--fixtures=", "");
+    } else if (arg === "--verbose" || arg === "-v") {
+      options.verbose = true;
+    }
+  }
+
+  if (options.rateLimit > 1 || options.errorRate > 1) {
+    throw new Error("--rate-limit and --error-rate are probabilities between 0 and 1");
+  }
+
+  return options;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so injected faults are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function normalizeTag(tag: string): string {
+  return decodeURIComponent(tag).replace("#", "").toUpperCase();
+}
+
+function readJson<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+}
+
+/**
+ * Fixture store: reads files on demand and indexes wars by tag for the
+ * official `/clanwarleagues/wars/{warTag}` endpoint
+ */
+function createFixtureStore(dir: string) {
+  const warIndex = new Map<string, RawWar>();
+
+  const indexWars = (season: RawSeason | null) => {
+    for (const round of season?.rounds ?? []) {
+      for (const war of round.warTags ?? []) {
+        if (typeof war !== "string" && war.tag) warIndex.set(war.tag, war);
+      }
+    }
+  };
+
+  const listJson = (sub: string) =>
+    fs.existsSync(path.join(dir, sub))
+      ? fs.readdirSync(path.join(dir, sub)).filter((f) => f.endsWith(".json"))
+      : [];
+
+  // Groups are indexed last so in-progress wars win over their ended originals
+  for (const file of listJson("seasons")) indexWars(readJson<RawSeason>(path.join(dir, "seasons", file)));
+  for (const file of listJson("groups")) indexWars(readJson<RawSeason>(path.join(dir, "groups", file)));
+
+  return {
+    seasonCount: listJson("seasons").length,
+    groupCount: listJson("groups").length,
+    warCount: () => warIndex.size,
+    season: (tag: string, season: string) => {
+      const group = readJson<RawSeason>(path.join(dir, "groups", `${tag}.json`));
+      if (group?.season === season) return group;
+      return readJson<RawSeason>(path.join(dir, "seasons", `${tag}-${season}.json`));
+    },
+    group: (tag: string) => readJson<RawSeason>(path.join(dir, "groups", `${tag}.json`)),
+    clan: (tag: string) => readJson<unknown>(path.join(dir, "clans", `${tag}.json`)),
+    war: (warTag: string) => warIndex.get(warTag) ?? null,
+  };
+}
+
+type FixtureStore = ReturnType<typeof createFixtureStore>;
+
+const notFound = (reason = "notFound"): MockResponse => ({
+  status: 404,
+  body: { reason, message: "Resource was not found." },
+});
+
+/**
+ * Official API league group: war objects are replaced by their tags
+ * ("#0" for rounds that are not scheduled yet)
+ */
+function toOfficialLeagueGroup(group: RawSeason): unknown {
+  return {
+    state: group.state,
+    season: group.season,
+    clans: group.clans,
+    rounds: (group.rounds ?? []).map((round) => ({
+      warTags: (round.warTags ?? []).map((war) => (typeof war === "string" ? war : war.tag ?? "#0")),
+    })),
+  };
+}
+
+function route(store: FixtureStore, method: string, pathname: string, authorized: boolean): MockResponse {
+  if (method !== "GET") {
+    return { status: 405, body: { reason: "methodNotAllowed" } };
+  }
+
+  let match: RegExpMatchArray | null;
+
+  // ClashK.ing
+  if ((match = pathname.match(/^\/cwl\/([^/]+)\/group$/))) {
+    const group = store.group(normalizeTag(match[1]));
+    return group ? { status: 200, body: { data: group } } : notFound();
+  }
+  if ((match = pathname.match(/^\/cwl\/([^/]+)\/(\d{4}-\d{2})$/))) {
+    const season = store.season(normalizeTag(match[1]), match[2]);
+    return season ? { status: 200, body: season } : notFound();
+  }
+
+  // Official CoC API
+  if (pathname.startsWith("/v1/") && !authorized) {
+    return { status: 403, body: { reason: "accessDenied", message: "Invalid authorization" } };
+  }
+  if ((match = pathname.match(/^\/v1\/clans\/([^/]+)\/currentwar\/leaguegroup$/))) {
+    const group = store.group(normalizeTag(match[1]));
+    return group ? { status: 200, body: toOfficialLeagueGroup(group) } : notFound();
+  }
+  if ((match = pathname.match(/^\/v1\/clans\/([^/]+)$/))) {
+    const clan = store.clan(normalizeTag(match[1]));
+    return clan ? { status: 200, body: clan } : notFound();
+  }
+  if ((match = pathname.match(/^\/v1\/clanwarleagues\/wars\/([^/]+)$/))) {
+    const war = store.war(`#${normalizeTag(match[1])}`);
+    return war ? { status: 200, body: war } : notFound();
+  }
+
+  return notFound();
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!fs.existsSync(options.fixtures)) {
+    console.error(`❌ Fixture directory not found: ${options.fixtures}`);
+    console.error("   Seed it first with: npm run mock:seed");
+    process.exit(1);
+  }
+
+  const store = createFixtureStore(options.fixtures);
+  const random = createRandom(options.seed);
+  const hitsByUrl = new Map<string, number>();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://localhost:${options.port}`);
+    const hits = (hitsByUrl.get(url.pathname) ?? 0) + 1;
+    hitsByUrl.set(url.pathname, hits);
+
+    // Roll for every request so the fault sequence only depends on the seed and request order
+    const rateLimitRoll = random();
+    const errorRoll = random();
+    const jitter = options.jitter > 0 ? Math.round(random() * options.jitter) : 0;
+
+    let response: MockResponse;
+    if (hits <= options.failFirst) {
+      response = { status: 503, body: { reason: "inMaintenance", message: "Injected failure" } };
+    } else if (rateLimitRoll < options.rateLimit) {
+      response = { status: 429, body: { reason: "requestThrottled" }, headers: { "Retry-After": "1" } };
+    } else if (errorRoll < options.errorRate) {
+      response = { status: errorRoll < options.errorRate / 2 ? 500 : 502, body: { reason: "unknownException" } };
+    } else {
+      const authorized = /^Bearer\s+\S+/.test(req.headers.authorization ?? "");
+      response = route(store, req.method ?? "GET", url.pathname, authorized);
+    }
+
+    if (options.latency + jitter > 0) {
+      await sleep(options.latency + jitter);
+    }
+
+    res.writeHead(response.status, { "Content-Type": "application/json", ...response.headers });
+    res.end(JSON.stringify(response.body));
+
+    if (options.verbose || response.status >= 400) {
+      console.log(`  ${response.status} ${req.method} ${url.pathname}`);
+    }
+  });
+
+  server.listen(options.port, () => {
+    console.log("═══════════════════════════════════════════════════════════");
+    console.log("  Mock ClashK.ing / CoC API");
+    console.log("═══════════════════════════════════════════════════════════");
+    console.log(`\n📁 Fixtures: ${options.fixtures} (${store.seasonCount} seasons, ${store.groupCount} groups, ${store.warCount()} wars)`);
+    console.log(`🌐 http://localhost:${options.port}`);
+    console.log(`   CLASHKING_API_URL=http://localhost:${options.port}`);
+    console.log(`   COC_API_URL=http://localhost:${options.port}/v1`);
+    console.log(
+      `⚙️  latency=${options.latency}ms jitter=${options.jitter}ms rate-limit=${options.rateLimit} ` +
+      `error-rate=${options.errorRate} fail-first=${options.failFirst} seed=${options.seed}\n`
+    );
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main();
@@ -0,0 +1,268 @@
+/**
+ * Seed fixtures for the local ClashK.ing / CoC API mock server
+ *
+ * @description
+ * Copies the CWL responses cached in `tmp/cwl-cache/` into the fixture layout
+ * served by `scripts/mock-api-server.ts`:
+ *
+ * - `seasons/<TAG>-<season>.json` - ClashK.ing `/cwl/{tag}/{season}` responses (cache files as-is)
+ * - `groups/<TAG>.json`           - the in-progress season served by `/cwl/{tag}/group` and
+ *                                   `/v1/clans/{tag}/currentwar/leaguegroup`
+ * - `clans/<TAG>.json`            - official `/v1/clans/{tag}` responses
+ *
+ * Groups are synthesized for the active family's clans from their latest
+ * cached season: the season is relabelled to the current month and cut off
+ * mid-way (`--day`), so the pipeline's in-progress-season handling can be
+ * exercised. Fixture files are plain JSON and can be edited by hand afterwards.
+ *
+ * @example
+ * npx tsx scripts/seed-mock-api.ts
+ * npx tsx scripts/seed-mock-api.ts --day=5 --out=tmp/mock-api
+ * npx tsx scripts/seed-mock-api.ts --no-groups  # only ended seasons
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { FAMILY_DATA_DIR, getFamilyClans, stripClanTag } from "../src/lib/family";
+
+const DEFAULT_SOURCE_DIR = process.env.CWL_CACHE_DIR || path.join("tmp", "cwl-cache");
+const DEFAULT_OUT_DIR = path.join("tmp", "mock-api");
+const CSV_DIR = path.join(FAMILY_DATA_DIR, "mix csv");
+const CWL_ROUNDS = 7;
+
+type RawMember = {
+  tag?: string;
+  attacks?: unknown[];
+  opponentAttacks?: number;
+  bestOpponentAttack?: unknown;
+  [key: string]: unknown;
+};
+
+type RawClanSide = {
+  tag?: string;
+  name?: string;
+  clanLevel?: number;
+  badgeUrls?: Record<string, string>;
+  attacks?: number;
+  stars?: number;
+  destructionPercentage?: number;
+  members?: RawMember[];
+  [key: string]: unknown;
+};
+
+type RawWar = {
+  state?: string;
+  clan?: RawClanSide;
+  opponent?: RawClanSide;
+  [key: string]: unknown;
+};
+
+type RawSeason = {
+  state?: string;
+  season?: string;
+  clans?: RawClanSide[];
+  rounds?: Array<{ warTags?: Array<RawWar | string> }>;
+  clan_rankings?: unknown[];
+};
+
+interface SeedOptions {
+  source: string;
+  out: string;
+  day: number;
+  groups: boolean;
+}
+
+function parseArgs(argv: string[]): SeedOptions {
+  const options: SeedOptions = {
+    source: DEFAULT_SOURCE_DIR,
+    out: DEFAULT_OUT_DIR,
+    day: 4,
+    groups: true,
+  };
+
+  for (const arg of argv) {
+    if (arg.startsWith("--source=")) {
+      options.source = arg.replace("--source=", "");
+    } else if (arg.startsWith("--out=")) {
+      options.out = arg.replace("--out=", "");
+    } else if (arg.startsWith("--day=")) {
+      options.day = Number(arg.replace("--day=", ""));
+    } else if (arg === "--no-groups") {
+      options.groups = false;
+    }
+  }
+
+  if (!Number.isInteger(options.day) || options.day < 1 || options.day > CWL_ROUNDS) {
+    throw new Error(`--day must be a war day between 1 and ${CWL_ROUNDS}`);
+  }
+
+  return options;
+}
+
+function getCurrentSeason(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function parseCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === "," && !inQuotes) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+}
+
+function writeJson(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+}
+
+/**
+ * Latest league (id + name) per clan from the league CSVs, for `/v1/clans/{tag}`
+ */
+function loadLatestLeagues(): Map<string, { id: number; name: string }> {
+  const leagues = new Map<string, { id: number; name: string }>();
+  if (!fs.existsSync(CSV_DIR)) return leagues;
+
+  for (const file of fs.readdirSync(CSV_DIR).filter((f) => f.endsWith("-clan-war-leagues.csv"))) {
+    const tag = file.replace("-clan-war-leagues.csv", "");
+    const rows = fs.readFileSync(path.join(CSV_DIR, file), "utf8").trim().split("\n").slice(1);
+
+    let latest: { season: string; id: number; name: string } | null = null;
+    for (const row of rows) {
+      // Tag,Name,Season,"League ID","League Name",...
+      const [, , season, leagueId, leagueName] = parseCSVLine(row);
+      if (season && (!latest || season > latest.season)) {
+        latest = { season, id: Number(leagueId), name: leagueName };
+      }
+    }
+
+    if (latest) leagues.set(tag, { id: latest.id, name: latest.name });
+  }
+
+  return leagues;
+}
+
+/**
+ * Turn an ended season into one that is in progress on war day `day`:
+ * earlier rounds stay ended, the current round is in war and later rounds
+ * are still in preparation (no attacks).
+ */
+function toInProgressSeason(raw: RawSeason, season: string, day: number): RawSeason {
+  const clearAttacks = (side?: RawClanSide): RawClanSide | undefined =>
+    side && {
+      ...side,
+      attacks: 0,
+      stars: 0,
+      destructionPercentage: 0,
+      members: side.members?.map((member) => ({
+        ...member,
+        attacks: [],
+        opponentAttacks: 0,
+        bestOpponentAttack: undefined,
+      })),
+    };
+
+  const rounds = (raw.rounds ?? []).slice(0, CWL_ROUNDS).map((round, index) => ({
+    warTags: (round.warTags ?? []).map((war) => {
+      if (typeof war === "string") return war;
+      const warDay = index + 1;
+      if (warDay < day) return { ...war, state: "warEnded", season };
+      if (warDay === day) return { ...war, state: "inWar", season };
+      return { ...war, state: "preparation", season, clan: clearAttacks(war.clan), opponent: clearAttacks(war.opponent) };
+    }),
+  }));
+
+  return {
+    state: "inWar",
+    season,
+    clans: raw.clans,
+    rounds,
+  };
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!fs.existsSync(options.source)) {
+    console.error(`❌ Source cache directory not found: ${options.source}`);
+    console.error("   Run npm run fetch first (or pass --source=<dir>).");
+    process.exit(1);
+  }
+
+  const cacheFiles = fs.readdirSync(options.source)
+    .filter((f) => /^[A-Z0-9]+-\d{4}-\d{2}\.json$/.test(f))
+    .sort();
+
+  console.log(`🌱 Seeding mock API fixtures from ${options.source} → ${options.out}`);
+
+  // Ended seasons: copied verbatim
+  const latestSeasonByTag = new Map<string, string>();
+  const clanInfoByTag = new Map<string, RawClanSide>();
+
+  for (const file of cacheFiles) {
+    const [, tag, season] = file.match(/^([A-Z0-9]+)-(\d{4}-\d{2})\.json$/)!;
+    const raw = JSON.parse(fs.readFileSync(path.join(options.source, file), "utf8")) as RawSeason;
+
+    writeJson(path.join(options.out, "seasons", file), raw);
+
+    const own = raw.clans?.find((c) => stripClanTag(c.tag ?? "") === tag);
+    if (own) clanInfoByTag.set(tag, own);
+    latestSeasonByTag.set(tag, season);
+  }
+
+  console.log(`  ✓ ${cacheFiles.length} season fixtures`);
+
+  // Official /v1/clans/{tag} responses
+  const leagues = loadLatestLeagues();
+  for (const [tag, info] of clanInfoByTag) {
+    writeJson(path.join(options.out, "clans", `${tag}.json`), {
+      tag: `#${tag}`,
+      name: info.name,
+      type: "inviteOnly",
+      clanLevel: info.clanLevel ?? 1,
+      badgeUrls: info.badgeUrls,
+      members: info.members?.length ?? 0,
+      warLeague: leagues.get(tag) ?? { id: 48000000, name: "Unranked" },
+      warWins: 0,
+      warTies: 0,
+      warLosses: 0,
+    });
+  }
+
+  console.log(`  ✓ ${clanInfoByTag.size} clan fixtures`);
+
+  // In-progress groups for the active family
+  if (options.groups) {
+    const currentSeason = getCurrentSeason();
+    let groupCount = 0;
+
+    for (const clan of getFamilyClans()) {
+      const tag = stripClanTag(clan.tag);
+      const latest = latestSeasonByTag.get(tag);
+      if (!latest) continue;
+
+      const raw = JSON.parse(fs.readFileSync(path.join(options.source, `${tag}-${latest}.json`), "utf8")) as RawSeason;
+      writeJson(path.join(options.out, "groups", `${tag}.json`), toInProgressSeason(raw, currentSeason, options.day));
+      groupCount++;
+    }
+
+    console.log(`  ✓ ${groupCount} in-progress groups (${currentSeason}, war day ${options.day})`);
+  }
+
+  console.log("\n✅ Done! Start the mock with: npm run mock:api");
+}
+
+main();
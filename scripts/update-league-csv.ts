@@ -17,22 +17,21 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { FAMILY_DATA_DIR, getFamilyClans, isFamilyClan, stripClanTag } from '../src/lib/family';
 
 dotenv.config({ path: '.env.local' });
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT_DIR = path.resolve(__dirname, '..');
-const CACHE_DIR = path.join(ROOT_DIR, 'tmp', 'cwl-cache');
-const CSV_DIR = path.join(ROOT_DIR, 'public', 'data', 'mix csv');
+const CACHE_DIR = process.env.CWL_CACHE_DIR || path.join(ROOT_DIR, 'tmp', 'cwl-cache');
+const CSV_DIR = path.join(ROOT_DIR, FAMILY_DATA_DIR, 'mix csv');
 
 // Official CoC API for current league info - set COC_API_KEY in .env.local or environment
+// (COC_API_URL overrides the host, e.g. http://localhost:4010/v1 for the local mock)
 const COC_API_KEY = process.env.COC_API_KEY;
+const COC_API_URL = (process.env.COC_API_URL || 'https://api.clashofclans.com/v1').replace(/\/$/, '');
 
-const FAMILY_CLANS = [
-  { name: "coc masters PL", tag: "#P0J2J8GJ", csvName: "P0J2J8GJ" },
-  { name: "Akademia CoC PL", tag: "#JPRPRVUY", csvName: "JPRPRVUY" },
-  { name: "Psychole!", tag: "#29RYVJ8C8", csvName: "29RYVJ8C8" },
-];
+const FAMILY_CLANS = getFamilyClans().map(clan => ({ ...clan, csvName: stripClanTag(clan.tag) }));
 
 // League ID mapping (from Official CoC API)
 const LEAGUE_IDS: Record<string, number> = {
@@ -133,7 +132,7 @@ function parseExistingCSV(csvPath: string): ExistingCSVData {
 // Fetch current league from Official CoC API
 async function fetchCurrentLeague(tag: string): Promise<string | null> {
   const encodedTag = encodeURIComponent(tag);
-  const url = `https://api.clashofclans.com/v1/clans/${encodedTag}`;
+  const url = `${COC_API_URL}/clans/${encodedTag}`;
   
   try {
     const response = await fetch(url, {
@@ -246,8 +245,8 @@ async function main() {
     for (const cacheFile of clanCacheFiles) {
       const season = cacheFile.replace(`${clan.csvName}-`, '').replace('.json', '');
       
-      // Skip if already in CSV
-      if (existingData.seasons.has(season)) {
+      // Skip if already in CSV or played before the clan joined the family
+      if (existingData.seasons.has(season) || !isFamilyClan(clan.tag, season)) {
         continue;
       }
       
@@ -356,7 +355,7 @@ async function main() {
   console.log('✅ CSV update complete!');
   console.log('='.repeat(60));
   console.log('\nNext steps:');
-  console.log('  1. Review CSV files in public/data/mix csv/');
+  console.log('  1. Review CSV files in public/data/<family>/mix csv/');
   console.log('  2. Manually verify/fix league names if needed');
   console.log('  3. Run: npm run generate');
 }
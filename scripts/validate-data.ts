@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Validates every generated JSON file against the zod schemas in `src/lib/schemas.ts`.
+ *
+ * @description Runs as the last step of `npm run generate` so drift between the
+ * pipeline's output and the app's types (`src/lib/types.ts`) fails the build
+ * instead of surfacing as `undefined`s in the UI. Every broken file is reported
+ * with the path of each offending field.
+ *
+ * @remarks
+ * - Input: `public/data/<family>/` (family, clans, players, indexes, season history, war timelines, scouting reports)
+ * - Exit code 1 when any file is missing a required field, has a mistyped field or is not valid JSON
+ *
+ * @example
+ * ```bash
+ * npx tsx scripts/validate-data.ts
+ * FAMILY=<id> npm run validate:data
+ * ```
+ *
+ * @module validate-data
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import type { z } from 'zod'
+import { FAMILY_DATA_DIR } from '../src/lib/family'
+import {
+  ClanDetailFileSchema,
+  ExpectedStarsModelSchema,
+  FamilyDataSchema,
+  FamilyPlayersSchema,
+  GlobalPlayersSchema,
+  LeagueBaselinesSchema,
+  OpponentScoutingReportSchema,
+  PlayerSeasonsIndexSchema,
+  ScoutingIndexSchema,
+  SeasonClanDetailSchema,
+  SeasonFamilyDataSchema,
+  SeasonIndexSchema,
+  WarTimelineSchema,
+} from '../src/lib/schemas'
+import { listFiles } from './lib/build-manifest'
+
+// Issues listed per file before the rest are summarized
+const MAX_ISSUES_PER_FILE = 5
+
+/**
+ * Generated files, matched on their path relative to the family data root
+ */
+const FILE_SCHEMAS: Array<{ match: RegExp; schema: z.ZodType; required?: boolean }> = [
+  { match: /^family\.json$/, schema: FamilyDataSchema, required: true },
+  { match: /^players\.json$/, schema: GlobalPlayersSchema, required: true },
+  { match: /^players-full\.json$/, schema: FamilyPlayersSchema, required: true },
+  { match: /^player-seasons-index\.json$/, schema: PlayerSeasonsIndexSchema, required: true },
+  { match: /^expected-stars\.json$/, schema: ExpectedStarsModelSchema, required: true },
+  { match: /^league-baselines\.json$/, schema: LeagueBaselinesSchema },
+  { match: /^clans\/[^/]+\.json$/, schema: ClanDetailFileSchema },
+  { match: /^history\/seasons\.json$/, schema: SeasonIndexSchema, required: true },
+  { match: /^history\/seasons\/[^/]+\/family\.json$/, schema: SeasonFamilyDataSchema },
+  { match: /^history\/seasons\/[^/]+\/clans\/[^/]+\.json$/, schema: SeasonClanDetailSchema },
+  { match: /^history\/seasons\/[^/]+\/clans\/[^/]+\/wars\/[^/]+\.json$/, schema: WarTimelineSchema },
+  { match: /^history\/seasons\/[^/]+\/opponents\/[^/]+\.json$/, schema: OpponentScoutingReportSchema },
+  { match: /^history\/scouting\.json$/, schema: ScoutingIndexSchema },
+]
+
+function formatIssuePath(issuePath: PropertyKey[]): string {
+  if (issuePath.length === 0) return '(root)'
+  return issuePath
+    .map((key, i) => (typeof key === 'number' ? `[${key}]` : `${i > 0 ? '.' : ''}${String(key)}`))
+    .join('')
+}
+
+function main() {
+  if (!fs.existsSync(FAMILY_DATA_DIR)) {
+    console.error(`[validate-data] No data directory found at ${FAMILY_DATA_DIR}`)
+    process.exit(1)
+  }
+
+  const files = listFiles([{ dir: FAMILY_DATA_DIR, match: /\.json$/ }])
+  const failures: string[] = []
+  let checked = 0
+
+  for (const { match, schema, required } of FILE_SCHEMAS) {
+    const matching = files.filter(file => match.test(path.relative(FAMILY_DATA_DIR, file).split(path.sep).join('/')))
+
+    if (matching.length === 0 && required) {
+      failures.push(`${match.source.replace(/\\|\^|\$/g, '')}: file is missing`)
+      continue
+    }
+
+    for (const file of matching) {
+      const relative = path.relative(FAMILY_DATA_DIR, file).split(path.sep).join('/')
+      checked++
+
+      let data: unknown
+      try {
+        data = JSON.parse(fs.readFileSync(file, 'utf8'))
+      } catch (err) {
+        failures.push(`${relative}: invalid JSON (${(err as Error).message})`)
+        continue
+      }
+
+      const result = schema.safeParse(data)
+      if (result.success) continue
+
+      const { issues } = result.error
+      const lines = issues
+        .slice(0, MAX_ISSUES_PER_FILE)
+        .map(issue => `    ${formatIssuePath(issue.path)}: ${issue.message}`)
+      if (issues.length > MAX_ISSUES_PER_FILE) {
+        lines.push(`    … and ${issues.length - MAX_ISSUES_PER_FILE} more`)
+      }
+      failures.push(`${relative}:\n${lines.join('\n')}`)
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error(`[validate-data] ${failures.length} of ${checked} files in ${FAMILY_DATA_DIR} do not match their schema:\n`)
+    for (const failure of failures) console.error(`  ✗ ${failure}`)
+    process.exit(1)
+  }
+
+  console.log(`[validate-data] ✓ ${checked} files in ${FAMILY_DATA_DIR} match their schemas`)
+}
+
+main()
@@ -16,6 +16,7 @@ const SeasonDetailPage = lazy(() => import('@/pages/SeasonDetailPage').then(m =>
 const ClanSeasonDetailPage = lazy(() => import('@/pages/ClanSeasonDetailPage').then(m => ({ default: m.ClanSeasonDetailPage })))
 const WarDetailPage = lazy(() => import('@/pages/WarDetailPage').then(m => ({ default: m.WarDetailPage })))
 const PlayerHistoryPage = lazy(() => import('@/pages/PlayerHistoryPage').then(m => ({ default: m.PlayerHistoryPage })))
+const OpponentScoutingPage = lazy(() => import('@/pages/OpponentScoutingPage').then(m => ({ default: m.OpponentScoutingPage })))
 const RosterBuilderPage = lazy(() => import('@/pages/RosterBuilderPage').then(m => ({ default: m.RosterBuilderPage })))
 
 // Loading fallback component
@@ -38,6 +39,7 @@ function App() {
     if (location.pathname === '/players') return 'players'
     if (location.pathname === '/about') return 'about'
     if (location.pathname === '/history' || location.pathname.startsWith('/history/')) return 'history'
+    if (location.pathname.startsWith('/season/')) return 'history'
     if (location.pathname === '/roster-builder') return 'roster-builder'
     if (location.pathname.startsWith('/player/')) return 'players'
     return 'home'
@@ -122,6 +124,10 @@ function App() {
                 path="/history/:season/clan/:tag/war/:endTime"
                 element={<WarDetailPage />}
               />
+              <Route
+                path="/season/:season/opponent/:tag"
+                element={<OpponentScoutingPage />}
+              />
               <Route
                 path="/player/:playerTag"
                 element={<PlayerHistoryPage />}
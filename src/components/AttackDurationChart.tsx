@@ -0,0 +1,148 @@
+import { DURATION_BUCKETS, getDurationAvgDestruction, getDurationAvgStars } from '@/lib/attackDuration'
+import { COLORS, STAR_BUCKET_COLORS } from '@/lib/chartColors'
+import type { DurationBreakdown } from '@/lib/types'
+import { useTranslation } from 'react-i18next'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+
+interface AttackDurationChartProps {
+  durations: DurationBreakdown
+  avgDuration?: number
+}
+
+function formatDuration(seconds: number): string {
+  const rounded = Math.round(seconds)
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, '0')}`
+}
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '0.5rem',
+}
+
+/**
+ * How long a player's attacks took against what they won: star outcomes per
+ * duration bucket, and average stars and destruction per bucket
+ */
+export function AttackDurationChart({ durations, avgDuration }: AttackDurationChartProps) {
+  const { t } = useTranslation()
+
+  const chartData = DURATION_BUCKETS.map((bucket, i) => {
+    const stats = durations[i] ?? { attacks: 0, destruction: 0, starCounts: [0, 0, 0, 0] }
+    const label = i === 0
+      ? `<${formatDuration(bucket.max + 1)}`
+      : bucket.max === Infinity
+        ? formatDuration(bucket.min)
+        : `${formatDuration(bucket.min)}–${formatDuration(bucket.max)}`
+    return {
+      label,
+      attacks: stats.attacks,
+      stars0: stats.starCounts[0] ?? 0,
+      stars1: stats.starCounts[1] ?? 0,
+      stars2: stats.starCounts[2] ?? 0,
+      stars3: stats.starCounts[3] ?? 0,
+      // Empty buckets are skipped by the lines rather than drawn at zero
+      avgStars: stats.attacks > 0 ? Number(getDurationAvgStars(stats).toFixed(2)) : null,
+      avgDestruction: stats.attacks > 0 ? Number(getDurationAvgDestruction(stats).toFixed(1)) : null,
+    }
+  })
+
+  const totalAttacks = chartData.reduce((sum, d) => sum + d.attacks, 0)
+  if (totalAttacks === 0) {
+    return (
+      <div className="rounded-lg border border-border/80 bg-card/50 p-8 text-center text-muted-foreground">
+        {t('clanSeason.noData')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border border-border/80 bg-card/50 p-4 space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {t('attackDuration.description', { count: totalAttacks })}
+        {avgDuration !== undefined && (
+          <> {t('attackDuration.average', { duration: formatDuration(avgDuration) })}</>
+        )}
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-sm font-semibold mb-2">{t('attackDuration.outcomes')}</h3>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+                <XAxis dataKey="label" stroke={COLORS.axis} fontSize={12} />
+                <YAxis stroke={COLORS.axis} fontSize={12} allowDecimals={false} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Legend />
+                {[0, 1, 2, 3].map(stars => (
+                  <Bar
+                    key={stars}
+                    dataKey={`stars${stars}`}
+                    name={`${stars}★`}
+                    stackId="stars"
+                    fill={STAR_BUCKET_COLORS[stars]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold mb-2">{t('attackDuration.averages')}</h3>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+                <XAxis dataKey="label" stroke={COLORS.axis} fontSize={12} />
+                <YAxis yAxisId="stars" domain={[0, 3]} stroke={COLORS.avgStars} fontSize={12} />
+                <YAxis
+                  yAxisId="destruction"
+                  orientation="right"
+                  domain={[0, 100]}
+                  unit="%"
+                  stroke={COLORS.avgDestruction}
+                  fontSize={12}
+                />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Legend />
+                <Line
+                  yAxisId="stars"
+                  type="monotone"
+                  dataKey="avgStars"
+                  name={t('attackDuration.avgStars')}
+                  stroke={COLORS.avgStars}
+                  strokeWidth={2}
+                  connectNulls
+                />
+                <Line
+                  yAxisId="destruction"
+                  type="monotone"
+                  dataKey="avgDestruction"
+                  name={t('attackDuration.avgDestruction')}
+                  stroke={COLORS.avgDestruction}
+                  strokeWidth={2}
+                  unit="%"
+                  connectNulls
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import {
+  ATTACK_TYPES,
+  getAttackTypeAvgStars,
+  getAttackTypeShare,
+  getAttackTypeTripleRate,
+  getClassifiedAttacks,
+} from '@/lib/attackTypes'
+import type { AttackType, AttackTypeBreakdown } from '@/lib/types'
+import { useTranslation } from 'react-i18next'
+
+const ATTACK_TYPE_COLORS: Record<AttackType, string> = {
+  mirror: 'bg-blue-500',
+  hitUp: 'bg-green-500',
+  hitDown: 'bg-orange-500',
+  offMirror: 'bg-gray-500',
+}
+
+/** Small colored label for a single attack, e.g. in the war timeline */
+export function AttackTypeBadge({ type }: { type: AttackType | null | undefined }) {
+  const { t } = useTranslation()
+  if (!type) return null
+  return (
+    <span className="inline-flex items-center gap-1.5 text-xs text-muted-foreground whitespace-nowrap">
+      <span className={`h-2 w-2 rounded-full ${ATTACK_TYPE_COLORS[type]}`} />
+      {t(`attackTypes.types.${type}`)}
+    </span>
+  )
+}
+
+interface AttackTypeBreakdownTableProps {
+  breakdown: AttackTypeBreakdown
+}
+
+/**
+ * Share of attacks per type (mirror, hit-up, hit-down, off-mirror) with the
+ * average stars and 3★ rate within each type.
+ */
+export function AttackTypeBreakdownTable({ breakdown }: AttackTypeBreakdownTableProps) {
+  const { t } = useTranslation()
+  const total = getClassifiedAttacks(breakdown)
+
+  if (total === 0) {
+    return <p className="text-sm text-muted-foreground">{t('attackTypes.noData')}</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="w-20" />
+        <span className="flex-1">{t('attackTypes.share')}</span>
+        <span className="w-12 text-right">{t('attackTypes.avgStars')}</span>
+        <span className="w-12 text-right">{t('attackTypes.tripleRate')}</span>
+      </div>
+      {ATTACK_TYPES.map(type => {
+        const stats = breakdown[type]
+        const share = getAttackTypeShare(breakdown, type)
+        return (
+          <div key={type} className="flex items-center gap-2">
+            <span className="text-xs w-20 truncate">{t(`attackTypes.types.${type}`)}</span>
+            <div className="flex-1 flex items-center gap-2">
+              <div className="flex-1 h-5 bg-muted rounded overflow-hidden">
+                <div
+                  className={`h-full ${ATTACK_TYPE_COLORS[type]} transition-all`}
+                  style={{ width: `${share}%` }}
+                />
+              </div>
+              <span className="text-xs w-16 text-right tabular-nums text-muted-foreground">
+                {share.toFixed(0)}% ({stats.attacks})
+              </span>
+            </div>
+            <span className="text-xs w-12 text-right tabular-nums">
+              {stats.attacks > 0 ? getAttackTypeAvgStars(stats).toFixed(2) : '—'}
+            </span>
+            <span className="text-xs w-12 text-right tabular-nums">
+              {stats.attacks > 0 ? `${getAttackTypeTripleRate(stats).toFixed(0)}%` : '—'}
+            </span>
+          </div>
+        )
+      })}
+      <p className="text-xs text-muted-foreground pt-1">
+        {t('attackTypes.classified', { count: total })}
+      </p>
+    </div>
+  )
+}
@@ -1,23 +1,24 @@
-import { FAMILY_CLAN_TAGS } from '@/lib/data'
+import { ALL_FAMILY_CLAN_TAGS } from '@/lib/family'
 import type { CWLGroupClan } from '@/lib/types'
 import { Trophy, Users } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 
 interface CWLGroupStandingsProps {
   cwlGroup: CWLGroupClan[]
+  // Opens the scouting report of a non-family clan
+  onOpponentClick?: (clan: CWLGroupClan) => void
 }
 
-export function CWLGroupStandings({ cwlGroup }: CWLGroupStandingsProps) {
+export function CWLGroupStandings({ cwlGroup, onOpponentClick }: CWLGroupStandingsProps) {
   const { t } = useTranslation()
 
   if (!cwlGroup || cwlGroup.length === 0) {
     return null
   }
 
-  // Normalize family tags for comparison (without #)
-  const familyTags = new Set(
-    FAMILY_CLAN_TAGS.map(tag => tag.replace('#', '').toUpperCase())
-  )
+  // Family tags are already normalized (without #); retired clans are
+  // included so they stay highlighted in the seasons they played for us
+  const familyTags = new Set(ALL_FAMILY_CLAN_TAGS)
 
   const isFamilyClan = (tag: string) => {
     const normalizedTag = tag.replace('#', '').toUpperCase()
@@ -64,9 +65,20 @@ export function CWLGroupStandings({ cwlGroup }: CWLGroupStandingsProps) {
                   </td>
                   <td className="py-2 px-2">
                     <div className="flex items-center gap-2">
-                      <span className={`font-medium truncate ${isFamily ? 'text-primary' : ''}`}>
-                        {clan.name}
-                      </span>
+                      {!isFamily && onOpponentClick ? (
+                        <button
+                          type="button"
+                          onClick={() => onOpponentClick(clan)}
+                          className="font-medium truncate hover:text-primary hover:underline text-left"
+                          title={t('scouting.viewReport')}
+                        >
+                          {clan.name}
+                        </button>
+                      ) : (
+                        <span className={`font-medium truncate ${isFamily ? 'text-primary' : ''}`}>
+                          {clan.name}
+                        </span>
+                      )}
                       {isFamily && (
                         <span className="text-xs bg-primary/20 text-primary px-1.5 py-0.5 rounded shrink-0">
                           <Users className="w-3 h-3 inline mr-0.5" />
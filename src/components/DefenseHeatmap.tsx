@@ -0,0 +1,174 @@
+import { Skeleton } from '@/components/ui/skeleton'
+import { getSeasonWarTimelines } from '@/lib/data'
+import { buildDefenseHeatmap, isHeld, type DefenseCell } from '@/lib/defenseHeatmap'
+import type { WarTimeline } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { Shield } from '@phosphor-icons/react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface DefenseHeatmapProps {
+  season: string
+  clanTag: string
+}
+
+// Stars conceded: held bases in greens, a triple in red
+const CELL_STYLES: Record<number, string> = {
+  0: 'bg-green-500/35 text-green-100',
+  1: 'bg-lime-500/25 text-lime-100',
+  2: 'bg-amber-500/30 text-amber-100',
+  3: 'bg-red-500/40 text-red-100',
+}
+
+/**
+ * Stars conceded by every lineup position on every war day of a season, with
+ * the TH that took each base and which bases held
+ */
+export function DefenseHeatmap({ season, clanTag }: DefenseHeatmapProps) {
+  const { t } = useTranslation()
+  const [wars, setWars] = useState<WarTimeline[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadWars() {
+      setLoading(true)
+      try {
+        const timelines = await getSeasonWarTimelines(season, clanTag)
+        if (!cancelled) setWars(timelines)
+      } catch (err) {
+        console.error('Failed to load war timelines for the defense map:', err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadWars()
+    return () => { cancelled = true }
+  }, [season, clanTag])
+
+  const heatmap = useMemo(() => buildDefenseHeatmap(wars), [wars])
+
+  const describeCell = (cell: DefenseCell) => {
+    const defender = `${cell.name} (TH${cell.townhallLevel})`
+    if (cell.stars === null) return t('clanSeason.defenseMap.notAttacked', { defender })
+    return t('clanSeason.defenseMap.cellTip', {
+      defender,
+      attacker: cell.attackerName ?? '?',
+      attackerTH: cell.attackerTH ?? '?',
+      stars: cell.stars,
+      destruction: cell.destruction ?? 0,
+      count: cell.attacks,
+    })
+  }
+
+  if (loading) {
+    return <Skeleton className="h-64 w-full" />
+  }
+
+  if (heatmap.rows.length === 0) {
+    return (
+      <div className="rounded-lg border border-border/80 bg-card/50 p-8 text-center text-muted-foreground">
+        {t('clanSeason.defenseMap.noWars')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border border-border/80 bg-card/50 p-4 space-y-3">
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-1 text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-medium px-1">#</th>
+              {heatmap.days.map(day => (
+                <th key={day.day} className="font-medium px-1 min-w-[3.5rem]" title={day.opponent}>
+                  {t('clanSeason.defenseMap.day', { day: day.day })}
+                </th>
+              ))}
+              <th className="font-medium px-1">{t('clanSeason.defenseMap.held')}</th>
+              <th className="font-medium px-1">{t('clanSeason.defenseMap.avgAllowed')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {heatmap.rows.map(row => (
+              <tr key={row.rank}>
+                <td className="px-1 text-muted-foreground tabular-nums">{row.rank}</td>
+                {row.cells.map((cell, i) => (
+                  <td
+                    key={i}
+                    title={cell ? describeCell(cell) : undefined}
+                    className={cn(
+                      'rounded text-center px-1 py-1 tabular-nums leading-tight',
+                      !cell && 'bg-transparent',
+                      cell && cell.stars === null && 'bg-muted/30 text-muted-foreground',
+                      cell && cell.stars !== null && CELL_STYLES[cell.stars]
+                    )}
+                  >
+                    {cell && (
+                      cell.stars === null ? (
+                        <span className="text-xs">–</span>
+                      ) : (
+                        <>
+                          <p className="font-semibold">
+                            {cell.stars}★
+                            {isHeld(cell) && <Shield size={10} weight="fill" className="inline ml-0.5 -mt-0.5" />}
+                          </p>
+                          {cell.attackerTH !== null && (
+                            <p className="text-[10px] opacity-80">TH{cell.attackerTH}</p>
+                          )}
+                        </>
+                      )
+                    )}
+                  </td>
+                ))}
+                <td className="text-center tabular-nums px-1">
+                  <span className={cn(row.attacked > 0 && row.held === row.attacked && 'text-green-400 font-semibold')}>
+                    {row.held}/{row.attacked}
+                  </span>
+                </td>
+                <td className="text-center tabular-nums px-1">
+                  {row.avgStarsAllowed !== null ? row.avgStarsAllowed.toFixed(2) : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="text-xs text-muted-foreground">
+              <td className="px-1">★</td>
+              {heatmap.days.map(day => (
+                <td
+                  key={day.day}
+                  className="text-center tabular-nums px-1"
+                  title={t('clanSeason.defenseMap.dayTip', { opponent: day.opponent, triples: day.triplesAllowed })}
+                >
+                  {day.starsAllowed}
+                </td>
+              ))}
+              <td colSpan={2} />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {[0, 1, 2, 3].map(stars => (
+          <span key={stars} className="flex items-center gap-1">
+            <span className={cn('inline-block h-3 w-3 rounded', CELL_STYLES[stars])} />
+            {t('clanSeason.defenseMap.conceded', { stars })}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded bg-muted/30" />
+          {t('clanSeason.defenseMap.notAttackedLegend')}
+        </span>
+        <span className="flex items-center gap-1">
+          <Shield size={12} weight="fill" />
+          {t('clanSeason.defenseMap.heldLegend')}
+        </span>
+      </div>
+    </div>
+  )
+}
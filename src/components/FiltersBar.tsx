@@ -1,3 +1,4 @@
+import { StarsModeToggle } from '@/components/StarsModeToggle'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
@@ -16,11 +17,12 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Slider } from '@/components/ui/slider'
+import type { StarsMode } from '@/lib/netStars'
 import { cn } from '@/lib/utils'
 import { LayoutGrid, Rows, Search, SlidersHorizontal, X } from 'lucide-react'
 import * as React from 'react'
 
-export type PlayersSortKey = 'stars' | 'avgStars' | 'attacks' | 'name' | 'reliability' | 'performance' | 'attendance' | 'leagueAdj' | 'threeStarRate' | 'th' | 'wars'
+export type PlayersSortKey = 'stars' | 'avgStars' | 'attacks' | 'name' | 'reliability' | 'performance' | 'attendance' | 'leagueAdj' | 'threeStarRate' | 'th' | 'wars' | 'aboveExpected' | 'clutch'
 export type PlayersViewMode = 'table' | 'cards'
 
 interface FiltersBarProps {
@@ -32,6 +34,8 @@ interface FiltersBarProps {
   onTHsChange: (ths: number[]) => void
   sortBy: PlayersSortKey
   onSortChange: (sort: PlayersSortKey) => void
+  starsMode: StarsMode
+  onStarsModeChange: (mode: StarsMode) => void
   viewMode: PlayersViewMode
   onViewModeChange: (mode: PlayersViewMode) => void
   clanOptions: string[]
@@ -52,6 +56,8 @@ export function FiltersBar({
   onTHsChange,
   sortBy,
   onSortChange,
+  starsMode,
+  onStarsModeChange,
   viewMode,
   onViewModeChange,
   clanOptions,
@@ -245,6 +251,8 @@ export function FiltersBar({
             <SelectItem value="threeStarRate">3-Star Rate</SelectItem>
             <SelectItem value="stars">Most Stars</SelectItem>
             <SelectItem value="avgStars">Highest Avg</SelectItem>
+            <SelectItem value="aboveExpected">Above Expected</SelectItem>
+            <SelectItem value="clutch">Clutch Stars</SelectItem>
             <SelectItem value="attacks">Most Attacks</SelectItem>
             <SelectItem value="wars">Most Wars</SelectItem>
             <SelectItem value="th">Town Hall</SelectItem>
@@ -252,6 +260,9 @@ export function FiltersBar({
           </SelectContent>
         </Select>
 
+        {/* Raw / net stars */}
+        <StarsModeToggle value={starsMode} onChange={onStarsModeChange} />
+
         {/* Clear Filters */}
         {hasActiveFilters && (
           <Button
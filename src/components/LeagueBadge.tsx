@@ -1,24 +1,8 @@
 import { Badge } from '@/components/ui/badge'
-import { leagueBadgeVariant, positionBadgeClass } from '@/lib/data'
+import { leagueBadgeVariant, leagueIconUrl, positionBadgeClass } from '@/lib/data'
 import type { LeagueInfo } from '@/lib/types'
 import { Trophy } from '@phosphor-icons/react'
 
-// Map league tier names to icon filenames
-const LEAGUE_ICONS: Record<string, string> = {
-  'Champion League I': '/images/leagues/champion-1.png',
-  'Champion League II': '/images/leagues/champion-2.png',
-  'Champion League III': '/images/leagues/champion-3.png',
-  'Master League I': '/images/leagues/master-1.png',
-  'Master League II': '/images/leagues/master-2.png',
-  'Master League III': '/images/leagues/master-3.png',
-  'Crystal League I': '/images/leagues/crystal-1.png',
-  'Crystal League II': '/images/leagues/crystal-2.png',
-  'Crystal League III': '/images/leagues/crystal-3.png',
-  'Gold League I': '/images/leagues/gold-1.png',
-  'Gold League II': '/images/leagues/gold-1.png', // fallback to gold-1
-  'Gold League III': '/images/leagues/gold-1.png', // fallback to gold-1
-}
-
 // Get short league name for display
 const getShortLeagueName = (tier: string): string => {
   return tier
@@ -48,7 +32,7 @@ export function LeagueBadge({
 
   const variant = leagueBadgeVariant(league.tier)
   const positionClass = positionBadgeClass(groupPosition ?? null)
-  const iconUrl = LEAGUE_ICONS[league.tier]
+  const iconUrl = leagueIconUrl(league.tier)
 
   // Tailwind size classes (size-* sets both width and height)
   const iconSizeClasses = {
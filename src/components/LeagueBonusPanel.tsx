@@ -0,0 +1,164 @@
+import { THBadge } from '@/components/THBadge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useLeagueBonusSettings } from '@/hooks/useLeagueBonusSettings'
+import { getBonusCount, rankBonusCandidates, type BonusRules } from '@/lib/leagueBonuses'
+import type { SeasonRosterPlayer } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { ArrowCounterClockwise, Copy, Medal } from '@phosphor-icons/react'
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+interface LeagueBonusPanelProps {
+  roster: SeasonRosterPlayer[]
+  leagueTier: string | null
+  clanName: string
+  season: string
+}
+
+const RULE_KEYS: (keyof BonusRules)[] = ['stars', 'triples', 'attendance', 'missedAttacks', 'hitUp']
+
+/**
+ * Ranks the roster by the configurable bonus rules and proposes the league bonus recipients,
+ * ready to copy into the clan chat
+ */
+export function LeagueBonusPanel({ roster, leagueTier, clanName, season }: LeagueBonusPanelProps) {
+  const { t } = useTranslation()
+  const { settings, setRule, setCount, reset } = useLeagueBonusSettings()
+
+  const candidates = useMemo(() => rankBonusCandidates(roster, settings.rules), [roster, settings.rules])
+  const bonusCount = getBonusCount(settings.counts, leagueTier)
+  const recipients = candidates.slice(0, bonusCount)
+
+  function parsePoints(value: string): number | null {
+    const points = Number(value)
+    return value === '' || !Number.isFinite(points) ? null : points
+  }
+
+  async function copyList() {
+    const lines = [
+      t('leagueBonus.chatHeader', { clan: clanName, season, league: leagueTier ?? t('leagueBonus.unknownLeague') }),
+      ...recipients.map((c, i) => t('leagueBonus.chatLine', {
+        rank: i + 1,
+        name: c.player.name,
+        stars: c.player.stars,
+        triples: c.player.triples,
+      })),
+    ]
+    try {
+      await navigator.clipboard.writeText(lines.join('\n'))
+      toast.success(t('leagueBonus.copied'))
+    } catch {
+      toast.error(t('leagueBonus.copyFailed'))
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-border/80 bg-card/70 p-4 space-y-4">
+      <p className="text-sm text-muted-foreground">{t('leagueBonus.description')}</p>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="space-y-1">
+          <span className="block text-xs text-muted-foreground">
+            {t('leagueBonus.bonusCount', { league: leagueTier ?? t('leagueBonus.unknownLeague') })}
+          </span>
+          <Input
+            type="number"
+            min={0}
+            value={bonusCount}
+            disabled={!leagueTier}
+            onChange={(e) => {
+              const count = parseInt(e.target.value)
+              if (leagueTier && Number.isInteger(count) && count >= 0) setCount(leagueTier, count)
+            }}
+            className="h-8 w-20"
+          />
+        </label>
+
+        {RULE_KEYS.map(rule => (
+          <label key={rule} className="space-y-1">
+            <span className="block text-xs text-muted-foreground">{t(`leagueBonus.rules.${rule}`)}</span>
+            <Input
+              type="number"
+              step={0.5}
+              min={0}
+              value={settings.rules[rule]}
+              onChange={(e) => {
+                const points = parsePoints(e.target.value)
+                if (points !== null) setRule(rule, Math.max(0, points))
+              }}
+              className="h-8 w-20"
+            />
+          </label>
+        ))}
+
+        <div className="flex gap-2 ml-auto">
+          <Button variant="ghost" size="sm" className="h-8 gap-1" onClick={reset}>
+            <ArrowCounterClockwise size={14} />
+            {t('leagueBonus.reset')}
+          </Button>
+          <Button size="sm" className="h-8 gap-1" onClick={copyList} disabled={recipients.length === 0}>
+            <Copy size={14} />
+            {t('leagueBonus.copy')}
+          </Button>
+        </div>
+      </div>
+
+      {candidates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('leagueBonus.noCandidates')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">#</TableHead>
+                <TableHead>{t('clanSeason.playerName')}</TableHead>
+                <TableHead className="text-center">TH</TableHead>
+                <TableHead className="text-center">{t('clanSeason.stars')}</TableHead>
+                <TableHead className="text-center">{t('clanSeason.triples')}</TableHead>
+                <TableHead className="text-center">{t('clanSeason.warsParticipated')}</TableHead>
+                <TableHead className="text-center">{t('clanSeason.missedAttacks')}</TableHead>
+                <TableHead className="text-center">{t('leagueBonus.hitUpStars')}</TableHead>
+                <TableHead className="text-right">{t('leagueBonus.score')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {candidates.map((c, i) => {
+                const isRecipient = i < bonusCount
+                return (
+                  <TableRow
+                    key={c.player.tag}
+                    className={cn(isRecipient && 'bg-yellow-500/10', i === bonusCount - 1 && 'border-b-2 border-yellow-500/40')}
+                  >
+                    <TableCell className="tabular-nums">
+                      {isRecipient ? <Medal size={16} weight="fill" className="text-yellow-400" /> : i + 1}
+                    </TableCell>
+                    <TableCell className="font-medium">{c.player.name}</TableCell>
+                    <TableCell className="text-center">
+                      {c.player.townHallLevel ? <THBadge level={c.player.townHallLevel} /> : '-'}
+                    </TableCell>
+                    <TableCell className="text-center tabular-nums">{c.player.stars}</TableCell>
+                    <TableCell className="text-center tabular-nums">{c.player.triples}</TableCell>
+                    <TableCell className="text-center tabular-nums">{c.player.warsParticipated}</TableCell>
+                    <TableCell className={cn('text-center tabular-nums', (c.player.missedAttacks ?? 0) > 0 && 'text-red-400')}>
+                      {c.player.missedAttacks ?? 0}
+                    </TableCell>
+                    <TableCell className="text-center tabular-nums">{c.player.attackTypes?.hitUp.stars ?? '-'}</TableCell>
+                    <TableCell
+                      className="text-right font-bold tabular-nums"
+                      title={RULE_KEYS.map(rule => `${t(`leagueBonus.rules.${rule}`)}: ${c.breakdown[rule].toFixed(1)}`).join('\n')}
+                    >
+                      {c.score.toFixed(1)}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
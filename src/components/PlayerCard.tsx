@@ -1,6 +1,7 @@
 import { RoleBadge, type PlayerRole } from '@/components/RoleBadge'
 import { THBadge } from '@/components/THBadge'
 import { Badge } from '@/components/ui/badge'
+import { getStarTotals, type StarsMode } from '@/lib/netStars'
 import type { GlobalPlayer } from '@/lib/types'
 import { cn } from '@/lib/utils'
 import { Star, Target } from '@phosphor-icons/react'
@@ -9,12 +10,16 @@ interface PlayerCardProps {
   player: GlobalPlayer
   rank: number
   role?: PlayerRole
+  starsMode?: StarsMode
   onClick: () => void
   className?: string
   style?: React.CSSProperties
 }
 
-export function PlayerCard({ player, rank, role, onClick, className, style }: PlayerCardProps) {
+export function PlayerCard({ player, rank, role, starsMode = 'raw', onClick, className, style }: PlayerCardProps) {
+  const { stars, avgStars } = getStarTotals(player, starsMode)
+  const isNet = starsMode === 'net' && player.netStars !== undefined
+
   // Generate initials from player name
   const initials = player.name
     .split(' ')
@@ -99,8 +104,8 @@ export function PlayerCard({ player, rank, role, onClick, className, style }: Pl
           <div className="flex items-center gap-2">
             <Star size={20} weight="fill" className="text-yellow-400" />
             <div>
-              <p className="text-2xl font-bold tabular-nums">{player.stars}</p>
-              <p className="text-xs text-muted-foreground">Stars</p>
+              <p className="text-2xl font-bold tabular-nums">{stars}</p>
+              <p className="text-xs text-muted-foreground">{isNet ? 'Net Stars' : 'Stars'}</p>
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -114,9 +119,9 @@ export function PlayerCard({ player, rank, role, onClick, className, style }: Pl
 
         {/* Avg Stars */}
         <div className="text-center pt-2 border-t border-border/50">
-          <p className="text-sm text-muted-foreground">Avg per Attack</p>
+          <p className="text-sm text-muted-foreground">{isNet ? 'Net per Attack' : 'Avg per Attack'}</p>
           <p className="text-xl font-bold tabular-nums">
-            {player.avgStars !== null ? player.avgStars.toFixed(2) : '—'}
+            {avgStars !== null ? avgStars.toFixed(2) : '—'}
           </p>
         </div>
       </div>
@@ -1,3 +1,4 @@
+import { AttackTypeBreakdownTable } from '@/components/AttackTypeBreakdownTable'
 import { RoleBadge, type PlayerRole } from '@/components/RoleBadge'
 import { THBadge } from '@/components/THBadge'
 import { Badge } from '@/components/ui/badge'
@@ -148,6 +149,14 @@ export function PlayerModal({ player, role, open, onClose }: PlayerModalProps) {
                 </div>
               </div>
             )}
+
+            {/* Mirror / hit-up / hit-down split */}
+            {player.attackTypes && (
+              <div className="py-4 border-t border-border">
+                <h3 className="text-sm font-semibold mb-3">{t('attackTypes.title')}</h3>
+                <AttackTypeBreakdownTable breakdown={player.attackTypes} />
+              </div>
+            )}
           </>
         )}
 
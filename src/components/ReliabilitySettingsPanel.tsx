@@ -0,0 +1,150 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { Slider } from '@/components/ui/slider'
+import {
+  getLeagueTierScore,
+  OFFICIAL_RELIABILITY_CONFIG,
+  type ReliabilityConfig,
+  type ReliabilityWeights,
+} from '@/lib/reliability'
+import { cn } from '@/lib/utils'
+import { FlaskConical, Link, RotateCcw } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+interface ReliabilitySettingsPanelProps {
+  config: ReliabilityConfig
+  isOfficial: boolean
+  onChange: (config: ReliabilityConfig) => void
+  onReset: () => void
+  className?: string
+}
+
+const WEIGHT_KEYS: (keyof ReliabilityWeights)[] = ['performance', 'attendance', 'leagueAdj']
+const TIERS = Object.keys(OFFICIAL_RELIABILITY_CONFIG.tierScores)
+
+/**
+ * "What-if" editor for the reliability weights and league tier scores.
+ * Changes are applied live by the page; the config itself lives in the URL.
+ */
+export function ReliabilitySettingsPanel({
+  config,
+  isOfficial,
+  onChange,
+  onReset,
+  className,
+}: ReliabilitySettingsPanelProps) {
+  const { t } = useTranslation()
+
+  const weightPercents = WEIGHT_KEYS.map(key => Math.round(config.weights[key] * 100))
+  const weightTotal = weightPercents.reduce((sum, weight) => sum + weight, 0)
+
+  function setWeight(key: keyof ReliabilityWeights, percent: number) {
+    onChange({ ...config, weights: { ...config.weights, [key]: percent / 100 } })
+  }
+
+  function setTierScore(tier: string, value: string) {
+    const score = Number(value)
+    if (value === '' || !Number.isFinite(score)) return
+    onChange({
+      ...config,
+      tierScores: { ...config.tierScores, [tier]: Math.min(100, Math.max(0, Math.round(score))) },
+    })
+  }
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success(t('reliability.settings.linkCopied'))
+    } catch {
+      toast.error(t('reliability.settings.linkCopyFailed'))
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={cn('justify-start', className)}>
+          <FlaskConical className="h-4 w-4 mr-2" />
+          {t('reliability.settings.title')}
+          {!isOfficial && (
+            <Badge variant="secondary" className="ml-2">
+              {t('reliability.settings.custom')}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-[70vh] overflow-y-auto" align="start">
+        <div className="space-y-4">
+          <div>
+            <h4 className="font-medium">{t('reliability.settings.title')}</h4>
+            <p className="text-xs text-muted-foreground mt-1">{t('reliability.settings.description')}</p>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('reliability.settings.weights')}</h4>
+            {WEIGHT_KEYS.map((key, i) => (
+              <div key={key} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span>{t(`reliability.settings.components.${key}`)}</span>
+                  <span className="tabular-nums text-muted-foreground">{weightPercents[i]}%</span>
+                </div>
+                <Slider
+                  value={[weightPercents[i]]}
+                  onValueChange={(v) => setWeight(key, v[0])}
+                  max={100}
+                  step={5}
+                />
+              </div>
+            ))}
+            {weightTotal !== 100 && (
+              <p className="text-xs text-muted-foreground">
+                {t('reliability.settings.normalized', { total: weightTotal })}
+              </p>
+            )}
+          </div>
+
+          <div className="border-t pt-4">
+            <h4 className="font-medium mb-3">{t('reliability.settings.tierScores')}</h4>
+            <div className="space-y-2">
+              {TIERS.map(tier => (
+                <div key={tier} className="flex items-center justify-between gap-3">
+                  <Label htmlFor={`tier-score-${tier}`} className="text-sm font-normal">
+                    {tier}
+                  </Label>
+                  <Input
+                    id={`tier-score-${tier}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={getLeagueTierScore(tier, config.tierScores)}
+                    onChange={(e) => setTierScore(tier, e.target.value)}
+                    className="h-8 w-20 text-right tabular-nums"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t pt-4 flex gap-2">
+            <Button variant="outline" size="sm" onClick={onReset} disabled={isOfficial} className="flex-1">
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {t('reliability.settings.reset')}
+            </Button>
+            <Button variant="outline" size="sm" onClick={copyLink} className="flex-1">
+              <Link className="h-4 w-4 mr-2" />
+              {t('reliability.settings.copyLink')}
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,6 +1,9 @@
+import { StarsModeToggle } from '@/components/StarsModeToggle'
 import { THBadge } from '@/components/THBadge'
 import { Badge } from '@/components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { getStarTotals, type StarsMode } from '@/lib/netStars'
+import { calculateSeasonReliability } from '@/lib/reliability'
 import type { SeasonRosterPlayer } from '@/lib/types'
 import { ArrowDown, ArrowUp, Star } from '@phosphor-icons/react'
 import { useMemo, useState } from 'react'
@@ -17,47 +20,13 @@ interface RosterStatsTableProps {
 type SortField = 'name' | 'attacks' | 'stars' | 'avgStars' | 'triples' | 'warsParticipated'
 type SortDirection = 'asc' | 'desc'
 
-/**
- * League tier difficulty scores (0-100 scale)
- * Higher leagues get higher scores as a bonus for competing at a harder level
- */
-function getLeagueScore(leagueTier?: string): number {
-  if (!leagueTier) return 50 // Default for unknown leagues
-  const tier = leagueTier.toLowerCase()
-  if (tier.includes('champion') && tier.includes('i') && !tier.includes('ii') && !tier.includes('iii')) return 100
-  if (tier.includes('champion') && tier.includes('ii') && !tier.includes('iii')) return 90
-  if (tier.includes('champion') && tier.includes('iii')) return 80
-  if (tier.includes('master') && tier.includes('i') && !tier.includes('ii') && !tier.includes('iii')) return 70
-  if (tier.includes('master') && tier.includes('ii') && !tier.includes('iii')) return 60
-  if (tier.includes('master') && tier.includes('iii')) return 50
-  if (tier.includes('crystal') && tier.includes('i') && !tier.includes('ii') && !tier.includes('iii')) return 40
-  if (tier.includes('crystal') && tier.includes('ii') && !tier.includes('iii')) return 35
-  if (tier.includes('crystal') && tier.includes('iii')) return 30
-  if (tier.includes('gold') && tier.includes('i') && !tier.includes('ii') && !tier.includes('iii')) return 25
-  if (tier.includes('gold') && tier.includes('ii') && !tier.includes('iii')) return 20
-  if (tier.includes('gold') && tier.includes('iii')) return 15
-  return 50
-}
-
-/**
- * Comprehensive reliability formula matching aggregate-all-seasons.ts
- * Formula: (Performance × 0.45) + (Attendance × 0.35) + (LeagueAdj × 0.20)
- */
-function calculateReliabilityScore(player: SeasonRosterPlayer, leagueTier?: string): number {
-  const threeStarRate = player.attacks > 0 ? (player.triples / player.attacks) * 100 : 0
-  const performance = ((player.avgStars / 3) * 50) + ((threeStarRate / 100) * 50)
-  const maxPossible = player.warsParticipated
-  const attendance = maxPossible > 0 ? (player.attacks / maxPossible) * 100 : 0
-  const leagueAdj = getLeagueScore(leagueTier)
-
-  return (performance * 0.45) + (attendance * 0.35) + (leagueAdj * 0.20)
-}
-
 export function RosterStatsTable({ roster, leagueTier, preparationMode = false }: RosterStatsTableProps) {
   const { t } = useTranslation()
   const navigate = useNavigate()
   const [sortField, setSortField] = useState<SortField>(preparationMode ? 'name' : 'stars')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [starsMode, setStarsMode] = useState<StarsMode>('raw')
+  const hasNetStars = !preparationMode && roster.some(p => p.netStars !== undefined)
 
   const sortedRoster = useMemo(() => {
     return [...roster].sort((a, b) => {
@@ -74,12 +43,12 @@ export function RosterStatsTable({ roster, leagueTier, preparationMode = false }
           bVal = b.attacks
           break
         case 'stars':
-          aVal = a.stars
-          bVal = b.stars
+          aVal = getStarTotals(a, starsMode).stars
+          bVal = getStarTotals(b, starsMode).stars
           break
         case 'avgStars':
-          aVal = a.avgStars
-          bVal = b.avgStars
+          aVal = getStarTotals(a, starsMode).avgStars ?? 0
+          bVal = getStarTotals(b, starsMode).avgStars ?? 0
           break
         case 'triples':
           aVal = a.triples
@@ -104,7 +73,7 @@ export function RosterStatsTable({ roster, leagueTier, preparationMode = false }
         ? (aVal as number) - (bVal as number)
         : (bVal as number) - (aVal as number)
     })
-  }, [roster, sortField, sortDirection])
+  }, [roster, sortField, sortDirection, starsMode])
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -121,7 +90,7 @@ export function RosterStatsTable({ roster, leagueTier, preparationMode = false }
     return 'text-red-400'
   }
 
-  // Reliability is now calculated using the comprehensive formula above
+  // Reliability uses the shared formula from @/lib/reliability (same as the generated data)
 
   const handlePlayerClick = (playerTag: string) => {
     const encodedTag = encodeURIComponent(playerTag.replace('#', ''))
@@ -140,6 +109,11 @@ export function RosterStatsTable({ roster, leagueTier, preparationMode = false }
           {t('preparation.awaiting_first_war')}
         </div>
       )}
+      {hasNetStars && (
+        <div className="flex justify-end px-4 py-2 border-b border-border/50">
+          <StarsModeToggle value={starsMode} onChange={setStarsMode} />
+        </div>
+      )}
       <div className="overflow-x-auto">
         <Table>
           <TableHeader>
@@ -179,7 +153,7 @@ export function RosterStatsTable({ roster, leagueTier, preparationMode = false }
                     onClick={() => handleSort('stars')}
                   >
                     <div className="flex items-center justify-center gap-1">
-                      {t('standings.stars')}
+                      {starsMode === 'net' ? t('netStars.net') : t('standings.stars')}
                       <SortIcon field="stars" />
                     </div>
                   </TableHead>
@@ -210,10 +184,11 @@ export function RosterStatsTable({ roster, leagueTier, preparationMode = false }
           </TableHeader>
           <TableBody>
             {sortedRoster.map((player) => {
-              const reliabilityScore = calculateReliabilityScore(player, leagueTier)
+              const reliabilityScore = calculateSeasonReliability(player, leagueTier)
               // CWL: 1 attack per war (not 2 like regular wars)
               const maxPossibleAttacks = player.warsParticipated
               const missedAttacks = player.missedAttacks ?? (maxPossibleAttacks - player.attacks)
+              const { stars, avgStars } = getStarTotals(player, starsMode)
 
               return (
                 <TableRow
@@ -253,12 +228,15 @@ export function RosterStatsTable({ roster, leagueTier, preparationMode = false }
                       <TableCell className="text-center">
                         <div className="flex items-center justify-center gap-1">
                           <Star size={14} weight="fill" className="text-yellow-400" />
-                          <span className="font-bold text-yellow-400">{player.stars}</span>
+                          <span className="font-bold text-yellow-400">{stars}</span>
+                          {starsMode === 'net' && stars !== player.stars && (
+                            <span className="text-xs text-muted-foreground">/{player.stars}</span>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell className="text-center">
-                        <span className={`font-bold ${getAvgStarsColor(player.avgStars)}`}>
-                          {player.avgStars.toFixed(2)}
+                        <span className={`font-bold ${getAvgStarsColor(avgStars ?? 0)}`}>
+                          {(avgStars ?? 0).toFixed(2)}
                         </span>
                       </TableCell>
                       <TableCell className="text-center">
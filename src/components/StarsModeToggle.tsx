@@ -0,0 +1,33 @@
+import { Button } from '@/components/ui/button'
+import type { StarsMode } from '@/lib/netStars'
+import { cn } from '@/lib/utils'
+import { useTranslation } from 'react-i18next'
+
+interface StarsModeToggleProps {
+  value: StarsMode
+  onChange: (mode: StarsMode) => void
+  className?: string
+}
+
+/**
+ * Switches star totals between raw stars and net stars (what the attacks added to the war score)
+ */
+export function StarsModeToggle({ value, onChange, className }: StarsModeToggleProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className={cn('flex gap-1 bg-muted/50 p-1 rounded-lg', className)} title={t('netStars.tooltip')}>
+      {(['raw', 'net'] as const).map(mode => (
+        <Button
+          key={mode}
+          variant={value === mode ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => onChange(mode)}
+          className="h-7 px-2 text-xs"
+        >
+          {t(`netStars.${mode}`)}
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -3,7 +3,7 @@ import { useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 
 interface THDistributionChartProps {
-  roster: SeasonRosterPlayer[]
+  roster: Pick<SeasonRosterPlayer, 'townHallLevel'>[]
 }
 
 export function THDistributionChart({ roster }: THDistributionChartProps) {
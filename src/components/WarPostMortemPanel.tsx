@@ -0,0 +1,188 @@
+import { Badge } from '@/components/ui/badge'
+import type { PostMortemFlipStep, WarPostMortem, WarTimeline } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { ArrowsClockwise, Crosshair, ProhibitInset, Target, Warning } from '@phosphor-icons/react'
+import type { ReactNode } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface WarPostMortemPanelProps {
+  postMortem: WarPostMortem
+  result: WarTimeline['result']
+}
+
+function getStarDisplay(stars: number) {
+  return (
+    <span className="text-yellow-400">
+      {'★'.repeat(stars)}
+      <span className="text-muted-foreground/30">{'★'.repeat(3 - stars)}</span>
+    </span>
+  )
+}
+
+/**
+ * Post-mortem of an ended war: bases left below three stars, hits that added
+ * nothing, bases hit more than once, missed attacks and the fewest attacks
+ * that would have flipped the result. Computed by build-war-timelines.
+ */
+export function WarPostMortemPanel({ postMortem, result }: WarPostMortemPanelProps) {
+  const { t } = useTranslation()
+  const { margin, flip } = postMortem
+
+  const marginKey = result === 'tie'
+    ? 'tied'
+    : `${result === 'win' ? 'won' : 'lost'}${margin.stars === 0 ? 'OnDestruction' : ''}`
+  const destruction = `${margin.destruction > 0 ? '+' : ''}${margin.destruction.toFixed(1)}%`
+
+  const describeStep = (step: PostMortemFlipStep) => {
+    const params = {
+      attacker: step.attackerName,
+      defender: `#${step.defenderRank} ${step.defenderName}`,
+      order: step.order,
+    }
+    return t(`warDetail.postMortem.step.${step.action}`, params)
+  }
+
+  const section = (icon: ReactNode, title: string, count: number, children: ReactNode) => (
+    <div className="rounded-lg border border-border/50 bg-background/30 p-4 space-y-2">
+      <div className="flex items-center gap-2">
+        {icon}
+        <h3 className="font-semibold">{title}</h3>
+        <Badge variant="secondary" className="ml-auto">{count}</Badge>
+      </div>
+      {count === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('warDetail.postMortem.none')}</p>
+      ) : (
+        <ul className="space-y-1 text-sm max-h-64 overflow-y-auto">{children}</ul>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="rounded-lg border border-border/80 bg-card/50 p-4 space-y-4">
+      {/* Margin and flip */}
+      <div className="space-y-2">
+        <p className="text-lg font-semibold">
+          {t(`warDetail.postMortem.margin.${marginKey}`, { stars: Math.abs(margin.stars) })}
+          <span className="text-sm font-normal text-muted-foreground ml-2">
+            {t('warDetail.postMortem.destructionMargin', { destruction })}
+          </span>
+        </p>
+        <div className={cn(
+          'rounded-md border p-3 space-y-1',
+          flip.to === 'win' ? 'border-primary/40 bg-primary/5' : 'border-red-500/30 bg-red-500/5'
+        )}>
+          <p className="text-sm font-medium">
+            {t(`warDetail.postMortem.flip.${flip.to}`, { count: flip.starsNeeded })}
+          </p>
+          {flip.steps.length > 0 && (
+            <ol className="list-decimal list-inside text-sm space-y-0.5">
+              {flip.steps.map((step, i) => (
+                <li key={i}>
+                  {describeStep(step)}
+                  <span className={cn('ml-1 tabular-nums', step.action === 'remove' ? 'text-red-400' : 'text-green-400')}>
+                    {step.action === 'remove' ? '−' : '+'}{step.stars}★
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+          {!flip.possible && (
+            <p className="text-xs text-muted-foreground">{t('warDetail.postMortem.flip.notPossible')}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {section(
+          <Target size={18} className="text-primary" />,
+          t('warDetail.postMortem.basesBelowThree'),
+          postMortem.basesBelowThree.length,
+          postMortem.basesBelowThree.map(base => (
+            <li key={base.tag} className="flex items-center justify-between gap-2">
+              <span className="truncate">
+                <span className="text-muted-foreground tabular-nums">#{base.rank}</span> {base.name}
+                <span className="text-xs text-muted-foreground"> · TH{base.townhallLevel}</span>
+              </span>
+              <span className="shrink-0 tabular-nums">
+                {base.attacks > 0 ? (
+                  <>
+                    {getStarDisplay(base.stars)} {base.destruction}%
+                  </>
+                ) : (
+                  <span className="text-red-400">{t('warDetail.postMortem.notAttacked')}</span>
+                )}
+              </span>
+            </li>
+          ))
+        )}
+
+        {section(
+          <Crosshair size={18} className="text-orange-400" />,
+          t('warDetail.postMortem.zeroGain'),
+          postMortem.zeroGainAttacks.length,
+          postMortem.zeroGainAttacks.map(attack => (
+            <li key={attack.order} className="flex items-center justify-between gap-2">
+              <span className="truncate">
+                <span className="text-muted-foreground tabular-nums">{attack.order}.</span> {attack.attackerName}
+                {' → '}#{attack.defenderRank} {attack.defenderName}
+              </span>
+              <span className="shrink-0 flex items-center gap-1">
+                {getStarDisplay(attack.stars)}
+                {attack.previousStars === 3 ? (
+                  <Badge variant="outline" className="text-xs border-orange-500/40 text-orange-400">
+                    {t('warDetail.postMortem.overkill')}
+                  </Badge>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {t('warDetail.postMortem.previousBest', { stars: attack.previousStars })}
+                  </span>
+                )}
+              </span>
+            </li>
+          ))
+        )}
+
+        {section(
+          <ArrowsClockwise size={18} className="text-yellow-400" />,
+          t('warDetail.postMortem.duplicateHits'),
+          postMortem.duplicateHits.length,
+          postMortem.duplicateHits.map(hit => (
+            <li key={hit.defenderTag} className="flex items-center justify-between gap-2">
+              <span className="truncate">
+                <span className="text-muted-foreground tabular-nums">#{hit.defenderRank}</span> {hit.defenderName}
+              </span>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {t('warDetail.postMortem.hits', { count: hit.orders.length, orders: hit.orders.join(', ') })}
+                {' '}{getStarDisplay(hit.stars)}
+              </span>
+            </li>
+          ))
+        )}
+
+        {section(
+          <ProhibitInset size={18} className="text-red-400" />,
+          t('warDetail.postMortem.missedAttacks'),
+          postMortem.missedAttacks.length,
+          postMortem.missedAttacks.map(member => (
+            <li key={member.tag} className="flex items-center justify-between gap-2">
+              <span className="truncate">
+                <span className="text-muted-foreground tabular-nums">#{member.rank}</span> {member.name}
+                <span className="text-xs text-muted-foreground"> · TH{member.townhallLevel}</span>
+              </span>
+              {member.missed > 1 && <span className="shrink-0 text-xs text-red-400">×{member.missed}</span>}
+            </li>
+          ))
+        )}
+      </div>
+
+      {postMortem.missedAttacks.length + postMortem.zeroGainAttacks.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Warning size={14} />
+          {t('warDetail.postMortem.wasted', {
+            count: postMortem.missedAttacks.reduce((sum, m) => sum + m.missed, 0) + postMortem.zeroGainAttacks.length,
+          })}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { COLORS } from '@/lib/chartColors'
+import type { WarTimeline } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { buildWarReplay, type BaseResult, type ReplayBase } from '@/lib/warReplay'
+import { CaretLeft, CaretRight, Pause, Play, SkipBack, SkipForward } from '@phosphor-icons/react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+
+interface WarReplayProps {
+  war: WarTimeline
+}
+
+const SPEEDS = [0.5, 1, 2, 4]
+const STEP_MS = 1200  // Per attack at 1×
+
+const BASE_STYLES: Record<number, string> = {
+  0: 'bg-red-500/20 border-red-500/40',
+  1: 'bg-orange-500/20 border-orange-500/40',
+  2: 'bg-yellow-500/20 border-yellow-500/40',
+  3: 'bg-green-500/25 border-green-500/50',
+}
+
+function formatDuration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+/**
+ * Steps through the attack timeline in order: running score of both sides,
+ * the star lead after every attack and both lineups lit up with the best
+ * result each base has taken so far
+ */
+export function WarReplay({ war }: WarReplayProps) {
+  const { t } = useTranslation()
+  const replay = useMemo(() => buildWarReplay(war), [war])
+  const [step, setStep] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+
+  const lastStep = replay.frames.length - 1
+  const frame = replay.frames[Math.min(step, lastStep)]
+  const attack = frame.attack
+
+  const ranks = useMemo(
+    () => new Map([...replay.clanBases, ...replay.opponentBases].map(b => [b.tag, b.rank])),
+    [replay]
+  )
+  const leadData = useMemo(() => replay.frames.map(f => ({ step: f.step, lead: f.lead })), [replay])
+  const maxLead = Math.max(1, ...leadData.map(d => Math.abs(d.lead)))
+
+  useEffect(() => {
+    if (!playing) return
+    const timer = setInterval(() => {
+      setStep(current => Math.min(current + 1, lastStep))
+    }, STEP_MS / speed)
+    return () => clearInterval(timer)
+  }, [playing, speed, lastStep])
+
+  // Stop at the last attack
+  useEffect(() => {
+    if (step >= lastStep) setPlaying(false)
+  }, [step, lastStep])
+
+  const togglePlaying = () => {
+    // Play from the start again once the replay is over
+    if (!playing && step >= lastStep) setStep(0)
+    setPlaying(!playing)
+  }
+
+  const goTo = (target: number) => {
+    setPlaying(false)
+    setStep(Math.max(0, Math.min(lastStep, target)))
+  }
+
+  const sideScore = (side: 'clan' | 'opponent') => {
+    const score = frame[side]
+    const isClan = side === 'clan'
+    return (
+      <div className={cn('text-center', frame.leader === side && 'scale-105 transition-transform')}>
+        <p className={cn('font-semibold truncate', isClan ? 'text-primary' : 'text-muted-foreground')}>
+          {isClan ? war.clan.name : war.opponent.name}
+        </p>
+        <p className={cn('text-4xl font-bold tabular-nums', isClan ? 'text-primary' : 'text-muted-foreground')}>
+          {score.stars}
+        </p>
+        <p className="text-sm tabular-nums">{score.destruction.toFixed(1)}%</p>
+        <p className="text-xs text-muted-foreground">
+          {t('warDetail.replay.attacksUsed', { used: score.attacks, total: war.teamSize })}
+        </p>
+      </div>
+    )
+  }
+
+  const baseGrid = (title: string, lineup: ReplayBase[]) => (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{title}</p>
+      <div className="grid grid-cols-5 gap-1.5">
+        {lineup.map(base => {
+          const result: BaseResult | undefined = frame.bases.get(base.tag)
+          const isTarget = attack?.defenderTag === base.tag
+          return (
+            <div
+              key={base.tag}
+              title={result
+                ? t('warDetail.replay.baseResult', { name: base.name, stars: result.stars, destruction: result.destruction })
+                : base.name}
+              className={cn(
+                'rounded border px-1.5 py-1 text-center transition-colors duration-300',
+                result ? BASE_STYLES[result.stars] : 'bg-background/30 border-border/50',
+                isTarget && 'ring-2 ring-primary'
+              )}
+            >
+              <p className="text-[10px] text-muted-foreground tabular-nums">#{base.rank} · TH{base.townhallLevel}</p>
+              <p className="text-xs leading-tight">
+                <span className="text-yellow-400">{'★'.repeat(result?.stars ?? 0)}</span>
+                <span className="text-muted-foreground/30">{'★'.repeat(3 - (result?.stars ?? 0))}</span>
+              </p>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+
+  if (lastStep === 0) {
+    return (
+      <div className="rounded-lg border border-border/80 bg-card/50 p-8 text-center text-muted-foreground">
+        {t('warDetail.replay.noAttacks')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border border-border/80 bg-card/50 p-4 space-y-5">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => goTo(0)} aria-label={t('warDetail.replay.start')}>
+          <SkipBack size={14} />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => goTo(step - 1)} aria-label={t('warDetail.replay.previous')}>
+          <CaretLeft size={14} />
+        </Button>
+        <Button size="sm" className="h-8 w-24 gap-1" onClick={togglePlaying}>
+          {playing ? <Pause size={14} weight="fill" /> : <Play size={14} weight="fill" />}
+          {playing ? t('warDetail.replay.pause') : t('warDetail.replay.play')}
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => goTo(step + 1)} aria-label={t('warDetail.replay.next')}>
+          <CaretRight size={14} />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => goTo(lastStep)} aria-label={t('warDetail.replay.end')}>
+          <SkipForward size={14} />
+        </Button>
+        <Slider
+          value={[step]}
+          onValueChange={(v) => goTo(v[0])}
+          max={lastStep}
+          step={1}
+          className="flex-1 min-w-[160px] mx-2"
+        />
+        <span className="text-xs text-muted-foreground tabular-nums w-16 text-right">
+          {step} / {lastStep}
+        </span>
+        <Select value={String(speed)} onValueChange={(v) => setSpeed(Number(v))}>
+          <SelectTrigger className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEEDS.map(s => (
+              <SelectItem key={s} value={String(s)}>{s}×</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Running score */}
+      <div className="grid grid-cols-3 items-center gap-4">
+        {sideScore('clan')}
+        <div className="text-center text-sm min-h-[4.5rem] flex flex-col items-center justify-center">
+          {attack ? (
+            <>
+              <p className="text-xs text-muted-foreground">{t('warDetail.replay.attackNumber', { number: step })}</p>
+              <p className="font-medium">
+                <span className={attack.side === 'clan' ? 'text-primary' : 'text-muted-foreground'}>
+                  #{ranks.get(attack.attackerTag) ?? attack.attackerMapPosition} {attack.attackerName}
+                </span>
+                {' → '}
+                <span>#{ranks.get(attack.defenderTag) ?? attack.defenderMapPosition} {attack.defenderName}</span>
+              </p>
+              <p>
+                <span className="text-yellow-400">{'★'.repeat(attack.stars)}</span>
+                <span className="text-muted-foreground/30">{'★'.repeat(3 - attack.stars)}</span>
+                {' '}
+                <span className="tabular-nums">{attack.destructionPercentage}%</span>
+                <span className="text-xs text-muted-foreground"> · TH{attack.attackerTH} → TH{attack.defenderTH} · {formatDuration(attack.duration)}</span>
+              </p>
+            </>
+          ) : (
+            <p className="text-muted-foreground">{t('warDetail.replay.battleDay')}</p>
+          )}
+        </div>
+        {sideScore('opponent')}
+      </div>
+
+      {/* Lead graph */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">{t('warDetail.replay.leadTitle')}</span>
+          <span className="text-xs text-muted-foreground">
+            {t('warDetail.replay.leadChanges', { count: replay.leadChanges })}
+          </span>
+        </div>
+        <div className="h-36">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={leadData} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={COLORS.grid} />
+              <XAxis dataKey="step" tick={{ fontSize: 10 }} />
+              <YAxis domain={[-maxLead, maxLead]} allowDecimals={false} tick={{ fontSize: 10 }} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '0.5rem',
+                }}
+              />
+              <ReferenceLine y={0} stroke={COLORS.axis} strokeOpacity={0.5} />
+              <ReferenceLine x={step} stroke={COLORS.avgStars} strokeWidth={2} />
+              <Line
+                type="stepAfter"
+                dataKey="lead"
+                name={t('warDetail.replay.lead')}
+                stroke={COLORS.primary}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Lineups */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {baseGrid(t('warDetail.replay.clanLineup', { clan: war.clan.name }), replay.clanBases)}
+        {baseGrid(t('warDetail.replay.opponentLineup', { clan: war.opponent.name }), replay.opponentBases)}
+      </div>
+    </div>
+  )
+}
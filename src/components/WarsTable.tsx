@@ -7,9 +7,11 @@ import { useTranslation } from 'react-i18next'
 interface WarsTableProps {
   wars: SeasonWar[]
   onWarClick?: (war: SeasonWar) => void
+  // Opens the opponent's scouting report
+  onOpponentClick?: (war: SeasonWar) => void
 }
 
-export function WarsTable({ wars, onWarClick }: WarsTableProps) {
+export function WarsTable({ wars, onWarClick, onOpponentClick }: WarsTableProps) {
   const { t } = useTranslation()
   const isClickable = !!onWarClick
 
@@ -60,7 +62,21 @@ export function WarsTable({ wars, onWarClick }: WarsTableProps) {
               </TableCell>
               <TableCell>
                 <div>
-                  <p className="font-medium">{war.opponent.name}</p>
+                  {onOpponentClick ? (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onOpponentClick(war)
+                      }}
+                      className="font-medium hover:text-primary hover:underline text-left"
+                      title={t('scouting.viewReport')}
+                    >
+                      {war.opponent.name}
+                    </button>
+                  ) : (
+                    <p className="font-medium">{war.opponent.name}</p>
+                  )}
                   <p className="text-xs text-muted-foreground">{war.opponent.tag}</p>
                 </div>
               </TableCell>
@@ -0,0 +1,150 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { formatDays, WAR_DAYS } from '@/lib/availability'
+import type { AvailabilityStatus, CustomClan, PlayerAvailability } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { CalendarBlank } from '@phosphor-icons/react'
+import { useTranslation } from 'react-i18next'
+
+// Days a player switched to "partial" starts with (the first half of the week)
+const DEFAULT_PARTIAL_DAYS = [1, 2, 3, 4]
+
+const NO_PREFERENCE = 'none'
+
+interface AvailabilityEditorProps {
+  availability: PlayerAvailability | undefined
+  onChange: (availability: PlayerAvailability | null) => void
+  allClans: CustomClan[]
+}
+
+/**
+ * Sign-up badge for a player row, with a popover to edit status, war days, preferred clan and notes
+ */
+export function AvailabilityEditor({ availability, onChange, allClans }: AvailabilityEditorProps) {
+  const { t } = useTranslation()
+
+  const setStatus = (status: AvailabilityStatus | null) => {
+    if (!status) {
+      onChange(null)
+      return
+    }
+    onChange({
+      ...availability,
+      status,
+      days: status === 'partial' ? availability?.days ?? DEFAULT_PARTIAL_DAYS : undefined,
+    })
+  }
+
+  const toggleDay = (day: number) => {
+    if (!availability) return
+    const days = availability.days ?? []
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b)
+    onChange({ ...availability, days: next })
+  }
+
+  const badge = () => {
+    switch (availability?.status) {
+      case 'in':
+        return <span className="text-[10px] font-bold bg-green-500/20 text-green-400 px-1.5 py-0.5 rounded">{t('rosterBuilder.availability.in')}</span>
+      case 'out':
+        return <span className="text-[10px] font-bold bg-red-500/20 text-red-400 px-1.5 py-0.5 rounded">{t('rosterBuilder.availability.out')}</span>
+      case 'partial':
+        return (
+          <span className="text-[10px] font-bold bg-amber-500/20 text-amber-300 px-1.5 py-0.5 rounded">
+            {t('rosterBuilder.availability.daysShort', { days: formatDays(availability.days ?? []) })}
+          </span>
+        )
+      default:
+        return <CalendarBlank size={14} className="text-muted-foreground/60" />
+    }
+  }
+
+  const statuses: (AvailabilityStatus | null)[] = [null, 'in', 'partial', 'out']
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="shrink-0 hover:opacity-80"
+          onClick={(e) => e.stopPropagation()}
+          aria-label={t('rosterBuilder.availability.edit')}
+          title={availability?.notes || t('rosterBuilder.availability.edit')}
+        >
+          {badge()}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <p className="text-sm font-medium">{t('rosterBuilder.availability.title')}</p>
+
+        <div className="grid grid-cols-4 gap-1">
+          {statuses.map(status => (
+            <Button
+              key={status ?? 'unknown'}
+              size="sm"
+              variant={(availability?.status ?? null) === status ? 'default' : 'outline'}
+              className="h-7 text-xs px-1"
+              onClick={() => setStatus(status)}
+            >
+              {t(`rosterBuilder.availability.${status ?? 'unknown'}`)}
+            </Button>
+          ))}
+        </div>
+
+        {availability?.status === 'partial' && (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">{t('rosterBuilder.availability.warDays')}</p>
+            <div className="flex gap-1">
+              {WAR_DAYS.map(day => (
+                <button
+                  key={day}
+                  onClick={() => toggleDay(day)}
+                  className={cn(
+                    'h-7 w-7 rounded text-xs font-semibold border transition-colors',
+                    availability.days?.includes(day)
+                      ? 'bg-amber-500/30 border-amber-500/60 text-amber-200'
+                      : 'border-border/60 text-muted-foreground hover:bg-muted/40'
+                  )}
+                >
+                  {day}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {availability && availability.status !== 'out' && (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">{t('rosterBuilder.availability.preferredClan')}</p>
+            <Select
+              value={availability.preferredClan ?? NO_PREFERENCE}
+              onValueChange={(value) => onChange({ ...availability, preferredClan: value === NO_PREFERENCE ? undefined : value })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PREFERENCE}>—</SelectItem>
+                {allClans.map(clan => (
+                  <SelectItem key={clan.tag} value={clan.tag}>
+                    <span className={clan.color}>{clan.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {availability && (
+          <Input
+            placeholder={t('rosterBuilder.availability.notes')}
+            value={availability.notes ?? ''}
+            onChange={(e) => onChange({ ...availability, notes: e.target.value || undefined })}
+            className="h-8 text-xs"
+          />
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
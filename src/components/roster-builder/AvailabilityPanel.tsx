@@ -0,0 +1,81 @@
+import { Button } from '@/components/ui/button'
+import type { SeasonAvailability } from '@/lib/types'
+import { CalendarCheck, UploadSimple } from '@phosphor-icons/react'
+import { useMemo, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface AvailabilityPanelProps {
+  season: string
+  availability: SeasonAvailability
+  poolSize: number
+  onImportFile: (file: File) => void
+  onClear: () => void
+}
+
+/**
+ * Sign-up summary for the season being planned, with CSV/JSON sign-up sheet import
+ */
+export function AvailabilityPanel({ season, availability, poolSize, onImportFile, onClear }: AvailabilityPanelProps) {
+  const { t } = useTranslation()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const counts = useMemo(() => {
+    const entries = Object.values(availability)
+    return {
+      in: entries.filter(a => a.status === 'in').length,
+      partial: entries.filter(a => a.status === 'partial').length,
+      out: entries.filter(a => a.status === 'out').length,
+      total: entries.length,
+    }
+  }, [availability])
+
+  return (
+    <details className="rounded-lg border border-border/60 bg-card/40 p-4">
+      <summary className="text-sm font-medium cursor-pointer flex items-center gap-2">
+        <CalendarCheck size={16} className="text-primary" />
+        {t('rosterBuilder.availability.panelTitle', { season })}
+        {counts.total > 0 && (
+          <span className="text-xs font-normal text-muted-foreground">
+            — <span className="text-green-400">{counts.in}</span> / <span className="text-amber-300">{counts.partial}</span> / <span className="text-red-400">{counts.out}</span>
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <p className="text-xs text-muted-foreground">{t('rosterBuilder.availability.description')}</p>
+
+        <div className="flex flex-wrap gap-4 text-sm">
+          <span><span className="font-bold text-green-400">{counts.in}</span> {t('rosterBuilder.availability.in')}</span>
+          <span><span className="font-bold text-amber-300">{counts.partial}</span> {t('rosterBuilder.availability.partial')}</span>
+          <span><span className="font-bold text-red-400">{counts.out}</span> {t('rosterBuilder.availability.out')}</span>
+          <span className="text-muted-foreground">
+            <span className="font-bold">{Math.max(0, poolSize - counts.total)}</span> {t('rosterBuilder.availability.unknown')}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="outline" className="h-8 gap-1" onClick={() => fileInputRef.current?.click()}>
+            <UploadSimple size={14} />
+            {t('rosterBuilder.availability.import')}
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8" onClick={onClear} disabled={counts.total === 0}>
+            {t('rosterBuilder.availability.clear')}
+          </Button>
+          <span className="text-xs text-muted-foreground">{t('rosterBuilder.availability.importHint')}</span>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv,application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) onImportFile(file)
+            // Allow importing the same file again
+            e.target.value = ''
+          }}
+        />
+      </div>
+    </details>
+  )
+}
@@ -1,11 +1,13 @@
 import { useDraggable } from '@dnd-kit/core'
 import { CSS } from '@dnd-kit/utilities'
 import { GripVertical } from 'lucide-react'
-import type { RosterPlayerStats, CustomClan } from '@/lib/types'
+import type { RosterPlayerStats, CustomClan, OptimizerPlacement, PlayerAvailability } from '@/lib/types'
 import { TableRow, TableCell } from '@/components/ui/table'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { THBadge } from '@/components/THBadge'
+import { OptimizerExplanation } from '@/components/roster-builder/OptimizerExplanation'
+import { AvailabilityEditor } from '@/components/roster-builder/AvailabilityEditor'
 import { cn } from '@/lib/utils'
 import { calculateForm } from '@/lib/rosterCalculations'
 import { TrendUp } from '@phosphor-icons/react'
@@ -22,6 +24,10 @@ interface DraggablePlayerRowProps {
   onToggleExcluded: (playerTag: string) => void
   onAssignToClan: (playerTag: string, clanTag: string) => void
   getMaxCapacity: (clanTag: string, includeSubs: boolean) => number
+  placement?: OptimizerPlacement  // Why the last optimizer run left this player on the bench
+  playerNames: Map<string, string>
+  availability: PlayerAvailability | undefined
+  onAvailabilityChange: (playerTag: string, availability: PlayerAvailability | null) => void
 }
 
 /**
@@ -37,7 +43,11 @@ export function DraggablePlayerRow({
   clanRosters,
   onToggleExcluded,
   onAssignToClan,
-  getMaxCapacity
+  getMaxCapacity,
+  placement,
+  playerNames,
+  availability,
+  onAvailabilityChange
 }: DraggablePlayerRowProps) {
   const { t } = useTranslation()
   const navigate = useNavigate()
@@ -105,7 +115,15 @@ export function DraggablePlayerRow({
         onClick={() => navigate(`/player/${encodeURIComponent(player.playerTag.replace('#', ''))}`)}
       >
         <div>
-          <p className={cn("font-medium", isExcluded && "line-through")}>{player.playerName}</p>
+          <div className="flex items-center gap-1.5">
+            <p className={cn("font-medium", isExcluded && "line-through")}>{player.playerName}</p>
+            <AvailabilityEditor
+              availability={availability}
+              onChange={(next) => onAvailabilityChange(player.playerTag, next)}
+              allClans={allClans}
+            />
+            {placement && <OptimizerExplanation placement={placement} allClans={allClans} playerNames={playerNames} />}
+          </div>
           <p className="text-xs text-muted-foreground">{player.clanName}</p>
         </div>
       </TableCell>
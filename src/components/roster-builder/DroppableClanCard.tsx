@@ -4,9 +4,12 @@ import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 import { THBadge } from '@/components/THBadge'
 import { LeagueAdjustmentTooltip } from '@/components/LeagueAdjustmentTooltip'
-import { Lock, LockOpen, Users, Plus, X, Wrench } from '@phosphor-icons/react'
+import { OptimizerExplanation } from '@/components/roster-builder/OptimizerExplanation'
+import { ArrowDown, ArrowUp, CalendarDots, Equals, Lock, LockOpen, Users, Plus, X, Wrench, Warning } from '@phosphor-icons/react'
+import { formatDays, isAvailableOnDay, WAR_DAYS } from '@/lib/availability'
 import { ATTACKS_PER_SEASON } from '@/lib/rosterCalculations'
-import type { RosterPlayerStats, ManualPlayerEntry, RosterMode, CustomClan } from '@/lib/types'
+import type { PromotionOdds } from '@/lib/promotionSimulator'
+import type { RosterPlayerStats, ManualPlayerEntry, RosterMode, CustomClan, OptimizerPlacement, SeasonAvailability } from '@/lib/types'
 import type { LeagueProjection } from '@/lib/types'
 import { useNavigate } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
@@ -16,6 +19,7 @@ interface DroppableClanCardProps {
   isLocked: boolean
   count: number
   projectedStars: string
+  promotionOdds?: PromotionOdds                  // Simulated group position, when the league has a baseline
   avgTH: string
   avgReliability: string
   players: RosterPlayerStats[]
@@ -28,8 +32,13 @@ interface DroppableClanCardProps {
   onRemovePlayer: (playerTag: string, clanTag: string) => void
   onRemoveManualPlayer: (clanTag: string, addedAt: string) => void
   onAddManualPlayer: (clanTag: string) => void
+  onOpenLineups: (clanTag: string) => void
   getProjection: (playerTag: string, league: string) => LeagueProjection | null
   prefetchPlayer: (player: RosterPlayerStats, league: string) => void
+  placements?: Map<string, OptimizerPlacement>  // Last optimizer run, for the "why here?" bulbs
+  allClans: CustomClan[]
+  playerNames: Map<string, string>
+  availability: SeasonAvailability                // Sign-ups of the season being planned
 }
 
 /**
@@ -41,6 +50,7 @@ export function DroppableClanCard({
   isLocked,
   count,
   projectedStars,
+  promotionOdds,
   avgTH,
   avgReliability,
   players,
@@ -53,12 +63,27 @@ export function DroppableClanCard({
   onRemovePlayer,
   onRemoveManualPlayer,
   onAddManualPlayer,
+  onOpenLineups,
   getProjection,
-  prefetchPlayer
+  prefetchPlayer,
+  placements,
+  allClans,
+  playerNames,
+  availability
 }: DroppableClanCardProps) {
   const { t } = useTranslation()
   const navigate = useNavigate()
 
+  // War days on which partial sign-ups leave the main roster short (manual players count as available)
+  const lineupSize = Math.min(count, maxCapacity)
+  const shortDays = lineupSize === 0 ? [] : WAR_DAYS
+    .map(day => ({
+      day,
+      available: players.filter(p => isAvailableOnDay(availability[p.playerTag], day)).length + (clanManualPlayers?.length ?? 0),
+    }))
+    .filter(d => d.available < lineupSize)
+  const outPlayers = players.filter(p => availability[p.playerTag]?.status === 'out')
+
   const { setNodeRef, isOver } = useDroppable({
     id: `clan-${clan.tag}`,
     disabled: isLocked,
@@ -94,6 +119,24 @@ export function DroppableClanCard({
           <p className="text-xs text-muted-foreground">{clan.league} • Min TH{clan.minTH}</p>
         </div>
 
+        {/* War Lineups Button */}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0 text-muted-foreground hover:text-foreground"
+              onClick={() => onOpenLineups(clan.tag)}
+              aria-label={t('rosterBuilder.lineups.open')}
+            >
+              <CalendarDots size={14} />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-xs bg-slate-800 text-slate-100 border-slate-700">
+            <p className="text-xs">{t('rosterBuilder.lineups.open')}</p>
+          </TooltipContent>
+        </Tooltip>
+
         {/* Lock Button */}
         <Tooltip>
           <TooltipTrigger asChild>
@@ -164,6 +207,89 @@ export function DroppableClanCard({
         </div>
       </div>
 
+      {/* Promotion odds */}
+      {promotionOdds && count > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="mb-3 space-y-1 cursor-help">
+              <div className="flex items-center gap-3 text-xs">
+                <span className="text-muted-foreground">{t('rosterBuilder.promotionOdds.label')}</span>
+                <span className="flex items-center gap-0.5 font-semibold text-green-400">
+                  <ArrowUp size={12} weight="bold" />{(promotionOdds.promotion * 100).toFixed(0)}%
+                </span>
+                <span className="flex items-center gap-0.5 text-muted-foreground">
+                  <Equals size={12} weight="bold" />{(promotionOdds.stay * 100).toFixed(0)}%
+                </span>
+                <span className="flex items-center gap-0.5 font-semibold text-red-400">
+                  <ArrowDown size={12} weight="bold" />{(promotionOdds.relegation * 100).toFixed(0)}%
+                </span>
+              </div>
+              <div className="flex h-1.5 overflow-hidden rounded-full bg-muted">
+                <div className="bg-green-500" style={{ width: `${promotionOdds.promotion * 100}%` }} />
+                <div className="bg-slate-500" style={{ width: `${promotionOdds.stay * 100}%` }} />
+                <div className="bg-red-500" style={{ width: `${promotionOdds.relegation * 100}%` }} />
+              </div>
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-xs bg-slate-800 text-slate-100 border-slate-700">
+            <p className="text-xs font-semibold mb-1">{t('rosterBuilder.promotionOdds.title', { league: clan.league })}</p>
+            <div className="space-y-0.5">
+              {promotionOdds.positions.map((share, i) => (
+                <div key={i} className="flex items-center gap-2 text-xs">
+                  <span className="w-6 tabular-nums">#{i + 1}</span>
+                  <div className="h-1.5 w-24 rounded-full bg-slate-700">
+                    <div
+                      className={cn(
+                        "h-full rounded-full",
+                        i < promotionOdds.spots.promoted ? "bg-green-500"
+                          : i >= promotionOdds.positions.length - promotionOdds.spots.relegated ? "bg-red-500"
+                            : "bg-slate-400"
+                      )}
+                      style={{ width: `${share * 100}%` }}
+                    />
+                  </div>
+                  <span className="tabular-nums">{(share * 100).toFixed(0)}%</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs mt-1">
+              {t('rosterBuilder.promotionOdds.expected', {
+                stars: promotionOdds.expectedStars.toFixed(0),
+                position: promotionOdds.expectedPosition.toFixed(1),
+              })}
+            </p>
+            <p className="text-xs mt-1 text-muted-foreground">
+              {t('rosterBuilder.promotionOdds.note', { count: promotionOdds.iterations })}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      {/* Availability warnings */}
+      {(shortDays.length > 0 || outPlayers.length > 0) && (
+        <div className="mb-3 space-y-1 rounded border border-amber-500/40 bg-amber-500/10 px-2 py-1.5 text-xs text-amber-300">
+          {outPlayers.length > 0 && (
+            <p className="flex items-start gap-1.5">
+              <Warning size={14} className="shrink-0 mt-px" />
+              {t('rosterBuilder.availability.outInRoster', {
+                count: outPlayers.length,
+                names: outPlayers.map(p => p.playerName).join(', '),
+              })}
+            </p>
+          )}
+          {shortDays.length > 0 && (
+            <p className="flex items-start gap-1.5">
+              <Warning size={14} className="shrink-0 mt-px" />
+              {t('rosterBuilder.availability.shortDays', {
+                days: formatDays(shortDays.map(d => d.day)),
+                available: Math.min(...shortDays.map(d => d.available)),
+                size: lineupSize,
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Player List */}
       <div className="space-y-1">
         {count === 0 ? (
@@ -203,6 +329,23 @@ export function DroppableClanCard({
                   >
                     {p.playerName}
                   </span>
+                  {availability[p.playerTag]?.status === 'partial' && (
+                    <span className="text-[10px] font-bold bg-amber-500/20 text-amber-300 px-1 rounded shrink-0">
+                      {t('rosterBuilder.availability.daysShort', { days: formatDays(availability[p.playerTag].days ?? []) })}
+                    </span>
+                  )}
+                  {availability[p.playerTag]?.status === 'out' && (
+                    <span className="text-[10px] font-bold bg-red-500/20 text-red-400 px-1 rounded shrink-0">
+                      {t('rosterBuilder.availability.out')}
+                    </span>
+                  )}
+                  {(() => {
+                    // Only explain placements the optimizer made and nobody changed since
+                    const placement = placements?.get(p.playerTag)
+                    return placement?.clanTag === clan.tag
+                      ? <OptimizerExplanation placement={placement} allClans={allClans} playerNames={playerNames} />
+                      : null
+                  })()}
                   {(() => {
                     const projection = getProjection(p.playerTag, clan.league)
                     // Trigger prefetch on render if not cached
@@ -0,0 +1,202 @@
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RELIABLE_THRESHOLD } from '@/lib/rosterOptimizer'
+import type { CustomClan, RosterOptimizerConstraints, RosterPlayerStats } from '@/lib/types'
+import { Plus, SlidersHorizontal, X } from '@phosphor-icons/react'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const MIN_RELIABLE_OPTIONS = [0, 3, 5, 8, 10, 12]
+
+interface OptimizerConstraintsPanelProps {
+  constraints: RosterOptimizerConstraints
+  onChange: (constraints: RosterOptimizerConstraints) => void
+  players: RosterPlayerStats[]
+  allClans: CustomClan[]
+}
+
+/**
+ * Editor for the soft constraints of the roster optimizer:
+ * minimum reliable players per clan, "keep together" pairs and preferred clans
+ */
+export function OptimizerConstraintsPanel({ constraints, onChange, players, allClans }: OptimizerConstraintsPanelProps) {
+  const { t } = useTranslation()
+  const [pairA, setPairA] = useState('')
+  const [pairB, setPairB] = useState('')
+  const [preferencePlayer, setPreferencePlayer] = useState('')
+  const [preferenceClan, setPreferenceClan] = useState('')
+
+  const sortedPlayers = useMemo(
+    () => [...players].sort((a, b) => a.playerName.localeCompare(b.playerName)),
+    [players]
+  )
+  const playerName = (tag: string) => players.find(p => p.playerTag === tag)?.playerName ?? tag
+  const clanInfo = (tag: string) => allClans.find(c => c.tag === tag)
+
+  const constraintCount = constraints.keepTogether.length +
+    Object.keys(constraints.preferredClans).length +
+    (constraints.minReliablePerClan > 0 ? 1 : 0)
+
+  const addPair = () => {
+    if (!pairA || !pairB || pairA === pairB) return
+    const exists = constraints.keepTogether.some(([a, b]) =>
+      (a === pairA && b === pairB) || (a === pairB && b === pairA)
+    )
+    if (!exists) onChange({ ...constraints, keepTogether: [...constraints.keepTogether, [pairA, pairB]] })
+    setPairA('')
+    setPairB('')
+  }
+
+  const removePair = (index: number) => {
+    onChange({ ...constraints, keepTogether: constraints.keepTogether.filter((_, i) => i !== index) })
+  }
+
+  const addPreference = () => {
+    if (!preferencePlayer || !preferenceClan) return
+    onChange({ ...constraints, preferredClans: { ...constraints.preferredClans, [preferencePlayer]: preferenceClan } })
+    setPreferencePlayer('')
+    setPreferenceClan('')
+  }
+
+  const removePreference = (playerTag: string) => {
+    const preferredClans = { ...constraints.preferredClans }
+    delete preferredClans[playerTag]
+    onChange({ ...constraints, preferredClans })
+  }
+
+  const playerSelect = (value: string, onValueChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className="h-8 w-44 text-xs">
+        <SelectValue placeholder={t('rosterBuilder.optimizer.selectPlayer')} />
+      </SelectTrigger>
+      <SelectContent>
+        {sortedPlayers.map(p => (
+          <SelectItem key={p.playerTag} value={p.playerTag}>
+            {p.playerName} {p.currentTH ? <span className="text-muted-foreground">TH{p.currentTH}</span> : null}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <details className="rounded-lg border border-border/60 bg-card/40 p-4">
+      <summary className="text-sm font-medium cursor-pointer flex items-center gap-2">
+        <SlidersHorizontal size={16} className="text-primary" />
+        {t('rosterBuilder.optimizer.title')}
+        {constraintCount > 0 && (
+          <span className="text-[10px] font-bold bg-primary/20 text-primary px-1.5 py-0.5 rounded">
+            {constraintCount}
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-3 space-y-4">
+        <p className="text-xs text-muted-foreground">{t('rosterBuilder.optimizer.description')}</p>
+
+        {/* Minimum reliable players */}
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-sm text-muted-foreground">
+            {t('rosterBuilder.optimizer.minReliable')}
+          </label>
+          <Select
+            value={constraints.minReliablePerClan.toString()}
+            onValueChange={(v) => onChange({ ...constraints, minReliablePerClan: parseInt(v) })}
+          >
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MIN_RELIABLE_OPTIONS.map(n => (
+                <SelectItem key={n} value={n.toString()}>
+                  {n === 0 ? t('rosterBuilder.optimizer.off') : n}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            {t('rosterBuilder.optimizer.minReliableHint', { threshold: RELIABLE_THRESHOLD })}
+          </span>
+        </div>
+
+        {/* Keep together */}
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">{t('rosterBuilder.optimizer.keepTogether')}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            {playerSelect(pairA, setPairA)}
+            <span className="text-muted-foreground">+</span>
+            {playerSelect(pairB, setPairB)}
+            <Button size="sm" variant="outline" className="h-8 gap-1" onClick={addPair} disabled={!pairA || !pairB || pairA === pairB}>
+              <Plus size={14} />
+              {t('rosterBuilder.add')}
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {constraints.keepTogether.length === 0 && (
+              <span className="text-xs text-muted-foreground">{t('rosterBuilder.optimizer.noConstraints')}</span>
+            )}
+            {constraints.keepTogether.map(([a, b], index) => (
+              <div key={`${a}-${b}`} className="flex items-center gap-2 bg-sky-500/10 border border-sky-500/30 text-sky-200 px-2 py-1 rounded text-xs">
+                <span>{playerName(a)} + {playerName(b)}</span>
+                <button
+                  onClick={() => removePair(index)}
+                  className="text-red-400 hover:text-red-300"
+                  aria-label={t('rosterBuilder.optimizer.remove')}
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Preferred clans */}
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">{t('rosterBuilder.optimizer.preferredClan')}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            {playerSelect(preferencePlayer, setPreferencePlayer)}
+            <span className="text-muted-foreground">→</span>
+            <Select value={preferenceClan} onValueChange={setPreferenceClan}>
+              <SelectTrigger className="h-8 w-44 text-xs">
+                <SelectValue placeholder={t('rosterBuilder.selectClan')} />
+              </SelectTrigger>
+              <SelectContent>
+                {allClans.map(clan => (
+                  <SelectItem key={clan.tag} value={clan.tag}>
+                    <span className={clan.color}>{clan.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" className="h-8 gap-1" onClick={addPreference} disabled={!preferencePlayer || !preferenceClan}>
+              <Plus size={14} />
+              {t('rosterBuilder.add')}
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {Object.keys(constraints.preferredClans).length === 0 && (
+              <span className="text-xs text-muted-foreground">{t('rosterBuilder.optimizer.noConstraints')}</span>
+            )}
+            {Object.entries(constraints.preferredClans).map(([playerTag, clanTag]) => {
+              const clan = clanInfo(clanTag)
+              return (
+                <div key={playerTag} className="flex items-center gap-2 bg-sky-500/10 border border-sky-500/30 text-sky-200 px-2 py-1 rounded text-xs">
+                  <span>
+                    {playerName(playerTag)} → <span className={clan?.color}>{clan?.name ?? clanTag}</span>
+                  </span>
+                  <button
+                    onClick={() => removePreference(playerTag)}
+                    className="text-red-400 hover:text-red-300"
+                    aria-label={t('rosterBuilder.optimizer.remove')}
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </details>
+  )
+}
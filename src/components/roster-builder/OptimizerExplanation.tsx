@@ -0,0 +1,77 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import type { CustomClan, OptimizerPlacement, OptimizerReason } from '@/lib/types'
+import { Lightbulb } from '@phosphor-icons/react'
+import { useTranslation } from 'react-i18next'
+
+interface OptimizerExplanationProps {
+  placement: OptimizerPlacement
+  allClans: CustomClan[]
+  playerNames: Map<string, string>
+}
+
+/**
+ * Bulb icon with the optimizer's reasons for placing a player in a clan (or on the bench)
+ */
+export function OptimizerExplanation({ placement, allClans, playerNames }: OptimizerExplanationProps) {
+  const { t } = useTranslation()
+
+  const clanName = (tag: string) => allClans.find(c => c.tag === tag)?.name ?? tag
+  const playerName = (tag: string) => playerNames.get(tag) ?? tag
+
+  const describe = (reason: OptimizerReason): string => {
+    switch (reason.type) {
+      case 'projection':
+        return t('rosterBuilder.optimizer.reasons.projection', {
+          stars: reason.stars.toFixed(1),
+          adjustment: `${reason.adjustment > 0 ? '+' : ''}${reason.adjustment}%`,
+          slot: t(reason.slot === 'main' ? 'rosterBuilder.optimizer.slotMain' : 'rosterBuilder.optimizer.slotSub'),
+        })
+      case 'preferred':
+      case 'preferenceIgnored':
+      case 'clanLocked':
+        return t(`rosterBuilder.optimizer.reasons.${reason.type}`, { clan: clanName(reason.clanTag) })
+      case 'keptWith':
+      case 'separatedFrom':
+        return t(`rosterBuilder.optimizer.reasons.${reason.type}`, { player: playerName(reason.playerTag) })
+      case 'reliableQuota':
+        return t('rosterBuilder.optimizer.reasons.reliableQuota', { required: reason.required })
+      case 'partialAvailability':
+        return t('rosterBuilder.optimizer.reasons.partialAvailability', { count: reason.wars })
+      case 'thBelowMin':
+        return t('rosterBuilder.optimizer.reasons.thBelowMin', { clan: clanName(reason.clanTag), minTH: reason.minTH })
+      case 'outscored':
+        return t('rosterBuilder.optimizer.reasons.outscored', {
+          clan: clanName(reason.clanTag),
+          stars: reason.stars.toFixed(1),
+          cutoff: reason.cutoff.toFixed(1),
+        })
+      case 'familyTotal':
+        return t('rosterBuilder.optimizer.reasons.familyTotal', { clan: clanName(reason.clanTag), stars: reason.stars.toFixed(1) })
+      case 'noSlot':
+      case 'notEligible':
+        return t(`rosterBuilder.optimizer.reasons.${reason.type}`)
+    }
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className="text-sky-400/70 hover:text-sky-300 shrink-0 cursor-help"
+          onClick={(e) => e.stopPropagation()}
+          aria-label={t('rosterBuilder.optimizer.whyHere')}
+        >
+          <Lightbulb size={14} />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs bg-slate-800 text-slate-100 border-slate-700">
+        <p className="text-xs font-semibold mb-1">{t('rosterBuilder.optimizer.whyHere')}</p>
+        <ul className="text-xs space-y-0.5 list-disc list-inside">
+          {placement.reasons.map((reason, i) => (
+            <li key={i}>{describe(reason)}</li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
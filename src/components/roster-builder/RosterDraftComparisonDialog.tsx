@@ -0,0 +1,160 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { getSeasonClanDetail } from '@/lib/data'
+import { getFamilyClanTags } from '@/lib/family'
+import { compareOfficialRoster, type ClanRosterComparison } from '@/lib/rosterDrafts'
+import type { CustomClan, RosterDraft, SeasonRosterPlayer } from '@/lib/types'
+import { ArrowRight, CircleNotch, Minus, Plus } from '@phosphor-icons/react'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface RosterDraftComparisonDialogProps {
+  draft: RosterDraft | null
+  onOpenChange: (open: boolean) => void
+  allClans: CustomClan[]
+  playerNames: Map<string, string>
+}
+
+interface ComparisonResult {
+  clans: ClanRosterComparison[]
+  clanNames: Map<string, string>
+  inProgress: boolean
+}
+
+/**
+ * Official (frozen) roster of a season against who actually played:
+ * planned players who never played, and players pulled in last minute
+ */
+export function RosterDraftComparisonDialog({ draft, onOpenChange, allClans, playerNames }: RosterDraftComparisonDialogProps) {
+  const { t } = useTranslation()
+  const [result, setResult] = useState<ComparisonResult | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!draft) return
+    const official = draft
+    let cancelled = false
+
+    async function loadComparison() {
+      setLoading(true)
+      setResult(null)
+      try {
+        const clanTags = new Set([...getFamilyClanTags(official.season), ...Object.keys(official.plan.clanRosters)])
+        const details = await Promise.all(
+          Array.from(clanTags).map(tag => getSeasonClanDetail(official.season, tag))
+        )
+
+        const actualRosters = new Map<string, SeasonRosterPlayer[]>()
+        const clanNames = new Map<string, string>()
+        let inProgress = false
+        for (const detail of details) {
+          if (!detail) continue
+          actualRosters.set(detail.clan.tag, detail.roster)
+          clanNames.set(detail.clan.tag, detail.clan.name)
+          if (detail.state !== 'ended') inProgress = true
+        }
+
+        if (!cancelled) {
+          setResult({ clans: compareOfficialRoster(official.plan, actualRosters), clanNames, inProgress })
+        }
+      } catch (err) {
+        console.error('Failed to load season rosters for comparison:', err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadComparison()
+    return () => { cancelled = true }
+  }, [draft])
+
+  const clanName = (tag: string) =>
+    result?.clanNames.get(tag) ?? allClans.find(c => c.tag === tag)?.name ?? tag
+  const clanColor = (tag: string) => allClans.find(c => c.tag === tag)?.color ?? ''
+  const playerName = (tag: string, name: string | null) => name ?? playerNames.get(tag) ?? tag
+
+  return (
+    <Dialog open={draft !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{t('rosterBuilder.drafts.compareTitle', { season: draft?.season ?? '' })}</DialogTitle>
+          <DialogDescription>
+            {t('rosterBuilder.drafts.compareDescription', { name: draft?.name ?? '' })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3 text-sm">
+          {loading && (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <CircleNotch size={16} className="animate-spin" />
+              {t('history.loading')}
+            </div>
+          )}
+
+          {!loading && result && result.clans.length === 0 && (
+            <p className="text-muted-foreground">{t('rosterBuilder.drafts.noSeasonData')}</p>
+          )}
+
+          {!loading && result?.inProgress && (
+            <p className="text-amber-300 text-xs">{t('rosterBuilder.drafts.seasonInProgress')}</p>
+          )}
+
+          {!loading && result?.clans.map(clan => (
+            <div key={clan.clanTag} className="rounded-md border border-border/60 p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className={`font-medium ${clanColor(clan.clanTag)}`}>{clanName(clan.clanTag)}</p>
+                <span className="text-xs text-muted-foreground">
+                  {t('rosterBuilder.drafts.playedAsPlanned', { count: clan.played.length })}
+                </span>
+              </div>
+
+              {clan.plannedNotPlayed.length === 0 && clan.pulledIn.length === 0 && (
+                <p className="text-xs text-green-400">{t('rosterBuilder.drafts.matchedPlan')}</p>
+              )}
+
+              {clan.plannedNotPlayed.length > 0 && (
+                <div className="space-y-0.5">
+                  <p className="text-xs text-muted-foreground">{t('rosterBuilder.drafts.plannedNotPlayed')}</p>
+                  {clan.plannedNotPlayed.map(p => (
+                    <p key={p.tag} className="flex items-center gap-2 text-red-400">
+                      <Minus size={12} /> {playerName(p.tag, p.name)}
+                      {p.playedIn && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <ArrowRight size={10} /> {clanName(p.playedIn)}
+                        </span>
+                      )}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {clan.pulledIn.length > 0 && (
+                <div className="space-y-0.5">
+                  <p className="text-xs text-muted-foreground">{t('rosterBuilder.drafts.pulledIn')}</p>
+                  {clan.pulledIn.map(({ player, plannedFor }) => (
+                    <p key={player.tag} className="flex items-center gap-2 text-green-400">
+                      <Plus size={12} /> {player.name}
+                      <span className="text-xs text-muted-foreground">
+                        {t('rosterBuilder.drafts.warsPlayed', { count: player.warsParticipated })}
+                      </span>
+                      {plannedFor && (
+                        <span className="text-xs text-muted-foreground">
+                          ({t('rosterBuilder.drafts.plannedFor', { clan: clanName(plannedFor) })})
+                        </span>
+                      )}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
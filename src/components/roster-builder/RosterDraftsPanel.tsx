@@ -0,0 +1,212 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { getPlanningSeasonId } from '@/lib/rosterDrafts'
+import type { RosterDraft } from '@/lib/types'
+import {
+  Check,
+  Copy,
+  FloppyDisk,
+  FolderOpen,
+  GitDiff,
+  Lock,
+  LockOpen,
+  PencilSimple,
+  Trash,
+  X,
+} from '@phosphor-icons/react'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface RosterDraftsPanelProps {
+  drafts: RosterDraft[]
+  activeDraftId: string | null
+  onCreate: (name: string, season: string) => void
+  onLoad: (id: string) => void
+  onDuplicate: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onFreeze: (id: string) => void
+  onUnfreeze: (id: string) => void
+  onCompare: (id: string) => void
+}
+
+/**
+ * Named drafts grouped by season, with the frozen (official) draft of each season marked
+ */
+export function RosterDraftsPanel({
+  drafts,
+  activeDraftId,
+  onCreate,
+  onLoad,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onFreeze,
+  onUnfreeze,
+  onCompare,
+}: RosterDraftsPanelProps) {
+  const { t } = useTranslation()
+  const [newName, setNewName] = useState('')
+  const [newSeason, setNewSeason] = useState(getPlanningSeasonId)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  // Newest season first, drafts in creation order within a season
+  const draftsBySeason = useMemo(() => {
+    const groups = new Map<string, RosterDraft[]>()
+    for (const draft of drafts) {
+      groups.set(draft.season, [...(groups.get(draft.season) ?? []), draft])
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => b.localeCompare(a))
+  }, [drafts])
+
+  const activeDraft = drafts.find(d => d.id === activeDraftId) ?? null
+
+  const create = () => {
+    if (!newName.trim() || !newSeason) return
+    onCreate(newName.trim(), newSeason)
+    setNewName('')
+  }
+
+  const startRename = (draft: RosterDraft) => {
+    setRenamingId(draft.id)
+    setRenameValue(draft.name)
+  }
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) onRename(renamingId, renameValue.trim())
+    setRenamingId(null)
+  }
+
+  const iconButton = (label: string, onClick: () => void, icon: React.ReactNode, className = '') => (
+    <Button
+      size="icon"
+      variant="ghost"
+      className={`h-7 w-7 ${className}`}
+      onClick={onClick}
+      aria-label={label}
+      title={label}
+    >
+      {icon}
+    </Button>
+  )
+
+  return (
+    <details className="rounded-lg border border-border/60 bg-card/40 p-4">
+      <summary className="text-sm font-medium cursor-pointer flex items-center gap-2">
+        <FloppyDisk size={16} className="text-primary" />
+        {t('rosterBuilder.drafts.title')}
+        {activeDraft && (
+          <span className="text-xs text-muted-foreground font-normal">
+            — {activeDraft.name} ({activeDraft.season})
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-3 space-y-4">
+        <p className="text-xs text-muted-foreground">{t('rosterBuilder.drafts.description')}</p>
+
+        {activeDraft?.frozenAt && (
+          <p className="text-xs text-amber-300">{t('rosterBuilder.drafts.frozenNotice')}</p>
+        )}
+
+        {/* Save current plan as a new draft */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder={t('rosterBuilder.drafts.namePlaceholder')}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && create()}
+            className="h-8 w-56 text-sm"
+          />
+          <Input
+            type="month"
+            value={newSeason}
+            onChange={(e) => setNewSeason(e.target.value)}
+            className="h-8 w-40 text-sm"
+            aria-label={t('rosterBuilder.drafts.season')}
+          />
+          <Button size="sm" variant="outline" className="h-8 gap-1" onClick={create} disabled={!newName.trim() || !newSeason}>
+            <FloppyDisk size={14} />
+            {t('rosterBuilder.drafts.saveAs')}
+          </Button>
+        </div>
+
+        {drafts.length === 0 && (
+          <p className="text-xs text-muted-foreground">{t('rosterBuilder.drafts.empty')}</p>
+        )}
+
+        {draftsBySeason.map(([season, seasonDrafts]) => (
+          <div key={season} className="space-y-1">
+            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">{season}</p>
+            {seasonDrafts.map(draft => {
+              const isActive = draft.id === activeDraftId
+              const playerCount = Object.values(draft.plan.clanRosters).reduce((sum, tags) => sum + tags.length, 0) +
+                Object.values(draft.plan.manualPlayers).reduce((sum, entries) => sum + entries.length, 0)
+
+              return (
+                <div
+                  key={draft.id}
+                  className={`flex flex-wrap items-center gap-2 rounded px-2 py-1 text-sm ${isActive ? 'bg-primary/10 border border-primary/40' : 'border border-transparent'}`}
+                >
+                  {renamingId === draft.id ? (
+                    <Input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename()
+                        if (e.key === 'Escape') setRenamingId(null)
+                      }}
+                      onBlur={commitRename}
+                      className="h-7 w-48 text-sm"
+                    />
+                  ) : (
+                    <span className="font-medium">{draft.name}</span>
+                  )}
+                  {draft.frozenAt && (
+                    <span className="flex items-center gap-1 text-[10px] font-bold bg-amber-500/20 text-amber-300 px-1.5 py-0.5 rounded">
+                      <Lock size={10} />
+                      {t('rosterBuilder.drafts.official')}
+                    </span>
+                  )}
+                  {isActive && (
+                    <span className="text-[10px] font-bold bg-primary/20 text-primary px-1.5 py-0.5 rounded">
+                      {t('rosterBuilder.drafts.active')}
+                    </span>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {t('rosterBuilder.drafts.players', { count: playerCount })}
+                  </span>
+
+                  <div className="ml-auto flex items-center gap-0.5">
+                    {!isActive && iconButton(t('rosterBuilder.drafts.load'), () => onLoad(draft.id), <FolderOpen size={14} />)}
+                    {iconButton(t('rosterBuilder.drafts.rename'), () => startRename(draft), <PencilSimple size={14} />)}
+                    {iconButton(t('rosterBuilder.drafts.duplicate'), () => onDuplicate(draft.id), <Copy size={14} />)}
+                    {draft.frozenAt
+                      ? iconButton(t('rosterBuilder.drafts.unfreeze'), () => onUnfreeze(draft.id), <LockOpen size={14} />, 'text-amber-300')
+                      : iconButton(t('rosterBuilder.drafts.freeze'), () => onFreeze(draft.id), <Lock size={14} />)}
+                    {draft.frozenAt && iconButton(t('rosterBuilder.drafts.compare'), () => onCompare(draft.id), <GitDiff size={14} />, 'text-sky-300')}
+                    {confirmDeleteId === draft.id ? (
+                      <>
+                        <span className="text-xs text-red-400 ml-1">{t('rosterBuilder.drafts.confirmDelete')}</span>
+                        {iconButton(t('rosterBuilder.drafts.delete'), () => {
+                          onDelete(draft.id)
+                          setConfirmDeleteId(null)
+                        }, <Check size={14} />, 'text-red-400')}
+                        {iconButton(t('rosterBuilder.switch_cancel'), () => setConfirmDeleteId(null), <X size={14} />)}
+                      </>
+                    ) : (
+                      iconButton(t('rosterBuilder.drafts.delete'), () => setConfirmDeleteId(draft.id), <Trash size={14} />, 'text-red-400')
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button'
+import { useHistoryActionLabel } from '@/hooks/useHistoryActionLabel'
+import type { RosterHistoryEntry } from '@/lib/types'
+import { ClockCounterClockwise, Warning } from '@phosphor-icons/react'
+import { useTranslation } from 'react-i18next'
+
+interface RosterHistoryPanelProps {
+  entries: RosterHistoryEntry[]
+  currentIndex: number
+  savedEntries: number  // How many of the newest entries fit in localStorage
+  onJumpTo: (index: number) => void
+  onClear: () => void
+}
+
+/**
+ * Labelled undo history, newest first. Clicking an entry restores the plan as it was after that action;
+ * entries after the current one stay available (greyed out) until the next change.
+ */
+export function RosterHistoryPanel({ entries, currentIndex, savedEntries, onJumpTo, onClear }: RosterHistoryPanelProps) {
+  const { t, i18n } = useTranslation()
+  const describe = useHistoryActionLabel()
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleString(i18n.language, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+  return (
+    <details className="rounded-lg border border-border/60 bg-card/40 p-4">
+      <summary className="text-sm font-medium cursor-pointer flex items-center gap-2">
+        <ClockCounterClockwise size={16} className="text-primary" />
+        {t('rosterBuilder.history.title')}
+        {entries.length > 1 && (
+          <span className="text-[10px] font-bold bg-primary/20 text-primary px-1.5 py-0.5 rounded">
+            {entries.length - 1}
+          </span>
+        )}
+        {savedEntries < entries.length && (
+          <Warning size={16} weight="fill" className="text-yellow-500" />
+        )}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">{t('rosterBuilder.history.description')}</p>
+          <Button size="sm" variant="outline" className="h-8" onClick={onClear} disabled={entries.length <= 1}>
+            {t('rosterBuilder.history.clear')}
+          </Button>
+        </div>
+
+        {savedEntries < entries.length && (
+          <p className="flex items-center gap-2 rounded border border-yellow-500/40 bg-yellow-500/10 px-2 py-1 text-xs text-yellow-500">
+            <Warning size={14} weight="fill" className="shrink-0" />
+            {savedEntries === 0
+              ? t('rosterBuilder.history.notSaved')
+              : t('rosterBuilder.history.partlySaved', { count: savedEntries })}
+          </p>
+        )}
+
+        <ol className="max-h-72 overflow-y-auto space-y-0.5 text-sm">
+          {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => {
+            const isCurrent = index === currentIndex
+            const isUndone = index > currentIndex
+            return (
+              <li key={`${entry.at}-${index}`}>
+                <button
+                  onClick={() => onJumpTo(index)}
+                  disabled={isCurrent}
+                  className={`w-full flex items-center gap-3 rounded px-2 py-1 text-left transition-colors ${
+                    isCurrent
+                      ? 'bg-primary/10 border border-primary/40'
+                      : 'border border-transparent hover:bg-muted/40'
+                  } ${isUndone ? 'opacity-50' : ''}`}
+                >
+                  <span className="text-xs text-muted-foreground tabular-nums w-28 shrink-0">{formatTime(entry.at)}</span>
+                  <span className={isUndone ? 'line-through' : ''}>{describe(entry.action)}</span>
+                  {isCurrent && (
+                    <span className="ml-auto text-[10px] font-bold bg-primary/20 text-primary px-1.5 py-0.5 rounded">
+                      {t('rosterBuilder.history.current')}
+                    </span>
+                  )}
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+      </div>
+    </details>
+  )
+}
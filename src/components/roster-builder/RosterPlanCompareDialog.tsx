@@ -0,0 +1,230 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  compareRosterPlans,
+  getHighConfidenceShare,
+  type ClanRosterStats,
+} from '@/lib/rosterComparison'
+import type {
+  CustomClan,
+  LeagueProjection,
+  RosterPlan,
+  RosterPlayerStats,
+  SeasonAvailability,
+} from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { Minus, Plus } from '@phosphor-icons/react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+// A plan that can be put on either side: the current one, a draft or a history snapshot
+export interface ComparablePlan {
+  id: string
+  label: string
+  group: 'current' | 'draft' | 'history'
+  plan: RosterPlan
+}
+
+interface RosterPlanCompareDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  plans: ComparablePlan[]
+  builtInClans: readonly CustomClan[]
+  players: RosterPlayerStats[]
+  availability: SeasonAvailability
+  getProjection: (playerTag: string, league: string) => LeagueProjection | null
+  prefetchPlayer: (player: RosterPlayerStats, league: string) => void
+  playerNames: Map<string, string>
+}
+
+interface Metric {
+  key: string
+  value: (stats: ClanRosterStats) => number
+  digits: number
+  suffix?: string
+}
+
+const METRICS: Metric[] = [
+  { key: 'players', value: s => s.count, digits: 0 },
+  { key: 'projectedStars', value: s => s.projectedStars, digits: 0 },
+  { key: 'avgTH', value: s => s.avgTH, digits: 1 },
+  { key: 'reliability', value: s => s.avgReliability, digits: 0, suffix: '%' },
+  { key: 'highConfidence', value: getHighConfidenceShare, digits: 0, suffix: '%' },
+]
+
+/**
+ * Two roster plans side by side: per clan the players added and removed going from A to B and
+ * the change in the clan card aggregates, plus the same aggregates family-wide
+ */
+export function RosterPlanCompareDialog({
+  open,
+  onOpenChange,
+  plans,
+  builtInClans,
+  players,
+  availability,
+  getProjection,
+  prefetchPlayer,
+  playerNames,
+}: RosterPlanCompareDialogProps) {
+  const { t } = useTranslation()
+  const [aId, setAId] = useState<string | null>(null)
+  const [bId, setBId] = useState<string | null>(null)
+
+  // Defaults: the current plan against the first other plan
+  const planA = plans.find(p => p.id === aId) ?? plans[0]
+  const planB = plans.find(p => p.id === bId) ?? plans.find(p => p.id !== planA?.id) ?? planA
+
+  const clans = useMemo(() => {
+    if (!planA || !planB) return [...builtInClans]
+    const custom = new Map([...planA.plan.customClans, ...planB.plan.customClans].map(c => [c.tag, c]))
+    return [...builtInClans, ...custom.values()]
+  }, [builtInClans, planA, planB])
+
+  // Confidence needs each player's league projection for the clan they're in
+  useEffect(() => {
+    if (!open || !planA || !planB) return
+    const byTag = new Map(players.map(p => [p.playerTag, p]))
+    for (const clan of clans) {
+      for (const tag of [...(planA.plan.clanRosters[clan.tag] ?? []), ...(planB.plan.clanRosters[clan.tag] ?? [])]) {
+        const player = byTag.get(tag)
+        if (player) prefetchPlayer(player, clan.league)
+      }
+    }
+  }, [open, planA, planB, clans, players, prefetchPlayer])
+
+  const comparison = useMemo(() => {
+    if (!planA || !planB) return null
+    return compareRosterPlans(planA.plan, planB.plan, { clans, players, availability, getProjection })
+  }, [planA, planB, clans, players, availability, getProjection])
+
+  const playerName = (tag: string) => playerNames.get(tag) ?? tag
+
+  const planPicker = (value: ComparablePlan | undefined, onChange: (id: string) => void, label: string) => (
+    <label className="flex-1 min-w-[200px] space-y-1">
+      <span className="block text-xs text-muted-foreground">{label}</span>
+      <Select value={value?.id} onValueChange={onChange}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {plans.map(p => (
+            <SelectItem key={p.id} value={p.id}>
+              <span className="text-muted-foreground">{t(`rosterBuilder.compare.groups.${p.group}`)}:</span> {p.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </label>
+  )
+
+  const metricsTable = (a: ClanRosterStats, b: ClanRosterStats) => (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-muted-foreground">
+          <th className="text-left font-medium py-0.5" />
+          <th className="text-right font-medium py-0.5">A</th>
+          <th className="text-right font-medium py-0.5">B</th>
+          <th className="text-right font-medium py-0.5">Δ</th>
+        </tr>
+      </thead>
+      <tbody>
+        {METRICS.map(metric => {
+          const before = metric.value(a)
+          const after = metric.value(b)
+          const delta = Number((after - before).toFixed(metric.digits))
+          return (
+            <tr key={metric.key}>
+              <td className="py-0.5 text-muted-foreground">{t(`rosterBuilder.compare.metrics.${metric.key}`)}</td>
+              <td className="py-0.5 text-right tabular-nums">{before.toFixed(metric.digits)}{metric.suffix}</td>
+              <td className="py-0.5 text-right tabular-nums">{after.toFixed(metric.digits)}{metric.suffix}</td>
+              <td className={cn(
+                'py-0.5 text-right tabular-nums font-medium',
+                delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'text-muted-foreground'
+              )}>
+                {delta > 0 ? '+' : ''}{delta.toFixed(metric.digits)}{metric.suffix}
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>{t('rosterBuilder.compare.title')}</DialogTitle>
+          <DialogDescription>{t('rosterBuilder.compare.description')}</DialogDescription>
+        </DialogHeader>
+
+        {plans.length < 2 ? (
+          <p className="text-sm text-muted-foreground">{t('rosterBuilder.compare.nothingToCompare')}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3">
+              {planPicker(planA, setAId, t('rosterBuilder.compare.planA'))}
+              {planPicker(planB, setBId, t('rosterBuilder.compare.planB'))}
+            </div>
+
+            {comparison && (
+              <div className="max-h-[55vh] overflow-y-auto space-y-3 text-sm">
+                <div className="rounded-md border border-primary/40 bg-primary/5 p-3 space-y-2">
+                  <p className="font-medium">{t('rosterBuilder.compare.family')}</p>
+                  {metricsTable(comparison.totals.a, comparison.totals.b)}
+                </div>
+
+                {comparison.clans.length === 0 && (
+                  <p className="text-muted-foreground">{t('rosterBuilder.compare.emptyPlans')}</p>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {comparison.clans.map(({ clan, added, removed, manualAdded, manualRemoved, a, b }) => (
+                    <div key={clan.tag} className={cn('rounded-md border p-3 space-y-2', clan.borderColor)}>
+                      <p className={cn('font-medium', clan.color)}>{clan.name}</p>
+                      {metricsTable(a, b)}
+
+                      {added.length + removed.length + manualAdded.length + manualRemoved.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">{t('rosterBuilder.compare.samePlayers')}</p>
+                      ) : (
+                        <div className="space-y-0.5 text-xs">
+                          {added.map(tag => (
+                            <p key={tag} className="flex items-center gap-2 text-green-400">
+                              <Plus size={12} /> {playerName(tag)}
+                            </p>
+                          ))}
+                          {manualAdded.map(name => (
+                            <p key={`manual-${name}`} className="flex items-center gap-2 text-green-400">
+                              <Plus size={12} /> {name} <span className="opacity-70">{t('rosterBuilder.manual_entry_badge')}</span>
+                            </p>
+                          ))}
+                          {removed.map(tag => (
+                            <p key={tag} className="flex items-center gap-2 text-red-400">
+                              <Minus size={12} /> {playerName(tag)}
+                            </p>
+                          ))}
+                          {manualRemoved.map(name => (
+                            <p key={`manual-${name}`} className="flex items-center gap-2 text-red-400">
+                              <Minus size={12} /> {name} <span className="opacity-70">{t('rosterBuilder.manual_entry_badge')}</span>
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
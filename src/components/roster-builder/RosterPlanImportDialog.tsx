@@ -0,0 +1,145 @@
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { RosterPlanDiff } from '@/lib/rosterPlan'
+import type { CustomClan } from '@/lib/types'
+import { Lock, LockOpen, Minus, Plus, Prohibit, Users } from '@phosphor-icons/react'
+import { useTranslation } from 'react-i18next'
+
+interface RosterPlanImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  diff: RosterPlanDiff | null
+  source: 'link' | 'file'
+  allClans: CustomClan[]          // Current and incoming clans, for names
+  playerNames: Map<string, string>
+  onApply: () => void
+}
+
+/**
+ * Preview of what an imported roster plan changes, before it replaces the current one
+ */
+export function RosterPlanImportDialog({
+  open,
+  onOpenChange,
+  diff,
+  source,
+  allClans,
+  playerNames,
+  onApply
+}: RosterPlanImportDialogProps) {
+  const { t } = useTranslation()
+
+  const clanInfo = (tag: string) => allClans.find(c => c.tag === tag)
+  const playerName = (tag: string) => playerNames.get(tag) ?? tag
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{t('rosterBuilder.plan.importTitle')}</DialogTitle>
+          <DialogDescription>
+            {t(source === 'link' ? 'rosterBuilder.plan.importFromLink' : 'rosterBuilder.plan.importFromFile')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3 text-sm">
+          {!diff || diff.changes === 0 ? (
+            <p className="text-muted-foreground">{t('rosterBuilder.plan.noChanges')}</p>
+          ) : (
+            <>
+              <p className="text-muted-foreground">{t('rosterBuilder.plan.changes', { count: diff.changes })}</p>
+
+              {(diff.customClansAdded.length > 0 || diff.customClansRemoved.length > 0) && (
+                <div className="rounded-md border border-border/60 p-3 space-y-1">
+                  <p className="font-medium">{t('rosterBuilder.customClans')}</p>
+                  {diff.customClansAdded.map(clan => (
+                    <p key={clan.tag} className="flex items-center gap-2 text-green-400">
+                      <Plus size={12} /> {clan.name} <span className="text-xs opacity-70">{clan.tag}</span>
+                    </p>
+                  ))}
+                  {diff.customClansRemoved.map(clan => (
+                    <p key={clan.tag} className="flex items-center gap-2 text-red-400">
+                      <Minus size={12} /> {clan.name} <span className="text-xs opacity-70">{clan.tag}</span>
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {diff.clans.map(clanDiff => {
+                const clan = clanInfo(clanDiff.clanTag)
+                return (
+                  <div key={clanDiff.clanTag} className="rounded-md border border-border/60 p-3 space-y-1">
+                    <p className={`font-medium ${clan?.color ?? ''}`}>{clan?.name ?? clanDiff.clanTag}</p>
+                    {clanDiff.lock && (
+                      <p className="flex items-center gap-2 text-amber-300">
+                        {clanDiff.lock.to ? <Lock size={12} /> : <LockOpen size={12} />}
+                        {t(clanDiff.lock.to ? 'rosterBuilder.plan.locked' : 'rosterBuilder.plan.unlocked')}
+                      </p>
+                    )}
+                    {clanDiff.mode && (
+                      <p className="flex items-center gap-2 text-sky-300">
+                        <Users size={12} /> {clanDiff.mode.from} → {clanDiff.mode.to}
+                      </p>
+                    )}
+                    {clanDiff.added.map(tag => (
+                      <p key={tag} className="flex items-center gap-2 text-green-400">
+                        <Plus size={12} /> {playerName(tag)}
+                      </p>
+                    ))}
+                    {clanDiff.manualAdded.map(name => (
+                      <p key={`manual-${name}`} className="flex items-center gap-2 text-green-400">
+                        <Plus size={12} /> {name} <span className="text-xs opacity-70">{t('rosterBuilder.manual_entry_badge')}</span>
+                      </p>
+                    ))}
+                    {clanDiff.removed.map(tag => (
+                      <p key={tag} className="flex items-center gap-2 text-red-400">
+                        <Minus size={12} /> {playerName(tag)}
+                      </p>
+                    ))}
+                    {clanDiff.manualRemoved.map(name => (
+                      <p key={`manual-${name}`} className="flex items-center gap-2 text-red-400">
+                        <Minus size={12} /> {name} <span className="text-xs opacity-70">{t('rosterBuilder.manual_entry_badge')}</span>
+                      </p>
+                    ))}
+                  </div>
+                )
+              })}
+
+              {(diff.excludedAdded.length > 0 || diff.excludedRemoved.length > 0) && (
+                <div className="rounded-md border border-border/60 p-3 space-y-1">
+                  <p className="font-medium">{t('rosterBuilder.out')}</p>
+                  {diff.excludedAdded.map(tag => (
+                    <p key={tag} className="flex items-center gap-2 text-red-400">
+                      <Prohibit size={12} /> {playerName(tag)}
+                    </p>
+                  ))}
+                  {diff.excludedRemoved.map(tag => (
+                    <p key={tag} className="flex items-center gap-2 text-green-400">
+                      <Plus size={12} /> {playerName(tag)}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('rosterBuilder.switch_cancel')}
+          </Button>
+          <Button onClick={onApply} disabled={!diff || diff.changes === 0}>
+            {t('rosterBuilder.plan.apply')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,65 @@
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { DownloadSimple, LinkSimple, ShareNetwork, UploadSimple } from '@phosphor-icons/react'
+import { useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface RosterPlanShareMenuProps {
+  onCopyLink: () => void
+  onExportFile: () => void
+  onImportFile: (file: File) => void
+}
+
+/**
+ * Share / export / import actions for the whole roster plan
+ */
+export function RosterPlanShareMenu({ onCopyLink, onExportFile, onImportFile }: RosterPlanShareMenuProps) {
+  const { t } = useTranslation()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="secondary" className="gap-2">
+            <ShareNetwork size={16} />
+            {t('rosterBuilder.plan.share')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onSelect={onCopyLink}>
+            <LinkSimple size={16} />
+            {t('rosterBuilder.plan.copyLink')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={onExportFile}>
+            <DownloadSimple size={16} />
+            {t('rosterBuilder.plan.exportFile')}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <UploadSimple size={16} />
+            {t('rosterBuilder.plan.importFile')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) onImportFile(file)
+          // Allow importing the same file again
+          e.target.value = ''
+        }}
+      />
+    </>
+  )
+}
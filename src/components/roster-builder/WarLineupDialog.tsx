@@ -0,0 +1,366 @@
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { getAvailableWars, isAvailableOnDay, WAR_DAYS } from '@/lib/availability'
+import { getSeasonWarTimelines } from '@/lib/data'
+import { ATTACKS_PER_SEASON, getLeagueAdjustedProjection } from '@/lib/rosterCalculations'
+import type {
+  ClanWarLineups,
+  CustomClan,
+  LeagueProjection,
+  ManualPlayerEntry,
+  RosterMode,
+  RosterPlayerStats,
+  SeasonAvailability,
+  SeasonWarLineups,
+  WarTimeline,
+} from '@/lib/types'
+import { cn } from '@/lib/utils'
+import {
+  compareWarLineups,
+  countScheduledDays,
+  fillWarLineups,
+  getLineupKey,
+  getOtherClanLineups,
+  getWarLineupIssues,
+  normalizeWarLineups,
+  projectLineupStars,
+  WAR_SIZES,
+  type WarLineupIssue,
+} from '@/lib/warLineups'
+import { Check, CircleNotch, Lock, Plus, Warning, X } from '@phosphor-icons/react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface WarLineupDialogProps {
+  clan: CustomClan | null
+  onOpenChange: (open: boolean) => void
+  season: string
+  players: RosterPlayerStats[]
+  manualPlayers: ManualPlayerEntry[]
+  rosterMode: RosterMode
+  lineups: SeasonWarLineups                 // Every clan's lineups this season
+  availability: SeasonAvailability
+  onChange: (clanTag: string, lineups: ClanWarLineups | null) => void
+  getProjection: (playerTag: string, league: string) => LeagueProjection | null
+  prefetchPlayer: (player: RosterPlayerStats, league: string) => void
+  allClans: CustomClan[]
+  playerNames: Map<string, string>
+}
+
+interface LineupRow {
+  key: string
+  name: string
+  th: number | null
+  starsPerWar: number
+}
+
+/**
+ * Day-by-day lineup grid for a clan's seven CWL wars, with projected stars per war
+ * and, once the season runs, the planned lineups against who actually warred
+ */
+export function WarLineupDialog({
+  clan,
+  onOpenChange,
+  season,
+  players,
+  manualPlayers,
+  rosterMode,
+  lineups,
+  availability,
+  onChange,
+  getProjection,
+  prefetchPlayer,
+  allClans,
+  playerNames,
+}: WarLineupDialogProps) {
+  const { t } = useTranslation()
+  const [timelines, setTimelines] = useState<WarTimeline[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const warSize = WAR_SIZES[rosterMode]
+  const clanLineups = useMemo(() => normalizeWarLineups(clan ? lineups[clan.tag] : undefined), [lineups, clan])
+
+  useEffect(() => {
+    if (!clan) return
+    players.forEach(p => prefetchPlayer(p, clan.league))
+  }, [clan, players, prefetchPlayer])
+
+  useEffect(() => {
+    if (!clan) return
+    const clanTag = clan.tag
+    let cancelled = false
+
+    async function loadWars() {
+      setLoading(true)
+      setTimelines([])
+      try {
+        const wars = await getSeasonWarTimelines(season, clanTag)
+        if (!cancelled) setTimelines(wars)
+      } catch (err) {
+        console.error('Failed to load war timelines for lineup comparison:', err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadWars()
+    return () => { cancelled = true }
+  }, [clan, season])
+
+  // League-adjusted projection for one war, strongest first
+  const rows = useMemo<LineupRow[]>(() => {
+    if (!clan) return []
+    return [
+      ...players.map(p => ({
+        key: p.playerTag,
+        name: p.playerName,
+        th: p.currentTH,
+        starsPerWar: (getProjection(p.playerTag, clan.league) ?? getLeagueAdjustedProjection(p, clan.league)).projectedStars / ATTACKS_PER_SEASON,
+      })),
+      ...manualPlayers.map(p => ({
+        key: getLineupKey(p),
+        name: p.name,
+        th: p.th,
+        starsPerWar: getLeagueAdjustedProjection(p, clan.league).projectedStars / ATTACKS_PER_SEASON,
+      })),
+    ].sort((a, b) => b.starsPerWar - a.starsPerWar)
+  }, [clan, players, manualPlayers, getProjection])
+
+  const otherClans = useMemo(
+    () => Object.fromEntries(Object.entries(lineups).filter(([tag]) => tag !== clan?.tag)),
+    [lineups, clan]
+  )
+  const lineupClans = useMemo(() => getOtherClanLineups(otherClans), [otherClans])
+
+  const comparison = useMemo(() => compareWarLineups(clanLineups, timelines), [clanLineups, timelines])
+  // A war's lineup is fixed once it has started
+  const lockedDays = new Set(comparison.map(c => c.day))
+
+  const dayStars = projectLineupStars(clanLineups, new Map(rows.map(r => [r.key, r.starsPerWar])))
+  const issues = getWarLineupIssues({
+    lineups: clanLineups,
+    rosterKeys: rows.map(r => r.key),
+    warSize,
+    availability,
+    otherClans,
+  })
+
+  if (!clan) return null
+
+  const nameOf = (key: string) => rows.find(r => r.key === key)?.name ?? playerNames.get(key) ?? key
+  const clanName = (tag: string) => allClans.find(c => c.tag === tag)?.name ?? tag
+
+  const toggle = (key: string, day: number) => {
+    const next = clanLineups.map(d => [...d])
+    const lineup = next[day - 1]
+    next[day - 1] = lineup.includes(key) ? lineup.filter(k => k !== key) : [...lineup, key]
+    onChange(clan.tag, next)
+  }
+
+  const fill = () => {
+    const candidates = rows.filter(r => !lineupClans.has(r.key))
+    onChange(clan.tag, fillWarLineups(clanLineups, candidates, warSize, availability, lockedDays))
+  }
+
+  // Started wars keep their lineup
+  const clear = () => {
+    onChange(clan.tag, clanLineups.map((day, i) => (lockedDays.has(i + 1) ? day : [])))
+  }
+
+  const describe = (issue: WarLineupIssue): string => {
+    switch (issue.type) {
+      case 'size':
+        return t('rosterBuilder.lineups.issues.size', { day: issue.day, count: issue.count, warSize: issue.warSize })
+      case 'notInRoster':
+      case 'unavailable':
+        return t(`rosterBuilder.lineups.issues.${issue.type}`, { day: issue.day, player: nameOf(issue.key) })
+      case 'otherClan':
+        return t('rosterBuilder.lineups.issues.otherClan', { player: nameOf(issue.key), clan: clanName(issue.clanTag) })
+      case 'underScheduled':
+        return t('rosterBuilder.lineups.issues.underScheduled', {
+          player: nameOf(issue.key),
+          scheduled: issue.scheduled,
+          available: issue.available,
+        })
+    }
+  }
+  const errors = issues.filter(i => i.type !== 'underScheduled')
+  const underScheduled = issues.filter(i => i.type === 'underScheduled')
+
+  const cell = (row: LineupRow, day: number) => {
+    const lineup = clanLineups[day - 1]
+    const planned = lineup.includes(row.key)
+    const war = comparison.find(c => c.day === day)
+    if (war) {
+      const played = war.played.includes(row.key) || war.pulledIn.some(m => m.tag === row.key)
+      return (
+        <span
+          className={cn(
+            'mx-auto flex h-6 w-6 items-center justify-center rounded border',
+            planned && played && 'border-green-500/60 bg-green-500/20 text-green-400',
+            planned && !played && 'border-red-500/60 bg-red-500/20 text-red-400',
+            !planned && played && 'border-blue-500/60 text-blue-400',
+            !planned && !played && 'border-border/40'
+          )}
+          title={t(`rosterBuilder.lineups.actual.${planned ? (played ? 'played' : 'missing') : played ? 'pulledIn' : 'benched'}`)}
+        >
+          {played ? <Check size={12} /> : planned ? <X size={12} /> : null}
+        </span>
+      )
+    }
+
+    const available = isAvailableOnDay(availability[row.key], day)
+    const otherClan = lineupClans.get(row.key)
+    const full = lineup.length >= warSize
+    return (
+      <button
+        onClick={() => toggle(row.key, day)}
+        disabled={!planned && (full || otherClan !== undefined)}
+        title={otherClan ? t('rosterBuilder.lineups.inOtherClan', { clan: clanName(otherClan) }) : !available ? t('rosterBuilder.lineups.notSignedUp') : undefined}
+        className={cn(
+          'mx-auto flex h-6 w-6 items-center justify-center rounded border transition-colors disabled:opacity-30',
+          planned
+            ? available ? 'border-primary/60 bg-primary/30 text-primary' : 'border-amber-500/60 bg-amber-500/30 text-amber-300'
+            : available ? 'border-border/60 hover:bg-muted/40' : 'border-dashed border-border/40 hover:bg-muted/40'
+        )}
+      >
+        {planned && <Check size={12} />}
+      </button>
+    )
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle className={clan.color}>{t('rosterBuilder.lineups.title', { clan: clan.name, season })}</DialogTitle>
+          <DialogDescription>{t('rosterBuilder.lineups.description', { warSize })}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="outline" className="h-8 gap-1" onClick={fill} disabled={rows.length === 0}>
+            <Plus size={14} />
+            {t('rosterBuilder.lineups.fill')}
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8" onClick={clear}>
+            {t('rosterBuilder.lineups.clear')}
+          </Button>
+          {loading && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <CircleNotch size={12} className="animate-spin" />
+              {t('rosterBuilder.lineups.loadingWars')}
+            </span>
+          )}
+          {comparison.length > 0 && (
+            <span className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Lock size={12} />
+              {t('rosterBuilder.lineups.warsStarted', { count: comparison.length })}
+              <span className="text-green-400">✓ {t('rosterBuilder.lineups.actual.played')}</span>
+              <span className="text-red-400">✗ {t('rosterBuilder.lineups.actual.missing')}</span>
+              <span className="text-blue-400">✓ {t('rosterBuilder.lineups.actual.pulledIn')}</span>
+            </span>
+          )}
+        </div>
+
+        <div className="max-h-[55vh] overflow-auto">
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('rosterBuilder.lineups.emptyRoster')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background">
+                <tr className="text-xs text-muted-foreground">
+                  <th className="py-1 text-left font-medium">{t('rosterBuilder.name')}</th>
+                  {WAR_DAYS.map(day => (
+                    <th key={day} className="w-9 py-1 text-center font-medium" title={comparison.find(c => c.day === day)?.opponent}>
+                      {t('rosterBuilder.lineups.day', { day })}
+                    </th>
+                  ))}
+                  <th className="w-14 py-1 text-center font-medium">{t('rosterBuilder.lineups.days')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const scheduled = countScheduledDays(clanLineups, row.key)
+                  const available = getAvailableWars(availability[row.key])
+                  return (
+                    <tr key={row.key} className="border-t border-border/30">
+                      <td className="py-1 pr-2">
+                        <span className="truncate">{row.name}</span>
+                        {row.th !== null && <span className="ml-1 text-xs text-muted-foreground">TH{row.th}</span>}
+                        <span className="ml-1 text-xs text-yellow-400/80">{row.starsPerWar.toFixed(1)}★</span>
+                      </td>
+                      {WAR_DAYS.map(day => (
+                        <td key={day} className="py-1">{cell(row, day)}</td>
+                      ))}
+                      <td className={cn('py-1 text-center text-xs tabular-nums', scheduled < available ? 'text-amber-300' : 'text-muted-foreground')}>
+                        {scheduled}/{available}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+              <tfoot className="text-xs">
+                <tr className="border-t border-border/60">
+                  <td className="py-1 text-muted-foreground">{t('rosterBuilder.lineups.lineupSize')}</td>
+                  {clanLineups.map((day, i) => (
+                    <td key={i} className={cn('py-1 text-center tabular-nums', day.length === warSize ? 'text-green-400' : 'text-red-400')}>
+                      {day.length}
+                    </td>
+                  ))}
+                  <td />
+                </tr>
+                <tr>
+                  <td className="py-1 text-muted-foreground">{t('rosterBuilder.projectedStars')}</td>
+                  {dayStars.map((stars, i) => (
+                    <td key={i} className="py-1 text-center tabular-nums text-yellow-400">{stars.toFixed(0)}</td>
+                  ))}
+                  <td className="py-1 text-center font-bold tabular-nums text-yellow-400">
+                    {dayStars.reduce((sum, s) => sum + s, 0).toFixed(0)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+
+        {comparison.some(c => c.pulledIn.some(m => !rows.some(r => r.key === m.tag))) && (
+          <div className="space-y-0.5 text-xs">
+            <p className="text-muted-foreground">{t('rosterBuilder.lineups.pulledInFromOutside')}</p>
+            {comparison.map(c => {
+              const outsiders = c.pulledIn.filter(m => !rows.some(r => r.key === m.tag))
+              if (outsiders.length === 0) return null
+              return (
+                <p key={c.day} className="text-blue-400">
+                  {t('rosterBuilder.lineups.day', { day: c.day })}: {outsiders.map(m => m.name).join(', ')}
+                </p>
+              )
+            })}
+          </div>
+        )}
+
+        {(errors.length > 0 || underScheduled.length > 0) && (
+          <div className="max-h-32 overflow-y-auto space-y-1 rounded border border-amber-500/40 bg-amber-500/10 px-2 py-1.5 text-xs text-amber-300">
+            {errors.map((issue, i) => (
+              <p key={i} className="flex items-start gap-1.5">
+                <Warning size={14} className="shrink-0 mt-px" />
+                {describe(issue)}
+              </p>
+            ))}
+            {underScheduled.map((issue, i) => (
+              <p key={`under-${i}`} className="flex items-start gap-1.5 opacity-80">
+                <Warning size={14} className="shrink-0 mt-px" />
+                {describe(issue)}
+              </p>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,52 @@
+import { loadAvailability, saveAvailability } from '@/lib/availability'
+import type { PlayerAvailability, SeasonAvailability } from '@/lib/types'
+import { useCallback, useEffect, useState } from 'react'
+
+const NO_SIGN_UPS: SeasonAvailability = {}
+
+interface UseAvailabilityResult {
+  availability: SeasonAvailability
+  setPlayerAvailability: (playerTag: string, availability: PlayerAvailability | null) => void
+  importAvailability: (imported: SeasonAvailability) => void
+  clearAvailability: () => void
+}
+
+/**
+ * Sign-ups of one season, persisted in localStorage with those of every other season
+ */
+export function useAvailability(season: string): UseAvailabilityResult {
+  const [allSeasons, setAllSeasons] = useState<Record<string, SeasonAvailability>>(loadAvailability)
+
+  useEffect(() => {
+    saveAvailability(allSeasons)
+  }, [allSeasons])
+
+  const setPlayerAvailability = useCallback((playerTag: string, availability: PlayerAvailability | null) => {
+    setAllSeasons(prev => {
+      const seasonAvailability = { ...prev[season] }
+      if (availability) seasonAvailability[playerTag] = availability
+      else delete seasonAvailability[playerTag]
+      return { ...prev, [season]: seasonAvailability }
+    })
+  }, [season])
+
+  // Imported rows replace the players they mention; everyone else keeps their sign-up
+  const importAvailability = useCallback((imported: SeasonAvailability) => {
+    setAllSeasons(prev => ({ ...prev, [season]: { ...prev[season], ...imported } }))
+  }, [season])
+
+  const clearAvailability = useCallback(() => {
+    setAllSeasons(prev => {
+      const next = { ...prev }
+      delete next[season]
+      return next
+    })
+  }, [season])
+
+  return {
+    availability: allSeasons[season] ?? NO_SIGN_UPS,
+    setPlayerAvailability,
+    importAvailability,
+    clearAvailability,
+  }
+}
@@ -0,0 +1,38 @@
+import type { RosterHistoryAction } from '@/lib/types'
+import { useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+
+/**
+ * Translated label of a roster builder history entry
+ */
+export function useHistoryActionLabel(): (action: RosterHistoryAction) => string {
+  const { t } = useTranslation()
+
+  return useCallback((action: RosterHistoryAction): string => {
+    switch (action.type) {
+      case 'initial':
+      case 'edit':
+      case 'autoDistribute':
+      case 'clear':
+      case 'importPlan':
+        return t(`rosterBuilder.history.actions.${action.type}`)
+      case 'move':
+      case 'manualAdd':
+      case 'manualRemove':
+        return t(`rosterBuilder.history.actions.${action.type}`, { player: action.player, clan: action.clan })
+      case 'bench':
+      case 'exclude':
+      case 'include':
+        return t(`rosterBuilder.history.actions.${action.type}`, { player: action.player })
+      case 'lock':
+      case 'unlock':
+      case 'customClanAdd':
+      case 'customClanRemove':
+        return t(`rosterBuilder.history.actions.${action.type}`, { clan: action.clan })
+      case 'mode':
+        return t('rosterBuilder.history.actions.mode', { clan: action.clan, mode: action.mode })
+      case 'loadDraft':
+        return t('rosterBuilder.history.actions.loadDraft', { name: action.name })
+    }
+  }, [t])
+}
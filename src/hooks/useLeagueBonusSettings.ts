@@ -0,0 +1,32 @@
+import { DEFAULT_LEAGUE_BONUS_SETTINGS, loadLeagueBonusSettings, saveLeagueBonusSettings, type BonusRules, type LeagueBonusSettings } from '@/lib/leagueBonuses'
+import { useCallback, useEffect, useState } from 'react'
+
+interface UseLeagueBonusSettingsResult {
+  settings: LeagueBonusSettings
+  setRule: (rule: keyof BonusRules, points: number) => void
+  setCount: (leagueTier: string, count: number) => void
+  reset: () => void
+}
+
+/**
+ * League bonus ranking rules and bonus counts per league tier, persisted in localStorage
+ */
+export function useLeagueBonusSettings(): UseLeagueBonusSettingsResult {
+  const [settings, setSettings] = useState<LeagueBonusSettings>(loadLeagueBonusSettings)
+
+  useEffect(() => {
+    saveLeagueBonusSettings(settings)
+  }, [settings])
+
+  const setRule = useCallback((rule: keyof BonusRules, points: number) => {
+    setSettings(prev => ({ ...prev, rules: { ...prev.rules, [rule]: points } }))
+  }, [])
+
+  const setCount = useCallback((leagueTier: string, count: number) => {
+    setSettings(prev => ({ ...prev, counts: { ...prev.counts, [leagueTier]: count } }))
+  }, [])
+
+  const reset = useCallback(() => setSettings(DEFAULT_LEAGUE_BONUS_SETTINGS), [])
+
+  return { settings, setRule, setCount, reset }
+}
@@ -0,0 +1,113 @@
+import { getLeagueBaselines } from '@/lib/data'
+import { simulatePromotionOdds, type PromotionOdds } from '@/lib/promotionSimulator'
+import { WAR_SIZES } from '@/lib/warLineups'
+import type {
+  CustomClan,
+  LeagueBaselines,
+  ManualPlayerEntry,
+  RosterMode,
+  RosterPlayerStats,
+  SeasonAvailability,
+  SeasonWarLineups,
+} from '@/lib/types'
+import { useEffect, useRef, useState } from 'react'
+
+export interface PromotionOddsClan {
+  clan: CustomClan
+  players: RosterPlayerStats[]
+  manualPlayers: ManualPlayerEntry[]
+  rosterMode: RosterMode
+}
+
+// Wait for edits to settle before simulating, so typing or dragging doesn't re-run it on every change
+const SIMULATION_DELAY_MS = 300
+
+/**
+ * Simulated group position odds of every clan with players, keyed by clan tag.
+ * Clans whose league has no baseline get no odds.
+ *
+ * Every clan is simulated with the same seed, so moving a player changes the odds
+ * by the roster's effect and not by sampling noise. The simulation runs outside
+ * render: debounced after the last change, one clan per task so input stays
+ * responsive. Results are cached per clan and only re-run when that clan's inputs
+ * change; until then the previous odds stay on screen.
+ */
+export function usePromotionOdds(
+  clans: PromotionOddsClan[],
+  availability: SeasonAvailability,
+  lineups: SeasonWarLineups
+): Map<string, PromotionOdds> {
+  const [baselines, setBaselines] = useState<LeagueBaselines | null>(null)
+  const [odds, setOdds] = useState<Map<string, PromotionOdds>>(() => new Map())
+  const cacheRef = useRef(new Map<string, { signature: string; odds: PromotionOdds }>())
+
+  useEffect(() => {
+    getLeagueBaselines()
+      .then(setBaselines)
+      .catch(err => console.error('Failed to load league baselines:', err))
+  }, [])
+
+  useEffect(() => {
+    if (!baselines) return
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout>
+    const result = new Map<string, PromotionOdds>()
+    const queue = clans.filter(({ clan, players, manualPlayers }) =>
+      baselines.tiers[clan.league] && players.length + manualPlayers.length > 0
+    )
+
+    const simulateNext = () => {
+      if (cancelled) return
+      const next = queue.shift()
+      if (!next) {
+        setOdds(result)
+        return
+      }
+
+      const { clan, players, manualPlayers, rosterMode } = next
+      // Everything the simulation reads: the same tags carry other stats when the
+      // pool is reloaded for another range of seasons
+      const signature = JSON.stringify([
+        clan.league,
+        rosterMode,
+        players.map(p => [
+          p.playerTag,
+          p.starBuckets ?? null,
+          p.missedAttacks ?? null,
+          p.totalWars,
+          availability[p.playerTag] ?? null,
+        ]),
+        manualPlayers.map(p => [p.addedAt, p.estimatedAvgStars]),
+        lineups[clan.tag] ?? null,
+      ])
+      const cached = cacheRef.current.get(clan.tag)
+      if (cached?.signature === signature) {
+        result.set(clan.tag, cached.odds)
+        simulateNext()
+        return
+      }
+
+      const clanOdds = simulatePromotionOdds({
+        leagueTier: clan.league,
+        baseline: baselines.tiers[clan.league],
+        warSize: WAR_SIZES[rosterMode],
+        players,
+        manualPlayers,
+        availability,
+        lineups: lineups[clan.tag],
+      })
+      cacheRef.current.set(clan.tag, { signature, odds: clanOdds })
+      result.set(clan.tag, clanOdds)
+      timer = setTimeout(simulateNext, 0)
+    }
+
+    timer = setTimeout(simulateNext, SIMULATION_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [baselines, clans, availability, lineups])
+
+  return odds
+}
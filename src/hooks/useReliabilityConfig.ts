@@ -0,0 +1,36 @@
+import {
+  isOfficialReliabilityConfig,
+  OFFICIAL_RELIABILITY_CONFIG,
+  parseReliabilityConfig,
+  writeReliabilityConfig,
+  type ReliabilityConfig,
+} from '@/lib/reliability'
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+
+interface UseReliabilityConfigResult {
+  config: ReliabilityConfig
+  isOfficial: boolean
+  setConfig: (config: ReliabilityConfig) => void
+  reset: () => void
+}
+
+/**
+ * What-if reliability formula kept in the URL (`rw` / `rt` params), so a link
+ * reproduces the same leaderboard. Without params the official formula is used.
+ */
+export function useReliabilityConfig(): UseReliabilityConfigResult {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const config = useMemo(() => parseReliabilityConfig(searchParams), [searchParams])
+  const isOfficial = useMemo(() => isOfficialReliabilityConfig(config), [config])
+
+  // Replace instead of push, so dragging a slider doesn't flood the history
+  const setConfig = useCallback((next: ReliabilityConfig) => {
+    setSearchParams(prev => writeReliabilityConfig(prev, next), { replace: true })
+  }, [setSearchParams])
+
+  const reset = useCallback(() => setConfig(OFFICIAL_RELIABILITY_CONFIG), [setConfig])
+
+  return { config, isOfficial, setConfig, reset }
+}
@@ -0,0 +1,69 @@
+import {
+  createRosterDraft,
+  freezeRosterDraft,
+  loadRosterDrafts,
+  saveRosterDrafts,
+} from '@/lib/rosterDrafts'
+import type { RosterDraft, RosterPlan } from '@/lib/types'
+import { useCallback, useEffect, useState } from 'react'
+
+interface UseRosterDraftsResult {
+  drafts: RosterDraft[]
+  createDraft: (name: string, season: string, plan: RosterPlan) => RosterDraft
+  duplicateDraft: (id: string, name: string) => RosterDraft | null
+  renameDraft: (id: string, name: string) => void
+  deleteDraft: (id: string) => void
+  updateDraftPlan: (id: string, plan: RosterPlan) => void
+  freezeDraft: (id: string) => void
+  unfreezeDraft: (id: string) => void
+}
+
+/**
+ * Named roster drafts persisted in localStorage. Frozen drafts are read-only
+ * until unfrozen, so the official roster of a season can't drift.
+ */
+export function useRosterDrafts(): UseRosterDraftsResult {
+  const [drafts, setDrafts] = useState<RosterDraft[]>(loadRosterDrafts)
+
+  useEffect(() => {
+    saveRosterDrafts(drafts)
+  }, [drafts])
+
+  const createDraft = useCallback((name: string, season: string, plan: RosterPlan) => {
+    const draft = createRosterDraft(name, season, plan)
+    setDrafts(prev => [...prev, draft])
+    return draft
+  }, [])
+
+  const duplicateDraft = useCallback((id: string, name: string) => {
+    const source = drafts.find(d => d.id === id)
+    if (!source) return null
+    const draft = createRosterDraft(name, source.season, source.plan)
+    setDrafts(prev => [...prev, draft])
+    return draft
+  }, [drafts])
+
+  const renameDraft = useCallback((id: string, name: string) => {
+    setDrafts(prev => prev.map(d => d.id === id ? { ...d, name, updatedAt: new Date().toISOString() } : d))
+  }, [])
+
+  const deleteDraft = useCallback((id: string) => {
+    setDrafts(prev => prev.filter(d => d.id !== id))
+  }, [])
+
+  const updateDraftPlan = useCallback((id: string, plan: RosterPlan) => {
+    setDrafts(prev => prev.map(d =>
+      d.id === id && d.frozenAt === null ? { ...d, plan, updatedAt: new Date().toISOString() } : d
+    ))
+  }, [])
+
+  const freezeDraft = useCallback((id: string) => {
+    setDrafts(prev => freezeRosterDraft(prev, id))
+  }, [])
+
+  const unfreezeDraft = useCallback((id: string) => {
+    setDrafts(prev => prev.map(d => d.id === id ? { ...d, frozenAt: null } : d))
+  }, [])
+
+  return { drafts, createDraft, duplicateDraft, renameDraft, deleteDraft, updateDraftPlan, freezeDraft, unfreezeDraft }
+}
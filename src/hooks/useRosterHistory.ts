@@ -1,97 +1,157 @@
-import { useState, useCallback } from 'react'
+import { RosterPlanSchema } from '@/lib/rosterPlan'
+import type { RosterHistoryAction, RosterHistoryEntry, RosterMode, RosterPlan } from '@/lib/types'
+import { useState, useCallback, useEffect } from 'react'
+import { z } from 'zod'
 
-interface RosterState {
-  clanRosters: Map<string, Set<string>>
-  lockedClans: Set<string>
-  excludedPlayers: Set<string>
+const HISTORY_STORAGE_KEY = 'cwl-roster-builder-history'
+// Oldest entries are dropped past this, each one is a full plan snapshot
+const MAX_HISTORY_ENTRIES = 50
+
+interface RosterHistory {
+  entries: RosterHistoryEntry[]
+  currentIndex: number
 }
 
-const MAX_HISTORY_SIZE = 5
+const EMPTY_HISTORY: RosterHistory = { entries: [], currentIndex: -1 }
+
+const rosterMode: z.ZodType<RosterMode> = z.enum(['15v15', '30v30'])
+
+const RosterHistoryActionSchema: z.ZodType<RosterHistoryAction> = z.discriminatedUnion('type', [
+  z.object({ type: z.enum(['initial', 'edit', 'autoDistribute', 'clear', 'importPlan']) }),
+  z.object({ type: z.enum(['move', 'manualAdd', 'manualRemove']), player: z.string(), clan: z.string() }),
+  z.object({ type: z.enum(['bench', 'exclude', 'include']), player: z.string() }),
+  z.object({ type: z.enum(['lock', 'unlock', 'customClanAdd', 'customClanRemove']), clan: z.string() }),
+  z.object({ type: z.literal('mode'), clan: z.string(), mode: rosterMode }),
+  z.object({ type: z.literal('loadDraft'), name: z.string() }),
+])
+
+const RosterHistorySchema: z.ZodType<RosterHistory> = z.object({
+  entries: z.array(z.object({
+    action: RosterHistoryActionSchema,
+    plan: RosterPlanSchema,
+    at: z.string(),
+  })),
+  currentIndex: z.number().int(),
+})
+
+const loadHistory = (): RosterHistory => {
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY)
+    if (!stored) return EMPTY_HISTORY
+
+    const result = RosterHistorySchema.safeParse(JSON.parse(stored))
+    if (!result.success || result.data.currentIndex >= result.data.entries.length) {
+      console.warn('Ignoring invalid roster history in localStorage')
+      return EMPTY_HISTORY
+    }
+    return result.data
+  } catch (err) {
+    console.warn('Failed to load roster history from localStorage:', err)
+    return EMPTY_HISTORY
+  }
+}
 
 /**
- * Hook for managing undo/redo history for roster state changes
- * Keeps track of the last 5 roster states for undo/redo functionality
+ * Keep at most `count` entries: the newest ones, unless that would drop the
+ * current entry, in which case the window ends at the current entry's redo side
  */
-export function useRosterHistory() {
-  const [history, setHistory] = useState<RosterState[]>([])
-  const [currentIndex, setCurrentIndex] = useState(-1)
+const keepNewest = (history: RosterHistory, count: number): RosterHistory => {
+  const start = Math.max(0, Math.min(history.entries.length - count, history.currentIndex))
+  return { entries: history.entries.slice(start, start + count), currentIndex: history.currentIndex - start }
+}
 
-  /**
-   * Deep clone a roster state to prevent reference issues
-   */
-  const cloneState = useCallback((state: RosterState): RosterState => {
-    return {
-      clanRosters: new Map(
-        Array.from(state.clanRosters.entries()).map(([tag, players]) => [
-          tag,
-          new Set(players)
-        ])
-      ),
-      lockedClans: new Set(state.lockedClans),
-      excludedPlayers: new Set(state.excludedPlayers)
+/**
+ * Save the history, dropping the oldest entries until it fits in the storage
+ * quota. Returns how many entries were saved (0 when even the current one failed).
+ */
+const saveHistory = (history: RosterHistory): number => {
+  let toSave = history
+  for (;;) {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(toSave))
+      return toSave.entries.length
+    } catch (err) {
+      if (toSave.entries.length <= 1) {
+        console.warn('Failed to save roster history to localStorage:', err)
+        return 0
+      }
+      toSave = keepNewest(toSave, Math.floor(toSave.entries.length / 2))
     }
-  }, [])
+  }
+}
+
+const samePlan = (a: RosterPlan, b: RosterPlan) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Hook for the roster builder's undo/redo history.
+ * Every entry is a labelled snapshot of the whole plan after an action. The
+ * history keeps the last MAX_HISTORY_ENTRIES and survives reloads (localStorage);
+ * `savedEntries` says how many of them fit in the storage quota.
+ */
+export function useRosterHistory() {
+  const [history, setHistory] = useState<RosterHistory>(loadHistory)
+  const [savedEntries, setSavedEntries] = useState(history.entries.length)
+
+  useEffect(() => {
+    setSavedEntries(saveHistory(history))
+  }, [history])
 
   /**
-   * Push a new state to the history
-   * Removes any forward history if we're not at the latest state
+   * Record the plan after an action. No-op when the plan didn't change, so
+   * restoring an entry (undo, redo, jump) doesn't add a new one.
+   * Recording drops any entries after the current one (the redo branch).
    */
-  const push = useCallback((state: RosterState) => {
+  const record = useCallback((plan: RosterPlan, action: RosterHistoryAction) => {
     setHistory(prev => {
-      // Remove any forward history
-      const newHistory = prev.slice(0, currentIndex + 1)
-      
-      // Add the new state
-      const clonedState = cloneState(state)
-      newHistory.push(clonedState)
-      
-      // Keep only the last MAX_HISTORY_SIZE states
-      if (newHistory.length > MAX_HISTORY_SIZE) {
-        newHistory.shift()
-        return newHistory
+      const current = prev.entries[prev.currentIndex]
+      if (current && samePlan(current.plan, plan)) return prev
+
+      const entry: RosterHistoryEntry = {
+        action: prev.entries.length === 0 ? { type: 'initial' } : action,
+        plan,
+        at: new Date().toISOString(),
       }
-      
-      return newHistory
+      const entries = [...prev.entries.slice(0, prev.currentIndex + 1), entry]
+      return keepNewest({ entries, currentIndex: entries.length - 1 }, MAX_HISTORY_ENTRIES)
     })
-    
-    // Update index after history is updated, based only on previous index
-    setCurrentIndex(prev => {
-      const nextIndex = prev + 1
-      // Clamp to the maximum valid index within the fixed history size
-      return Math.min(nextIndex, MAX_HISTORY_SIZE - 1)
-    })
-  }, [currentIndex, cloneState])
+  }, [])
 
   /**
-   * Undo to the previous state
+   * Move to any entry and return its plan, or null when out of range
    */
-  const undo = useCallback((): RosterState | null => {
-    if (currentIndex <= 0) return null
-    
-    const newIndex = currentIndex - 1
-    setCurrentIndex(newIndex)
-    return cloneState(history[newIndex])
-  }, [currentIndex, history, cloneState])
+  const jumpTo = useCallback((index: number): RosterPlan | null => {
+    const entry = history.entries[index]
+    if (!entry || index === history.currentIndex) return null
+    setHistory(prev => ({ ...prev, currentIndex: index }))
+    return entry.plan
+  }, [history])
+
+  const undo = useCallback(() => jumpTo(history.currentIndex - 1), [history.currentIndex, jumpTo])
+  const redo = useCallback(() => jumpTo(history.currentIndex + 1), [history.currentIndex, jumpTo])
 
   /**
-   * Redo to the next state
+   * Forget everything but the current state
    */
-  const redo = useCallback((): RosterState | null => {
-    if (currentIndex >= history.length - 1) return null
-    
-    const newIndex = currentIndex + 1
-    setCurrentIndex(newIndex)
-    return cloneState(history[newIndex])
-  }, [currentIndex, history, cloneState])
+  const clear = useCallback(() => {
+    setHistory(prev => {
+      const current = prev.entries[prev.currentIndex]
+      return current ? { entries: [{ ...current, action: { type: 'initial' } }], currentIndex: 0 } : prev
+    })
+  }, [])
 
-  const canUndo = currentIndex > 0
-  const canRedo = currentIndex < history.length - 1
+  const canUndo = history.currentIndex > 0
+  const canRedo = history.currentIndex < history.entries.length - 1
 
   return {
-    push,
+    entries: history.entries,
+    currentIndex: history.currentIndex,
+    record,
+    jumpTo,
     undo,
     redo,
+    clear,
     canUndo,
-    canRedo
+    canRedo,
+    savedEntries
   }
 }
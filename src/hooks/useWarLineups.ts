@@ -0,0 +1,35 @@
+import { loadWarLineups, saveWarLineups } from '@/lib/warLineups'
+import type { ClanWarLineups, SeasonWarLineups } from '@/lib/types'
+import { useCallback, useEffect, useState } from 'react'
+
+const NO_LINEUPS: SeasonWarLineups = {}
+
+interface UseWarLineupsResult {
+  lineups: SeasonWarLineups
+  setClanLineups: (clanTag: string, lineups: ClanWarLineups | null) => void
+}
+
+/**
+ * Planned war lineups of one season, persisted in localStorage with those of every other season
+ */
+export function useWarLineups(season: string): UseWarLineupsResult {
+  const [allSeasons, setAllSeasons] = useState<Record<string, SeasonWarLineups>>(loadWarLineups)
+
+  useEffect(() => {
+    saveWarLineups(allSeasons)
+  }, [allSeasons])
+
+  const setClanLineups = useCallback((clanTag: string, lineups: ClanWarLineups | null) => {
+    setAllSeasons(prev => {
+      const seasonLineups = { ...prev[season] }
+      if (lineups && lineups.some(day => day.length > 0)) seasonLineups[clanTag] = lineups
+      else delete seasonLineups[clanTag]
+      return { ...prev, [season]: seasonLineups }
+    })
+  }, [season])
+
+  return {
+    lineups: allSeasons[season] ?? NO_LINEUPS,
+    setClanLineups,
+  }
+}
@@ -2,6 +2,7 @@ import i18n from 'i18next'
 import { initReactI18next } from 'react-i18next'
 import LanguageDetector from 'i18next-browser-languagedetector'
 
+import { FAMILY } from './lib/family'
 import en from './locales/en.json'
 import pl from './locales/pl.json'
 
@@ -19,6 +20,8 @@ i18n
     supportedLngs: ['en', 'pl'],
     interpolation: {
       escapeValue: false,
+      // Lets translations refer to the active family profile as {{family}}
+      defaultVariables: { family: FAMILY.name },
     },
     detection: {
       order: ['localStorage', 'htmlTag', 'path', 'subdomain'],
@@ -0,0 +1,66 @@
+import type { DurationBreakdown, DurationBucketStats } from './types'
+
+/**
+ * Attack duration buckets shared by the data pipeline (scripts/) and the React app.
+ *
+ * A CWL attack lasts at most 3 minutes, so durations fall into 30-second
+ * buckets from one minute up, with everything under a minute (usually an
+ * early surrender) in the first one and attacks that ran the clock out in
+ * the last. Breakdowns are arrays aligned with `DURATION_BUCKETS`.
+ */
+
+export interface DurationBucket {
+  min: number   // Seconds, inclusive
+  max: number   // Seconds, inclusive
+}
+
+export const DURATION_BUCKETS: DurationBucket[] = [
+  { min: 0, max: 59 },
+  { min: 60, max: 89 },
+  { min: 90, max: 119 },
+  { min: 120, max: 149 },
+  { min: 150, max: 179 },
+  { min: 180, max: Infinity },
+]
+
+/** Index in `DURATION_BUCKETS` of an attack lasting `duration` seconds */
+export function getDurationBucket(duration: number): number {
+  const index = DURATION_BUCKETS.findIndex(bucket => duration <= bucket.max)
+  return index === -1 ? DURATION_BUCKETS.length - 1 : index
+}
+
+export function createDurationBreakdown(): DurationBreakdown {
+  return DURATION_BUCKETS.map(() => ({ attacks: 0, destruction: 0, starCounts: [0, 0, 0, 0] }))
+}
+
+export function addDurationResult(
+  breakdown: DurationBreakdown,
+  duration: number,
+  stars: number,
+  destruction: number
+): void {
+  const stats = breakdown[getDurationBucket(duration)]
+  stats.attacks++
+  stats.destruction += destruction
+  stats.starCounts[Math.min(3, Math.max(0, stars))]++
+}
+
+/** Adds `source` into `target` (e.g. season breakdowns into a career total) */
+export function mergeDurationBreakdowns(target: DurationBreakdown, source: DurationBreakdown): void {
+  source.forEach((stats, i) => {
+    const into = target[i]
+    if (!into) return
+    into.attacks += stats.attacks
+    into.destruction += stats.destruction
+    stats.starCounts.forEach((count, stars) => { into.starCounts[stars] += count })
+  })
+}
+
+export function getDurationAvgStars(stats: DurationBucketStats): number {
+  const stars = stats.starCounts.reduce((sum, count, starsWon) => sum + count * starsWon, 0)
+  return stats.attacks > 0 ? stars / stats.attacks : 0
+}
+
+export function getDurationAvgDestruction(stats: DurationBucketStats): number {
+  return stats.attacks > 0 ? stats.destruction / stats.attacks : 0
+}
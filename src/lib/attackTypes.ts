@@ -0,0 +1,92 @@
+import type { AttackType, AttackTypeBreakdown, AttackTypeStats } from './types'
+
+/**
+ * Attack type classification shared by the data pipeline (scripts/) and the React app.
+ *
+ * Every attack is one of:
+ * - mirror: the defender holds the attacker's own spot on the map
+ * - hitUp / hitDown: off-mirror against a higher / lower TH
+ * - offMirror: off-mirror against the same TH
+ *
+ * Map positions from the API are not always 1..N (they keep gaps from the
+ * clan's roster order), so "same spot" compares the rank of each position
+ * within its own side rather than the raw numbers.
+ */
+
+export const ATTACK_TYPES: AttackType[] = ['mirror', 'hitUp', 'hitDown', 'offMirror']
+
+interface MapMember {
+  tag?: string
+  mapPosition?: number
+}
+
+/**
+ * 1-based map rank of each member of one war side, keyed by player tag.
+ * Members without a map position are left out.
+ */
+export function getMapRanks(members: MapMember[]): Map<string, number> {
+  const ranked = members
+    .filter((m): m is Required<MapMember> => !!m.tag && typeof m.mapPosition === 'number')
+    .sort((a, b) => a.mapPosition - b.mapPosition)
+  return new Map(ranked.map((m, i) => [m.tag, i + 1]))
+}
+
+/**
+ * Type of one attack, or null when a TH level or map rank is unknown.
+ */
+export function classifyAttack(
+  attackerTH: number | null | undefined,
+  defenderTH: number | null | undefined,
+  attackerRank: number | undefined,
+  defenderRank: number | undefined
+): AttackType | null {
+  if (!attackerTH || !defenderTH || !attackerRank || !defenderRank) return null
+  if (attackerRank === defenderRank) return 'mirror'
+  if (defenderTH > attackerTH) return 'hitUp'
+  if (defenderTH < attackerTH) return 'hitDown'
+  return 'offMirror'
+}
+
+export function createAttackTypeBreakdown(): AttackTypeBreakdown {
+  return {
+    mirror: { attacks: 0, stars: 0, triples: 0 },
+    hitUp: { attacks: 0, stars: 0, triples: 0 },
+    hitDown: { attacks: 0, stars: 0, triples: 0 },
+    offMirror: { attacks: 0, stars: 0, triples: 0 },
+  }
+}
+
+export function addAttackTypeResult(breakdown: AttackTypeBreakdown, type: AttackType, stars: number): void {
+  const stats = breakdown[type]
+  stats.attacks++
+  stats.stars += stars
+  if (stars === 3) stats.triples++
+}
+
+/** Adds `source` into `target` (e.g. season breakdowns into a career total) */
+export function mergeAttackTypeBreakdowns(target: AttackTypeBreakdown, source: AttackTypeBreakdown): void {
+  for (const type of ATTACK_TYPES) {
+    target[type].attacks += source[type].attacks
+    target[type].stars += source[type].stars
+    target[type].triples += source[type].triples
+  }
+}
+
+export function getClassifiedAttacks(breakdown: AttackTypeBreakdown): number {
+  return ATTACK_TYPES.reduce((sum, type) => sum + breakdown[type].attacks, 0)
+}
+
+/** Share of the classified attacks that were of `type` (0-100) */
+export function getAttackTypeShare(breakdown: AttackTypeBreakdown, type: AttackType): number {
+  const total = getClassifiedAttacks(breakdown)
+  return total > 0 ? (breakdown[type].attacks / total) * 100 : 0
+}
+
+export function getAttackTypeAvgStars(stats: AttackTypeStats): number {
+  return stats.attacks > 0 ? stats.stars / stats.attacks : 0
+}
+
+/** 3-star rate (0-100) within one attack type */
+export function getAttackTypeTripleRate(stats: AttackTypeStats): number {
+  return stats.attacks > 0 ? (stats.triples / stats.attacks) * 100 : 0
+}
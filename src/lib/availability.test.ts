@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseDays } from './availability'
+
+describe('parseDays', () => {
+  it('reads ranges, lists and mixes of both', () => {
+    assert.deepEqual(parseDays('1-4'), [1, 2, 3, 4])
+    assert.deepEqual(parseDays('1,2,3'), [1, 2, 3])
+    assert.deepEqual(parseDays('1-3 6'), [1, 2, 3, 6])
+  })
+
+  it('reads a range with spaces around the dash', () => {
+    assert.deepEqual(parseDays('1 - 3'), [1, 2, 3])
+    assert.deepEqual(parseDays('2 – 4, 7'), [2, 3, 4, 7])
+  })
+
+  it('drops days outside the war', () => {
+    assert.deepEqual(parseDays('0, 6-9'), [6, 7])
+  })
+})
@@ -0,0 +1,282 @@
+import { z } from 'zod'
+import { ATTACKS_PER_SEASON } from './rosterCalculations'
+import type { AvailabilityStatus, CustomClan, PlayerAvailability, RosterPlayerStats, SeasonAvailability } from './types'
+
+/**
+ * Player availability (sign-ups) per CWL season for the roster builder.
+ *
+ * Partial players count only for the war days they can attack: their
+ * projected stars scale with the number of days, and clans that depend on
+ * them can run short on the other days.
+ */
+
+export const AVAILABILITY_STORAGE_KEY = 'cwl-roster-builder-availability'
+
+export const WAR_DAYS = Array.from({ length: ATTACKS_PER_SEASON }, (_, i) => i + 1)
+
+export class AvailabilitySheetError extends Error {
+  readonly reason: 'invalid' | 'empty'
+
+  constructor(reason: 'invalid' | 'empty', message: string) {
+    super(message)
+    this.name = 'AvailabilitySheetError'
+    this.reason = reason
+  }
+}
+
+// --- Storage (season → player tag → availability) ---
+
+const PlayerAvailabilitySchema: z.ZodType<PlayerAvailability> = z.looseObject({
+  status: z.enum(['in', 'out', 'partial']),
+  days: z.array(z.number().int()).optional(),
+  preferredClan: z.string().optional(),
+  notes: z.string().optional(),
+})
+
+const StoredAvailabilitySchema = z.record(z.string(), z.record(z.string(), PlayerAvailabilitySchema))
+
+export function loadAvailability(): Record<string, SeasonAvailability> {
+  try {
+    const stored = localStorage.getItem(AVAILABILITY_STORAGE_KEY)
+    if (!stored) return {}
+
+    const result = StoredAvailabilitySchema.safeParse(JSON.parse(stored))
+    if (!result.success) {
+      console.warn('Ignoring invalid availability in localStorage:', result.error)
+      return {}
+    }
+    return result.data
+  } catch (err) {
+    console.warn('Failed to load availability from localStorage:', err)
+    return {}
+  }
+}
+
+export function saveAvailability(availability: Record<string, SeasonAvailability>): void {
+  try {
+    localStorage.setItem(AVAILABILITY_STORAGE_KEY, JSON.stringify(availability))
+  } catch (err) {
+    console.warn('Failed to save availability to localStorage:', err)
+  }
+}
+
+// --- Helpers ---
+
+/**
+ * Wars a player can attack in; players without a sign-up are assumed to play all of them
+ */
+export function getAvailableWars(availability: PlayerAvailability | undefined): number {
+  if (!availability || availability.status === 'in') return ATTACKS_PER_SEASON
+  if (availability.status === 'out') return 0
+  return availability.days?.length ?? ATTACKS_PER_SEASON
+}
+
+export function isAvailableOnDay(availability: PlayerAvailability | undefined, day: number): boolean {
+  if (!availability || availability.status === 'in') return true
+  if (availability.status === 'out') return false
+  return availability.days?.includes(day) ?? true
+}
+
+/**
+ * "1–4", "1–3, 6", "2, 5"
+ */
+export function formatDays(days: number[]): string {
+  const sorted = [...new Set(days)].sort((a, b) => a - b)
+  const ranges: string[] = []
+  let start = sorted[0]
+  for (let i = 1; i <= sorted.length; i++) {
+    if (sorted[i] === sorted[i - 1] + 1) continue
+    const end = sorted[i - 1]
+    ranges.push(end - start >= 2 ? `${start}–${end}` : start === end ? `${start}` : `${start}, ${end}`)
+    start = sorted[i]
+  }
+  return ranges.join(', ')
+}
+
+/**
+ * "1-4", "1 - 4", "1,2,3", "1-3 6" → [1, 2, 3, 4] etc., limited to the war days
+ */
+export function parseDays(value: string): number[] {
+  const days = new Set<number>()
+  // Spaces around a dash belong to the range, not between two days
+  const normalized = value.replace(/\s*([-–])\s*/g, '$1')
+  for (const part of normalized.split(/[,;\s]+/).filter(Boolean)) {
+    const range = part.match(/^(\d+)[-–](\d+)$/)
+    if (range) {
+      for (let d = parseInt(range[1]); d <= parseInt(range[2]); d++) days.add(d)
+    } else if (/^\d+$/.test(part)) {
+      days.add(parseInt(part))
+    }
+  }
+  return WAR_DAYS.filter(d => days.has(d))
+}
+
+// --- Sign-up sheet import (CSV or JSON) ---
+
+const STATUS_ALIASES: Record<string, AvailabilityStatus> = {
+  in: 'in', yes: 'in', y: 'in', tak: 'in', true: 'in', '1': 'in', '✓': 'in', '✔': 'in',
+  out: 'out', no: 'out', n: 'out', nie: 'out', false: 'out', '0': 'out', '✗': 'out',
+  partial: 'partial', 'częściowo': 'partial', czesciowo: 'partial', some: 'partial',
+}
+
+const COLUMN_ALIASES: Record<keyof SheetRow, string[]> = {
+  tag: ['tag', 'playertag', 'player_tag'],
+  name: ['name', 'player', 'playername', 'player_name', 'gracz', 'nick'],
+  status: ['status', 'availability', 'available', 'dostępność', 'dostepnosc'],
+  days: ['days', 'wardays', 'war_days', 'dni'],
+  preferredClan: ['preferredclan', 'preferred_clan', 'clan', 'klan'],
+  notes: ['notes', 'note', 'comment', 'uwagi'],
+}
+
+interface SheetRow {
+  tag?: string
+  name?: string
+  status?: string
+  days?: string
+  preferredClan?: string
+  notes?: string
+}
+
+export interface AvailabilityImport {
+  availability: SeasonAvailability
+  skipped: string[]   // Rows without a known player or status
+}
+
+function parseCSVLine(line: string, delimiter: string): string[] {
+  // Handle quoted fields ("" is an escaped quote)
+  const result: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"' && inQuotes && line[i + 1] === '"') {
+      current += '"'
+      i++
+    } else if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (char === delimiter && !inQuotes) {
+      result.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  result.push(current.trim())
+  return result
+}
+
+function parseCsvRows(text: string): SheetRow[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim())
+  if (lines.length === 0) return []
+
+  // Spreadsheets with a comma decimal separator export with semicolons
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ','
+  const header = parseCSVLine(lines[0], delimiter).map(h => h.toLowerCase().replace(/\s+/g, ''))
+  const columns = Object.entries(COLUMN_ALIASES)
+    .map(([key, aliases]) => [key, header.findIndex(h => aliases.includes(h))] as const)
+    .filter(([, index]) => index >= 0)
+  if (!columns.some(([key]) => key === 'tag' || key === 'name')) {
+    throw new AvailabilitySheetError('invalid', 'Sign-up sheet needs a tag or name column')
+  }
+
+  return lines.slice(1).map(line => {
+    const cells = parseCSVLine(line, delimiter)
+    return Object.fromEntries(columns.map(([key, index]) => [key, cells[index] ?? ''])) as SheetRow
+  })
+}
+
+const JsonSheetRowSchema = z.looseObject({
+  tag: z.string().optional(),
+  name: z.string().optional(),
+  status: z.union([z.string(), z.boolean()]).optional(),
+  days: z.union([z.string(), z.array(z.number())]).optional(),
+  preferredClan: z.string().optional(),
+  notes: z.string().optional(),
+})
+
+function parseJsonRows(json: unknown): SheetRow[] {
+  // Either a list of rows or an object keyed by player tag
+  const rows = Array.isArray(json)
+    ? json
+    : json && typeof json === 'object'
+      ? Object.entries(json).map(([tag, row]) => ({ tag, ...(row as object) }))
+      : null
+  const result = z.array(JsonSheetRowSchema).safeParse(rows)
+  if (!result.success) {
+    throw new AvailabilitySheetError('invalid', 'Sign-up JSON must be a list of players or an object keyed by tag')
+  }
+  return result.data.map(row => ({
+    tag: row.tag,
+    name: row.name,
+    status: row.status === undefined ? undefined : String(row.status),
+    days: Array.isArray(row.days) ? row.days.join(',') : row.days,
+    preferredClan: row.preferredClan,
+    notes: row.notes,
+  }))
+}
+
+// Tags never contain the letter O, only zeros
+const normalizeTag = (tag: string) => {
+  const upper = tag.trim().toUpperCase().replace(/O/g, '0')
+  return upper.startsWith('#') ? upper : `#${upper}`
+}
+
+/**
+ * Read a sign-up sheet exported as CSV (header row with tag/name, status, days,
+ * preferred clan, notes) or JSON. Players are matched by tag, then by name;
+ * clans by tag or name.
+ */
+export function parseAvailabilitySheet(
+  text: string,
+  players: RosterPlayerStats[],
+  clans: CustomClan[]
+): AvailabilityImport {
+  let rows: SheetRow[]
+  const trimmed = text.trim()
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let json: unknown
+    try {
+      json = JSON.parse(trimmed)
+    } catch {
+      throw new AvailabilitySheetError('invalid', 'Sign-up file is not valid JSON')
+    }
+    rows = parseJsonRows(json)
+  } else {
+    rows = parseCsvRows(trimmed)
+  }
+
+  const byTag = new Map(players.map(p => [p.playerTag, p]))
+  const byName = new Map(players.map(p => [p.playerName.toLowerCase(), p]))
+  const findClan = (value: string) => {
+    const lower = value.trim().toLowerCase()
+    return clans.find(c => c.tag === normalizeTag(value) || c.name.toLowerCase() === lower)
+  }
+
+  const availability: SeasonAvailability = {}
+  const skipped: string[] = []
+  for (const row of rows) {
+    const label = row.name || row.tag || '?'
+    const player = (row.tag && byTag.get(normalizeTag(row.tag))) || (row.name && byName.get(row.name.trim().toLowerCase()))
+    const days = row.days ? parseDays(row.days) : []
+    let status = row.status ? STATUS_ALIASES[row.status.trim().toLowerCase()] : undefined
+    // "in" with a subset of days is a partial sign-up
+    if ((status === 'in' || status === undefined) && days.length > 0 && days.length < ATTACKS_PER_SEASON) status = 'partial'
+    if (!player || !status) {
+      skipped.push(label)
+      continue
+    }
+
+    const entry: PlayerAvailability = { status }
+    if (status === 'partial') entry.days = days.length > 0 ? days : undefined
+    const clan = row.preferredClan ? findClan(row.preferredClan) : undefined
+    if (clan) entry.preferredClan = clan.tag
+    if (row.notes) entry.notes = row.notes
+    availability[player.playerTag] = entry
+  }
+
+  if (Object.keys(availability).length === 0) {
+    throw new AvailabilitySheetError('empty', 'No sign-up row matched a player in the pool')
+  }
+  return { availability, skipped }
+}
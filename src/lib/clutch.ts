@@ -0,0 +1,92 @@
+import { getNetStars } from './netStars'
+import type { ClutchStats } from './types'
+
+/**
+ * Clutch attacks: attacks made late in a war while its result was still open.
+ *
+ * An attack is late when it is one of the last third of the war's attacks
+ * (both sides, by `order`). The result is open when, from the score before
+ * the attack, each side could still reach the other's stars: its current
+ * stars plus 3 per attack it has left, capped by the stars still standing on
+ * the enemy bases. Equal stars go to destruction, so a reachable tie counts.
+ */
+
+// CWL: one attack per member
+const CWL_ATTACKS_PER_MEMBER = 1
+
+/** Share of a war's attacks, counted from the end, that are late */
+export const CLUTCH_LATE_SHARE = 1 / 3
+
+interface ClutchAttack {
+  defenderTag?: string
+  stars?: number
+  order?: number
+}
+
+interface SideState {
+  stars: number
+  attacksLeft: number
+}
+
+function getMaxFinalStars(side: SideState, teamSize: number): number {
+  const standing = teamSize * 3 - side.stars
+  return side.stars + Math.min(side.attacksLeft * 3, standing)
+}
+
+/**
+ * Clutch attacks of one war, given each side's attacks. Attacks without an
+ * `order` can't be placed in the war and are never clutch.
+ */
+export function getClutchAttacks<T extends ClutchAttack, U extends ClutchAttack>(
+  clanAttacks: T[],
+  opponentAttacks: U[],
+  teamSize: number
+): Set<T | U> {
+  const clutch = new Set<T | U>()
+  const sides = new Map<T | U, SideState>()
+  const clan: SideState = { stars: 0, attacksLeft: teamSize * CWL_ATTACKS_PER_MEMBER }
+  const opponent: SideState = { stars: 0, attacksLeft: teamSize * CWL_ATTACKS_PER_MEMBER }
+  for (const attack of clanAttacks) sides.set(attack, clan)
+  for (const attack of opponentAttacks) sides.set(attack, opponent)
+
+  const ordered = [...sides.keys()]
+    .filter(attack => typeof attack.order === 'number')
+    .sort((a, b) => a.order! - b.order!)
+  const lateFrom = ordered.length - Math.ceil(ordered.length * CLUTCH_LATE_SHARE)
+  const netStars = getNetStars(ordered)
+
+  ordered.forEach((attack, i) => {
+    const own = sides.get(attack)!
+    const other = own === clan ? opponent : clan
+
+    const open = getMaxFinalStars(own, teamSize) >= other.stars && getMaxFinalStars(other, teamSize) >= own.stars
+    if (i >= lateFrom && open) clutch.add(attack)
+
+    own.stars += netStars.get(attack) ?? 0
+    own.attacksLeft = Math.max(0, own.attacksLeft - 1)
+  })
+
+  return clutch
+}
+
+export function createClutchStats(): ClutchStats {
+  return { attacks: 0, netStars: 0, triples: 0 }
+}
+
+export function addClutchAttack(stats: ClutchStats, stars: number, netStars: number): void {
+  stats.attacks++
+  stats.netStars += netStars
+  if (stars === 3) stats.triples++
+}
+
+/** Adds `source` into `target` (e.g. season totals into a career total) */
+export function mergeClutchStats(target: ClutchStats, source: ClutchStats): void {
+  target.attacks += source.attacks
+  target.netStars += source.netStars
+  target.triples += source.triples
+}
+
+/** Net stars per clutch attack */
+export function getClutchRate(stats: ClutchStats): number {
+  return stats.attacks > 0 ? stats.netStars / stats.attacks : 0
+}
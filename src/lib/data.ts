@@ -1,40 +1,120 @@
+import type { z } from 'zod'
 import type {
+  AttackTypeBreakdown,
   ClanDetail,
+  ClutchStats,
+  DurationBreakdown,
+  ExpectedStarsModel,
   FamilyData,
   FamilyStats,
   GlobalPlayer,
+  LeagueBaselines,
+  OpponentScoutingReport,
   PlayerCareerStats,
   PlayerSeasonStats,
   RosterPlayerStats,
+  ScoutingIndex,
   SeasonClanDetail,
   SeasonDetailStats,
   SeasonFamilyData,
   SeasonIndex,
+  StarBuckets,
   WarTimeline,
 } from './types'
+import { createDurationBreakdown, mergeDurationBreakdowns } from './attackDuration'
+import { createAttackTypeBreakdown, mergeAttackTypeBreakdowns } from './attackTypes'
+import { createClutchStats, mergeClutchStats } from './clutch'
+import { getAvgStarsAboveExpected } from './expectedStars'
+import { FAMILY, getFamilyClanTags } from './family'
+import { calculateReliability } from './reliability'
+import {
+  ClanDetailFileSchema,
+  ExpectedStarsModelSchema,
+  FamilyDataSchema,
+  FamilyPlayersSchema,
+  GlobalPlayersSchema,
+  LeagueBaselinesSchema,
+  OpponentScoutingReportSchema,
+  PlayerSeasonsIndexSchema,
+  ScoutingIndexSchema,
+  SeasonClanDetailSchema,
+  SeasonFamilyDataSchema,
+  SeasonIndexSchema,
+  WarTimelineSchema,
+} from './schemas'
 
 const basePath = (import.meta.env.BASE_URL || '/').replace(/\/$/, '')
 
 // Number of rounds in Clan War League (standard CWL format)
 export const CWL_ROUNDS_PER_SEASON = 7
 
-// Family clan tags for aggregating player data across all clans.
+// Current family clan tags for aggregating player data across all clans.
 // Note: Tags are stored *without* the leading '#' here because they are used
-// directly in file paths (e.g. `/data/clans/<tag>.json`). When working with
+// directly in file paths (e.g. `/data/<family>/clans/<tag>.json`). When working with
 // user-facing or API clan tags that include '#', strip the prefix before use.
-// CoC Masters PL family clans:
-//   - coc masters PL (#P0J2J8GJ) - main clan
-//   - Akademia CoC PL (#JPRPRVUY) - academy
-//   - Psychole! (#29RYVJ8C8) - training
-export const FAMILY_CLAN_TAGS = ['P0J2J8GJ', 'JPRPRVUY', '29RYVJ8C8']
+// The clan list comes from config/family.json; for historical seasons use
+// getFamilyClanTags(season) so clans that have since left are still included.
+export const FAMILY_CLAN_TAGS = getFamilyClanTags()
 
 function withBase(path: string) {
   return `${basePath}${path.startsWith('/') ? path : `/${path}`}`
 }
 
+// Generated data lives under a per-family root: /data/<family>/...
+function withFamilyData(path: string) {
+  return withBase(`/data/${FAMILY.id}${path.startsWith('/') ? path : `/${path}`}`)
+}
+
+/**
+ * Thrown when a data file is not valid JSON or doesn't match its schema
+ * (see ./schemas), e.g. after the pipeline changed a field the app relies on.
+ */
+export class DataValidationError extends Error {
+  readonly file: string
+  readonly issues: z.core.$ZodIssue[]
+
+  constructor(file: string, issues: z.core.$ZodIssue[], message?: string) {
+    const detail = message ?? issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    super(`Invalid data in ${file}: ${detail}`)
+    this.name = 'DataValidationError'
+    this.file = file
+    this.issues = issues
+  }
+}
+
+/**
+ * Fetch a generated data file and validate it against its schema.
+ * Resolves to null when the file doesn't exist; throws DataValidationError
+ * when it exists but doesn't match the schema.
+ */
+async function fetchData<T>(path: string, schema: z.ZodType<T>): Promise<T | null> {
+  const response = await fetch(withFamilyData(path))
+  if (!response.ok) return null
+
+  let json: unknown
+  try {
+    json = await response.json()
+  } catch (err) {
+    throw new DataValidationError(path, [], `not valid JSON (${(err as Error).message})`)
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) throw new DataValidationError(path, result.error.issues)
+  return result.data
+}
+
+// Like fetchData, for files the app can't work without
+async function fetchRequiredData<T>(path: string, schema: z.ZodType<T>): Promise<T> {
+  const data = await fetchData(path, schema)
+  if (data === null) throw new Error(`Missing data file: ${path}`)
+  return data
+}
+
 export async function getFamilyData(): Promise<FamilyData> {
-  const response = await fetch(withBase('/data/family.json'))
-  return response.json()
+  return fetchRequiredData('/family.json', FamilyDataSchema)
 }
 
 /**
@@ -148,47 +228,60 @@ export function getReliabilityColor(reliability: number): 'green' | 'yellow' | '
 export async function getClanDetail(clanTag: string): Promise<ClanDetail | null> {
   try {
     const cleanTag = clanTag.replace('#', '')
-    const response = await fetch(withBase(`/data/clans/${cleanTag}.json`))
-    if (!response.ok) return null
-
     // The JSON file has a nested structure: { clan: {...}, stats: {...}, players: [...] }
     // We need to flatten it to match the ClanDetail interface
-    const data = await response.json()
-
-    // Handle both old flat format and new nested format
-    if (data.clan && data.stats) {
-      // New nested format from aggregate-all-seasons.ts
-      return {
-        name: data.clan.name,
-        tag: data.clan.tag,
-        rank: data.stats.rank ?? 0,
-        stars: data.stats.stars ?? 0,
-        destruction: data.stats.destruction ?? 0,
-        attacks: data.stats.attacks ?? 0,
-        wars: data.stats.wars,
-        warsWon: data.stats.warsWon,
-        warsLost: data.stats.warsLost,
-        warsTied: data.stats.warsTied,
-        winRate: data.stats.winRate,
-        players: data.players ?? [],
-      }
-    }
+    const data = await fetchData(`/clans/${cleanTag}.json`, ClanDetailFileSchema)
+    if (!data) return null
 
-    // Old flat format (fallback)
-    return data
-  } catch {
+    return {
+      name: data.clan.name,
+      tag: data.clan.tag,
+      rank: 0, // Ranks live in family.json
+      stars: data.stats.stars,
+      destruction: data.stats.destruction,
+      attacks: data.stats.attacks,
+      wars: data.stats.wars,
+      warsWon: data.stats.warsWon,
+      warsLost: data.stats.warsLost,
+      warsTied: data.stats.warsTied,
+      winRate: data.stats.winRate,
+      players: data.players,
+    }
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     return null
   }
 }
 
 export async function getPlayers(): Promise<GlobalPlayer[]> {
-  const response = await fetch(withBase('/data/players.json'))
-  return response.json()
+  const [players, expectedStars] = await Promise.all([
+    fetchRequiredData('/players.json', GlobalPlayersSchema),
+    getExpectedStarsModel(),
+  ])
+  if (!expectedStars) return players
+
+  // players.json comes from the fetch step; career stars above expected are generated separately
+  return players.map(player => {
+    const aboveExpected = expectedStars.players[player.tag]
+    if (!aboveExpected) return player
+    return {
+      ...player,
+      starsAboveExpected: aboveExpected.starsAboveExpected,
+      avgStarsAboveExpected: getAvgStarsAboveExpected(aboveExpected),
+    }
+  })
+}
+
+export async function getExpectedStarsModel(): Promise<ExpectedStarsModel | null> {
+  return fetchData('/expected-stars.json', ExpectedStarsModelSchema)
+}
+
+export async function getLeagueBaselines(): Promise<LeagueBaselines | null> {
+  return fetchData('/league-baselines.json', LeagueBaselinesSchema)
 }
 
 export async function getSeasons(): Promise<SeasonIndex> {
-  const response = await fetch(withBase('/data/history/seasons.json'))
-  return response.json()
+  return fetchRequiredData('/history/seasons.json', SeasonIndexSchema)
 }
 
 // Get the latest (most recent) season ID
@@ -199,17 +292,17 @@ export async function getLatestSeasonId(): Promise<string | null> {
     // Seasons are sorted oldest to newest in the index, so get the last one
     const sorted = [...index.seasons].sort((a, b) => b.season.localeCompare(a.season))
     return sorted[0]?.season || null
-  } catch {
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     return null
   }
 }
 
 export async function getSeasonFamily(season: string): Promise<SeasonFamilyData | null> {
   try {
-    const response = await fetch(withBase(`/data/history/seasons/${season}/family.json`))
-    if (!response.ok) return null
-    return response.json()
-  } catch {
+    return await fetchData(`/history/seasons/${season}/family.json`, SeasonFamilyDataSchema)
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     return null
   }
 }
@@ -257,7 +350,8 @@ export async function getSeasonDetailStats(season: string): Promise<SeasonDetail
       avgDestruction,
       totalWars,
     }
-  } catch {
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     return null
   }
 }
@@ -278,6 +372,26 @@ export function leagueBadgeVariant(tier: string | null): 'default' | 'secondary'
   return 'outline'
 }
 
+// Map league tier names to icon filenames
+const LEAGUE_ICONS: Record<string, string> = {
+  'Champion League I': '/images/leagues/champion-1.png',
+  'Champion League II': '/images/leagues/champion-2.png',
+  'Champion League III': '/images/leagues/champion-3.png',
+  'Master League I': '/images/leagues/master-1.png',
+  'Master League II': '/images/leagues/master-2.png',
+  'Master League III': '/images/leagues/master-3.png',
+  'Crystal League I': '/images/leagues/crystal-1.png',
+  'Crystal League II': '/images/leagues/crystal-2.png',
+  'Crystal League III': '/images/leagues/crystal-3.png',
+  'Gold League I': '/images/leagues/gold-1.png',
+  'Gold League II': '/images/leagues/gold-1.png', // fallback to gold-1
+  'Gold League III': '/images/leagues/gold-1.png', // fallback to gold-1
+}
+
+export function leagueIconUrl(tier: string | null): string | undefined {
+  return tier ? LEAGUE_ICONS[tier] : undefined
+}
+
 export function positionBadgeClass(position: number | null): string {
   if (position == null) return 'bg-muted text-muted-foreground border-border'
   if (position <= 3) return 'bg-green-500/15 text-green-400 border-green-500/40'
@@ -289,10 +403,9 @@ export function positionBadgeClass(position: number | null): string {
 export async function getSeasonClanDetail(season: string, clanTag: string): Promise<SeasonClanDetail | null> {
   try {
     const cleanTag = clanTag.replace('#', '')
-    const response = await fetch(withBase(`/data/history/seasons/${season}/clans/${cleanTag}.json`))
-    if (!response.ok) return null
-    return response.json()
-  } catch {
+    return await fetchData(`/history/seasons/${season}/clans/${cleanTag}.json`, SeasonClanDetailSchema)
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     return null
   }
 }
@@ -304,12 +417,12 @@ export async function getPlayerHistory(playerTag: string): Promise<PlayerCareerS
     let playerSeasonEntries: Array<{ season: string; clanTag: string }> | null = null
 
     try {
-      const indexResponse = await fetch(withBase('/data/player-seasons-index.json'))
-      if (indexResponse.ok) {
-        const index: Record<string, Array<{ season: string; clanTag: string }>> = await indexResponse.json()
+      const index = await fetchData('/player-seasons-index.json', PlayerSeasonsIndexSchema)
+      if (index) {
         playerSeasonEntries = index[playerTag] || null
       }
-    } catch {
+    } catch (err) {
+      if (err instanceof DataValidationError) throw err
       // Index not available, fall back to old method
       console.log('Player-seasons index not available, using fallback method')
     }
@@ -352,6 +465,13 @@ export async function getPlayerHistory(playerTag: string): Promise<PlayerCareerS
             twoStars: playerData.twoStars,
             threeStarRate,
             leagueTier: clanDetail.league?.tier ?? null,
+            starsAboveExpected: playerData.starsAboveExpected,
+            avgStarsAboveExpected: playerData.avgStarsAboveExpected,
+            attackTypes: playerData.attackTypes,
+            durationTotal: playerData.durationTotal,
+            durationSamples: playerData.durationSamples,
+            durations: playerData.durations,
+            clutch: playerData.clutch,
           })
         }
       }
@@ -367,7 +487,7 @@ export async function getPlayerHistory(playerTag: string): Promise<PlayerCareerS
         const season = seasonInfo.season
 
         // Load all clan files for this season in parallel
-        const clanTags = FAMILY_CLAN_TAGS
+        const clanTags = getFamilyClanTags(season)
 
         const clanDetailPromises = clanTags.map(clanTag =>
           getSeasonClanDetail(season, clanTag).catch(() => null),
@@ -403,6 +523,13 @@ export async function getPlayerHistory(playerTag: string): Promise<PlayerCareerS
               twoStars: playerData.twoStars,
               threeStarRate,
               leagueTier: clanDetail.league?.tier ?? null,
+              starsAboveExpected: playerData.starsAboveExpected,
+              avgStarsAboveExpected: playerData.avgStarsAboveExpected,
+              attackTypes: playerData.attackTypes,
+              durationTotal: playerData.durationTotal,
+              durationSamples: playerData.durationSamples,
+              durations: playerData.durations,
+              clutch: playerData.clutch,
             })
             break // Found in this clan, move to next season
           }
@@ -421,6 +548,37 @@ export async function getPlayerHistory(playerTag: string): Promise<PlayerCareerS
     const totalDestruction = playerSeasons.reduce((sum, s) => sum + (s.avgDestruction * s.attacks), 0)
     const careerAvgDestruction = totalAttacks > 0 ? totalDestruction / totalAttacks : 0
 
+    // Only seasons generated with the expected-stars baseline count
+    const ratedSeasons = playerSeasons.filter(s => s.starsAboveExpected !== undefined)
+    const aboveExpected = {
+      attacks: ratedSeasons.reduce((sum, s) => sum + s.attacks, 0),
+      starsAboveExpected: ratedSeasons.reduce((sum, s) => sum + (s.starsAboveExpected ?? 0), 0),
+    }
+
+    // Same for attack types: seasons generated before the classification have none
+    let attackTypes: AttackTypeBreakdown | undefined
+    for (const season of playerSeasons) {
+      if (!season.attackTypes) continue
+      attackTypes ??= createAttackTypeBreakdown()
+      mergeAttackTypeBreakdowns(attackTypes, season.attackTypes)
+    }
+
+    // Durations and clutch attacks likewise
+    const durationTotal = playerSeasons.reduce((sum, s) => sum + (s.durationTotal ?? 0), 0)
+    const durationSamples = playerSeasons.reduce((sum, s) => sum + (s.durationSamples ?? 0), 0)
+    let durations: DurationBreakdown | undefined
+    let clutch: ClutchStats | undefined
+    for (const season of playerSeasons) {
+      if (season.durations) {
+        durations ??= createDurationBreakdown()
+        mergeDurationBreakdowns(durations, season.durations)
+      }
+      if (season.clutch) {
+        clutch ??= createClutchStats()
+        mergeClutchStats(clutch, season.clutch)
+      }
+    }
+
     return {
       playerTag,
       playerName: currentName,
@@ -432,8 +590,17 @@ export async function getPlayerHistory(playerTag: string): Promise<PlayerCareerS
       careerAvgStars,
       careerAvgDestruction,
       seasons: playerSeasons.sort((a, b) => b.season.localeCompare(a.season)), // Most recent first
+      ...(ratedSeasons.length > 0 && {
+        starsAboveExpected: aboveExpected.starsAboveExpected,
+        avgStarsAboveExpected: getAvgStarsAboveExpected(aboveExpected),
+      }),
+      attackTypes,
+      avgDuration: durationSamples > 0 ? durationTotal / durationSamples : undefined,
+      durations,
+      clutch,
     }
   } catch (err) {
+    if (err instanceof DataValidationError) throw err
     console.error('Failed to get player history:', err)
     return null
   }
@@ -445,22 +612,21 @@ async function getCurrentPlayerData(): Promise<Map<string, { th: number; clan: s
 
   try {
     // First try players.json (most recent season data)
-    const response = await fetch(withBase('/data/players.json'))
-    if (response.ok) {
-      const players = await response.json() as Array<{ tag: string; th: number; clan: string; clanTag: string }>
+    const players = await fetchData('/players.json', GlobalPlayersSchema)
+    if (players) {
       for (const p of players) {
         if (p.th) map.set(p.tag, { th: p.th, clan: p.clan, clanTag: p.clanTag })
       }
     }
-  } catch {
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     // Ignore errors, try next source
   }
 
   try {
     // Also load players-full.json for historical players not in current season
-    const fullResponse = await fetch(withBase('/data/players-full.json'))
-    if (fullResponse.ok) {
-      const fullPlayers = await fullResponse.json() as Array<{ tag: string; th: number; clans?: string[] }>
+    const fullPlayers = await fetchData('/players-full.json', FamilyPlayersSchema)
+    if (fullPlayers) {
       for (const p of fullPlayers) {
         // Only add if not already in map (prefer current season data)
         if (!map.has(p.tag) && p.th) {
@@ -472,38 +638,14 @@ async function getCurrentPlayerData(): Promise<Map<string, { th: number; clan: s
         }
       }
     }
-  } catch {
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     // Ignore errors
   }
 
   return map
 }
 
-// League tier scores for reliability calculation
-// Players who compete in higher leagues get higher league adjustment scores
-const LEAGUE_TIER_SCORES: Record<string, number> = {
-  'Champion League I': 100,
-  'Champion League II': 90,
-  'Champion League III': 80,
-  'Master League I': 70,
-  'Master League II': 60,
-  'Master League III': 50,
-  'Crystal League I': 40,
-  'Crystal League II': 35,
-  'Crystal League III': 30,
-  'Gold League I': 25,
-  'Gold League II': 20,
-  'Gold League III': 15,
-}
-const DEFAULT_LEAGUE_SCORE = 50
-
-// Reliability formula weights - designed so only ~10% of players get 100%
-const RELIABILITY_WEIGHTS = {
-  performance: 0.45,  // avgStars + threeStarRate contribution
-  attendance: 0.35,   // attacks/wars ratio
-  leagueAdj: 0.20,    // league difficulty bonus
-}
-
 // Get player pool from recent seasons for roster builder
 export async function getRecentPlayerPool(lastNSeasons: number = 3): Promise<RosterPlayerStats[]> {
   try {
@@ -526,15 +668,18 @@ export async function getRecentPlayerPool(lastNSeasons: number = 3): Promise<Ros
       attacks: number
       stars: number
       triples: number
+      starBuckets: StarBuckets
       maxPossibleAttacks: number
       // Track league tiers for weighted average
       leagueData: { tier: string; attacks: number }[]
+      // Attacks from seasons generated with the expected-stars baseline
+      aboveExpected: { attacks: number; starsAboveExpected: number }
     }>()
 
     // Aggregate player data from recent seasons
     for (const seasonInfo of recentSeasons) {
       const season = seasonInfo.season
-      const clanTags = FAMILY_CLAN_TAGS
+      const clanTags = getFamilyClanTags(season)
 
       const clanDetails = await Promise.all(
         clanTags.map(async (clanTag) => {
@@ -559,12 +704,20 @@ export async function getRecentPlayerPool(lastNSeasons: number = 3): Promise<Ros
             existing.attacks += player.attacks
             existing.stars += player.stars
             existing.triples += player.triples
+            existing.starBuckets.zeroStars += player.zeroStars
+            existing.starBuckets.oneStars += player.oneStars
+            existing.starBuckets.twoStars += player.twoStars
+            existing.starBuckets.threeStars += player.triples
             existing.maxPossibleAttacks += player.warsParticipated
             if (player.townHallLevel) existing.th = player.townHallLevel
             // Track league tier with attack weight
             if (leagueTier && player.attacks > 0) {
               existing.leagueData.push({ tier: leagueTier, attacks: player.attacks })
             }
+            if (player.starsAboveExpected !== undefined) {
+              existing.aboveExpected.attacks += player.attacks
+              existing.aboveExpected.starsAboveExpected += player.starsAboveExpected
+            }
           } else {
             const currentData = currentPlayerData.get(player.tag)
             const th = player.townHallLevel ?? currentData?.th ?? null
@@ -579,10 +732,19 @@ export async function getRecentPlayerPool(lastNSeasons: number = 3): Promise<Ros
               attacks: player.attacks,
               stars: player.stars,
               triples: player.triples,
+              starBuckets: {
+                zeroStars: player.zeroStars,
+                oneStars: player.oneStars,
+                twoStars: player.twoStars,
+                threeStars: player.triples,
+              },
               maxPossibleAttacks: player.warsParticipated,
               leagueData: leagueTier && player.attacks > 0
                 ? [{ tier: leagueTier, attacks: player.attacks }]
                 : [],
+              aboveExpected: player.starsAboveExpected !== undefined
+                ? { attacks: player.attacks, starsAboveExpected: player.starsAboveExpected }
+                : { attacks: 0, starsAboveExpected: 0 },
             })
           }
         }
@@ -607,38 +769,14 @@ export async function getRecentPlayerPool(lastNSeasons: number = 3): Promise<Ros
       const avgStars = data.attacks > 0 ? data.stars / data.attacks : 0
       const threeStarRate = data.attacks > 0 ? (data.triples / data.attacks) * 100 : 0
 
-      // Calculate weighted reliability score (0-100)
-      // Performance: (avgStars/3 * 50) + (threeStarRate/100 * 50) → max 100
-      const avgStarsContrib = (avgStars / 3) * 50
-      const threeStarContrib = (threeStarRate / 100) * 50
-      const performanceScore = Math.min(100, avgStarsContrib + threeStarContrib)
-
-      // Attendance: attacks / maxPossibleAttacks * 100
-      const attendanceScore = data.maxPossibleAttacks > 0
-        ? Math.min(100, (data.attacks / data.maxPossibleAttacks) * 100)
-        : 0
-
-      // League adjustment: weighted average of league tiers by attacks
-      let leagueAdjScore = DEFAULT_LEAGUE_SCORE
-      if (data.leagueData.length > 0) {
-        let totalLeagueScore = 0
-        let totalWeight = 0
-        for (const { tier, attacks } of data.leagueData) {
-          const score = LEAGUE_TIER_SCORES[tier] ?? DEFAULT_LEAGUE_SCORE
-          totalLeagueScore += score * attacks
-          totalWeight += attacks
-        }
-        if (totalWeight > 0) {
-          leagueAdjScore = totalLeagueScore / totalWeight
-        }
-      }
-
-      // Final weighted reliability
-      const reliabilityScore = (
-        (performanceScore * RELIABILITY_WEIGHTS.performance) +
-        (attendanceScore * RELIABILITY_WEIGHTS.attendance) +
-        (leagueAdjScore * RELIABILITY_WEIGHTS.leagueAdj)
-      )
+      // Weighted reliability score (0-100), same formula as the generated data
+      const reliabilityBreakdown = calculateReliability({
+        avgStars,
+        threeStarRate,
+        attacks: data.attacks,
+        wars: data.maxPossibleAttacks,
+        leagues: data.leagueData,
+      })
 
       const missedAttacks = data.maxPossibleAttacks - data.attacks
 
@@ -654,13 +792,20 @@ export async function getRecentPlayerPool(lastNSeasons: number = 3): Promise<Ros
         totalStars: data.stars,
         avgStars,
         threeStarRate,
-        reliabilityScore: Math.round(reliabilityScore * 100) / 100,
+        reliabilityScore: reliabilityBreakdown.weighted,
+        reliabilityBreakdown,
+        leagueData: data.leagueData,
+        avgStarsAboveExpected: data.aboveExpected.attacks > 0
+          ? getAvgStarsAboveExpected(data.aboveExpected)
+          : undefined,
         missedAttacks,
+        starBuckets: data.starBuckets,
       })
     }
 
     return players
   } catch (err) {
+    if (err instanceof DataValidationError) throw err
     console.error('Failed to get recent player pool:', err)
     return []
   }
@@ -672,10 +817,30 @@ export async function getWarTimeline(season: string, clanTag: string, endTime: s
     const cleanTag = clanTag.replace('#', '')
     // endTime format in JSON: 20250804T130355.000Z -> filename: 20250804T130355000Z
     const safeEndTime = endTime.replace(/[:.]/g, '')
-    const response = await fetch(withBase(`/data/history/seasons/${season}/clans/${cleanTag}/wars/${safeEndTime}.json`))
-    if (!response.ok) return null
-    return response.json()
-  } catch {
+    return await fetchData(`/history/seasons/${season}/clans/${cleanTag}/wars/${safeEndTime}.json`, WarTimelineSchema)
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
+    return null
+  }
+}
+
+// Which opponents have a scouting report, by season (null before the first scouting run)
+export async function getScoutingIndex(): Promise<ScoutingIndex | null> {
+  try {
+    return await fetchData('/history/scouting.json', ScoutingIndexSchema)
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
+    return null
+  }
+}
+
+// Scouting report of a CWL group opponent (only built for the current season)
+export async function getOpponentScoutingReport(season: string, opponentTag: string): Promise<OpponentScoutingReport | null> {
+  try {
+    const cleanTag = opponentTag.replace('#', '')
+    return await fetchData(`/history/seasons/${season}/opponents/${cleanTag}.json`, OpponentScoutingReportSchema)
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     return null
   }
 }
@@ -695,7 +860,8 @@ export async function getSeasonWarTimelines(season: string, clanTag: string): Pr
     }
 
     return timelines
-  } catch {
+  } catch (err) {
+    if (err instanceof DataValidationError) throw err
     return []
   }
 }
@@ -0,0 +1,124 @@
+import { getMapRanks } from './attackTypes'
+import type { WarAttack, WarTimeline } from './types'
+
+/**
+ * Season defense map of one clan: map position × war day.
+ *
+ * Each cell is the base at that lineup rank in that war, with the best
+ * opponent attack it took. The attacker's TH comes from the opponent side
+ * of the attack timeline; wars without timeline attacks on a base fall back
+ * to `bestOpponentAttack`. A base held when it was attacked but not tripled.
+ */
+
+export interface DefenseCell {
+  tag: string
+  name: string
+  townhallLevel: number
+  attacks: number               // Opponent hits taken
+  stars: number | null          // Best attack, null when not attacked
+  destruction: number | null
+  attackerName: string | null
+  attackerTH: number | null
+}
+
+export interface DefenseDay {
+  day: number                   // 1-based war day
+  endTime: string
+  opponent: string
+  starsAllowed: number
+  triplesAllowed: number
+}
+
+export interface DefenseRow {
+  rank: number
+  cells: Array<DefenseCell | null>  // One per day, null when the lineup had no base at this rank
+  attacked: number
+  held: number
+  starsAllowed: number
+  avgStarsAllowed: number | null
+}
+
+export interface DefenseHeatmap {
+  days: DefenseDay[]
+  rows: DefenseRow[]
+}
+
+export function isHeld(cell: DefenseCell): boolean {
+  return cell.stars !== null && cell.stars < 3
+}
+
+function bestAttack(attacks: WarAttack[]): WarAttack | null {
+  return attacks.reduce<WarAttack | null>((best, attack) =>
+    !best ||
+    attack.stars > best.stars ||
+    (attack.stars === best.stars && attack.destructionPercentage > best.destructionPercentage)
+      ? attack
+      : best
+  , null)
+}
+
+export function buildDefenseHeatmap(wars: WarTimeline[]): DefenseHeatmap {
+  const ordered = [...wars].sort((a, b) => a.startTime.localeCompare(b.startTime))
+  const rowsByRank = new Map<number, Array<DefenseCell | null>>()
+
+  const days: DefenseDay[] = ordered.map((war, dayIndex) => {
+    const ranks = getMapRanks(war.clan.members)
+    const hitsByDefender = new Map<string, WarAttack[]>()
+    for (const attack of war.attackTimeline) {
+      if (attack.side !== 'opponent') continue
+      hitsByDefender.set(attack.defenderTag, [...(hitsByDefender.get(attack.defenderTag) ?? []), attack])
+    }
+
+    let starsAllowed = 0
+    let triplesAllowed = 0
+    for (const member of war.clan.members) {
+      const rank = ranks.get(member.tag)
+      if (rank === undefined) continue
+
+      const hits = hitsByDefender.get(member.tag) ?? []
+      const best = bestAttack(hits)
+      const fallback = member.bestOpponentAttack
+      const cell: DefenseCell = {
+        tag: member.tag,
+        name: member.name,
+        townhallLevel: member.townhallLevel,
+        attacks: hits.length || member.opponentAttacks,
+        stars: best?.stars ?? fallback?.stars ?? null,
+        destruction: best?.destructionPercentage ?? fallback?.destructionPercentage ?? null,
+        attackerName: best?.attackerName ?? fallback?.attackerName ?? null,
+        attackerTH: best?.attackerTH ?? null,
+      }
+      starsAllowed += cell.stars ?? 0
+      if (cell.stars === 3) triplesAllowed++
+
+      const row = rowsByRank.get(rank) ?? new Array<DefenseCell | null>(ordered.length).fill(null)
+      row[dayIndex] = cell
+      rowsByRank.set(rank, row)
+    }
+
+    return {
+      day: dayIndex + 1,
+      endTime: war.endTime,
+      opponent: war.opponent.name,
+      starsAllowed,
+      triplesAllowed,
+    }
+  })
+
+  const rows: DefenseRow[] = [...rowsByRank.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([rank, cells]) => {
+      const attacked = cells.filter((c): c is DefenseCell => c !== null && c.stars !== null)
+      const starsAllowed = attacked.reduce((sum, c) => sum + (c.stars ?? 0), 0)
+      return {
+        rank,
+        cells,
+        attacked: attacked.length,
+        held: attacked.filter(isHeld).length,
+        starsAllowed,
+        avgStarsAllowed: attacked.length > 0 ? starsAllowed / attacked.length : null,
+      }
+    })
+
+  return { days, rows }
+}
@@ -0,0 +1,121 @@
+import type { ExpectedStarsModel, ExpectedStarsStat, StarsAboveExpected } from './types'
+
+/**
+ * Expected-stars baseline shared by the data pipeline (scripts/) and the React app.
+ *
+ * A 3-star on a lower TH is worth less than one on a TH above you, so each attack
+ * is compared with the average stars of all attacks in the same bucket:
+ * (attacker TH, defender TH, league tier). "Stars above expected" is the sum of
+ * (stars - expected) over a player's attacks.
+ *
+ * Small buckets are unreliable, so every level is shrunk towards its parent:
+ * league bucket → TH pair → TH difference → global average. The prior weight is the
+ * number of attacks at which a bucket's own average and its parent count equally.
+ */
+
+export const EXPECTED_STARS_MODEL_ID = 'expected-stars-v1'
+
+export const EXPECTED_STARS_PRIOR_WEIGHT = 20
+
+/** One attack the model is fitted on */
+export interface ExpectedStarsSample {
+  attackerTH: number
+  defenderTH: number
+  leagueTier: string | null
+  stars: number
+}
+
+export type ExpectedStarsBaseline = Pick<ExpectedStarsModel, 'global' | 'thDiffs' | 'thPairs' | 'buckets'>
+
+const thDiffKey = (attackerTH: number, defenderTH: number) => String(defenderTH - attackerTH)
+const thPairKey = (attackerTH: number, defenderTH: number) => `${attackerTH}v${defenderTH}`
+const bucketKey = (attackerTH: number, defenderTH: number, leagueTier: string) =>
+  `${thPairKey(attackerTH, defenderTH)}|${leagueTier}`
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000
+
+function groupStars(samples: ExpectedStarsSample[], keyOf: (sample: ExpectedStarsSample) => string | null) {
+  const groups = new Map<string, { attacks: number; stars: number; sample: ExpectedStarsSample }>()
+  for (const sample of samples) {
+    const key = keyOf(sample)
+    if (key === null) continue
+    const group = groups.get(key) ?? { attacks: 0, stars: 0, sample }
+    group.attacks++
+    group.stars += sample.stars
+    groups.set(key, group)
+  }
+  return groups
+}
+
+function shrink(attacks: number, stars: number, parent: number, priorWeight: number): ExpectedStarsStat {
+  return {
+    attacks,
+    avgStars: round3(stars / attacks),
+    expectedStars: round3((stars + priorWeight * parent) / (attacks + priorWeight)),
+  }
+}
+
+/**
+ * Fits the baseline. Attacks without a known TH on either side are left out.
+ */
+export function fitExpectedStarsModel(
+  samples: ExpectedStarsSample[],
+  priorWeight: number = EXPECTED_STARS_PRIOR_WEIGHT
+): ExpectedStarsBaseline {
+  const known = samples.filter(s => s.attackerTH > 0 && s.defenderTH > 0)
+  const totalStars = known.reduce((sum, s) => sum + s.stars, 0)
+  const globalAvg = known.length > 0 ? totalStars / known.length : 0
+  const global = {
+    attacks: known.length,
+    avgStars: round3(globalAvg),
+    expectedStars: round3(globalAvg),
+  }
+
+  const thDiffs: Record<string, ExpectedStarsStat> = {}
+  for (const [key, group] of groupStars(known, s => thDiffKey(s.attackerTH, s.defenderTH))) {
+    thDiffs[key] = shrink(group.attacks, group.stars, globalAvg, priorWeight)
+  }
+
+  const thPairs: Record<string, ExpectedStarsStat> = {}
+  for (const [key, group] of groupStars(known, s => thPairKey(s.attackerTH, s.defenderTH))) {
+    const { attackerTH, defenderTH } = group.sample
+    thPairs[key] = shrink(group.attacks, group.stars, thDiffs[thDiffKey(attackerTH, defenderTH)].expectedStars, priorWeight)
+  }
+
+  const buckets: Record<string, ExpectedStarsStat> = {}
+  const byBucket = groupStars(known, s => s.leagueTier ? bucketKey(s.attackerTH, s.defenderTH, s.leagueTier) : null)
+  for (const [key, group] of byBucket) {
+    const { attackerTH, defenderTH } = group.sample
+    buckets[key] = shrink(group.attacks, group.stars, thPairs[thPairKey(attackerTH, defenderTH)].expectedStars, priorWeight)
+  }
+
+  return { global, thDiffs, thPairs, buckets }
+}
+
+/**
+ * Expected stars of one attack, from the most specific bucket the model has.
+ */
+export function getExpectedStars(
+  model: ExpectedStarsBaseline,
+  attackerTH: number | null | undefined,
+  defenderTH: number | null | undefined,
+  leagueTier: string | null | undefined
+): number {
+  if (!attackerTH || !defenderTH) return model.global.expectedStars
+  return (
+    (leagueTier ? model.buckets[bucketKey(attackerTH, defenderTH, leagueTier)] : undefined) ??
+    model.thPairs[thPairKey(attackerTH, defenderTH)] ??
+    model.thDiffs[thDiffKey(attackerTH, defenderTH)] ??
+    model.global
+  ).expectedStars
+}
+
+export function addExpectedStarsAttack(total: StarsAboveExpected, stars: number, expectedStars: number): void {
+  total.attacks++
+  total.expectedStars += expectedStars
+  total.starsAboveExpected += stars - expectedStars
+}
+
+export function getAvgStarsAboveExpected(total: Pick<StarsAboveExpected, 'attacks' | 'starsAboveExpected'>): number {
+  return total.attacks > 0 ? total.starsAboveExpected / total.attacks : 0
+}
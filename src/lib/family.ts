@@ -0,0 +1,166 @@
+import { z } from 'zod'
+import { DEFAULT_FAMILY_ID, FAMILY_PROFILES } from '../../config/families'
+
+/**
+ * Family configuration shared by the data pipeline (scripts/) and the React app.
+ *
+ * Each family the dashboard can be built for has a profile in
+ * `config/families/<id>.json`. The active profile is chosen with the `FAMILY`
+ * environment variable (defaults to DEFAULT_FAMILY_ID): scripts read it from
+ * `process.env`, and `vite.config.ts` bakes it into the bundle as `__FAMILY_ID__`.
+ * Adding or retiring a clan is one edit in the profile; every script and page
+ * derives its clan list from the helpers below.
+ *
+ * NOTE: This module is imported directly by the tsx scripts and by
+ * vite.config.ts, so it must stay free of Vite-only APIs (`import.meta.env`)
+ * and `@/` path aliases.
+ */
+
+/**
+ * Tailwind classes and hex colour for each accent a clan may use.
+ * Class names are spelled out in full so Tailwind can detect them at build time.
+ */
+export const CLAN_ACCENTS = {
+  blue: { text: 'text-blue-400', bg: 'bg-blue-400/10', border: 'border-blue-400/30', hex: '#3b82f6' },
+  green: { text: 'text-green-400', bg: 'bg-green-400/10', border: 'border-green-400/30', hex: '#4ade80' },
+  orange: { text: 'text-orange-400', bg: 'bg-orange-400/10', border: 'border-orange-400/30', hex: '#fb923c' },
+  yellow: { text: 'text-yellow-400', bg: 'bg-yellow-400/10', border: 'border-yellow-400/30', hex: '#facc15' },
+  purple: { text: 'text-purple-400', bg: 'bg-purple-400/10', border: 'border-purple-400/30', hex: '#a855f7' },
+  cyan: { text: 'text-cyan-400', bg: 'bg-cyan-400/10', border: 'border-cyan-400/30', hex: '#22d3ee' },
+  emerald: { text: 'text-emerald-400', bg: 'bg-emerald-400/10', border: 'border-emerald-400/30', hex: '#34d399' },
+} as const
+
+export type ClanAccent = keyof typeof CLAN_ACCENTS
+
+// Season ids are YYYY-MM, so they compare correctly as plain strings
+const seasonId = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected a season id in YYYY-MM format')
+
+export const FamilyClanSchema = z
+  .object({
+    tag: z.string().regex(/^#[0289PYLQGRJCUV]+$/, 'Expected an uppercase clan tag with a leading #'),
+    name: z.string().min(1),
+    role: z.enum(['main', 'academy', 'training', 'feeder']),
+    accent: z.enum(Object.keys(CLAN_ACCENTS) as [ClanAccent, ...ClanAccent[]]),
+    minTH: z.number().int().min(1).max(18),
+    // Current CWL league, used as the roster builder's target league
+    league: z.string().min(1),
+    // First season the clan played CWL for the family (omit = since tracking began)
+    joined: seasonId.optional(),
+    // Last season the clan played CWL for the family (omit = still a member)
+    left: seasonId.optional(),
+  })
+  .refine(clan => !clan.joined || !clan.left || clan.joined <= clan.left, {
+    message: '`left` must not be earlier than `joined`',
+    path: ['left'],
+  })
+
+export const FamilyConfigSchema = z
+  .object({
+    // Profile id, also the data root: public/data/<id>/
+    id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Expected a kebab-case family id'),
+    // Display name used in page titles, posters and exports
+    name: z.string().min(1),
+    // Public URL of the deployed dashboard (shown on posters and in meta tags)
+    siteUrl: z.url(),
+    // Ordered from strongest to weakest clan
+    clans: z.array(FamilyClanSchema).min(1),
+  })
+  .refine(config => new Set(config.clans.map(c => c.tag)).size === config.clans.length, {
+    message: 'Clan tags must be unique',
+    path: ['clans'],
+  })
+
+export type FamilyClan = z.infer<typeof FamilyClanSchema>
+export type FamilyConfig = z.infer<typeof FamilyConfigSchema>
+
+function resolveFamilyId(): string {
+  // Injected at build time by vite.config.ts
+  if (typeof __FAMILY_ID__ !== 'undefined') return __FAMILY_ID__
+  // Pipeline scripts and the Vite config itself run under Node
+  if (typeof process !== 'undefined' && process.env.FAMILY) return process.env.FAMILY
+  return DEFAULT_FAMILY_ID
+}
+
+function loadFamilyProfile(id: string): FamilyConfig {
+  const raw = FAMILY_PROFILES[id]
+  if (!raw) {
+    const known = Object.keys(FAMILY_PROFILES).join(', ')
+    throw new Error(`Unknown family profile "${id}". Known profiles: ${known}`)
+  }
+
+  const result = FamilyConfigSchema.safeParse(raw)
+  if (!result.success) {
+    throw new Error(`Invalid family profile (config/families/${id}.json):\n${z.prettifyError(result.error)}`)
+  }
+  if (result.data.id !== id) {
+    throw new Error(`Family profile config/families/${id}.json declares id "${result.data.id}"`)
+  }
+  return result.data
+}
+
+export const FAMILY: FamilyConfig = loadFamilyProfile(resolveFamilyId())
+
+// Bare host of the dashboard (e.g. for poster footers)
+export const FAMILY_SITE_HOST = new URL(FAMILY.siteUrl).host
+
+/**
+ * Repo-relative directory holding the active family's generated data.
+ * The app fetches the same files from `/data/<id>/...`.
+ */
+export const FAMILY_DATA_DIR = `public/data/${FAMILY.id}`
+
+/**
+ * Normalize a clan tag for use in file paths: uppercase, without the leading '#'.
+ */
+export function stripClanTag(tag: string): string {
+  return tag.replace('#', '').toUpperCase()
+}
+
+/**
+ * Whether a clan belonged to the family in a given season.
+ * Without a season, checks whether the clan is a current member.
+ */
+export function isClanActive(clan: FamilyClan, season?: string): boolean {
+  if (!season) return !clan.left
+  if (clan.joined && season < clan.joined) return false
+  if (clan.left && season > clan.left) return false
+  return true
+}
+
+/**
+ * Family clans for a season (or the current members when no season is given),
+ * in config order.
+ */
+export function getFamilyClans(season?: string): FamilyClan[] {
+  return FAMILY.clans.filter(clan => isClanActive(clan, season))
+}
+
+/**
+ * Family clan tags *without* the leading '#' (as used in `/data/<family>/clans/<tag>.json`).
+ * Without a season, returns the current members.
+ */
+export function getFamilyClanTags(season?: string): string[] {
+  return getFamilyClans(season).map(clan => stripClanTag(clan.tag))
+}
+
+/**
+ * Every clan that has ever been part of the family, including retired ones.
+ */
+export const ALL_FAMILY_CLAN_TAGS: readonly string[] = FAMILY.clans.map(clan => stripClanTag(clan.tag))
+
+/**
+ * Look up a family clan by tag (with or without '#').
+ */
+export function findFamilyClan(tag: string): FamilyClan | undefined {
+  const normalized = stripClanTag(tag)
+  return FAMILY.clans.find(clan => stripClanTag(clan.tag) === normalized)
+}
+
+/**
+ * Whether the given clan tag (with or without '#') played for the family in
+ * the given season. Without a season, checks current membership.
+ */
+export function isFamilyClan(tag: string, season?: string): boolean {
+  const clan = findFamilyClan(tag)
+  return clan ? isClanActive(clan, season) : false
+}
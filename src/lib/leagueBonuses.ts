@@ -0,0 +1,129 @@
+import { z } from 'zod'
+import { LEAGUE_TIERS } from './rosterCalculations'
+import type { SeasonRosterPlayer } from './types'
+
+/**
+ * End-of-season CWL league bonus allocation.
+ *
+ * Each roster player gets points from configurable rules and the top N, N
+ * being the number of bonuses of the clan's league tier, are proposed as
+ * recipients. Rules and bonus counts are kept in localStorage.
+ */
+
+export const LEAGUE_BONUS_STORAGE_KEY = 'cwl-league-bonus-settings'
+
+/** Points per unit of each stat */
+export interface BonusRules {
+  stars: number           // Per star
+  triples: number         // Per triple
+  attendance: number      // Per war participated
+  missedAttacks: number   // Subtracted per missed attack
+  hitUp: number           // Per star earned attacking up the map
+}
+
+export interface LeagueBonusSettings {
+  rules: BonusRules
+  counts: Record<string, number>   // League tier → number of bonuses
+}
+
+export const DEFAULT_BONUS_RULES: BonusRules = {
+  stars: 1,
+  triples: 0.5,
+  attendance: 1,
+  missedAttacks: 3,
+  hitUp: 0.5,
+}
+
+// Defaults only; leaders set the counts their clans actually get per tier
+export const DEFAULT_BONUS_COUNTS: Readonly<Record<string, number>> = Object.fromEntries(
+  LEAGUE_TIERS.map(tier => [tier, tier.startsWith('Champion') ? 4 : tier.startsWith('Master') ? 3 : 2])
+)
+
+// Used for clans without a known league tier
+export const FALLBACK_BONUS_COUNT = 2
+
+export const DEFAULT_LEAGUE_BONUS_SETTINGS: LeagueBonusSettings = {
+  rules: DEFAULT_BONUS_RULES,
+  counts: DEFAULT_BONUS_COUNTS,
+}
+
+// --- Storage ---
+
+const LeagueBonusSettingsSchema = z.looseObject({
+  rules: z.looseObject({
+    stars: z.number(),
+    triples: z.number(),
+    attendance: z.number(),
+    missedAttacks: z.number(),
+    hitUp: z.number(),
+  }),
+  counts: z.record(z.string(), z.number().int().min(0)),
+})
+
+export function loadLeagueBonusSettings(): LeagueBonusSettings {
+  try {
+    const stored = localStorage.getItem(LEAGUE_BONUS_STORAGE_KEY)
+    if (!stored) return DEFAULT_LEAGUE_BONUS_SETTINGS
+
+    const result = LeagueBonusSettingsSchema.safeParse(JSON.parse(stored))
+    if (!result.success) {
+      console.warn('Ignoring invalid league bonus settings in localStorage:', result.error)
+      return DEFAULT_LEAGUE_BONUS_SETTINGS
+    }
+    return {
+      rules: result.data.rules,
+      counts: { ...DEFAULT_BONUS_COUNTS, ...result.data.counts },
+    }
+  } catch (err) {
+    console.warn('Failed to load league bonus settings from localStorage:', err)
+    return DEFAULT_LEAGUE_BONUS_SETTINGS
+  }
+}
+
+export function saveLeagueBonusSettings(settings: LeagueBonusSettings): void {
+  try {
+    localStorage.setItem(LEAGUE_BONUS_STORAGE_KEY, JSON.stringify(settings))
+  } catch (err) {
+    console.warn('Failed to save league bonus settings to localStorage:', err)
+  }
+}
+
+// --- Ranking ---
+
+export interface BonusCandidate {
+  player: SeasonRosterPlayer
+  score: number
+  breakdown: Record<keyof BonusRules, number>   // Points from each rule (missed attacks negative)
+}
+
+export function getBonusCount(counts: Record<string, number>, leagueTier: string | null | undefined): number {
+  if (!leagueTier) return FALLBACK_BONUS_COUNT
+  return counts[leagueTier] ?? FALLBACK_BONUS_COUNT
+}
+
+export function scoreBonusCandidate(player: SeasonRosterPlayer, rules: BonusRules): BonusCandidate {
+  const breakdown = {
+    stars: player.stars * rules.stars,
+    triples: player.triples * rules.triples,
+    attendance: player.warsParticipated * rules.attendance,
+    missedAttacks: -(player.missedAttacks ?? 0) * rules.missedAttacks,
+    hitUp: (player.attackTypes?.hitUp.stars ?? 0) * rules.hitUp,
+  }
+  const score = Object.values(breakdown).reduce((sum, points) => sum + points, 0)
+  return { player, score, breakdown }
+}
+
+/**
+ * Players who attacked, best first; ties go to more stars, then more triples, then fewer missed attacks
+ */
+export function rankBonusCandidates(roster: SeasonRosterPlayer[], rules: BonusRules): BonusCandidate[] {
+  return roster
+    .filter(p => p.warsParticipated > 0)
+    .map(p => scoreBonusCandidate(p, rules))
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.player.stars - a.player.stars ||
+      b.player.triples - a.player.triples ||
+      (a.player.missedAttacks ?? 0) - (b.player.missedAttacks ?? 0)
+    )
+}
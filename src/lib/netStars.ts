@@ -0,0 +1,66 @@
+/**
+ * Net stars: the stars an attack added to its side's war score.
+ *
+ * CWL counts only the best attack on each base, so an attack's net stars are
+ * what it scored above the best earlier attack on the same base. Raw sums
+ * credit a second hit on an already starred base again; net sums credit the
+ * hitter who finished the base (a cleanup 3★ on a 2★ base is worth 1).
+ *
+ * This is the one implementation of that scoring rule: the war replay, the
+ * post-mortem and clutch detection count their running scores with getNetStars.
+ */
+
+export type StarsMode = 'raw' | 'net'
+
+interface NetStarsAttack {
+  defenderTag?: string
+  stars?: number
+  order?: number
+}
+
+/**
+ * Net stars of every attack, walking them in `order`. Defender tags never repeat
+ * across the two sides of a war, so a whole two-sided timeline can be passed in.
+ */
+export function getNetStars<T extends NetStarsAttack>(attacks: T[]): Map<T, number> {
+  const bestStars = new Map<string, number>()
+  const netStars = new Map<T, number>()
+  const ordered = [...attacks].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+
+  for (const attack of ordered) {
+    const stars = attack.stars ?? 0
+    if (!attack.defenderTag) {
+      netStars.set(attack, stars)
+      continue
+    }
+    const best = bestStars.get(attack.defenderTag) ?? 0
+    netStars.set(attack, Math.max(0, stars - best))
+    bestStars.set(attack.defenderTag, Math.max(best, stars))
+  }
+  return netStars
+}
+
+/**
+ * Net stars per attack
+ */
+export function getNetStarRate(netStars: number, attacks: number): number {
+  return attacks > 0 ? netStars / attacks : 0
+}
+
+interface StarTotals {
+  stars: number
+  avgStars: number | null
+  netStars?: number
+  netStarRate?: number
+}
+
+/**
+ * Stars and per-attack average to show and rank by. Net falls back to raw
+ * for data generated before net stars were tracked.
+ */
+export function getStarTotals(stats: StarTotals, mode: StarsMode): { stars: number; avgStars: number | null } {
+  if (mode === 'net' && stats.netStars !== undefined) {
+    return { stars: stats.netStars, avgStars: stats.netStarRate ?? null }
+  }
+  return { stars: stats.stars, avgStars: stats.avgStars }
+}
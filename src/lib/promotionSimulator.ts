@@ -0,0 +1,268 @@
+import { getAvailableWars, WAR_DAYS } from './availability'
+import { LEAGUE_TIERS } from './rosterCalculations'
+import type {
+  ClanWarLineups,
+  LeagueBaseline,
+  ManualPlayerEntry,
+  RosterPlayerStats,
+  SeasonAvailability,
+  StarBuckets,
+} from './types'
+import { fillWarLineups, getLineupKey } from './warLineups'
+
+/**
+ * Monte Carlo odds of a planned roster's final CWL group position.
+ *
+ * Each simulated season plays the full 8-clan round robin. Our clan's stars
+ * are the sum of its lineup's attacks, each sampled from the player's own star
+ * distribution; the seven opponents draw their war stars from what clans of the
+ * same league scored in the cached groups (league-baselines.json).
+ */
+
+export const GROUP_SIZE = 8
+export const SIMULATION_ITERATIONS = 1000
+const WAR_WIN_BONUS = 10
+
+// Attacks worth of league baseline mixed into every player's distribution,
+// so a handful of attacks doesn't make someone a guaranteed triple
+const PLAYER_PRIOR_ATTACKS = 6
+
+/**
+ * Clans promoted from / relegated out of a group of each league, per the in-game rules
+ */
+export const PROMOTION_SPOTS: Record<(typeof LEAGUE_TIERS)[number], { promoted: number; relegated: number }> = {
+  'Gold League III': { promoted: 2, relegated: 2 },
+  'Gold League II': { promoted: 2, relegated: 2 },
+  'Gold League I': { promoted: 2, relegated: 2 },
+  'Crystal League III': { promoted: 2, relegated: 2 },
+  'Crystal League II': { promoted: 2, relegated: 2 },
+  'Crystal League I': { promoted: 2, relegated: 2 },
+  'Master League III': { promoted: 2, relegated: 2 },
+  'Master League II': { promoted: 2, relegated: 2 },
+  'Master League I': { promoted: 1, relegated: 2 },
+  'Champion League III': { promoted: 1, relegated: 2 },
+  'Champion League II': { promoted: 1, relegated: 2 },
+  'Champion League I': { promoted: 0, relegated: 3 },
+}
+
+export interface PromotionOdds {
+  positions: number[]      // Probability of each final position, index 0 = first place
+  promotion: number
+  stay: number
+  relegation: number
+  spots: { promoted: number; relegated: number }
+  expectedStars: number    // Our war stars over the seven wars, without win bonuses
+  expectedPosition: number // 1-based
+  iterations: number
+}
+
+export interface PromotionSimulationInput {
+  leagueTier: string
+  baseline: LeagueBaseline
+  warSize: number
+  players: RosterPlayerStats[]
+  manualPlayers: ManualPlayerEntry[]
+  availability: SeasonAvailability
+  lineups?: ClanWarLineups  // Planned days; empty slots are filled like the lineup planner does
+  iterations?: number
+  seed?: number
+}
+
+// Circle method round robin: clan 0 (ours) stays put while the others rotate
+const ROUND_PAIRINGS: Array<Array<[number, number]>> = WAR_DAYS.map((_, round) => {
+  const order = [0, ...Array.from({ length: GROUP_SIZE - 1 }, (_, i) => ((i + round) % (GROUP_SIZE - 1)) + 1)]
+  return Array.from({ length: GROUP_SIZE / 2 }, (_, i): [number, number] => [order[i], order[GROUP_SIZE - 1 - i]])
+})
+
+// --- Random numbers ---
+
+/**
+ * mulberry32: small seeded generator, so the odds of an unchanged roster don't jitter between renders
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function sampleIndex(cumulative: number[], random: () => number): number {
+  const r = random() * cumulative[cumulative.length - 1]
+  let low = 0
+  let high = cumulative.length - 1
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (r < cumulative[mid]) high = mid
+    else low = mid + 1
+  }
+  return low
+}
+
+function toCumulative(weights: number[]): number[] {
+  let sum = 0
+  return weights.map(w => (sum += w))
+}
+
+// --- Attack models ---
+
+interface AttackModel {
+  cumulative: number[]  // Over 0-3 stars, given the attack is made
+  missRate: number
+  meanStars: number     // Per war, misses included
+}
+
+function bucketShares(buckets: StarBuckets): number[] {
+  const counts = [buckets.zeroStars, buckets.oneStars, buckets.twoStars, buckets.threeStars]
+  const total = counts.reduce((a, b) => a + b, 0)
+  return total > 0 ? counts.map(c => c / total) : [0.25, 0.25, 0.25, 0.25]
+}
+
+function createAttackModel(shares: number[], missRate: number): AttackModel {
+  const meanStars = shares.reduce((sum, share, stars) => sum + share * stars, 0) * (1 - missRate)
+  return { cumulative: toCumulative(shares), missRate, meanStars }
+}
+
+function getPlayerModel(player: RosterPlayerStats, leagueShares: number[]): AttackModel {
+  const own = player.starBuckets
+    ? [player.starBuckets.zeroStars, player.starBuckets.oneStars, player.starBuckets.twoStars, player.starBuckets.threeStars]
+    : [0, 0, 0, 0]
+  const attacks = own.reduce((a, b) => a + b, 0)
+  const shares = own.map((count, i) => (count + PLAYER_PRIOR_ATTACKS * leagueShares[i]) / (attacks + PLAYER_PRIOR_ATTACKS))
+  const missRate = player.totalWars > 0 ? Math.min(1, Math.max(0, (player.missedAttacks ?? 0) / player.totalWars)) : 0
+  return createAttackModel(shares, missRate)
+}
+
+/**
+ * Manual players only have an estimated average: three coin flips at avg/3
+ */
+function getManualModel(player: ManualPlayerEntry): AttackModel {
+  const p = Math.min(1, Math.max(0, player.estimatedAvgStars / 3))
+  const shares = [(1 - p) ** 3, 3 * p * (1 - p) ** 2, 3 * p * p * (1 - p), p ** 3]
+  return createAttackModel(shares, 0)
+}
+
+/**
+ * Share of the attacks' star sum that reaches the war score in the baseline: second
+ * hits on an already starred base don't add to it. Misses are simulated per player,
+ * so the ratio is taken over the attacks actually made.
+ */
+function getWarStarsRatio(baseline: LeagueBaseline, leagueShares: number[]): number {
+  let warStars = 0
+  for (const histogram of Object.values(baseline.warStars)) {
+    histogram.forEach((count, stars) => (warStars += stars * count))
+  }
+  const { zeroStars, oneStars, twoStars, threeStars } = baseline.attackBuckets
+  const attackStars = (zeroStars + oneStars + twoStars + threeStars) *
+    leagueShares.reduce((sum, share, stars) => sum + share * stars, 0)
+  return attackStars > 0 ? Math.min(1, warStars / attackStars) : 1
+}
+
+/**
+ * Opponent war stars for a war size: the league's histogram for that size, else
+ * the league's attacks summed over a full lineup
+ */
+function createOpponentSampler(baseline: LeagueBaseline, warSize: number, leagueShares: number[]): (random: () => number) => number {
+  const histogram = baseline.warStars[warSize]
+  if (histogram && histogram.some(count => count > 0)) {
+    const cumulative = toCumulative(histogram)
+    return random => sampleIndex(cumulative, random)
+  }
+  const cumulative = toCumulative(leagueShares)
+  return random => {
+    let stars = 0
+    for (let i = 0; i < warSize; i++) stars += sampleIndex(cumulative, random)
+    return stars
+  }
+}
+
+// --- Simulation ---
+
+/**
+ * Promotion, stay and relegation odds of one clan's planned roster
+ */
+export function simulatePromotionOdds({
+  leagueTier,
+  baseline,
+  warSize,
+  players,
+  manualPlayers,
+  availability,
+  lineups = [],
+  iterations = SIMULATION_ITERATIONS,
+  seed = 1,
+}: PromotionSimulationInput): PromotionOdds {
+  const random = createRandom(seed)
+  const leagueShares = bucketShares(baseline.attackBuckets)
+  const warStarsRatio = getWarStarsRatio(baseline, leagueShares)
+  const maxWarStars = warSize * 3
+
+  const models = new Map<string, AttackModel>()
+  for (const p of players) {
+    if (getAvailableWars(availability[p.playerTag]) > 0) models.set(p.playerTag, getPlayerModel(p, leagueShares))
+  }
+  for (const p of manualPlayers) models.set(getLineupKey(p), getManualModel(p))
+
+  // Planned days first; every open slot goes to the available players with the fewest days, then the best
+  const candidates = [...models.entries()].map(([key, model]) => ({ key, starsPerWar: model.meanStars }))
+  const days = fillWarLineups(lineups, candidates, warSize, availability, new Set())
+    .map(day => day.map(key => models.get(key)).filter((m): m is AttackModel => m !== undefined))
+
+  const sampleOpponent = createOpponentSampler(baseline, warSize, leagueShares)
+  const spots = PROMOTION_SPOTS[leagueTier as (typeof LEAGUE_TIERS)[number]] ?? { promoted: 0, relegated: 0 }
+
+  const positionCounts = new Array<number>(GROUP_SIZE).fill(0)
+  let totalStars = 0
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    // Clan 0 is ours; score = war stars + 10 per win, ties on score broken at random
+    const scores = new Array<number>(GROUP_SIZE).fill(0)
+    const tiebreaks = Array.from({ length: GROUP_SIZE }, () => random())
+
+    ROUND_PAIRINGS.forEach((pairings, round) => {
+      for (const [a, b] of pairings) {
+        let starsA: number
+        if (a === 0) {
+          let attackStars = 0
+          for (const model of days[round] ?? []) {
+            if (random() >= model.missRate) attackStars += sampleIndex(model.cumulative, random)
+          }
+          starsA = Math.min(maxWarStars, Math.round(attackStars * warStarsRatio))
+          totalStars += starsA
+        } else {
+          starsA = Math.min(maxWarStars, sampleOpponent(random))
+        }
+        const starsB = Math.min(maxWarStars, sampleOpponent(random))
+
+        scores[a] += starsA
+        scores[b] += starsB
+        // Equal stars go to destruction, which isn't modelled: a coin flip
+        if (starsA > starsB || (starsA === starsB && random() < 0.5)) scores[a] += WAR_WIN_BONUS
+        else scores[b] += WAR_WIN_BONUS
+      }
+    })
+
+    const position = scores.filter((score, clan) =>
+      clan !== 0 && (score > scores[0] || (score === scores[0] && tiebreaks[clan] > tiebreaks[0]))
+    ).length
+    positionCounts[position]++
+  }
+
+  const positions = positionCounts.map(count => count / iterations)
+  const promotion = positions.slice(0, spots.promoted).reduce((a, b) => a + b, 0)
+  const relegation = positions.slice(GROUP_SIZE - spots.relegated).reduce((a, b) => a + b, 0)
+
+  return {
+    positions,
+    promotion,
+    stay: Math.max(0, 1 - promotion - relegation),
+    relegation,
+    spots,
+    expectedStars: totalStars / iterations,
+    expectedPosition: positions.reduce((sum, p, i) => sum + p * (i + 1), 0),
+    iterations,
+  }
+}
@@ -0,0 +1,261 @@
+import type { ReliabilityBreakdown } from './types'
+
+/**
+ * Reliability score shared by the data pipeline (scripts/) and the React app.
+ *
+ * Formula: reliabilityScore = (Performance × 0.45) + (Attendance × 0.35) + (LeagueAdj × 0.20)
+ *
+ * Components (all 0-100 scale):
+ * - Performance: (avgStars/3)*50 + (threeStarRate/100)*50
+ * - Attendance: attacks made / attacks possible (CWL = 1 attack per war)
+ * - LeagueAdj: league tier scores averaged over the leagues played, weighted by attacks
+ *
+ * Generated files record RELIABILITY_FORMULA_ID next to the scores they contain.
+ * Bump it whenever the weights, tier scores or components change, so scores
+ * computed with different formulas can be told apart.
+ *
+ * The UI can also recompute scores with "what-if" weights and tier scores
+ * (ReliabilityConfig, shared through URL params); those never reach the data files.
+ */
+
+export const RELIABILITY_FORMULA_ID = 'reliability-v1'
+
+// Designed so only ~10% of players get 100%
+export const RELIABILITY_WEIGHTS = {
+  performance: 0.45,  // avgStars + threeStarRate contribution
+  attendance: 0.35,   // attacks/wars ratio
+  leagueAdj: 0.20,    // league difficulty bonus
+} as const
+
+/**
+ * League tier difficulty scores (0-100 scale).
+ * Higher leagues get higher scores as a bonus for competing at a harder level.
+ */
+export const LEAGUE_TIER_SCORES: Readonly<Record<string, number>> = {
+  'Champion League I': 100,
+  'Champion League II': 90,
+  'Champion League III': 80,
+  'Master League I': 70,
+  'Master League II': 60,
+  'Master League III': 50,
+  'Crystal League I': 40,
+  'Crystal League II': 35,
+  'Crystal League III': 30,
+  'Gold League I': 25,
+  'Gold League II': 20,
+  'Gold League III': 15,
+}
+
+// Used for unknown leagues and players without league history
+export const DEFAULT_LEAGUE_SCORE = 50
+
+export interface ReliabilityWeights {
+  performance: number
+  attendance: number
+  leagueAdj: number
+}
+
+/** Weights and league tier scores a reliability score is computed with */
+export interface ReliabilityConfig {
+  weights: ReliabilityWeights
+  tierScores: Readonly<Record<string, number>>
+}
+
+export const OFFICIAL_RELIABILITY_CONFIG: ReliabilityConfig = {
+  weights: RELIABILITY_WEIGHTS,
+  tierScores: LEAGUE_TIER_SCORES,
+}
+
+// Formula id of scores recomputed with a what-if config
+export const CUSTOM_RELIABILITY_FORMULA_ID = 'custom'
+
+/** Attacks a player made in one league (a season, or a career total per league) */
+export interface LeagueAttacks {
+  tier: string | null | undefined
+  attacks: number
+}
+
+export interface ReliabilityInput {
+  avgStars: number
+  threeStarRate: number  // 0-100
+  attacks: number
+  wars: number
+  leagues?: LeagueAttacks[]
+}
+
+export function getLeagueTierScore(
+  tier: string | null | undefined,
+  tierScores: Readonly<Record<string, number>> = LEAGUE_TIER_SCORES
+): number {
+  return (tier ? tierScores[tier] : undefined) ?? DEFAULT_LEAGUE_SCORE
+}
+
+export function calculatePerformanceScore(avgStars: number, threeStarRate: number): number {
+  return Math.min(100, ((avgStars / 3) * 50) + ((threeStarRate / 100) * 50))
+}
+
+export function calculateAttendanceScore(attacks: number, wars: number): number {
+  return wars > 0 ? Math.min(100, (attacks / wars) * 100) : 0
+}
+
+/**
+ * Attack-weighted average of the tier scores of the leagues played.
+ * Entries without a league are ignored; no league history scores DEFAULT_LEAGUE_SCORE.
+ */
+export function calculateLeagueAdjScore(
+  leagues: LeagueAttacks[] = [],
+  tierScores: Readonly<Record<string, number>> = LEAGUE_TIER_SCORES
+): number {
+  let totalScore = 0
+  let totalAttacks = 0
+  for (const { tier, attacks } of leagues) {
+    if (!tier || attacks <= 0) continue
+    totalScore += getLeagueTierScore(tier, tierScores) * attacks
+    totalAttacks += attacks
+  }
+  return totalAttacks > 0 ? totalScore / totalAttacks : DEFAULT_LEAGUE_SCORE
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Weighted sum of the components. Weights are normalised to sum to 1, so what-if
+ * weights that don't add up to 100% still give a 0-100 score.
+ */
+export function calculateWeightedScore(
+  components: { performance: number; attendance: number; leagueAdj: number },
+  weights: ReliabilityWeights = RELIABILITY_WEIGHTS
+): number {
+  const total = weights.performance + weights.attendance + weights.leagueAdj
+  if (total <= 0) return 0
+  return (
+    (components.performance * weights.performance) +
+    (components.attendance * weights.attendance) +
+    (components.leagueAdj * weights.leagueAdj)
+  ) / total
+}
+
+/**
+ * Full reliability breakdown, components and weighted score rounded to 2 decimals.
+ */
+export function calculateReliability(input: ReliabilityInput): ReliabilityBreakdown {
+  const performance = calculatePerformanceScore(input.avgStars, input.threeStarRate)
+  const attendance = calculateAttendanceScore(input.attacks, input.wars)
+  const leagueAdj = calculateLeagueAdjScore(input.leagues)
+
+  const weighted = calculateWeightedScore({ performance, attendance, leagueAdj })
+
+  return {
+    performance: round2(performance),
+    attendance: round2(attendance),
+    leagueAdj: round2(leagueAdj),
+    weighted: round2(weighted),
+    formula: RELIABILITY_FORMULA_ID,
+  }
+}
+
+/**
+ * Reliability of one clan-season roster entry, where the whole season was played in one league.
+ */
+export function calculateSeasonReliability(
+  player: { avgStars: number; attacks: number; triples: number; warsParticipated: number },
+  leagueTier: string | null | undefined
+): number {
+  return calculateReliability({
+    avgStars: player.avgStars,
+    threeStarRate: player.attacks > 0 ? (player.triples / player.attacks) * 100 : 0,
+    attacks: player.attacks,
+    wars: player.warsParticipated,
+    leagues: [{ tier: leagueTier, attacks: player.attacks }],
+  }).weighted
+}
+
+export function isOfficialReliabilityConfig(config: ReliabilityConfig): boolean {
+  const { weights, tierScores } = OFFICIAL_RELIABILITY_CONFIG
+  return (Object.keys(weights) as (keyof ReliabilityWeights)[]).every(key => config.weights[key] === weights[key]) &&
+    Object.keys(tierScores).every(tier => config.tierScores[tier] === tierScores[tier])
+}
+
+/**
+ * Recomputes a generated breakdown with a what-if config.
+ *
+ * Performance and attendance don't depend on the config and are reused. The stored
+ * LeagueAdj already has the official tier scores baked in, so it is recomputed from
+ * `leagues` when the player's league history is known.
+ */
+export function rescoreReliability(
+  breakdown: ReliabilityBreakdown,
+  config: ReliabilityConfig,
+  leagues?: LeagueAttacks[]
+): ReliabilityBreakdown {
+  const { performance, attendance } = breakdown
+  const leagueAdj = leagues ? calculateLeagueAdjScore(leagues, config.tierScores) : breakdown.leagueAdj
+
+  return {
+    performance,
+    attendance,
+    leagueAdj: round2(leagueAdj),
+    weighted: round2(calculateWeightedScore({ performance, attendance, leagueAdj }, config.weights)),
+    formula: isOfficialReliabilityConfig(config) ? RELIABILITY_FORMULA_ID : CUSTOM_RELIABILITY_FORMULA_ID,
+  }
+}
+
+// URL search params of a shared what-if config
+const WEIGHTS_PARAM = 'rw'
+const TIER_SCORES_PARAM = 'rt'
+const PARAM_SEPARATOR = '-'
+
+function parseScoreList(value: string | null, length: number): number[] | null {
+  if (!value) return null
+  const scores = value.split(PARAM_SEPARATOR).map(Number)
+  if (scores.length !== length || scores.some(score => !Number.isFinite(score) || score < 0 || score > 100)) return null
+  return scores
+}
+
+/**
+ * Reads a what-if config from URL search params.
+ *
+ * - `rw`: performance, attendance and league weights in percent, e.g. `rw=45-35-20`
+ * - `rt`: tier scores in LEAGUE_TIER_SCORES order (Champion League I first)
+ *
+ * Missing or malformed params fall back to the official formula.
+ */
+export function parseReliabilityConfig(params: URLSearchParams): ReliabilityConfig {
+  const tiers = Object.keys(LEAGUE_TIER_SCORES)
+  const weights = parseScoreList(params.get(WEIGHTS_PARAM), 3)
+  const tierScores = parseScoreList(params.get(TIER_SCORES_PARAM), tiers.length)
+
+  return {
+    weights: weights
+      ? { performance: weights[0] / 100, attendance: weights[1] / 100, leagueAdj: weights[2] / 100 }
+      : OFFICIAL_RELIABILITY_CONFIG.weights,
+    tierScores: tierScores
+      ? Object.fromEntries(tiers.map((tier, i) => [tier, tierScores[i]]))
+      : OFFICIAL_RELIABILITY_CONFIG.tierScores,
+  }
+}
+
+/**
+ * Writes a what-if config into URL search params, leaving other params alone.
+ * Parts that match the official formula are removed, so official links stay clean.
+ */
+export function writeReliabilityConfig(params: URLSearchParams, config: ReliabilityConfig): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const { weights, tierScores } = OFFICIAL_RELIABILITY_CONFIG
+  const tiers = Object.keys(tierScores)
+
+  const weightList = [config.weights.performance, config.weights.attendance, config.weights.leagueAdj]
+  if (weightList.every((weight, i) => weight === [weights.performance, weights.attendance, weights.leagueAdj][i])) {
+    next.delete(WEIGHTS_PARAM)
+  } else {
+    next.set(WEIGHTS_PARAM, weightList.map(weight => Math.round(weight * 100)).join(PARAM_SEPARATOR))
+  }
+
+  if (tiers.every(tier => config.tierScores[tier] === tierScores[tier])) {
+    next.delete(TIER_SCORES_PARAM)
+  } else {
+    next.set(TIER_SCORES_PARAM, tiers.map(tier => getLeagueTierScore(tier, config.tierScores)).join(PARAM_SEPARATOR))
+  }
+
+  return next
+}
@@ -26,17 +26,29 @@ export const MAX_ROSTER_30V30_WITH_SUBS = 32 // 30 main + 2 substitutes
  * 
  * So we use RELIABILITY as the primary metric (0-100 scale → normalized):
  * - RELIABILITY (0.45): Primary - the weighted reliability score
- * - AVG_STARS (0.35): Secondary - raw attack quality as tie-breaker
+ * - AVG_STARS (0.25): Secondary - raw attack quality as tie-breaker
+ * - STARS_ABOVE_EXPECTED (0.10): Attack quality adjusted for opponent TH and league
  * - THREE_STAR_RATE (0.20): Bonus for players who consistently triple
  * 
- * All normalized: reliability/100, avgStars/3, threeStarRate/100 → then weighted
+ * All normalized: reliability/100, avgStars/3, threeStarRate/100,
+ * stars above expected per attack from [-1, +1] → then weighted
  */
 export const SCORING_WEIGHTS = {
-  RELIABILITY: 0.45,    // 45% - uses the advanced weighted reliability score
-  AVG_STARS: 0.35,      // 35% - raw attack effectiveness
-  THREE_STAR_RATE: 0.20 // 20% - clutch performance bonus
+  RELIABILITY: 0.45,          // 45% - uses the advanced weighted reliability score
+  AVG_STARS: 0.25,            // 25% - raw attack effectiveness
+  STARS_ABOVE_EXPECTED: 0.10, // 10% - effectiveness vs. the expected-stars baseline
+  THREE_STAR_RATE: 0.20       // 20% - clutch performance bonus
 } as const
 
+/**
+ * Normalize stars above expected per attack to 0-1 (0.5 = exactly as expected).
+ * Players without war details (e.g. older seasons only) score neutral.
+ */
+export function normalizeStarsAboveExpected(avgStarsAboveExpected: number | undefined): number {
+  if (avgStarsAboveExpected === undefined) return 0.5
+  return (Math.max(-1, Math.min(1, avgStarsAboveExpected)) + 1) / 2
+}
+
 /**
  * Calculate player score for auto-distribution ranking
  * Uses normalized values weighted by SCORING_WEIGHTS
@@ -48,6 +60,7 @@ export function calculatePlayerScore(player: RosterPlayerStats): number {
   return (
     ((player.reliabilityScore / 100) * SCORING_WEIGHTS.RELIABILITY) +
     ((player.avgStars / 3) * SCORING_WEIGHTS.AVG_STARS) +
+    (normalizeStarsAboveExpected(player.avgStarsAboveExpected) * SCORING_WEIGHTS.STARS_ABOVE_EXPECTED) +
     ((player.threeStarRate / 100) * SCORING_WEIGHTS.THREE_STAR_RATE)
   )
 }
@@ -158,7 +171,7 @@ export function getLeagueTierDistance(fromLeague: string, toLeague: string): num
  * @param seasons - Array of player season stats with league tier info (assumed chronological order: oldest to newest)
  * @returns Most common league tier or null if no data
  */
-function getMostCommonLeague(seasons: PlayerSeasonStats[]): string | null {
+function getMostCommonLeague(seasons: Pick<PlayerSeasonStats, 'leagueTier'>[]): string | null {
   if (!seasons || seasons.length === 0) return null
 
   const leagueTiers = seasons
@@ -194,13 +207,13 @@ function getMostCommonLeague(seasons: PlayerSeasonStats[]): string | null {
  * 
  * @param player - Player stats or manual entry
  * @param targetLeague - Target clan's league tier
- * @param playerSeasons - Optional: player's season history for league analysis
+ * @param playerSeasons - Optional: player's season history for league analysis (only the league tiers are read)
  * @returns League projection with adjusted stars and metadata
  */
 export function getLeagueAdjustedProjection(
   player: RosterPlayerStats | ManualPlayerEntry,
   targetLeague: string,
-  playerSeasons?: PlayerSeasonStats[]
+  playerSeasons?: Pick<PlayerSeasonStats, 'leagueTier'>[]
 ): LeagueProjection {
   // For manual entries, use estimated avg
   if ('manualEntry' in player && player.manualEntry) {
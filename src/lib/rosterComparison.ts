@@ -0,0 +1,139 @@
+import { getAvailableWars } from './availability'
+import { ATTACKS_PER_SEASON } from './rosterCalculations'
+import { diffRosterPlans } from './rosterPlan'
+import type {
+  CustomClan,
+  LeagueProjection,
+  ManualPlayerEntry,
+  RosterPlan,
+  RosterPlayerStats,
+  SeasonAvailability,
+} from './types'
+
+/**
+ * Clan aggregates of the roster builder (the numbers on each clan card) and
+ * a side-by-side comparison of two plans built on them.
+ */
+
+export type ProjectionConfidence = LeagueProjection['confidence']
+
+export interface ClanRosterStats {
+  count: number
+  projectedStars: number
+  avgTH: number
+  avgReliability: number                           // Database players only
+  confidence: Record<ProjectionConfidence, number> // Players per league-adjusted projection confidence
+}
+
+/**
+ * Partial sign-ups count for their war days only. Players whose league projection
+ * isn't known yet are left out of the confidence counts; manual players are always low.
+ */
+export function getClanRosterStats(
+  rosterPlayers: RosterPlayerStats[],
+  manualPlayers: ManualPlayerEntry[],
+  availability: SeasonAvailability,
+  getConfidence?: (playerTag: string) => ProjectionConfidence | null
+): ClanRosterStats {
+  const count = rosterPlayers.length + manualPlayers.length
+  const confidence: Record<ProjectionConfidence, number> = { high: 0, medium: 0, low: manualPlayers.length }
+  if (count === 0) return { count, projectedStars: 0, avgTH: 0, avgReliability: 0, confidence }
+
+  const projectedStars =
+    rosterPlayers.reduce((sum, p) => sum + p.avgStars * getAvailableWars(availability[p.playerTag]), 0) +
+    manualPlayers.reduce((sum, p) => sum + p.estimatedAvgStars * ATTACKS_PER_SEASON, 0)
+  const totalTH =
+    rosterPlayers.reduce((sum, p) => sum + (p.currentTH || 0), 0) +
+    manualPlayers.reduce((sum, p) => sum + p.th, 0)
+  const avgReliability = rosterPlayers.length > 0
+    ? rosterPlayers.reduce((sum, p) => sum + p.reliabilityScore, 0) / rosterPlayers.length
+    : 0
+
+  for (const p of rosterPlayers) {
+    const level = getConfidence?.(p.playerTag)
+    if (level) confidence[level]++
+  }
+
+  return { count, projectedStars, avgTH: totalTH / count, avgReliability, confidence }
+}
+
+/**
+ * Share of the players with a known projection whose projection is high confidence, in percent
+ */
+export function getHighConfidenceShare(stats: ClanRosterStats): number {
+  const known = stats.confidence.high + stats.confidence.medium + stats.confidence.low
+  return known > 0 ? (stats.confidence.high / known) * 100 : 0
+}
+
+export interface ClanPlanComparison {
+  clan: CustomClan
+  added: string[]            // Player tags in B only
+  removed: string[]          // Player tags in A only
+  manualAdded: string[]      // Manual player names
+  manualRemoved: string[]
+  a: ClanRosterStats
+  b: ClanRosterStats
+}
+
+export interface RosterPlanComparison {
+  clans: ClanPlanComparison[]  // Clans with players in either plan
+  totals: { a: ClanRosterStats; b: ClanRosterStats }
+}
+
+interface ComparisonContext {
+  clans: CustomClan[]          // Built-in clans and the guest clans of both plans
+  players: RosterPlayerStats[]
+  availability: SeasonAvailability
+  getProjection: (playerTag: string, league: string) => LeagueProjection | null
+}
+
+/**
+ * Plan B against plan A, clan by clan and family-wide
+ */
+export function compareRosterPlans(a: RosterPlan, b: RosterPlan, { clans, players, availability, getProjection }: ComparisonContext): RosterPlanComparison {
+  const byTag = new Map(players.map(p => [p.playerTag, p]))
+  const diffs = new Map(diffRosterPlans(a, b).clans.map(d => [d.clanTag, d]))
+
+  const clanStats = (plan: RosterPlan, clan: CustomClan) => {
+    const rosterPlayers = (plan.clanRosters[clan.tag] ?? [])
+      .map(tag => byTag.get(tag))
+      .filter((p): p is RosterPlayerStats => p !== undefined)
+    const manualPlayers = plan.manualPlayers[clan.tag] ?? []
+    const getConfidence = (playerTag: string) => getProjection(playerTag, clan.league)?.confidence ?? null
+    return { rosterPlayers, manualPlayers, getConfidence, stats: getClanRosterStats(rosterPlayers, manualPlayers, availability, getConfidence) }
+  }
+
+  // Family-wide: all clans' players together, each with the confidence of their own clan's league
+  const family = (sides: ReturnType<typeof clanStats>[]) => {
+    const confidenceByTag = new Map<string, ProjectionConfidence | null>()
+    for (const side of sides) {
+      for (const p of side.rosterPlayers) confidenceByTag.set(p.playerTag, side.getConfidence(p.playerTag))
+    }
+    return getClanRosterStats(
+      sides.flatMap(s => s.rosterPlayers),
+      sides.flatMap(s => s.manualPlayers),
+      availability,
+      tag => confidenceByTag.get(tag) ?? null
+    )
+  }
+
+  const sidesA = clans.map(clan => clanStats(a, clan))
+  const sidesB = clans.map(clan => clanStats(b, clan))
+
+  const result: ClanPlanComparison[] = []
+  clans.forEach((clan, i) => {
+    if (sidesA[i].stats.count === 0 && sidesB[i].stats.count === 0) return
+    const diff = diffs.get(clan.tag)
+    result.push({
+      clan,
+      added: diff?.added ?? [],
+      removed: diff?.removed ?? [],
+      manualAdded: diff?.manualAdded ?? [],
+      manualRemoved: diff?.manualRemoved ?? [],
+      a: sidesA[i].stats,
+      b: sidesB[i].stats,
+    })
+  })
+
+  return { clans: result, totals: { a: family(sidesA), b: family(sidesB) } }
+}
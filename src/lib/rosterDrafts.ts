@@ -0,0 +1,159 @@
+import { z } from 'zod'
+import { RosterPlanSchema } from './rosterPlan'
+import type { RosterDraft, RosterPlan, SeasonRosterPlayer } from './types'
+
+/**
+ * Named roster builder drafts, grouped by CWL season and kept in localStorage.
+ * One draft per season can be frozen as the official roster; once the season
+ * has been played it is compared against the actual season rosters.
+ */
+
+export const ROSTER_DRAFTS_STORAGE_KEY = 'cwl-roster-builder-drafts'
+
+// CWL wars run during the first ~10 days of the month; after that we plan the next one
+const CWL_LAST_WAR_DAY = 10
+
+const RosterDraftSchema: z.ZodType<RosterDraft> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  season: z.string(),
+  plan: RosterPlanSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  frozenAt: z.string().nullable(),
+})
+
+export function loadRosterDrafts(): RosterDraft[] {
+  try {
+    const stored = localStorage.getItem(ROSTER_DRAFTS_STORAGE_KEY)
+    if (!stored) return []
+
+    const result = z.array(RosterDraftSchema).safeParse(JSON.parse(stored))
+    if (!result.success) {
+      console.warn('Ignoring invalid roster drafts in localStorage:', result.error)
+      return []
+    }
+    return result.data
+  } catch (err) {
+    console.warn('Failed to load roster drafts from localStorage:', err)
+    return []
+  }
+}
+
+export function saveRosterDrafts(drafts: RosterDraft[]): void {
+  try {
+    localStorage.setItem(ROSTER_DRAFTS_STORAGE_KEY, JSON.stringify(drafts))
+  } catch (err) {
+    console.warn('Failed to save roster drafts to localStorage:', err)
+  }
+}
+
+/**
+ * Season (YYYY-MM) a roster made on `date` is most likely meant for
+ */
+export function getPlanningSeasonId(date: Date = new Date()): string {
+  const month = date.getDate() > CWL_LAST_WAR_DAY ? date.getMonth() + 1 : date.getMonth()
+  const planning = new Date(date.getFullYear(), month, 1)
+  return `${planning.getFullYear()}-${String(planning.getMonth() + 1).padStart(2, '0')}`
+}
+
+export function createRosterDraft(name: string, season: string, plan: RosterPlan): RosterDraft {
+  const now = new Date().toISOString()
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    season,
+    plan,
+    createdAt: now,
+    updatedAt: now,
+    frozenAt: null,
+  }
+}
+
+/**
+ * Freeze one draft as its season's official roster, unfreezing any other draft of that season
+ */
+export function freezeRosterDraft(drafts: RosterDraft[], id: string): RosterDraft[] {
+  const target = drafts.find(d => d.id === id)
+  if (!target) return drafts
+
+  const now = new Date().toISOString()
+  return drafts.map(d => {
+    if (d.id === id) return { ...d, frozenAt: now }
+    if (d.season === target.season && d.frozenAt !== null) return { ...d, frozenAt: null }
+    return d
+  })
+}
+
+// --- Planned vs actual ---
+
+export interface PlannedPlayer {
+  tag: string
+  name: string | null          // Known for manual entries only; look up the rest in the player pool
+  playedIn: string | null      // Other family clan the player ended up in
+}
+
+export interface UnplannedPlayer {
+  player: SeasonRosterPlayer
+  plannedFor: string | null    // Clan the official roster had them in instead
+}
+
+export interface ClanRosterComparison {
+  clanTag: string
+  played: string[]                    // Planned here and played here
+  plannedNotPlayed: PlannedPlayer[]
+  pulledIn: UnplannedPlayer[]
+}
+
+/**
+ * Compare an official roster with who actually played each clan's CWL.
+ * `actualRosters` maps clan tag → season roster. Clans without season data, or that the
+ * plan left empty, are skipped.
+ * Manual entries without a player tag can't be matched and are left out.
+ */
+export function compareOfficialRoster(
+  plan: RosterPlan,
+  actualRosters: Map<string, SeasonRosterPlayer[]>
+): ClanRosterComparison[] {
+  const plannedByClan = new Map<string, { tag: string; name: string | null }[]>()
+  for (const [clanTag, tags] of Object.entries(plan.clanRosters)) {
+    plannedByClan.set(clanTag, tags.map(tag => ({ tag, name: null })))
+  }
+  for (const [clanTag, entries] of Object.entries(plan.manualPlayers)) {
+    const planned = plannedByClan.get(clanTag) ?? []
+    for (const entry of entries) {
+      if (entry.tag) planned.push({ tag: entry.tag, name: entry.name })
+    }
+    plannedByClan.set(clanTag, planned)
+  }
+
+  const plannedClanOf = new Map<string, string>()
+  for (const [clanTag, planned] of plannedByClan) {
+    for (const p of planned) plannedClanOf.set(p.tag, clanTag)
+  }
+  const actualClanOf = new Map<string, string>()
+  for (const [clanTag, roster] of actualRosters) {
+    for (const p of roster) actualClanOf.set(p.tag, clanTag)
+  }
+
+  const comparisons: ClanRosterComparison[] = []
+  for (const [clanTag, planned] of plannedByClan) {
+    const roster = actualRosters.get(clanTag)
+    if (!roster || planned.length === 0) continue
+
+    const actualTags = new Set(roster.map(p => p.tag))
+    const plannedTags = new Set(planned.map(p => p.tag))
+
+    comparisons.push({
+      clanTag,
+      played: planned.filter(p => actualTags.has(p.tag)).map(p => p.tag),
+      plannedNotPlayed: planned
+        .filter(p => !actualTags.has(p.tag))
+        .map(p => ({ ...p, playedIn: actualClanOf.get(p.tag) ?? null })),
+      pulledIn: roster
+        .filter(p => !plannedTags.has(p.tag))
+        .map(player => ({ player, plannedFor: plannedClanOf.get(player.tag) ?? null })),
+    })
+  }
+  return comparisons
+}
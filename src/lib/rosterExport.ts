@@ -0,0 +1,581 @@
+import type { Row } from 'exceljs'
+import type { PDFFont, PDFPage, RGB } from 'pdf-lib'
+import { formatDays, isAvailableOnDay, WAR_DAYS } from './availability'
+import { CLAN_ACCENTS } from './family'
+import type { PromotionOdds } from './promotionSimulator'
+import { getClanRosterStats, type ClanRosterStats } from './rosterComparison'
+import { ATTACKS_PER_SEASON, calculateForm, getLeagueAdjustedProjection } from './rosterCalculations'
+import type {
+  CustomClan,
+  ManualPlayerEntry,
+  PlayerCareerStats,
+  RosterMode,
+  RosterPlayerStats,
+  SeasonAvailability,
+} from './types'
+
+/**
+ * Roster builder exports: the data every format shares (CSV, PDF briefing pack,
+ * Excel workbook) and the PDF and workbook builders. Both run in the browser;
+ * pdf-lib and exceljs are only loaded when an export is made.
+ */
+
+export interface RosterExportPlayer {
+  type: 'db' | 'manual'
+  name: string
+  tag: string | null
+  currentClan: string | null   // Manual players have none
+  th: number | null
+  substitute: boolean
+  seasons: number | null
+  wars: number | null
+  attacks: number | null
+  missedAttacks: number | null
+  stars: number | null
+  avgStars: number             // Estimated for manual players
+  threeStarRate: number | null
+  reliability: number | null
+  form: number | null
+  historicalLeague: string | null
+  leagueAdjustment: number | null  // Percent; null when there's no history to adjust from
+  baseProjection: number           // avgStars × 7
+  projectedStars: number           // League-adjusted
+  availability: string             // '', 'Out' or the partial war days
+  notes: string
+}
+
+export interface RosterExportClan {
+  clan: CustomClan
+  rosterMode: RosterMode
+  maxCapacity: number
+  players: RosterExportPlayer[]    // Main roster first (best average first), then subs
+  stats: ClanRosterStats
+  thDistribution: Array<{ th: number; count: number }>  // Highest TH first
+  warnings: string[]
+  promotionOdds?: PromotionOdds
+}
+
+export interface RosterExportClanInput {
+  clan: CustomClan
+  players: RosterPlayerStats[]
+  manualPlayers: ManualPlayerEntry[]
+  rosterMode: RosterMode
+  maxCapacity: number
+  promotionOdds?: PromotionOdds
+}
+
+function describeAvailability(availability: SeasonAvailability, playerTag: string | null): string {
+  const entry = playerTag ? availability[playerTag] : undefined
+  if (!entry || entry.status === 'in') return ''
+  if (entry.status === 'out') return 'Out'
+  return entry.days?.length ? `Days ${formatDays(entry.days)}` : 'Partial'
+}
+
+/**
+ * Collect the export rows of every clan with players. League-adjusted projections
+ * need each player's season history; players whose history fails to load keep
+ * their plain projection.
+ */
+export async function collectRosterExport(
+  clans: RosterExportClanInput[],
+  availability: SeasonAvailability,
+  getHistory: (playerTag: string) => Promise<PlayerCareerStats | null>
+): Promise<RosterExportClan[]> {
+  const result: RosterExportClan[] = []
+
+  for (const { clan, players, manualPlayers, rosterMode, maxCapacity, promotionOdds } of clans) {
+    if (players.length + manualPlayers.length === 0) continue
+
+    const rows: RosterExportPlayer[] = []
+    for (const p of [...players].sort((a, b) => b.avgStars - a.avgStars)) {
+      let historicalLeague: string | null = null
+      let leagueAdjustment: number | null = null
+      let projectedStars = p.avgStars * ATTACKS_PER_SEASON
+
+      try {
+        const history = await getHistory(p.playerTag)
+        if (history?.seasons && history.seasons.length > 0) {
+          const projection = getLeagueAdjustedProjection(p, clan.league, history.seasons)
+          historicalLeague = projection.historicalLeague
+          leagueAdjustment = projection.adjustment
+          projectedStars = projection.projectedStars
+        }
+      } catch (err) {
+        console.warn(`Failed to get league adjustment for ${p.playerTag}:`, err)
+      }
+
+      rows.push({
+        type: 'db',
+        name: p.playerName,
+        tag: p.playerTag,
+        currentClan: p.clanName,
+        th: p.currentTH,
+        substitute: rows.length >= maxCapacity,
+        seasons: p.seasonsPlayed,
+        wars: p.totalWars,
+        attacks: p.totalAttacks,
+        missedAttacks: p.missedAttacks ?? 0,
+        stars: p.totalStars,
+        avgStars: p.avgStars,
+        threeStarRate: p.threeStarRate,
+        reliability: p.reliabilityScore,
+        form: calculateForm(p),
+        historicalLeague,
+        leagueAdjustment,
+        baseProjection: p.avgStars * ATTACKS_PER_SEASON,
+        projectedStars,
+        availability: describeAvailability(availability, p.playerTag),
+        notes: availability[p.playerTag]?.notes ?? '',
+      })
+    }
+
+    for (const mp of manualPlayers) {
+      rows.push({
+        type: 'manual',
+        name: mp.name,
+        tag: mp.tag,
+        currentClan: null,
+        th: mp.th || null,
+        substitute: rows.length >= maxCapacity,
+        seasons: null,
+        wars: null,
+        attacks: null,
+        missedAttacks: null,
+        stars: null,
+        avgStars: mp.estimatedAvgStars,
+        threeStarRate: null,
+        reliability: null,
+        form: null,
+        historicalLeague: null,
+        leagueAdjustment: null,
+        baseProjection: mp.estimatedAvgStars * ATTACKS_PER_SEASON,
+        projectedStars: mp.estimatedAvgStars * ATTACKS_PER_SEASON,
+        availability: describeAvailability(availability, mp.tag),
+        notes: mp.notes ?? '',
+      })
+    }
+
+    const thCounts = new Map<number, number>()
+    for (const row of rows) {
+      if (row.th) thCounts.set(row.th, (thCounts.get(row.th) ?? 0) + 1)
+    }
+
+    // Same warnings as the clan card
+    const warnings: string[] = []
+    const outPlayers = players.filter(p => availability[p.playerTag]?.status === 'out')
+    if (outPlayers.length > 0) {
+      warnings.push(`Signed up as out: ${outPlayers.map(p => p.playerName).join(', ')}`)
+    }
+    const lineupSize = Math.min(rows.length, maxCapacity)
+    const shortDays = WAR_DAYS.filter(day =>
+      players.filter(p => isAvailableOnDay(availability[p.playerTag], day)).length + manualPlayers.length < lineupSize
+    )
+    if (shortDays.length > 0) {
+      warnings.push(`Fewer than ${lineupSize} players available on war days ${formatDays(shortDays)}`)
+    }
+
+    result.push({
+      clan,
+      rosterMode,
+      maxCapacity,
+      players: rows,
+      stats: getClanRosterStats(players, manualPlayers, availability),
+      thDistribution: [...thCounts.entries()].sort((a, b) => b[0] - a[0]).map(([th, count]) => ({ th, count })),
+      warnings,
+      promotionOdds,
+    })
+  }
+
+  return result
+}
+
+export function formatLeagueAdjustment(adjustment: number | null): string {
+  if (adjustment === null) return 'N/A'
+  return adjustment !== 0 ? `${adjustment > 0 ? '+' : ''}${adjustment.toFixed(0)}%` : '0%'
+}
+
+function formatOdds(odds: PromotionOdds): string {
+  const pct = (share: number) => `${(share * 100).toFixed(0)}%`
+  return `Promotion ${pct(odds.promotion)} / Stay ${pct(odds.stay)} / Relegation ${pct(odds.relegation)}`
+}
+
+function getAccentHex(clan: CustomClan): string {
+  return Object.values(CLAN_ACCENTS).find(accent => accent.text === clan.color)?.hex ?? '#888888'
+}
+
+export interface RosterExportMeta {
+  familyName: string
+  season: string       // Season being planned
+  generatedAt: Date
+}
+
+// --- Excel workbook ---
+
+const SHEET_NAME_MAX = 31
+
+/**
+ * Excel sheet names: at most 31 characters, none of \ / * ? : [ ], unique in the workbook
+ */
+function getSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\\/*?:[\]]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, SHEET_NAME_MAX) || 'Clan'
+  let sheetName = base
+  for (let i = 2; used.has(sheetName.toLowerCase()); i++) {
+    const suffix = ` (${i})`
+    sheetName = base.slice(0, SHEET_NAME_MAX - suffix.length) + suffix
+  }
+  used.add(sheetName.toLowerCase())
+  return sheetName
+}
+
+/**
+ * Workbook with a summary sheet and one roster sheet per clan
+ */
+export async function buildRosterWorkbook(clans: RosterExportClan[], meta: RosterExportMeta): Promise<Blob> {
+  const ExcelJS = (await import('exceljs')).default
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = meta.familyName
+  workbook.created = meta.generatedAt
+
+  const usedNames = new Set<string>()
+  const headerStyle = (row: Row) => {
+    row.font = { bold: true }
+    row.eachCell(cell => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE5E7EB' } }
+    })
+  }
+
+  const summary = workbook.addWorksheet(getSheetName('Summary', usedNames))
+  summary.columns = [
+    { header: 'Clan', key: 'clan', width: 24 },
+    { header: 'Tag', key: 'tag', width: 14 },
+    { header: 'League', key: 'league', width: 20 },
+    { header: 'Mode', key: 'mode', width: 8 },
+    { header: 'Players', key: 'players', width: 9 },
+    { header: 'Substitutes', key: 'subs', width: 12 },
+    { header: 'Projected Stars', key: 'projectedStars', width: 16 },
+    { header: 'Avg TH', key: 'avgTH', width: 9 },
+    { header: 'Avg Reliability', key: 'reliability', width: 15 },
+    { header: 'Promotion %', key: 'promotion', width: 13 },
+    { header: 'Stay %', key: 'stay', width: 9 },
+    { header: 'Relegation %', key: 'relegation', width: 13 },
+    { header: 'Warnings', key: 'warnings', width: 60 },
+  ]
+  headerStyle(summary.getRow(1))
+  for (const c of clans) {
+    summary.addRow({
+      clan: c.clan.name,
+      tag: c.clan.tag,
+      league: c.clan.league,
+      mode: c.rosterMode,
+      players: c.players.length,
+      subs: c.players.filter(p => p.substitute).length,
+      projectedStars: Number(c.stats.projectedStars.toFixed(1)),
+      avgTH: Number(c.stats.avgTH.toFixed(1)),
+      reliability: Number(c.stats.avgReliability.toFixed(0)),
+      promotion: c.promotionOdds ? Math.round(c.promotionOdds.promotion * 100) : null,
+      stay: c.promotionOdds ? Math.round(c.promotionOdds.stay * 100) : null,
+      relegation: c.promotionOdds ? Math.round(c.promotionOdds.relegation * 100) : null,
+      warnings: c.warnings.join('; '),
+    })
+  }
+  summary.addRow({})
+  summary.addRow({ clan: `Season ${meta.season}`, tag: `Generated ${meta.generatedAt.toISOString().slice(0, 10)}` })
+  summary.views = [{ state: 'frozen', ySplit: 1 }]
+
+  for (const c of clans) {
+    const sheet = workbook.addWorksheet(getSheetName(c.clan.name, usedNames))
+    sheet.columns = [
+      { header: '#', key: 'index', width: 5 },
+      { header: 'Name', key: 'name', width: 22 },
+      { header: 'Tag', key: 'tag', width: 14 },
+      { header: 'Current Clan', key: 'currentClan', width: 20 },
+      { header: 'TH', key: 'th', width: 6 },
+      { header: 'Type', key: 'type', width: 10 },
+      { header: 'Substitute', key: 'substitute', width: 11 },
+      { header: 'Seasons', key: 'seasons', width: 9 },
+      { header: 'Wars', key: 'wars', width: 7 },
+      { header: 'Attacks', key: 'attacks', width: 9 },
+      { header: 'Missed Attacks', key: 'missedAttacks', width: 15 },
+      { header: 'Stars', key: 'stars', width: 7 },
+      { header: 'Avg Stars', key: 'avgStars', width: 10 },
+      { header: '3★ Rate %', key: 'threeStarRate', width: 10 },
+      { header: 'Reliability %', key: 'reliability', width: 13 },
+      { header: 'Form', key: 'form', width: 7 },
+      { header: 'Historical League', key: 'historicalLeague', width: 20 },
+      { header: 'League Adjustment', key: 'leagueAdjustment', width: 18 },
+      { header: 'Projected Stars (Base)', key: 'baseProjection', width: 21 },
+      { header: 'Projected Stars (Adjusted)', key: 'projectedStars', width: 25 },
+      { header: 'Availability', key: 'availability', width: 14 },
+      { header: 'Notes', key: 'notes', width: 40 },
+    ]
+    headerStyle(sheet.getRow(1))
+    c.players.forEach((p, i) => {
+      const row = sheet.addRow({
+        index: i + 1,
+        name: p.name,
+        tag: p.tag ?? 'N/A',
+        currentClan: p.currentClan ?? 'Manual Entry',
+        th: p.th,
+        type: p.type === 'manual' ? 'Manual' : 'DB Player',
+        substitute: p.substitute ? 'Yes' : 'No',
+        seasons: p.seasons,
+        wars: p.wars,
+        attacks: p.attacks,
+        missedAttacks: p.missedAttacks,
+        stars: p.stars,
+        avgStars: Number(p.avgStars.toFixed(2)),
+        threeStarRate: p.threeStarRate !== null ? Number(p.threeStarRate.toFixed(1)) : null,
+        reliability: p.reliability !== null ? Number(p.reliability.toFixed(0)) : null,
+        form: p.form !== null ? Number(p.form.toFixed(2)) : null,
+        historicalLeague: p.historicalLeague ?? 'N/A',
+        leagueAdjustment: formatLeagueAdjustment(p.leagueAdjustment),
+        baseProjection: Number(p.baseProjection.toFixed(1)),
+        projectedStars: Number(p.projectedStars.toFixed(1)),
+        availability: p.availability,
+        notes: p.notes,
+      })
+      if (p.substitute) row.font = { italic: true, color: { argb: 'FF6B7280' } }
+    })
+    sheet.views = [{ state: 'frozen', ySplit: 1 }]
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
+
+// --- PDF briefing pack ---
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]  // A4 in points
+const MARGIN = 40
+
+interface PdfColumn {
+  header: string
+  width: number
+  align?: 'right'
+  value: (p: RosterExportPlayer, index: number) => string
+}
+
+const PDF_COLUMNS: PdfColumn[] = [
+  { header: '#', width: 24, value: (p, i) => (p.substitute ? 'SUB' : String(i + 1)) },
+  { header: 'Name', width: 112, value: p => (p.type === 'manual' ? `${p.name} (manual)` : p.name) },
+  { header: 'TH', width: 24, align: 'right', value: p => (p.th ? String(p.th) : '-') },
+  { header: 'Avg', width: 32, align: 'right', value: p => p.avgStars.toFixed(2) },
+  { header: '3-star', width: 38, align: 'right', value: p => (p.threeStarRate !== null ? `${p.threeStarRate.toFixed(0)}%` : '-') },
+  { header: 'Rel.', width: 32, align: 'right', value: p => (p.reliability !== null ? `${p.reliability.toFixed(0)}%` : '-') },
+  { header: 'Proj.', width: 36, align: 'right', value: p => p.projectedStars.toFixed(1) },
+  { header: 'Adj.', width: 36, align: 'right', value: p => formatLeagueAdjustment(p.leagueAdjustment) },
+  { header: 'Availability', width: 70, value: p => p.availability || 'In' },
+  { header: 'Notes', width: 111, value: p => p.notes },
+]
+
+/**
+ * One-page-per-clan briefing: roster with projections, TH distribution, group odds
+ * and notes, after a cover page with the family overview. Long rosters continue on
+ * the next page.
+ */
+export async function buildRosterBriefingPdf(clans: RosterExportClan[], meta: RosterExportMeta): Promise<Blob> {
+  const { PDFDocument, StandardFonts, rgb } = await import('pdf-lib')
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`${meta.familyName} CWL briefing ${meta.season}`)
+  pdf.setCreator(meta.familyName)
+  pdf.setCreationDate(meta.generatedAt)
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  // The standard fonts only cover WinAnsi: letters outside it lose their accent (ą → a), anything else becomes ?
+  const charset = new Set(regular.getCharacterSet())
+  const supported = (char: string) => charset.has(char.codePointAt(0) ?? 0)
+  const clean = (text: string) => [...text.normalize('NFC')]
+    .map(char => {
+      if (supported(char)) return char
+      const base = char === 'ł' ? 'l' : char === 'Ł' ? 'L' : char.normalize('NFD').replace(/\p{M}/gu, '')
+      return base.length > 0 && [...base].every(supported) ? base : '?'
+    })
+    .join('')
+
+  const hexColor = (hex: string) => {
+    const n = parseInt(hex.replace('#', ''), 16)
+    return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255)
+  }
+  const textColor = rgb(0.1, 0.1, 0.12)
+  const mutedColor = rgb(0.42, 0.45, 0.5)
+  const lineColor = rgb(0.85, 0.87, 0.9)
+
+  const fit = (text: string, font: PDFFont, size: number, width: number) => {
+    let result = clean(text)
+    if (font.widthOfTextAtSize(result, size) <= width) return result
+    while (result.length > 0 && font.widthOfTextAtSize(`${result}…`, size) > width) result = result.slice(0, -1)
+    return `${result}…`
+  }
+
+  const draw = (page: PDFPage, text: string, x: number, y: number, options: { size?: number; font?: PDFFont; color?: RGB; width?: number; align?: 'right' } = {}) => {
+    const size = options.size ?? 9
+    const font = options.font ?? regular
+    const value = options.width !== undefined ? fit(text, font, size, options.width) : clean(text)
+    const offset = options.align === 'right' && options.width !== undefined ? options.width - font.widthOfTextAtSize(value, size) : 0
+    page.drawText(value, { x: x + offset, y, size, font, color: options.color ?? textColor })
+  }
+
+  const [pageWidth, pageHeight] = PAGE_SIZE
+  const contentWidth = pageWidth - MARGIN * 2
+
+  // Cover: the whole family at a glance
+  const cover = pdf.addPage(PAGE_SIZE)
+  let y = pageHeight - MARGIN - 10
+  draw(cover, `${meta.familyName} - CWL briefing`, MARGIN, y, { size: 22, font: bold })
+  y -= 22
+  draw(cover, `Season ${meta.season} · generated ${meta.generatedAt.toISOString().slice(0, 10)}`, MARGIN, y, { size: 11, color: mutedColor })
+  y -= 36
+
+  const coverColumns = [
+    { header: 'Clan', width: 150 },
+    { header: 'League', width: 110 },
+    { header: 'Players', width: 50, align: 'right' as const },
+    { header: 'Proj. stars', width: 60, align: 'right' as const },
+    { header: 'Avg TH', width: 45, align: 'right' as const },
+    { header: 'Promo / Releg.', width: 100, align: 'right' as const },
+  ]
+  let x = MARGIN
+  for (const col of coverColumns) {
+    draw(cover, col.header, x, y, { font: bold, width: col.width, align: col.align })
+    x += col.width
+  }
+  y -= 6
+  cover.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + contentWidth, y }, thickness: 0.5, color: lineColor })
+  y -= 14
+  for (const c of clans) {
+    const values = [
+      c.clan.name,
+      c.clan.league,
+      `${Math.min(c.players.length, c.maxCapacity)}/${c.maxCapacity}`,
+      c.stats.projectedStars.toFixed(0),
+      c.stats.avgTH.toFixed(1),
+      c.promotionOdds
+        ? `${(c.promotionOdds.promotion * 100).toFixed(0)}% / ${(c.promotionOdds.relegation * 100).toFixed(0)}%`
+        : '-',
+    ]
+    cover.drawRectangle({ x: MARGIN, y: y - 3, width: 3, height: 12, color: hexColor(getAccentHex(c.clan)) })
+    x = MARGIN
+    values.forEach((value, i) => {
+      draw(cover, value, x + (i === 0 ? 8 : 0), y, { width: coverColumns[i].width - (i === 0 ? 8 : 0), align: coverColumns[i].align })
+      x += coverColumns[i].width
+    })
+    y -= 18
+  }
+
+  // One briefing per clan
+  for (const c of clans) {
+    let page = pdf.addPage(PAGE_SIZE)
+    const accent = hexColor(getAccentHex(c.clan))
+    y = pageHeight - MARGIN
+
+    page.drawRectangle({ x: 0, y: pageHeight - 8, width: pageWidth, height: 8, color: accent })
+    draw(page, c.clan.name, MARGIN, y - 10, { size: 20, font: bold })
+    draw(page, `${c.clan.league} · Min TH${c.clan.minTH} · ${c.rosterMode}`, MARGIN, y - 26, { size: 10, color: mutedColor })
+    draw(page, `Season ${meta.season}`, MARGIN, y - 10, { size: 10, color: mutedColor, width: contentWidth, align: 'right' })
+    y -= 56
+
+    // Key numbers
+    const subs = c.players.filter(p => p.substitute).length
+    const boxes = [
+      { label: 'Players', value: `${c.players.length - subs}/${c.maxCapacity}${subs > 0 ? ` +${subs}` : ''}` },
+      { label: 'Projected stars', value: c.stats.projectedStars.toFixed(0) },
+      { label: 'Avg TH', value: c.stats.avgTH.toFixed(1) },
+      { label: 'Reliability', value: `${c.stats.avgReliability.toFixed(0)}%` },
+    ]
+    const boxWidth = contentWidth / boxes.length
+    boxes.forEach((box, i) => {
+      draw(page, box.label, MARGIN + i * boxWidth, y, { size: 8, color: mutedColor })
+      draw(page, box.value, MARGIN + i * boxWidth, y - 16, { size: 14, font: bold })
+    })
+    y -= 34
+    if (c.promotionOdds) {
+      draw(page, `Group odds: ${formatOdds(c.promotionOdds)} · expected position ${c.promotionOdds.expectedPosition.toFixed(1)}`, MARGIN, y, { size: 9 })
+      y -= 16
+    }
+
+    // TH distribution
+    draw(page, 'TH distribution', MARGIN, y, { size: 10, font: bold })
+    y -= 14
+    const maxCount = Math.max(1, ...c.thDistribution.map(d => d.count))
+    for (const { th, count } of c.thDistribution) {
+      draw(page, `TH${th}`, MARGIN, y, { size: 8 })
+      page.drawRectangle({ x: MARGIN + 32, y: y - 1, width: (count / maxCount) * 160, height: 8, color: accent, opacity: 0.8 })
+      draw(page, String(count), MARGIN + 198, y, { size: 8 })
+      y -= 11
+    }
+    y -= 10
+
+    // Roster table, repeated header on continuation pages
+    const drawTableHeader = () => {
+      let colX = MARGIN
+      for (const col of PDF_COLUMNS) {
+        draw(page, col.header, colX, y, { size: 8, font: bold, width: col.width - 4, align: col.align })
+        colX += col.width
+      }
+      y -= 5
+      page.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + contentWidth, y }, thickness: 0.5, color: lineColor })
+      y -= 11
+    }
+    draw(page, 'Roster', MARGIN, y, { size: 10, font: bold })
+    y -= 16
+    drawTableHeader()
+
+    c.players.forEach((p, i) => {
+      if (y < MARGIN + 20) {
+        page = pdf.addPage(PAGE_SIZE)
+        y = pageHeight - MARGIN
+        draw(page, `${c.clan.name} (continued)`, MARGIN, y, { size: 12, font: bold })
+        y -= 22
+        drawTableHeader()
+      }
+      if (i % 2 === 1) {
+        page.drawRectangle({ x: MARGIN, y: y - 3, width: contentWidth, height: 12, color: rgb(0.96, 0.97, 0.98) })
+      }
+      let colX = MARGIN
+      for (const col of PDF_COLUMNS) {
+        draw(page, col.value(p, i), colX, y, {
+          size: 8,
+          width: col.width - 4,
+          align: col.align,
+          color: p.substitute ? mutedColor : textColor,
+        })
+        colX += col.width
+      }
+      y -= 12
+    })
+
+    // Notes: roster warnings, then what players wrote on their sign-ups
+    const notes = [
+      ...c.warnings,
+      ...c.players.filter(p => p.notes).map(p => `${p.name}: ${p.notes}`),
+    ]
+    if (notes.length > 0) {
+      y -= 10
+      if (y < MARGIN + 40) {
+        page = pdf.addPage(PAGE_SIZE)
+        y = pageHeight - MARGIN
+      }
+      draw(page, 'Notes', MARGIN, y, { size: 10, font: bold })
+      y -= 14
+      for (const note of notes) {
+        if (y < MARGIN + 10) {
+          page = pdf.addPage(PAGE_SIZE)
+          y = pageHeight - MARGIN
+        }
+        draw(page, `- ${note}`, MARGIN, y, { size: 8, width: contentWidth })
+        y -= 11
+      }
+    }
+  }
+
+  // Page numbers
+  const pages = pdf.getPages()
+  pages.forEach((p, i) => {
+    draw(p, `${meta.familyName} · ${i + 1}/${pages.length}`, MARGIN, MARGIN / 2, { size: 7, color: mutedColor, width: contentWidth, align: 'right' })
+  })
+
+  const bytes = await pdf.save()
+  return new Blob([bytes as BlobPart], { type: 'application/pdf' })
+}
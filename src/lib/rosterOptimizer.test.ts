@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  DEFAULT_OPTIMIZER_CONSTRAINTS,
+  optimizeRosters,
+  type OptimizerClan,
+  type RosterOptimizerResult,
+} from './rosterOptimizer'
+import type { OptimizerReason, RosterOptimizerConstraints, RosterPlayerStats } from './types'
+
+function player(tag: string, avgStars: number, currentTH = 16): RosterPlayerStats {
+  return {
+    playerTag: tag,
+    playerName: tag,
+    clanTag: '#HOME',
+    clanName: 'Home',
+    currentTH,
+    seasonsPlayed: 3,
+    totalWars: 21,
+    totalAttacks: 21,
+    totalStars: Math.round(avgStars * 21),
+    avgStars,
+    threeStarRate: 0,
+    reliabilityScore: 50,
+  }
+}
+
+function clan(tag: string, capacity: number, options: Partial<OptimizerClan> = {}): OptimizerClan {
+  return { tag, league: 'Master League I', minTH: 0, locked: false, capacity, mainSlots: capacity, ...options }
+}
+
+function optimize(
+  players: RosterPlayerStats[],
+  clans: OptimizerClan[],
+  constraints: Partial<RosterOptimizerConstraints> = {},
+  lockedRosters = new Map<string, Set<string>>()
+): RosterOptimizerResult {
+  return optimizeRosters({
+    players,
+    clans,
+    lockedRosters,
+    constraints: { ...DEFAULT_OPTIMIZER_CONSTRAINTS, ...constraints },
+  })
+}
+
+const rosterOf = (result: RosterOptimizerResult, clanTag: string) => [...(result.rosters.get(clanTag) ?? [])].sort()
+
+const reasonsOf = (result: RosterOptimizerResult, playerTag: string): OptimizerReason[] =>
+  result.placements.get(playerTag)?.reasons ?? []
+
+describe('optimizeRosters', () => {
+  it('keeps players below a clan\'s minimum TH out of it', () => {
+    const result = optimize(
+      [player('#P1', 3, 15), player('#P2', 1), player('#P3', 0.5)],
+      [clan('#A', 2, { minTH: 16 }), clan('#B', 2)]
+    )
+
+    assert.deepEqual(rosterOf(result, '#A'), ['#P2', '#P3'])
+    assert.deepEqual(rosterOf(result, '#B'), ['#P1'])
+    assert.ok(reasonsOf(result, '#P1').some(r => r.type === 'thBelowMin' && r.clanTag === '#A' && r.minTH === 16))
+  })
+
+  it('leaves locked clans and their rosters alone', () => {
+    const result = optimize(
+      [player('#L1', 0.5), player('#P1', 3), player('#P2', 2)],
+      [clan('#A', 2, { locked: true }), clan('#B', 2)],
+      {},
+      new Map([['#A', new Set(['#L1'])]])
+    )
+
+    assert.equal(result.rosters.has('#A'), false)
+    assert.deepEqual(rosterOf(result, '#B'), ['#P1', '#P2'])
+    assert.equal(result.placements.has('#L1'), false)
+    assert.ok(reasonsOf(result, '#P1').some(r => r.type === 'clanLocked' && r.clanTag === '#A'))
+  })
+
+  it('fills main slots first, then subs, and benches the rest', () => {
+    const result = optimize(
+      [player('#P1', 3), player('#P2', 2), player('#P3', 1), player('#P4', 0.5)],
+      [clan('#A', 3, { mainSlots: 2 })]
+    )
+
+    assert.deepEqual(rosterOf(result, '#A'), ['#P1', '#P2', '#P3'])
+    const slotOf = (tag: string) => reasonsOf(result, tag).find(r => r.type === 'projection')
+    assert.deepEqual(slotOf('#P2'), { type: 'projection', stars: 14, adjustment: 0, slot: 'main' })
+    assert.deepEqual(slotOf('#P3'), { type: 'projection', stars: 7, adjustment: 0, slot: 'sub' })
+    assert.equal(result.placements.get('#P4')?.clanTag, null)
+    assert.ok(reasonsOf(result, '#P4').some(r => r.type === 'noSlot'))
+    assert.equal(result.projectedStars, 42)
+  })
+
+  it('keeps a pair together when splitting it costs more than the stars lost', () => {
+    const players = [player('#P1', 3), player('#P2', 2.9), player('#P3', 1), player('#P4', 0.9)]
+    const clans = [clan('#A', 2), clan('#B', 2)]
+
+    const free = optimize(players, clans)
+    assert.deepEqual(rosterOf(free, '#A'), ['#P1', '#P2'])
+
+    // Reuniting them loses less than 1.5 stars, less than the 3-star penalty
+    const result = optimize(players, clans, { keepTogether: [['#P1', '#P3']] })
+    const clanOf = (tag: string) => result.placements.get(tag)?.clanTag
+    assert.notEqual(clanOf('#P1'), null)
+    assert.equal(clanOf('#P1'), clanOf('#P3'))
+    assert.ok(reasonsOf(result, '#P3').some(r => r.type === 'keptWith' && r.playerTag === '#P1'))
+    assert.equal(result.unmetConstraints, 0)
+  })
+
+  it('reports a split pair when keeping it together costs too much', () => {
+    // #P3 can't join #A and #B has one slot, so the pair could only meet on the bench
+    const result = optimize(
+      [player('#P1', 3), player('#P3', 1, 15)],
+      [clan('#A', 1, { minTH: 16 }), clan('#B', 1)],
+      { keepTogether: [['#P1', '#P3']] }
+    )
+
+    assert.deepEqual(rosterOf(result, '#A'), ['#P1'])
+    assert.deepEqual(rosterOf(result, '#B'), ['#P3'])
+    assert.ok(reasonsOf(result, '#P1').some(r => r.type === 'separatedFrom' && r.playerTag === '#P3'))
+    assert.equal(result.unmetConstraints, 1)
+  })
+
+  it('moves a player to their preferred clan when it costs fewer stars than the penalty', () => {
+    const result = optimize(
+      [player('#P1', 3), player('#P2', 2), player('#P3', 1)],
+      [clan('#A', 2), clan('#B', 2)],
+      { preferredClans: { '#P2': '#B' } }
+    )
+
+    assert.deepEqual(rosterOf(result, '#A'), ['#P1', '#P3'])
+    assert.deepEqual(rosterOf(result, '#B'), ['#P2'])
+    assert.ok(reasonsOf(result, '#P2').some(r => r.type === 'preferred' && r.clanTag === '#B'))
+  })
+
+  it('ignores a preference the player isn\'t eligible for', () => {
+    const result = optimize(
+      [player('#P1', 3, 15), player('#P2', 2)],
+      [clan('#A', 2, { minTH: 16 }), clan('#B', 2)],
+      { preferredClans: { '#P1': '#A' } }
+    )
+
+    assert.deepEqual(rosterOf(result, '#B'), ['#P1'])
+    assert.ok(reasonsOf(result, '#P1').some(r => r.type === 'preferenceIgnored' && r.clanTag === '#A'))
+    assert.equal(result.unmetConstraints, 1)
+  })
+
+  it('doesn\'t call two benched players kept together', () => {
+    const result = optimize(
+      [player('#P1', 3), player('#P2', 2), player('#P3', 1)],
+      [clan('#A', 1)],
+      { keepTogether: [['#P2', '#P3']] }
+    )
+
+    assert.deepEqual(rosterOf(result, '#A'), ['#P1'])
+    for (const tag of ['#P2', '#P3']) {
+      assert.equal(result.placements.get(tag)?.clanTag, null)
+      assert.ok(!reasonsOf(result, tag).some(r => r.type === 'keptWith'))
+    }
+  })
+})
@@ -0,0 +1,404 @@
+import { ATTACKS_PER_SEASON, calculatePlayerScore, getLeagueAdjustedProjection } from './rosterCalculations'
+import type {
+  LeagueProjection,
+  OptimizerPlacement,
+  OptimizerReason,
+  RosterOptimizerConstraints,
+  RosterPlayerStats,
+} from './types'
+
+/**
+ * Roster optimizer for the multi-clan roster builder.
+ *
+ * Maximizes the league-adjusted projected stars (getLeagueAdjustedProjection)
+ * of all clans together:
+ * 1. Hard constraints (min TH, locked clans, capacity incl. subs) are solved
+ *    exactly as an assignment problem of players to roster slots (Hungarian method)
+ * 2. A local search (moves, swaps, moving pairs) then trades stars against the
+ *    soft constraints, each of which costs a fixed number of stars when broken
+ *
+ * Projections use the league history of the selected season window
+ * (`RosterPlayerStats.leagueData`), so no player history has to be fetched.
+ * Players signed up for only some war days project stars for those days only.
+ */
+
+/**
+ * Objective weights, in projected stars
+ */
+export const OPTIMIZER_WEIGHTS = {
+  SUB_SLOT: 0.25,         // A substitute plays about one war in four
+  CLAN_DECAY: 0.9,        // Each next (weaker) clan's stars count 10% less, so the main clan is filled first
+  TIE_BREAK: 0.1,         // calculatePlayerScore (0-1) separates players with equal projections
+  KEEP_TOGETHER: 3,       // Penalty for splitting a "keep together" pair
+  PREFERRED_CLAN: 2,      // Penalty for placing a player outside their preferred clan
+  MISSING_RELIABLE: 4,    // Penalty per reliable player a clan is short of
+} as const
+
+/**
+ * Reliability score from which a player counts towards minReliablePerClan
+ * (yellow badge or better)
+ */
+export const RELIABLE_THRESHOLD = 75
+
+export const DEFAULT_OPTIMIZER_CONSTRAINTS: RosterOptimizerConstraints = {
+  keepTogether: [],
+  preferredClans: {},
+  minReliablePerClan: 0,
+}
+
+const MAX_PASSES = 50
+const EPSILON = 1e-9
+// Cost of an impossible slot; a free bench column always beats it
+const INELIGIBLE_COST = 1e6
+
+export interface OptimizerClan {
+  tag: string
+  league: string
+  minTH: number
+  locked: boolean
+  capacity: number   // Free slots incl. subs, after manual players
+  mainSlots: number  // Free main-roster slots, after manual players
+}
+
+export interface RosterOptimizerInput {
+  players: RosterPlayerStats[]                 // Pool without excluded and manually added players
+  clans: OptimizerClan[]                       // Strongest first, locked clans included
+  lockedRosters: Map<string, Set<string>>      // Current rosters of the locked clans
+  constraints: RosterOptimizerConstraints
+  availableWars?: Map<string, number>          // Partial sign-ups; players not listed play every war
+}
+
+export interface RosterOptimizerResult {
+  rosters: Map<string, Set<string>>            // New rosters of the unlocked clans
+  placements: Map<string, OptimizerPlacement>
+  projectedStars: number                       // League-adjusted projection of every placed player
+  unmetConstraints: number                     // Soft constraints the optimizer had to break
+}
+
+interface Candidate {
+  player: RosterPlayerStats
+  reliable: boolean
+  projections: (LeagueProjection | null)[]     // Per clan; null = not eligible
+  values: (number | null)[]                    // Weighted objective value per clan
+}
+
+// One side of a "keep together" pair: a candidate, or a player fixed in a locked clan
+type PairEnd = { candidate: number } | { clan: number }
+
+/**
+ * Solve a min-cost assignment of rows to columns (rows ≤ columns).
+ * Returns the column of each row.
+ */
+function solveAssignment(cost: number[][], columns: number): number[] {
+  const rows = cost.length
+  const u = new Array<number>(rows + 1).fill(0)
+  const v = new Array<number>(columns + 1).fill(0)
+  const owner = new Array<number>(columns + 1).fill(0)
+  const way = new Array<number>(columns + 1).fill(0)
+
+  for (let i = 1; i <= rows; i++) {
+    owner[0] = i
+    let j0 = 0
+    const minv = new Array<number>(columns + 1).fill(Infinity)
+    const used = new Array<boolean>(columns + 1).fill(false)
+
+    do {
+      used[j0] = true
+      const i0 = owner[j0]
+      let delta = Infinity
+      let j1 = 0
+      for (let j = 1; j <= columns; j++) {
+        if (used[j]) continue
+        const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j]
+        if (reduced < minv[j]) {
+          minv[j] = reduced
+          way[j] = j0
+        }
+        if (minv[j] < delta) {
+          delta = minv[j]
+          j1 = j
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (used[j]) {
+          u[owner[j]] += delta
+          v[j] -= delta
+        } else {
+          minv[j] -= delta
+        }
+      }
+      j0 = j1
+    } while (owner[j0] !== 0)
+
+    do {
+      const j1 = way[j0]
+      owner[j0] = owner[j1]
+      j0 = j1
+    } while (j0 !== 0)
+  }
+
+  const assignment = new Array<number>(rows).fill(-1)
+  for (let j = 1; j <= columns; j++) {
+    if (owner[j] > 0) assignment[owner[j] - 1] = j - 1
+  }
+  return assignment
+}
+
+/**
+ * Distribute the player pool over the unlocked clans.
+ */
+export function optimizeRosters({ players, clans, lockedRosters, constraints, availableWars }: RosterOptimizerInput): RosterOptimizerResult {
+  const fixedClan = new Map<string, number>()
+  clans.forEach((clan, ci) => {
+    if (!clan.locked) return
+    lockedRosters.get(clan.tag)?.forEach(tag => fixedClan.set(tag, ci))
+  })
+
+  const candidates: Candidate[] = players
+    .filter(p => !fixedClan.has(p.playerTag))
+    .map(player => {
+      const leagueSeasons = player.leagueData?.map(d => ({ leagueTier: d.tier }))
+      const tieBreak = calculatePlayerScore(player) * OPTIMIZER_WEIGHTS.TIE_BREAK
+      const wars = availableWars?.get(player.playerTag) ?? ATTACKS_PER_SEASON
+      const projections = clans.map(clan => {
+        if (clan.locked || (player.currentTH || 0) < clan.minTH) return null
+        const projection = getLeagueAdjustedProjection(player, clan.league, leagueSeasons)
+        return wars < ATTACKS_PER_SEASON
+          ? { ...projection, projectedStars: projection.projectedStars * wars / ATTACKS_PER_SEASON }
+          : projection
+      })
+      return {
+        player,
+        reliable: player.reliabilityScore >= RELIABLE_THRESHOLD,
+        projections,
+        values: projections.map((projection, ci) =>
+          projection
+            ? (projection.projectedStars + tieBreak) * Math.pow(OPTIMIZER_WEIGHTS.CLAN_DECAY, ci)
+            : null
+        ),
+      }
+    })
+
+  const indexByTag = new Map(candidates.map((c, i) => [c.player.playerTag, i]))
+  const clanIndexByTag = new Map(clans.map((clan, ci) => [clan.tag, ci]))
+  const openClans = clans.map((_, ci) => ci).filter(ci => !clans[ci].locked)
+
+  const toPairEnd = (tag: string): PairEnd | null => {
+    const candidate = indexByTag.get(tag)
+    if (candidate !== undefined) return { candidate }
+    const clan = fixedClan.get(tag)
+    return clan !== undefined ? { clan } : null
+  }
+  const pairs = constraints.keepTogether
+    .map(([a, b]) => [toPairEnd(a), toPairEnd(b)] as const)
+    .filter((pair): pair is readonly [PairEnd, PairEnd] => !!pair[0] && !!pair[1] && ('candidate' in pair[0] || 'candidate' in pair[1]))
+  const preferences = Object.entries(constraints.preferredClans)
+    .map(([tag, clanTag]) => ({ candidate: indexByTag.get(tag), clan: clanIndexByTag.get(clanTag) }))
+    .filter((pref): pref is { candidate: number; clan: number } => pref.candidate !== undefined && pref.clan !== undefined)
+
+  // --- Step 1: exact assignment for the hard constraints ---
+  const slots: { clan: number; weight: number }[] = []
+  for (const ci of openClans) {
+    const clan = clans[ci]
+    for (let k = 0; k < clan.capacity; k++) {
+      slots.push({ clan: ci, weight: k < clan.mainSlots ? 1 : OPTIMIZER_WEIGHTS.SUB_SLOT })
+    }
+  }
+  // One bench column per player keeps every row assignable
+  const columns = slots.length + candidates.length
+  const cost = candidates.map(c => {
+    const row = new Array<number>(columns).fill(0)
+    slots.forEach((slot, j) => {
+      const value = c.values[slot.clan]
+      row[j] = value === null ? INELIGIBLE_COST : -value * slot.weight
+    })
+    return row
+  })
+  const assign = solveAssignment(cost, columns).map(j => (j >= 0 && j < slots.length ? slots[j].clan : -1))
+
+  // --- Step 2: local search over the soft constraints ---
+  const sideOf = (end: PairEnd) => ('candidate' in end ? assign[end.candidate] : end.clan)
+
+  const evaluate = (): number => {
+    let total = 0
+    const members = new Map<number, number[]>()
+    const reliableCount = new Map<number, number>()
+    assign.forEach((ci, i) => {
+      if (ci < 0) return
+      const value = candidates[i].values[ci]
+      if (value === null) return
+      const list = members.get(ci)
+      if (list) list.push(value)
+      else members.set(ci, [value])
+      if (candidates[i].reliable) reliableCount.set(ci, (reliableCount.get(ci) || 0) + 1)
+    })
+    for (const ci of openClans) {
+      const values = (members.get(ci) || []).sort((a, b) => b - a)
+      values.forEach((value, k) => {
+        total += k < clans[ci].mainSlots ? value : value * OPTIMIZER_WEIGHTS.SUB_SLOT
+      })
+      total -= Math.max(0, constraints.minReliablePerClan - (reliableCount.get(ci) || 0)) * OPTIMIZER_WEIGHTS.MISSING_RELIABLE
+    }
+    for (const [a, b] of pairs) {
+      if (sideOf(a) !== sideOf(b)) total -= OPTIMIZER_WEIGHTS.KEEP_TOGETHER
+    }
+    for (const pref of preferences) {
+      if (assign[pref.candidate] !== pref.clan) total -= OPTIMIZER_WEIGHTS.PREFERRED_CLAN
+    }
+    return total
+  }
+
+  const counts = new Map<number, number>(openClans.map(ci => [ci, 0]))
+  assign.forEach(ci => {
+    if (ci >= 0) counts.set(ci, (counts.get(ci) || 0) + 1)
+  })
+  const fits = (i: number, ci: number) => ci < 0 || candidates[i].values[ci] !== null
+  const setClan = (i: number, ci: number) => {
+    const from = assign[i]
+    if (from >= 0) counts.set(from, (counts.get(from) || 0) - 1)
+    if (ci >= 0) counts.set(ci, (counts.get(ci) || 0) + 1)
+    assign[i] = ci
+  }
+  const hasRoom = (ci: number, needed: number) => ci < 0 || (counts.get(ci) || 0) + needed <= clans[ci].capacity
+
+  let current = evaluate()
+  // Keeps a change when it improves the objective, otherwise undoes it
+  const tryChange = (changes: [number, number][]): boolean => {
+    const previous = changes.map(([i]) => [i, assign[i]] as [number, number])
+    changes.forEach(([i, ci]) => setClan(i, ci))
+    const score = evaluate()
+    if (score > current + EPSILON) {
+      current = score
+      return true
+    }
+    previous.forEach(([i, ci]) => setClan(i, ci))
+    return false
+  }
+
+  const targets = [-1, ...openClans]
+  let improved = true
+  for (let pass = 0; improved && pass < MAX_PASSES; pass++) {
+    improved = false
+
+    for (let i = 0; i < candidates.length; i++) {
+      for (const ci of targets) {
+        if (ci === assign[i] || !fits(i, ci) || !hasRoom(ci, 1)) continue
+        if (tryChange([[i, ci]])) improved = true
+      }
+    }
+
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        const ci = assign[i]
+        const cj = assign[j]
+        if (ci === cj || !fits(i, cj) || !fits(j, ci)) continue
+        if (tryChange([[i, cj], [j, ci]])) improved = true
+      }
+    }
+
+    for (const [a, b] of pairs) {
+      if (!('candidate' in a) || !('candidate' in b)) continue
+      for (const ci of targets) {
+        const needed = (assign[a.candidate] === ci ? 0 : 1) + (assign[b.candidate] === ci ? 0 : 1)
+        if (needed === 0 || !fits(a.candidate, ci) || !fits(b.candidate, ci) || !hasRoom(ci, needed)) continue
+        if (tryChange([[a.candidate, ci], [b.candidate, ci]])) improved = true
+      }
+    }
+  }
+
+  // --- Results and explanations ---
+  const rosters = new Map<string, Set<string>>(openClans.map(ci => [clans[ci].tag, new Set<string>()]))
+  const rankedMembers = new Map<number, number[]>()
+  assign.forEach((ci, i) => {
+    if (ci < 0) return
+    rosters.get(clans[ci].tag)?.add(candidates[i].player.playerTag)
+    const list = rankedMembers.get(ci)
+    if (list) list.push(i)
+    else rankedMembers.set(ci, [i])
+  })
+  rankedMembers.forEach((list, ci) => list.sort((a, b) => (candidates[b].values[ci] ?? 0) - (candidates[a].values[ci] ?? 0)))
+
+  const projectionIn = (i: number, ci: number) => candidates[i].projections[ci]?.projectedStars ?? 0
+  const reliableIn = (ci: number) => (rankedMembers.get(ci) || []).filter(i => candidates[i].reliable).length
+
+  let projectedStars = 0
+  let unmetConstraints = 0
+  const placements = new Map<string, OptimizerPlacement>()
+
+  candidates.forEach((c, i) => {
+    const ci = assign[i]
+    const reasons: OptimizerReason[] = []
+
+    if (ci >= 0) {
+      const projection = c.projections[ci]
+      const rank = (rankedMembers.get(ci) || []).indexOf(i)
+      projectedStars += projection?.projectedStars ?? 0
+      reasons.push({
+        type: 'projection',
+        stars: projection?.projectedStars ?? 0,
+        adjustment: projection?.adjustment ?? 0,
+        slot: rank < clans[ci].mainSlots ? 'main' : 'sub',
+      })
+      const wars = availableWars?.get(c.player.playerTag)
+      if (wars !== undefined && wars < ATTACKS_PER_SEASON) {
+        reasons.push({ type: 'partialAvailability', wars })
+      }
+      if (c.reliable && constraints.minReliablePerClan > 0 && reliableIn(ci) <= constraints.minReliablePerClan) {
+        reasons.push({ type: 'reliableQuota', required: constraints.minReliablePerClan })
+      }
+    } else {
+      const eligible = openClans.some(oc => c.values[oc] !== null)
+      reasons.push({ type: eligible ? 'noSlot' : 'notEligible' })
+    }
+
+    const preferred = constraints.preferredClans[c.player.playerTag]
+    if (preferred && clanIndexByTag.has(preferred)) {
+      reasons.push({ type: ci >= 0 && clans[ci].tag === preferred ? 'preferred' : 'preferenceIgnored', clanTag: preferred })
+    }
+    for (const [a, b] of constraints.keepTogether) {
+      if (a !== c.player.playerTag && b !== c.player.playerTag) continue
+      const partner = a === c.player.playerTag ? b : a
+      const end = toPairEnd(partner)
+      if (!end) continue
+      const together = sideOf(end) === ci
+      // Two benched players weren't kept together, they both just missed out
+      if (together && ci < 0) continue
+      reasons.push({ type: together ? 'keptWith' : 'separatedFrom', playerTag: partner })
+    }
+
+    // Why not one of the stronger clans
+    const stronger = ci >= 0 ? clans.slice(0, ci) : clans
+    stronger.forEach((clan, sci) => {
+      if (clan.locked) {
+        reasons.push({ type: 'clanLocked', clanTag: clan.tag })
+      } else if (c.values[sci] === null) {
+        reasons.push({ type: 'thBelowMin', clanTag: clan.tag, minTH: clan.minTH })
+      } else {
+        const stars = projectionIn(i, sci)
+        const others = rankedMembers.get(sci) || []
+        const cutoff = others.length > 0 ? Math.min(...others.map(o => projectionIn(o, sci))) : null
+        reasons.push(cutoff !== null && stars <= cutoff && (counts.get(sci) || 0) >= clan.capacity
+          ? { type: 'outscored', clanTag: clan.tag, stars, cutoff }
+          : { type: 'familyTotal', clanTag: clan.tag, stars })
+      }
+    })
+
+    placements.set(c.player.playerTag, {
+      playerTag: c.player.playerTag,
+      clanTag: ci >= 0 ? clans[ci].tag : null,
+      reasons,
+    })
+  })
+
+  for (const [a, b] of pairs) {
+    if (sideOf(a) !== sideOf(b)) unmetConstraints++
+  }
+  for (const pref of preferences) {
+    if (assign[pref.candidate] !== pref.clan) unmetConstraints++
+  }
+  for (const ci of openClans) {
+    unmetConstraints += Math.max(0, constraints.minReliablePerClan - reliableIn(ci))
+  }
+
+  return { rosters, placements, projectedStars, unmetConstraints }
+}
@@ -0,0 +1,353 @@
+import { z } from 'zod'
+import { FAMILY } from './family'
+import type { CustomClan, ManualPlayerEntry, RosterMode, RosterPlan, RosterPlanFile } from './types'
+
+/**
+ * Roster builder plans outside localStorage: a versioned JSON file and a
+ * compact URL parameter, both restoring the full plan (rosters, locks,
+ * excluded players, guest clans, roster modes, manual players).
+ *
+ * The URL form drops everything that can be rebuilt (the `#` of tags, guest
+ * clan styling, 15v15 modes, manual entry timestamps), then deflates and
+ * base64url-encodes the JSON.
+ */
+
+export const ROSTER_PLAN_FORMAT = 'cwl-roster-plan'
+export const ROSTER_PLAN_VERSION = 1
+export const ROSTER_PLAN_PARAM = 'plan'
+
+export interface RosterPlanState {
+  clanRosters: Map<string, Set<string>>
+  lockedClans: Set<string>
+  excludedPlayers: Set<string>
+  customClans: CustomClan[]
+  clanRosterModes: Record<string, RosterMode>
+  manualPlayers: Record<string, ManualPlayerEntry[]>
+}
+
+export class RosterPlanError extends Error {
+  readonly reason: 'invalid' | 'version' | 'family'
+
+  constructor(reason: 'invalid' | 'version' | 'family', message: string) {
+    super(message)
+    this.name = 'RosterPlanError'
+    this.reason = reason
+  }
+}
+
+/**
+ * Guest clan entry with the default (orange) styling
+ */
+export function createCustomClan(name: string, tag: string): CustomClan {
+  return {
+    name,
+    tag: tag.startsWith('#') ? tag : `#${tag}`,
+    league: 'Custom',
+    minTH: 1,
+    color: 'text-orange-400',
+    bgColor: 'bg-orange-400/10',
+    borderColor: 'border-orange-400/30',
+    leagueIcon: '/images/leagues/unranked.png',
+    isCustom: true,
+  }
+}
+
+export function toRosterPlan(state: RosterPlanState): RosterPlan {
+  return {
+    clanRosters: Object.fromEntries(
+      Array.from(state.clanRosters.entries())
+        .filter(([, players]) => players.size > 0)
+        .map(([tag, players]) => [tag, Array.from(players)])
+    ),
+    lockedClans: Array.from(state.lockedClans),
+    excludedPlayers: Array.from(state.excludedPlayers),
+    customClans: state.customClans,
+    clanRosterModes: state.clanRosterModes,
+    manualPlayers: Object.fromEntries(
+      Object.entries(state.manualPlayers).filter(([, players]) => players.length > 0)
+    ),
+  }
+}
+
+export function fromRosterPlan(plan: RosterPlan): RosterPlanState {
+  return {
+    clanRosters: new Map(Object.entries(plan.clanRosters).map(([tag, players]) => [tag, new Set(players)])),
+    lockedClans: new Set(plan.lockedClans),
+    excludedPlayers: new Set(plan.excludedPlayers),
+    customClans: plan.customClans,
+    clanRosterModes: plan.clanRosterModes,
+    manualPlayers: plan.manualPlayers,
+  }
+}
+
+// --- JSON file ---
+
+const rosterMode = z.enum(['15v15', '30v30'])
+
+const CustomClanSchema: z.ZodType<CustomClan> = z.looseObject({
+  name: z.string(),
+  tag: z.string(),
+  league: z.string(),
+  minTH: z.number(),
+  color: z.string(),
+  bgColor: z.string(),
+  borderColor: z.string(),
+  leagueIcon: z.string(),
+  isCustom: z.boolean(),
+})
+
+const ManualPlayerEntrySchema: z.ZodType<ManualPlayerEntry> = z.looseObject({
+  name: z.string(),
+  tag: z.string().nullable(),
+  th: z.number(),
+  estimatedAvgStars: z.number(),
+  notes: z.string().optional(),
+  manualEntry: z.literal(true),
+  addedAt: z.string(),
+})
+
+export const RosterPlanSchema: z.ZodType<RosterPlan> = z.looseObject({
+  clanRosters: z.record(z.string(), z.array(z.string())),
+  lockedClans: z.array(z.string()),
+  excludedPlayers: z.array(z.string()),
+  customClans: z.array(CustomClanSchema),
+  clanRosterModes: z.record(z.string(), rosterMode),
+  manualPlayers: z.record(z.string(), z.array(ManualPlayerEntrySchema)),
+})
+
+const RosterPlanFileSchema: z.ZodType<RosterPlanFile> = z.looseObject({
+  format: z.literal(ROSTER_PLAN_FORMAT),
+  version: z.number(),
+  family: z.string(),
+  exportedAt: z.string(),
+  plan: RosterPlanSchema,
+})
+
+export function createRosterPlanFile(plan: RosterPlan): RosterPlanFile {
+  return {
+    format: ROSTER_PLAN_FORMAT,
+    version: ROSTER_PLAN_VERSION,
+    family: FAMILY.id,
+    exportedAt: new Date().toISOString(),
+    plan,
+  }
+}
+
+/**
+ * Validates an imported plan file; throws RosterPlanError
+ */
+export function parseRosterPlanFile(json: unknown): RosterPlan {
+  const header = z.looseObject({ format: z.literal(ROSTER_PLAN_FORMAT), version: z.number() }).safeParse(json)
+  if (!header.success) throw new RosterPlanError('invalid', 'Not a roster plan file')
+  if (header.data.version > ROSTER_PLAN_VERSION) {
+    throw new RosterPlanError('version', `Plan version ${header.data.version} is newer than supported (${ROSTER_PLAN_VERSION})`)
+  }
+
+  const result = RosterPlanFileSchema.safeParse(json)
+  if (!result.success) throw new RosterPlanError('invalid', result.error.issues[0]?.message ?? 'Invalid roster plan')
+  if (result.data.family !== FAMILY.id) {
+    throw new RosterPlanError('family', `Plan belongs to family "${result.data.family}"`)
+  }
+  return result.data.plan
+}
+
+// --- URL parameter ---
+
+type CompactManualPlayer = [name: string, tag: string | null, th: number, estimatedAvgStars: number, notes?: string]
+
+interface CompactRosterPlan {
+  v: number
+  f: string
+  r: Record<string, string[]>
+  l: string[]
+  x: string[]
+  c: [name: string, tag: string][]
+  m: string[]                                     // Clans in 30v30 mode
+  p: Record<string, CompactManualPlayer[]>
+}
+
+const CompactRosterPlanSchema: z.ZodType<CompactRosterPlan> = z.object({
+  v: z.number(),
+  f: z.string(),
+  r: z.record(z.string(), z.array(z.string())),
+  l: z.array(z.string()),
+  x: z.array(z.string()),
+  c: z.array(z.tuple([z.string(), z.string()])),
+  m: z.array(z.string()),
+  p: z.record(z.string(), z.array(z.tuple([z.string(), z.string().nullable(), z.number(), z.number(), z.string().optional()]))),
+})
+
+const stripHash = (tag: string) => tag.replace(/^#/, '')
+const addHash = (tag: string) => `#${tag}`
+
+function toCompact(plan: RosterPlan): CompactRosterPlan {
+  return {
+    v: ROSTER_PLAN_VERSION,
+    f: FAMILY.id,
+    r: Object.fromEntries(Object.entries(plan.clanRosters).map(([tag, players]) => [stripHash(tag), players.map(stripHash)])),
+    l: plan.lockedClans.map(stripHash),
+    x: plan.excludedPlayers.map(stripHash),
+    c: plan.customClans.map(clan => [clan.name, stripHash(clan.tag)]),
+    m: Object.entries(plan.clanRosterModes).filter(([, mode]) => mode === '30v30').map(([tag]) => stripHash(tag)),
+    p: Object.fromEntries(Object.entries(plan.manualPlayers).map(([tag, players]) => [
+      stripHash(tag),
+      players.map((p): CompactManualPlayer => {
+        const entry: CompactManualPlayer = [p.name, p.tag ? stripHash(p.tag) : null, p.th, p.estimatedAvgStars]
+        if (p.notes) entry.push(p.notes)
+        return entry
+      }),
+    ])),
+  }
+}
+
+function fromCompact(compact: CompactRosterPlan): RosterPlan {
+  // Manual entries are keyed by addedAt, so give each a distinct timestamp
+  const now = Date.now()
+  let manualIndex = 0
+
+  return {
+    clanRosters: Object.fromEntries(Object.entries(compact.r).map(([tag, players]) => [addHash(tag), players.map(addHash)])),
+    lockedClans: compact.l.map(addHash),
+    excludedPlayers: compact.x.map(addHash),
+    customClans: compact.c.map(([name, tag]) => createCustomClan(name, tag)),
+    clanRosterModes: Object.fromEntries(compact.m.map(tag => [addHash(tag), '30v30' as const])),
+    manualPlayers: Object.fromEntries(Object.entries(compact.p).map(([tag, players]) => [
+      addHash(tag),
+      players.map(([name, playerTag, th, estimatedAvgStars, notes]): ManualPlayerEntry => ({
+        name,
+        tag: playerTag ? addHash(playerTag) : null,
+        th,
+        estimatedAvgStars,
+        ...(notes ? { notes } : {}),
+        manualEntry: true,
+        addedAt: new Date(now + manualIndex++).toISOString(),
+      })),
+    ])),
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+export async function encodeRosterPlanParam(plan: RosterPlan): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(toCompact(plan)))
+  return toBase64Url(await transform(json, new CompressionStream('deflate-raw')))
+}
+
+/**
+ * Decodes a `?plan=` value; throws RosterPlanError
+ */
+export async function decodeRosterPlanParam(value: string): Promise<RosterPlan> {
+  let json: unknown
+  try {
+    const bytes = await transform(fromBase64Url(value), new DecompressionStream('deflate-raw'))
+    json = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    throw new RosterPlanError('invalid', 'Roster plan link is damaged')
+  }
+
+  const result = CompactRosterPlanSchema.safeParse(json)
+  if (!result.success) throw new RosterPlanError('invalid', result.error.issues[0]?.message ?? 'Invalid roster plan link')
+  if (result.data.v > ROSTER_PLAN_VERSION) {
+    throw new RosterPlanError('version', `Plan version ${result.data.v} is newer than supported (${ROSTER_PLAN_VERSION})`)
+  }
+  if (result.data.f !== FAMILY.id) throw new RosterPlanError('family', `Plan belongs to family "${result.data.f}"`)
+  return fromCompact(result.data)
+}
+
+// --- Diff ---
+
+export interface RosterPlanClanDiff {
+  clanTag: string
+  added: string[]          // Player tags
+  removed: string[]
+  manualAdded: string[]    // Manual player names
+  manualRemoved: string[]
+  mode: { from: RosterMode; to: RosterMode } | null
+  lock: { from: boolean; to: boolean } | null
+}
+
+export interface RosterPlanDiff {
+  clans: RosterPlanClanDiff[]   // Only clans that change
+  excludedAdded: string[]
+  excludedRemoved: string[]
+  customClansAdded: CustomClan[]
+  customClansRemoved: CustomClan[]
+  changes: number
+}
+
+function difference<T>(a: T[], b: T[]): T[] {
+  const other = new Set(b)
+  return a.filter(item => !other.has(item))
+}
+
+/**
+ * What applying `incoming` would change in `current`
+ */
+export function diffRosterPlans(current: RosterPlan, incoming: RosterPlan): RosterPlanDiff {
+  const clanTags = new Set([
+    ...Object.keys(current.clanRosters),
+    ...Object.keys(incoming.clanRosters),
+    ...Object.keys(current.manualPlayers),
+    ...Object.keys(incoming.manualPlayers),
+    ...Object.keys(current.clanRosterModes),
+    ...Object.keys(incoming.clanRosterModes),
+    ...current.lockedClans,
+    ...incoming.lockedClans,
+  ])
+  const manualKeys = (players: ManualPlayerEntry[] = []) => players.map(p => p.tag ?? p.name)
+  const manualName = (players: ManualPlayerEntry[] = [], key: string) =>
+    players.find(p => (p.tag ?? p.name) === key)?.name ?? key
+
+  const clans: RosterPlanClanDiff[] = []
+  for (const clanTag of clanTags) {
+    const before = current.clanRosters[clanTag] ?? []
+    const after = incoming.clanRosters[clanTag] ?? []
+    const manualBefore = current.manualPlayers[clanTag]
+    const manualAfter = incoming.manualPlayers[clanTag]
+    const modeFrom = current.clanRosterModes[clanTag] ?? '15v15'
+    const modeTo = incoming.clanRosterModes[clanTag] ?? '15v15'
+    const lockFrom = current.lockedClans.includes(clanTag)
+    const lockTo = incoming.lockedClans.includes(clanTag)
+
+    const diff: RosterPlanClanDiff = {
+      clanTag,
+      added: difference(after, before),
+      removed: difference(before, after),
+      manualAdded: difference(manualKeys(manualAfter), manualKeys(manualBefore)).map(key => manualName(manualAfter, key)),
+      manualRemoved: difference(manualKeys(manualBefore), manualKeys(manualAfter)).map(key => manualName(manualBefore, key)),
+      mode: modeFrom !== modeTo ? { from: modeFrom, to: modeTo } : null,
+      lock: lockFrom !== lockTo ? { from: lockFrom, to: lockTo } : null,
+    }
+    if (diff.added.length || diff.removed.length || diff.manualAdded.length || diff.manualRemoved.length || diff.mode || diff.lock) {
+      clans.push(diff)
+    }
+  }
+
+  const customBefore = current.customClans.map(c => c.tag)
+  const customAfter = incoming.customClans.map(c => c.tag)
+  const customClansAdded = incoming.customClans.filter(c => !customBefore.includes(c.tag))
+  const customClansRemoved = current.customClans.filter(c => !customAfter.includes(c.tag))
+  const excludedAdded = difference(incoming.excludedPlayers, current.excludedPlayers)
+  const excludedRemoved = difference(current.excludedPlayers, incoming.excludedPlayers)
+
+  const changes = clans.reduce((sum, c) =>
+    sum + c.added.length + c.removed.length + c.manualAdded.length + c.manualRemoved.length + (c.mode ? 1 : 0) + (c.lock ? 1 : 0), 0
+  ) + excludedAdded.length + excludedRemoved.length + customClansAdded.length + customClansRemoved.length
+
+  return { clans, excludedAdded, excludedRemoved, customClansAdded, customClansRemoved, changes }
+}
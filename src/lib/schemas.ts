@@ -0,0 +1,654 @@
+import { z } from 'zod'
+import type {
+  AttackTypeBreakdown,
+  AttackTypeStats,
+  ClanDetailFile,
+  ClanSummary,
+  ClutchStats,
+  DurationBucketStats,
+  ExpectedStarsModel,
+  ExpectedStarsStat,
+  FamilyData,
+  FamilyPlayer,
+  GlobalPlayer,
+  LeagueBaseline,
+  LeagueBaselines,
+  LeagueHistoryEntry,
+  LeagueInfo,
+  OpponentScoutingReport,
+  Player,
+  PlayerSeasonsIndex,
+  PostMortemFlipStep,
+  ReliabilityBreakdown,
+  ScoutingIndex,
+  ScoutingMember,
+  SeasonClan,
+  SeasonClanDetail,
+  SeasonClanSummary,
+  SeasonData,
+  SeasonFamilyData,
+  SeasonIndex,
+  SeasonRosterPlayer,
+  SeasonWar,
+  StarBuckets,
+  StarsAboveExpected,
+  WarAttack,
+  WarMemberSummary,
+  WarPostMortem,
+  WarTimeline,
+} from './types'
+
+/**
+ * Zod schemas for every JSON file the pipeline writes to `public/data/<family>/`.
+ *
+ * Each schema is annotated with the interface it mirrors in `./types`, so a
+ * field added to one but not the other fails the type-check. Objects are
+ * loose: unknown keys are kept, only missing or mistyped fields are errors.
+ *
+ * Used by `scripts/validate-data.ts` (fails `npm run generate` on drift) and
+ * by `./data` at runtime (bad files surface as DataValidationError).
+ */
+
+const performanceTrend = z.enum(['improving', 'stable', 'declining'])
+const warResult = z.enum(['win', 'loss', 'tie'])
+
+const BestSeasonSchema = z.looseObject({
+  season: z.string(),
+  stars: z.number(),
+  avgStars: z.number(),
+})
+
+export const LeagueInfoSchema: z.ZodType<LeagueInfo> = z.looseObject({
+  tier: z.string().nullable(),
+  group: z.number().nullable(),
+})
+
+export const StarBucketsSchema: z.ZodType<StarBuckets> = z.looseObject({
+  zeroStars: z.number(),
+  oneStars: z.number(),
+  twoStars: z.number(),
+  threeStars: z.number(),
+})
+
+export const ReliabilityBreakdownSchema: z.ZodType<ReliabilityBreakdown> = z.looseObject({
+  performance: z.number(),
+  attendance: z.number(),
+  leagueAdj: z.number(),
+  weighted: z.number(),
+  formula: z.string().optional(),
+})
+
+export const LeagueHistoryEntrySchema: z.ZodType<LeagueHistoryEntry> = z.looseObject({
+  leagueTier: z.string(),
+  seasonsPlayed: z.number(),
+  attacksInLeague: z.number(),
+})
+
+const AttackTypeStatsSchema: z.ZodType<AttackTypeStats> = z.looseObject({
+  attacks: z.number(),
+  stars: z.number(),
+  triples: z.number(),
+})
+
+export const AttackTypeBreakdownSchema: z.ZodType<AttackTypeBreakdown> = z.looseObject({
+  mirror: AttackTypeStatsSchema,
+  hitUp: AttackTypeStatsSchema,
+  hitDown: AttackTypeStatsSchema,
+  offMirror: AttackTypeStatsSchema,
+})
+
+const DurationBucketStatsSchema: z.ZodType<DurationBucketStats> = z.looseObject({
+  attacks: z.number(),
+  destruction: z.number(),
+  starCounts: z.array(z.number()),
+})
+
+const DurationBreakdownSchema = z.array(DurationBucketStatsSchema)
+
+const ClutchStatsSchema: z.ZodType<ClutchStats> = z.looseObject({
+  attacks: z.number(),
+  netStars: z.number(),
+  triples: z.number(),
+})
+
+// family.json
+export const ClanSummarySchema: z.ZodType<ClanSummary> = z.looseObject({
+  name: z.string(),
+  tag: z.string(),
+  rank: z.number(),
+  stars: z.number(),
+  destruction: z.number(),
+  attacks: z.number(),
+  wars: z.number().optional(),
+  warsWon: z.number().optional(),
+  warsLost: z.number().optional(),
+  warsTied: z.number().optional(),
+  playerCount: z.number().optional(),
+  winRate: z.number().optional(),
+  league: LeagueInfoSchema.nullable().optional(),
+})
+
+export const FamilyDataSchema: z.ZodType<FamilyData> = z.looseObject({
+  generatedAt: z.string(),
+  currentSeason: z.string().optional(),
+  totalPlayers: z.number(),
+  totalWars: z.number(),
+  totalStars: z.number(),
+  totalAttacks: z.number(),
+  clans: z.array(ClanSummarySchema),
+})
+
+// clans/<tag>.json
+export const PlayerSchema: z.ZodType<Player> = z.looseObject({
+  name: z.string(),
+  tag: z.string(),
+  th: z.number(),
+  wars: z.number(),
+  attacks: z.number(),
+  stars: z.number(),
+  avgStars: z.number().nullable(),
+  triples: z.number().optional(),
+  starBuckets: StarBucketsSchema.optional(),
+  threeStarRate: z.number().optional(),
+  reliabilityScore: z.number().optional(),
+  reliabilityBreakdown: ReliabilityBreakdownSchema.optional(),
+  missedAttacks: z.number().optional(),
+  timesAttacked: z.number().optional(),
+  starsAllowed: z.number().optional(),
+  avgStarsAllowed: z.number().optional(),
+  triplesAllowed: z.number().optional(),
+  defenseQuality: z.number().optional(),
+})
+
+export const ClanDetailFileSchema: z.ZodType<ClanDetailFile> = z.looseObject({
+  generatedAt: z.string(),
+  currentSeason: z.string().optional(),
+  clan: z.looseObject({
+    name: z.string(),
+    tag: z.string(),
+  }),
+  stats: z.looseObject({
+    wars: z.number(),
+    warsWon: z.number(),
+    warsLost: z.number(),
+    warsTied: z.number(),
+    stars: z.number(),
+    destruction: z.number(),
+    attacks: z.number(),
+    winRate: z.number(),
+  }),
+  players: z.array(PlayerSchema),
+})
+
+// players.json
+export const GlobalPlayerSchema: z.ZodType<GlobalPlayer> = z.looseObject({
+  name: z.string(),
+  tag: z.string(),
+  clan: z.string(),
+  clanTag: z.string(),
+  th: z.number().nullable(),
+  wars: z.number(),
+  stars: z.number(),
+  attacks: z.number(),
+  avgStars: z.number().nullable(),
+  destruction: z.number().optional(),
+  avgDestruction: z.number().optional(),
+  triples: z.number().optional(),
+  starBuckets: StarBucketsSchema.optional(),
+  threeStarRate: z.number().optional(),
+  reliabilityScore: z.number().optional(),
+  reliabilityBreakdown: ReliabilityBreakdownSchema.optional(),
+  missedAttacks: z.number().optional(),
+  bestSeason: BestSeasonSchema.optional(),
+  performanceTrend: performanceTrend.optional(),
+  timesAttacked: z.number().optional(),
+  starsAllowed: z.number().optional(),
+  avgStarsAllowed: z.number().optional(),
+  triplesAllowed: z.number().optional(),
+  defenseQuality: z.number().optional(),
+  primaryLeague: z.string().optional(),
+  leagueHistory: z.array(LeagueHistoryEntrySchema).optional(),
+  starsAboveExpected: z.number().optional(),
+  avgStarsAboveExpected: z.number().optional(),
+  attackTypes: AttackTypeBreakdownSchema.optional(),
+  netStars: z.number().optional(),
+  netStarRate: z.number().optional(),
+  clutch: ClutchStatsSchema.optional(),
+})
+
+export const GlobalPlayersSchema = z.array(GlobalPlayerSchema)
+
+// players-full.json
+export const FamilyPlayerSchema: z.ZodType<FamilyPlayer> = z.looseObject({
+  tag: z.string(),
+  name: z.string(),
+  th: z.number().nullable(),
+  clans: z.array(z.string()),
+  seasonsCount: z.number(),
+  totals: z.looseObject({
+    stars: z.number(),
+    attacks: z.number(),
+    wars: z.number(),
+    destruction: z.number(),
+    triples: z.number(),
+    missedAttacks: z.number(),
+    avgStars: z.number(),
+    avgDestruction: z.number(),
+    threeStarRate: z.number(),
+  }),
+  reliabilityScore: z.number(),
+  reliabilityBreakdown: ReliabilityBreakdownSchema,
+  starBuckets: StarBucketsSchema,
+  defense: z.looseObject({
+    timesAttacked: z.number(),
+    starsAllowed: z.number(),
+    triplesAllowed: z.number(),
+    avgStarsAllowed: z.number(),
+    defenseQuality: z.number(),
+  }),
+  lastLeague: z
+    .looseObject({
+      tier: z.string(),
+      id: z.number().optional(),
+      name: z.string().optional(),
+    })
+    .optional(),
+  primaryLeague: z.string().optional(),
+  leagueHistory: z.array(LeagueHistoryEntrySchema).optional(),
+  bestSeason: BestSeasonSchema.optional(),
+  performanceTrend: performanceTrend.optional(),
+  seasons: z.array(
+    z.looseObject({
+      season: z.string(),
+      clanTag: z.string(),
+      clanName: z.string(),
+      th: z.number().nullable(),
+      warsParticipated: z.number(),
+      attacks: z.number(),
+      stars: z.number(),
+      triples: z.number(),
+      avgStars: z.number(),
+      avgDestruction: z.number(),
+      starBuckets: StarBucketsSchema,
+      leagueTier: z.string().optional(),
+      leagueId: z.number().optional(),
+      leagueName: z.string().optional(),
+      reliabilityScore: z.number().optional(),
+      defenseQuality: z.number(),
+    })
+  ),
+})
+
+export const FamilyPlayersSchema = z.array(FamilyPlayerSchema)
+
+// player-seasons-index.json
+export const PlayerSeasonsIndexSchema: z.ZodType<PlayerSeasonsIndex> = z.record(
+  z.string(),
+  z.array(z.looseObject({ season: z.string(), clanTag: z.string() }))
+)
+
+// history/seasons.json and history/seasons/<season>/family.json
+export const SeasonClanSchema: z.ZodType<SeasonClan> = z.looseObject({
+  clanName: z.string().optional(),
+  name: z.string().optional(),
+  clanTag: z.string().optional(),
+  tag: z.string().optional(),
+  stars: z.number().optional(),
+  wins: z.number().optional(),
+  losses: z.number().optional(),
+  draws: z.number().optional(),
+  position: z.number().optional(),
+  groupPosition: z.number().optional(),
+  leagueName: z.string().optional(),
+})
+
+export const SeasonDataSchema: z.ZodType<SeasonData> = z.looseObject({
+  season: z.string(),
+  state: z.string().nullable().optional(),
+  league: z.looseObject({ tier: z.string() }).optional(),
+  clans: z.array(SeasonClanSchema).optional(),
+})
+
+export const SeasonClanSummarySchema: z.ZodType<SeasonClanSummary> = z.looseObject({
+  name: z.string().nullable(),
+  tag: z.string(),
+  rank: z.number().optional(),
+  stars: z.number(),
+  destruction: z.number(),
+  rounds: z.looseObject({
+    won: z.number(),
+    tied: z.number(),
+    lost: z.number(),
+  }),
+  groupPosition: z.number().nullable(),
+  roster: z.number().optional(),
+  state: z.string().optional(),
+  league: z.string().nullable().optional(),
+})
+
+export const SeasonFamilyDataSchema: z.ZodType<SeasonFamilyData> = z.looseObject({
+  generatedAt: z.string(),
+  season: z.string(),
+  state: z.string().nullable(),
+  league: LeagueInfoSchema.nullable().optional(),
+  clans: z.array(SeasonClanSummarySchema),
+})
+
+export const SeasonIndexSchema: z.ZodType<SeasonIndex> = z.looseObject({
+  generatedAt: z.string(),
+  seasons: z.array(z.union([SeasonFamilyDataSchema, SeasonDataSchema])),
+})
+
+// history/seasons/<season>/clans/<tag>.json
+export const SeasonWarSchema: z.ZodType<SeasonWar> = z.looseObject({
+  warTag: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  teamSize: z.number(),
+  result: warResult,
+  starsFor: z.number(),
+  starsAgainst: z.number(),
+  destructionFor: z.number(),
+  destructionAgainst: z.number(),
+  opponent: z.looseObject({
+    tag: z.string(),
+    name: z.string(),
+    clanLevel: z.number().optional(),
+  }),
+})
+
+export const SeasonRosterPlayerSchema: z.ZodType<SeasonRosterPlayer> = z.looseObject({
+  tag: z.string(),
+  name: z.string(),
+  townHallLevel: z.number().nullable(),
+  attacks: z.number(),
+  stars: z.number(),
+  destruction: z.number(),
+  triples: z.number(),
+  bestDestruction: z.number(),
+  avgStars: z.number(),
+  avgDestruction: z.number(),
+  warsParticipated: z.number(),
+  missedAttacks: z.number().optional(),
+  zeroStars: z.number(),
+  oneStars: z.number(),
+  twoStars: z.number(),
+  durationTotal: z.number().optional(),
+  durationSamples: z.number().optional(),
+  avgDuration: z.number().optional(),
+  bestAttack: z.looseObject({
+    stars: z.number(),
+    destruction: z.number(),
+    duration: z.number().optional(),
+  }),
+  threeStarRate: z.number().optional(),
+  reliabilityScore: z.number().optional(),
+  timesAttacked: z.number().optional(),
+  starsAllowed: z.number().optional(),
+  avgStarsAllowed: z.number().optional(),
+  triplesAllowed: z.number().optional(),
+  defenseQuality: z.number().optional(),
+  expectedStars: z.number().optional(),
+  starsAboveExpected: z.number().optional(),
+  avgStarsAboveExpected: z.number().optional(),
+  attackTypes: AttackTypeBreakdownSchema.optional(),
+  netStars: z.number().optional(),
+  netStarRate: z.number().optional(),
+  durations: DurationBreakdownSchema.optional(),
+  clutch: ClutchStatsSchema.optional(),
+})
+
+export const SeasonClanDetailSchema: z.ZodType<SeasonClanDetail> = z.looseObject({
+  generatedAt: z.string(),
+  reliabilityFormula: z.string().optional(),
+  season: z.string(),
+  clan: z.looseObject({
+    tag: z.string(),
+    name: z.string(),
+    clanLevel: z.number(),
+  }),
+  league: LeagueInfoSchema,
+  groupPosition: z.number(),
+  state: z.string(),
+  stats: z.looseObject({
+    warsPlayed: z.number(),
+    warsWon: z.number(),
+    warsLost: z.number(),
+    warsTied: z.number(),
+    stars: z.number(),
+    destruction: z.number(),
+    attacks: z.number(),
+    winRate: z.number().optional(),
+    avgDefenseQuality: z.number().optional(),
+    hardestToThreeCount: z.number().optional(),
+  }),
+  wars: z.array(SeasonWarSchema),
+  roster: z.array(SeasonRosterPlayerSchema),
+  cwlGroup: z
+    .array(
+      z.looseObject({
+        tag: z.string(),
+        name: z.string(),
+        stars: z.number(),
+        destruction: z.number(),
+        wins: z.number(),
+        losses: z.number(),
+        ties: z.number(),
+      })
+    )
+    .optional(),
+})
+
+// history/seasons/<season>/clans/<tag>/wars/<endTime>.json
+export const WarAttackSchema: z.ZodType<WarAttack> = z.looseObject({
+  attackerTag: z.string(),
+  attackerName: z.string(),
+  attackerTH: z.number(),
+  attackerMapPosition: z.number(),
+  defenderTag: z.string(),
+  defenderName: z.string(),
+  defenderTH: z.number(),
+  defenderMapPosition: z.number(),
+  stars: z.number(),
+  destructionPercentage: z.number(),
+  duration: z.number(),
+  order: z.number(),
+  side: z.enum(['clan', 'opponent']),
+  netStars: z.number().optional(),
+})
+
+export const WarMemberSummarySchema: z.ZodType<WarMemberSummary> = z.looseObject({
+  tag: z.string(),
+  name: z.string(),
+  townhallLevel: z.number(),
+  mapPosition: z.number(),
+  attacks: z.array(WarAttackSchema),
+  stars: z.number(),
+  destruction: z.number(),
+  opponentAttacks: z.number(),
+  bestOpponentAttack: z
+    .looseObject({
+      stars: z.number(),
+      destructionPercentage: z.number(),
+      attackerName: z.string(),
+    })
+    .optional(),
+  netStars: z.number().optional(),
+  netStarRate: z.number().optional(),
+})
+
+const WarSideSchema = z.looseObject({
+  tag: z.string(),
+  name: z.string(),
+  clanLevel: z.number(),
+  stars: z.number(),
+  destructionPercentage: z.number(),
+  attacks: z.number(),
+  members: z.array(WarMemberSummarySchema),
+})
+
+const PostMortemFlipStepSchema: z.ZodType<PostMortemFlipStep> = z.looseObject({
+  action: z.enum(['triple', 'redirect', 'attack', 'remove']),
+  order: z.number().nullable(),
+  attackerTag: z.string(),
+  attackerName: z.string(),
+  defenderTag: z.string(),
+  defenderName: z.string(),
+  defenderRank: z.number(),
+  stars: z.number(),
+})
+
+const WarPostMortemSchema: z.ZodType<WarPostMortem> = z.looseObject({
+  margin: z.looseObject({ stars: z.number(), destruction: z.number() }),
+  basesBelowThree: z.array(
+    z.looseObject({
+      tag: z.string(),
+      name: z.string(),
+      townhallLevel: z.number(),
+      rank: z.number(),
+      stars: z.number(),
+      destruction: z.number(),
+      attacks: z.number(),
+    })
+  ),
+  zeroGainAttacks: z.array(
+    z.looseObject({
+      order: z.number(),
+      attackerTag: z.string(),
+      attackerName: z.string(),
+      defenderTag: z.string(),
+      defenderName: z.string(),
+      defenderRank: z.number(),
+      stars: z.number(),
+      destructionPercentage: z.number(),
+      previousStars: z.number(),
+    })
+  ),
+  duplicateHits: z.array(
+    z.looseObject({
+      defenderTag: z.string(),
+      defenderName: z.string(),
+      defenderRank: z.number(),
+      orders: z.array(z.number()),
+      stars: z.number(),
+    })
+  ),
+  missedAttacks: z.array(
+    z.looseObject({
+      tag: z.string(),
+      name: z.string(),
+      townhallLevel: z.number(),
+      rank: z.number(),
+      missed: z.number(),
+    })
+  ),
+  flip: z.looseObject({
+    to: z.enum(['win', 'loss']),
+    starsNeeded: z.number(),
+    steps: z.array(PostMortemFlipStepSchema),
+    possible: z.boolean(),
+  }),
+})
+
+export const WarTimelineSchema: z.ZodType<WarTimeline> = z.looseObject({
+  generatedAt: z.string(),
+  season: z.string(),
+  warTag: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  teamSize: z.number(),
+  result: warResult,
+  clan: WarSideSchema,
+  opponent: WarSideSchema,
+  attackTimeline: z.array(WarAttackSchema),
+  postMortem: WarPostMortemSchema.optional(),
+})
+
+// expected-stars.json
+const ExpectedStarsStatSchema: z.ZodType<ExpectedStarsStat> = z.looseObject({
+  attacks: z.number(),
+  avgStars: z.number(),
+  expectedStars: z.number(),
+})
+
+const StarsAboveExpectedSchema: z.ZodType<StarsAboveExpected> = z.looseObject({
+  attacks: z.number(),
+  expectedStars: z.number(),
+  starsAboveExpected: z.number(),
+})
+
+export const ExpectedStarsModelSchema: z.ZodType<ExpectedStarsModel> = z.looseObject({
+  generatedAt: z.string(),
+  model: z.string(),
+  priorWeight: z.number(),
+  global: ExpectedStarsStatSchema,
+  thDiffs: z.record(z.string(), ExpectedStarsStatSchema),
+  thPairs: z.record(z.string(), ExpectedStarsStatSchema),
+  buckets: z.record(z.string(), ExpectedStarsStatSchema),
+  players: z.record(z.string(), StarsAboveExpectedSchema),
+})
+
+// league-baselines.json
+const LeagueBaselineSchema: z.ZodType<LeagueBaseline> = z.looseObject({
+  warSides: z.number(),
+  attackBuckets: StarBucketsSchema,
+  warStars: z.record(z.string(), z.array(z.number())),
+})
+
+export const LeagueBaselinesSchema: z.ZodType<LeagueBaselines> = z.looseObject({
+  generatedAt: z.string(),
+  groups: z.number(),
+  tiers: z.record(z.string(), LeagueBaselineSchema),
+})
+
+// history/seasons/<season>/opponents/<tag>.json
+const ScoutingMemberSchema: z.ZodType<ScoutingMember> = z.looseObject({
+  tag: z.string(),
+  name: z.string(),
+  townHallLevel: z.number().nullable(),
+  warsPlayed: z.number(),
+  avgMapRank: z.number().nullable(),
+  attacks: z.number(),
+  stars: z.number(),
+  triples: z.number(),
+  avgStars: z.number(),
+  avgDestruction: z.number(),
+  defenses: z.number(),
+  starsAllowed: z.number(),
+  triplesAllowed: z.number(),
+  avgStarsAllowed: z.number(),
+  avgDestructionAllowed: z.number(),
+  avgAttackTiming: z.number().nullable(),
+})
+
+export const OpponentScoutingReportSchema: z.ZodType<OpponentScoutingReport> = z.looseObject({
+  generatedAt: z.string(),
+  season: z.string(),
+  opponent: z.looseObject({
+    tag: z.string(),
+    name: z.string(),
+    clanLevel: z.number(),
+  }),
+  familyClan: z.looseObject({
+    tag: z.string(),
+    name: z.string(),
+  }),
+  warsScouted: z.number(),
+  record: z.looseObject({
+    wins: z.number(),
+    losses: z.number(),
+    ties: z.number(),
+    stars: z.number(),
+    starsAllowed: z.number(),
+  }),
+  attackTypes: AttackTypeBreakdownSchema,
+  members: z.array(ScoutingMemberSchema),
+  weakestDefenders: z.array(z.string()),
+  attackOrder: z.array(z.string()),
+})
+
+// history/scouting.json
+export const ScoutingIndexSchema: z.ZodType<ScoutingIndex> = z.looseObject({
+  generatedAt: z.string(),
+  seasons: z.record(z.string(), z.array(z.string())),
+})
@@ -90,6 +90,7 @@ export interface ReliabilityBreakdown {
   attendance: number     // Attack participation rate: percentage of possible attacks completed, calculated as (attacks/wars)*100
   leagueAdj: number      // League difficulty adjustment: weighted average of CWL league difficulty based on seasons spent in each league (higher leagues contribute more)
   weighted: number       // Final weighted score
+  formula?: string       // Formula id (RELIABILITY_FORMULA_ID in src/lib/reliability.ts) the score was computed with
 }
 
 export interface Player {
@@ -153,11 +154,93 @@ export interface GlobalPlayer {
   avgStarsAllowed?: number
   triplesAllowed?: number
   defenseQuality?: number
+  primaryLeague?: string
+  leagueHistory?: LeagueHistoryEntry[]
+  // From expected-stars.json, over the attacks with war details
+  starsAboveExpected?: number
+  avgStarsAboveExpected?: number
+  attackTypes?: AttackTypeBreakdown
+  // Stars added to the war score, see src/lib/netStars.ts
+  netStars?: number
+  netStarRate?: number
+  clutch?: ClutchStats
+}
+
+/** Time spent in one CWL league over a player's career */
+export interface LeagueHistoryEntry {
+  leagueTier: string
+  seasonsPlayed: number
+  attacksInLeague: number
 }
 
+/** Entry of players-full.json: career totals plus a per-season breakdown */
+export interface FamilyPlayer {
+  tag: string
+  name: string
+  th: number | null
+  clans: string[]
+  seasonsCount: number
+  totals: {
+    stars: number
+    attacks: number
+    wars: number
+    destruction: number
+    triples: number
+    missedAttacks: number
+    avgStars: number
+    avgDestruction: number
+    threeStarRate: number
+  }
+  reliabilityScore: number
+  reliabilityBreakdown: ReliabilityBreakdown
+  starBuckets: StarBuckets
+  defense: {
+    timesAttacked: number
+    starsAllowed: number
+    triplesAllowed: number
+    avgStarsAllowed: number
+    defenseQuality: number
+  }
+  lastLeague?: {
+    tier: string
+    id?: number
+    name?: string
+  }
+  primaryLeague?: string
+  leagueHistory?: LeagueHistoryEntry[]
+  bestSeason?: {
+    season: string
+    stars: number
+    avgStars: number
+  }
+  performanceTrend?: 'improving' | 'stable' | 'declining'
+  seasons: Array<{
+    season: string
+    clanTag: string
+    clanName: string
+    th: number | null
+    warsParticipated: number
+    attacks: number
+    stars: number
+    triples: number
+    avgStars: number
+    avgDestruction: number
+    starBuckets: StarBuckets
+    leagueTier?: string
+    leagueId?: number
+    leagueName?: string
+    reliabilityScore?: number
+    defenseQuality: number
+  }>
+}
+
+/** player-seasons-index.json: player tag -> seasons (and clan) the player appeared in */
+export type PlayerSeasonsIndex = Record<string, Array<{ season: string; clanTag: string }>>
+
 // Season history
 export interface LeagueInfo {
-  tier: string
+  // null when no league CSV row exists for the clan-season
+  tier: string | null
   group: number | null
 }
 
@@ -187,18 +270,23 @@ export interface SeasonData {
 export interface SeasonClanSummary {
   name: string | null
   tag: string
-  rank: number
+  rank?: number
   stars: number
   destruction: number
   rounds: StandingRound
   groupPosition: number | null
+  /** Number of players who took part in the season */
+  roster?: number
+  state?: string
+  /** CWL league name for this clan in the season */
+  league?: string | null
 }
 
 export interface SeasonFamilyData {
   generatedAt: string
   season: string
   state: string | null
-  league: LeagueInfo | null
+  league?: LeagueInfo | null
   clans: SeasonClanSummary[]
 }
 
@@ -272,6 +360,14 @@ export interface SeasonRosterPlayer {
   avgStarsAllowed?: number
   triplesAllowed?: number
   defenseQuality?: number
+  expectedStars?: number          // Sum of the expected-stars baseline over the player's attacks
+  starsAboveExpected?: number     // stars - expectedStars
+  avgStarsAboveExpected?: number  // Per attack
+  attackTypes?: AttackTypeBreakdown
+  netStars?: number               // Stars added to the war score, see src/lib/netStars.ts
+  netStarRate?: number            // Per attack
+  durations?: DurationBreakdown
+  clutch?: ClutchStats
 }
 
 export interface SeasonClanStats {
@@ -306,6 +402,8 @@ export interface CWLGroupClan {
 
 export interface SeasonClanDetail {
   generatedAt: string
+  /** Formula id the roster's reliability scores were computed with */
+  reliabilityFormula?: string
   season: string
   clan: SeasonClanInfo
   league: LeagueInfo
@@ -336,6 +434,13 @@ export interface PlayerSeasonStats {
   threeStarRate: number
   // Optional: enriched
   leagueTier?: string | null
+  starsAboveExpected?: number
+  avgStarsAboveExpected?: number
+  attackTypes?: AttackTypeBreakdown
+  durationTotal?: number
+  durationSamples?: number
+  durations?: DurationBreakdown
+  clutch?: ClutchStats
 }
 
 export interface PlayerCareerStats {
@@ -364,6 +469,12 @@ export interface PlayerCareerStats {
   careerAvgStarsAllowed?: number
   totalTriplesAllowed?: number
   careerDefenseQuality?: number
+  starsAboveExpected?: number
+  avgStarsAboveExpected?: number
+  attackTypes?: AttackTypeBreakdown
+  avgDuration?: number
+  durations?: DurationBreakdown
+  clutch?: ClutchStats
 }
 
 // Roster builder types
@@ -380,7 +491,11 @@ export interface RosterPlayerStats {
   avgStars: number
   threeStarRate: number
   reliabilityScore: number
+  reliabilityBreakdown?: ReliabilityBreakdown
+  leagueData?: { tier: string; attacks: number }[]  // Attacks per league, for recomputing LeagueAdj
+  avgStarsAboveExpected?: number
   missedAttacks?: number
+  starBuckets?: StarBuckets  // Per-attack star distribution over the same seasons
 }
 
 export interface RosterBuildConfig {
@@ -413,6 +528,110 @@ export interface LeagueProjection {
   historicalLeague: string | null
 }
 
+// Roster builder plan in a serializable form, shared as a link or a JSON file
+export interface RosterPlan {
+  clanRosters: Record<string, string[]>   // Clan tag → player tags
+  lockedClans: string[]
+  excludedPlayers: string[]
+  customClans: CustomClan[]
+  clanRosterModes: Record<string, RosterMode>
+  manualPlayers: Record<string, ManualPlayerEntry[]>
+}
+
+export interface RosterPlanFile {
+  format: 'cwl-roster-plan'
+  version: number
+  family: string
+  exportedAt: string
+  plan: RosterPlan
+}
+
+// Sign-up for one CWL season: in, out, or only some war days
+export type AvailabilityStatus = 'in' | 'out' | 'partial'
+
+export interface PlayerAvailability {
+  status: AvailabilityStatus
+  days?: number[]           // War days (1-7) a partial player can attack
+  preferredClan?: string    // Clan tag
+  notes?: string
+}
+
+// Player tag → availability, for one season
+export type SeasonAvailability = Record<string, PlayerAvailability>
+
+// Planned war lineups of one clan: index 0 is war day 1, each day lists lineup keys
+// (player tag, or "manual:<addedAt>" for manual players without a tag)
+export type ClanWarLineups = string[][]
+
+// Clan tag → planned war lineups, for one season
+export type SeasonWarLineups = Record<string, ClanWarLineups>
+
+// Named roster builder draft for one CWL season
+export interface RosterDraft {
+  id: string
+  name: string
+  season: string            // YYYY-MM
+  plan: RosterPlan
+  createdAt: string         // ISO timestamp
+  updatedAt: string         // ISO timestamp
+  frozenAt: string | null   // Set when frozen as the season's official roster
+}
+
+// Roster builder undo history: what changed, named as it was at the time
+export type RosterHistoryAction =
+  | { type: 'initial' }
+  | { type: 'edit' }
+  | { type: 'autoDistribute' }
+  | { type: 'clear' }
+  | { type: 'importPlan' }
+  | { type: 'move'; player: string; clan: string }
+  | { type: 'bench'; player: string }
+  | { type: 'exclude'; player: string }
+  | { type: 'include'; player: string }
+  | { type: 'lock'; clan: string }
+  | { type: 'unlock'; clan: string }
+  | { type: 'mode'; clan: string; mode: RosterMode }
+  | { type: 'manualAdd'; player: string; clan: string }
+  | { type: 'manualRemove'; player: string; clan: string }
+  | { type: 'customClanAdd'; clan: string }
+  | { type: 'customClanRemove'; clan: string }
+  | { type: 'loadDraft'; name: string }
+
+export interface RosterHistoryEntry {
+  action: RosterHistoryAction
+  plan: RosterPlan          // State after the action
+  at: string                // ISO timestamp
+}
+
+// Soft constraints for the roster optimizer, kept with the roster builder state
+export interface RosterOptimizerConstraints {
+  keepTogether: [string, string][]        // Player tag pairs that should play in the same clan
+  preferredClans: Record<string, string>  // Player tag → clan tag
+  minReliablePerClan: number
+}
+
+// Why the optimizer put a player where it did
+export type OptimizerReason =
+  | { type: 'projection'; stars: number; adjustment: number; slot: 'main' | 'sub' }
+  | { type: 'preferred'; clanTag: string }
+  | { type: 'preferenceIgnored'; clanTag: string }
+  | { type: 'keptWith'; playerTag: string }
+  | { type: 'separatedFrom'; playerTag: string }
+  | { type: 'reliableQuota'; required: number }
+  | { type: 'partialAvailability'; wars: number }
+  | { type: 'thBelowMin'; clanTag: string; minTH: number }
+  | { type: 'clanLocked'; clanTag: string }
+  | { type: 'outscored'; clanTag: string; stars: number; cutoff: number }
+  | { type: 'familyTotal'; clanTag: string; stars: number }
+  | { type: 'noSlot' }
+  | { type: 'notEligible' }
+
+export interface OptimizerPlacement {
+  playerTag: string
+  clanTag: string | null  // null = left on the bench
+  reasons: OptimizerReason[]
+}
+
 // War timeline types
 export interface WarAttack {
   attackerTag: string
@@ -428,6 +647,7 @@ export interface WarAttack {
   duration: number
   order: number
   side: 'clan' | 'opponent'
+  netStars?: number  // Stars added to the war score, see src/lib/netStars.ts
 }
 
 export interface WarMemberSummary {
@@ -444,6 +664,8 @@ export interface WarMemberSummary {
     destructionPercentage: number
     attackerName: string
   }
+  netStars?: number
+  netStarRate?: number  // Net stars per attack
 }
 
 export interface WarTimeline {
@@ -473,4 +695,190 @@ export interface WarTimeline {
     members: WarMemberSummary[]
   }
   attackTimeline: WarAttack[]
+  postMortem?: WarPostMortem  // Ended wars only
+}
+
+// War post-mortem, see src/lib/warPostMortem.ts
+export interface PostMortemBase {
+  tag: string
+  name: string
+  townhallLevel: number
+  rank: number          // 1-based position in the lineup
+  stars: number         // Best attack taken
+  destruction: number
+  attacks: number
+}
+
+export interface PostMortemAttack {
+  order: number
+  attackerTag: string
+  attackerName: string
+  defenderTag: string
+  defenderName: string
+  defenderRank: number
+  stars: number
+  destructionPercentage: number
+  previousStars: number  // Best stars on the base before this attack, 3 = overkill
+}
+
+export interface PostMortemDuplicate {
+  defenderTag: string
+  defenderName: string
+  defenderRank: number
+  orders: number[]       // Attack orders of every hit on the base
+  stars: number          // Best stars after all hits
+}
+
+export interface PostMortemMissed {
+  tag: string
+  name: string
+  townhallLevel: number
+  rank: number
+  missed: number
+}
+
+// triple: the base's best attack three-stars it; redirect: a zero-gain attack goes there instead;
+// attack: a missed attack is made there; remove: one of our attacks in a won war is taken away
+export type PostMortemFlipAction = 'triple' | 'redirect' | 'attack' | 'remove'
+
+export interface PostMortemFlipStep {
+  action: PostMortemFlipAction
+  order: number | null   // null for a missed attack
+  attackerTag: string
+  attackerName: string
+  defenderTag: string
+  defenderName: string
+  defenderRank: number
+  stars: number          // Star swing of this step
+}
+
+export interface WarPostMortem {
+  margin: { stars: number; destruction: number }  // Ours minus theirs
+  basesBelowThree: PostMortemBase[]                // Opponent bases we didn't triple
+  zeroGainAttacks: PostMortemAttack[]
+  duplicateHits: PostMortemDuplicate[]
+  missedAttacks: PostMortemMissed[]
+  flip: {
+    to: 'win' | 'loss'
+    starsNeeded: number
+    steps: PostMortemFlipStep[]
+    possible: boolean    // false when all the available steps still fall short
+  }
+}
+
+// Attack type classification, see src/lib/attackTypes.ts
+export type AttackType = 'mirror' | 'hitUp' | 'hitDown' | 'offMirror'
+
+export interface AttackTypeStats {
+  attacks: number
+  stars: number
+  triples: number
+}
+
+export type AttackTypeBreakdown = Record<AttackType, AttackTypeStats>
+
+// Attacks by duration range, see src/lib/attackDuration.ts
+export interface DurationBucketStats {
+  attacks: number
+  destruction: number   // Sum over the bucket's attacks
+  starCounts: number[]  // Attacks by stars won, index 0-3
+}
+
+export type DurationBreakdown = DurationBucketStats[]  // One per DURATION_BUCKETS entry
+
+// Attacks made late in a war while the result was undecided, see src/lib/clutch.ts
+export interface ClutchStats {
+  attacks: number
+  netStars: number
+  triples: number
+}
+
+// Expected-stars model (expected-stars.json), see src/lib/expectedStars.ts
+export interface ExpectedStarsStat {
+  attacks: number
+  avgStars: number       // Observed average
+  expectedStars: number  // Average shrunk towards the parent bucket
+}
+
+/** Stars above expected of one player, summed over their attacks */
+export interface StarsAboveExpected {
+  attacks: number
+  expectedStars: number
+  starsAboveExpected: number
+}
+
+export interface ExpectedStarsModel {
+  generatedAt: string
+  model: string
+  priorWeight: number
+  global: ExpectedStarsStat
+  thDiffs: Record<string, ExpectedStarsStat>   // key: defenderTH - attackerTH
+  thPairs: Record<string, ExpectedStarsStat>   // key: "<attackerTH>v<defenderTH>"
+  buckets: Record<string, ExpectedStarsStat>   // key: "<attackerTH>v<defenderTH>|<league tier>"
+  players: Record<string, StarsAboveExpected>  // Career totals by player tag
+}
+
+// Opponent scouting (history/seasons/<season>/opponents/<tag>.json)
+export interface ScoutingMember {
+  tag: string
+  name: string
+  townHallLevel: number | null
+  warsPlayed: number
+  avgMapRank: number | null        // 1 = top of the map
+  attacks: number
+  stars: number
+  triples: number
+  avgStars: number
+  avgDestruction: number
+  defenses: number                 // Every attack taken, not just the best one per war
+  starsAllowed: number
+  triplesAllowed: number
+  avgStarsAllowed: number
+  avgDestructionAllowed: number
+  avgAttackTiming: number | null   // 0 = first attack of the clan in a war, 100 = last
+}
+
+export interface OpponentScoutingReport {
+  generatedAt: string
+  season: string
+  opponent: {
+    tag: string
+    name: string
+    clanLevel: number
+  }
+  familyClan: {
+    tag: string
+    name: string
+  }
+  warsScouted: number              // Group wars against other clans, the war against us left out
+  record: {
+    wins: number
+    losses: number
+    ties: number
+    stars: number
+    starsAllowed: number
+  }
+  attackTypes: AttackTypeBreakdown
+  members: ScoutingMember[]        // Whole CWL roster, by map rank
+  weakestDefenders: string[]       // Tags, most stars allowed per defense first
+  attackOrder: string[]            // Tags, earliest habitual attacker first
+}
+
+// Seasons with scouting reports (history/scouting.json)
+export interface ScoutingIndex {
+  generatedAt: string
+  seasons: Record<string, string[]>  // Season -> opponent tags (without #) that have a report
+}
+
+// Opponent baseline per league tier (league-baselines.json), see src/lib/promotionSimulator.ts
+export interface LeagueBaseline {
+  warSides: number                          // Non-family war sides sampled
+  attackBuckets: StarBuckets                // Stars of every attack by those sides
+  warStars: Record<string, number[]>        // Team size → histogram of war stars (index = stars)
+}
+
+export interface LeagueBaselines {
+  generatedAt: string
+  groups: number                            // CWL groups the baselines were built from
+  tiers: Record<string, LeagueBaseline>     // key: league tier
 }
@@ -0,0 +1,208 @@
+import { z } from 'zod'
+import { getAvailableWars, isAvailableOnDay, WAR_DAYS } from './availability'
+import type {
+  ClanWarLineups,
+  ManualPlayerEntry,
+  RosterMode,
+  RosterPlayerStats,
+  SeasonAvailability,
+  SeasonWarLineups,
+  WarMemberSummary,
+  WarTimeline,
+} from './types'
+
+/**
+ * Day-by-day war lineups for the seven CWL wars of each clan.
+ *
+ * Follows the in-game rules: every war is fought with exactly the war size
+ * picked from the clan's CWL roster, a player can only war for one clan per
+ * season, and a war's lineup is fixed once the war has started.
+ */
+
+export const WAR_LINEUPS_STORAGE_KEY = 'cwl-roster-builder-lineups'
+
+export const WAR_SIZES: Record<RosterMode, number> = {
+  '15v15': 15,
+  '30v30': 30,
+}
+
+// --- Storage (season → clan tag → war day → lineup keys) ---
+
+const StoredWarLineupsSchema = z.record(z.string(), z.record(z.string(), z.array(z.array(z.string()))))
+
+export function loadWarLineups(): Record<string, SeasonWarLineups> {
+  try {
+    const stored = localStorage.getItem(WAR_LINEUPS_STORAGE_KEY)
+    if (!stored) return {}
+
+    const result = StoredWarLineupsSchema.safeParse(JSON.parse(stored))
+    if (!result.success) {
+      console.warn('Ignoring invalid war lineups in localStorage:', result.error)
+      return {}
+    }
+    return result.data
+  } catch (err) {
+    console.warn('Failed to load war lineups from localStorage:', err)
+    return {}
+  }
+}
+
+export function saveWarLineups(lineups: Record<string, SeasonWarLineups>): void {
+  try {
+    localStorage.setItem(WAR_LINEUPS_STORAGE_KEY, JSON.stringify(lineups))
+  } catch (err) {
+    console.warn('Failed to save war lineups to localStorage:', err)
+  }
+}
+
+// --- Helpers ---
+
+/**
+ * Player tag, or a key built from the time a manual player without a tag was added
+ */
+export function getLineupKey(player: RosterPlayerStats | ManualPlayerEntry): string {
+  if ('manualEntry' in player) return player.tag ?? `manual:${player.addedAt}`
+  return player.playerTag
+}
+
+/**
+ * One lineup per war day, whatever was stored
+ */
+export function normalizeWarLineups(lineups: ClanWarLineups | undefined): ClanWarLineups {
+  return WAR_DAYS.map((_, i) => lineups?.[i] ?? [])
+}
+
+export function countScheduledDays(lineups: ClanWarLineups, key: string): number {
+  return lineups.filter(day => day.includes(key)).length
+}
+
+/**
+ * Projected stars per war day, from each player's projection for one war
+ */
+export function projectLineupStars(lineups: ClanWarLineups, starsPerWar: Map<string, number>): number[] {
+  return normalizeWarLineups(lineups).map(day => day.reduce((sum, key) => sum + (starsPerWar.get(key) ?? 0), 0))
+}
+
+// --- Rules ---
+
+export type WarLineupIssue =
+  | { type: 'size'; day: number; count: number; warSize: number }          // Not exactly the war size
+  | { type: 'notInRoster'; day: number; key: string }                       // Left the clan's roster since
+  | { type: 'otherClan'; key: string; clanTag: string }                     // Lined up by another clan too
+  | { type: 'unavailable'; day: number; key: string }                       // Not signed up for that day
+  | { type: 'underScheduled'; key: string; scheduled: number; available: number }
+
+interface WarLineupCheck {
+  lineups: ClanWarLineups
+  rosterKeys: string[]
+  warSize: number
+  availability: SeasonAvailability
+  otherClans: SeasonWarLineups      // Lineups of the family's other clans this season
+}
+
+export function getWarLineupIssues({ lineups, rosterKeys, warSize, availability, otherClans }: WarLineupCheck): WarLineupIssue[] {
+  const days = normalizeWarLineups(lineups)
+  // Nothing planned yet is not a problem
+  if (days.every(day => day.length === 0)) return []
+
+  const issues: WarLineupIssue[] = []
+  const roster = new Set(rosterKeys)
+
+  days.forEach((day, i) => {
+    if (day.length !== warSize) issues.push({ type: 'size', day: i + 1, count: day.length, warSize })
+    for (const key of day) {
+      if (!roster.has(key)) issues.push({ type: 'notInRoster', day: i + 1, key })
+      else if (!isAvailableOnDay(availability[key], i + 1)) issues.push({ type: 'unavailable', day: i + 1, key })
+    }
+  })
+
+  const lineupClans = getOtherClanLineups(otherClans)
+  for (const key of new Set(days.flat())) {
+    const clanTag = lineupClans.get(key)
+    if (clanTag) issues.push({ type: 'otherClan', key, clanTag })
+  }
+
+  for (const key of rosterKeys) {
+    const scheduled = countScheduledDays(days, key)
+    const available = getAvailableWars(availability[key])
+    if (scheduled < available) issues.push({ type: 'underScheduled', key, scheduled, available })
+  }
+
+  return issues
+}
+
+/**
+ * Lineup key → the other clan it is lined up for
+ */
+export function getOtherClanLineups(otherClans: SeasonWarLineups): Map<string, string> {
+  const result = new Map<string, string>()
+  for (const [clanTag, lineups] of Object.entries(otherClans)) {
+    for (const key of lineups.flat()) result.set(key, clanTag)
+  }
+  return result
+}
+
+export interface LineupCandidate {
+  key: string
+  starsPerWar: number
+}
+
+/**
+ * Fill the empty slots of every open war day with signed-up players, giving the
+ * fewest scheduled days so far priority, then the highest projection
+ */
+export function fillWarLineups(
+  lineups: ClanWarLineups,
+  candidates: LineupCandidate[],
+  warSize: number,
+  availability: SeasonAvailability,
+  lockedDays: Set<number>
+): ClanWarLineups {
+  const days = normalizeWarLineups(lineups).map(day => [...day])
+  const scheduled = new Map(candidates.map(c => [c.key, countScheduledDays(days, c.key)]))
+
+  days.forEach((day, i) => {
+    if (lockedDays.has(i + 1)) return
+    const picks = candidates
+      .filter(c => !day.includes(c.key) && isAvailableOnDay(availability[c.key], i + 1))
+      .sort((a, b) => (scheduled.get(a.key) ?? 0) - (scheduled.get(b.key) ?? 0) || b.starsPerWar - a.starsPerWar)
+      .slice(0, Math.max(0, warSize - day.length))
+    for (const pick of picks) {
+      day.push(pick.key)
+      scheduled.set(pick.key, (scheduled.get(pick.key) ?? 0) + 1)
+    }
+  })
+
+  return days
+}
+
+// --- Planned vs actual ---
+
+export interface WarLineupComparison {
+  day: number
+  opponent: string
+  played: string[]                  // Planned keys that were in the war
+  missing: string[]                 // Planned keys that were not
+  pulledIn: WarMemberSummary[]      // In the war without being planned
+}
+
+/**
+ * Planned lineups against the members of each war that has started (wars in start order are days 1-7)
+ */
+export function compareWarLineups(lineups: ClanWarLineups, timelines: WarTimeline[]): WarLineupComparison[] {
+  const days = normalizeWarLineups(lineups)
+  return [...timelines]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .slice(0, WAR_DAYS.length)
+    .map((war, i) => {
+      const planned = days[i]
+      const members = new Set(war.clan.members.map(m => m.tag))
+      return {
+        day: i + 1,
+        opponent: war.opponent.name,
+        played: planned.filter(key => members.has(key)),
+        missing: planned.filter(key => !members.has(key)),
+        pulledIn: war.clan.members.filter(m => !planned.includes(m.tag)),
+      }
+    })
+}
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { WarAttack, WarMemberSummary, WarTimeline } from './types'
+import { analyzeWar } from './warPostMortem'
+
+function member(tag: string, mapPosition: number, attacks: WarAttack[] = []): WarMemberSummary {
+  return {
+    tag,
+    name: tag,
+    townhallLevel: 16,
+    mapPosition,
+    attacks,
+    stars: 0,
+    destruction: 0,
+    opponentAttacks: 0,
+  }
+}
+
+function attack(order: number, attackerTag: string, defenderTag: string, stars: number, side: WarAttack['side'] = 'clan'): WarAttack {
+  return {
+    attackerTag,
+    attackerName: attackerTag,
+    attackerTH: 16,
+    attackerMapPosition: 1,
+    defenderTag,
+    defenderName: defenderTag,
+    defenderTH: 16,
+    defenderMapPosition: 1,
+    stars,
+    destructionPercentage: stars === 3 ? 100 : 50 + stars * 10,
+    duration: 120,
+    order,
+    side,
+  }
+}
+
+function war(attacks: WarAttack[], opponentStars: number): WarTimeline {
+  const ours = attacks.filter(a => a.side === 'clan')
+  const bestStars = new Map<string, number>()
+  for (const a of ours) bestStars.set(a.defenderTag, Math.max(bestStars.get(a.defenderTag) ?? 0, a.stars))
+  const clanStars = [...bestStars.values()].reduce((sum, stars) => sum + stars, 0)
+  const clanMembers = ['#A1', '#A2', '#A3'].map((tag, i) => member(tag, i + 1, ours.filter(a => a.attackerTag === tag)))
+
+  return {
+    generatedAt: '2025-01-01T00:00:00.000Z',
+    season: '2025-01',
+    warTag: '#WAR',
+    startTime: '20250101T000000.000Z',
+    endTime: '20250102T000000.000Z',
+    teamSize: 3,
+    result: clanStars > opponentStars ? 'win' : clanStars < opponentStars ? 'loss' : 'tie',
+    clan: { tag: '#CLAN', name: 'Clan', clanLevel: 10, stars: clanStars, destructionPercentage: 50, attacks: ours.length, members: clanMembers },
+    opponent: {
+      tag: '#OPP',
+      name: 'Opponent',
+      clanLevel: 10,
+      stars: opponentStars,
+      destructionPercentage: 50,
+      attacks: 0,
+      members: ['#D1', '#D2', '#D3'].map((tag, i) => member(tag, i + 1)),
+    },
+    attackTimeline: attacks,
+  }
+}
+
+describe('analyzeWar', () => {
+  it('counts only the real drop when removing a hit on a base that was hit twice', () => {
+    // #D1 is tripled, then hit again for 2★: taking the triple away leaves the 2★ standing
+    const result = analyzeWar(war([
+      attack(1, '#A1', '#D1', 3),
+      attack(2, '#A2', '#D1', 2),
+      attack(3, '#A3', '#D2', 1),
+    ], 2))
+
+    assert.equal(result.flip.to, 'loss')
+    assert.equal(result.flip.starsNeeded, 3)
+    assert.deepEqual(result.flip.steps.map(step => [step.order, step.stars]), [[1, 1], [2, 2]])
+    assert.equal(result.flip.possible, true)
+  })
+
+  it('does not count a removed hit as lost when another hit on the base matches it', () => {
+    // Both hits on #D1 are triples, so removing just one of them costs nothing
+    const result = analyzeWar(war([
+      attack(1, '#A1', '#D1', 3),
+      attack(2, '#A2', '#D1', 3),
+      attack(3, '#A3', '#D2', 2),
+    ], 4))
+
+    assert.equal(result.flip.starsNeeded, 2)
+    assert.deepEqual(result.flip.steps.map(step => [step.order, step.stars]), [[3, 2]])
+  })
+})
@@ -0,0 +1,241 @@
+import { getMapRanks } from './attackTypes'
+import { getNetStars } from './netStars'
+import type {
+  PostMortemAttack,
+  PostMortemBase,
+  PostMortemDuplicate,
+  PostMortemFlipStep,
+  PostMortemMissed,
+  WarAttack,
+  WarPostMortem,
+  WarTimeline,
+} from './types'
+
+/**
+ * "What went wrong" analysis of one ended war, from the family clan's side.
+ *
+ * Stars are counted like the in-game score: only the best attack on each base
+ * counts, so a hit adds just the stars it improves on the base's previous best.
+ * The flip looks at stars alone. It asks for one star more than the margin, so
+ * no tie is left to be settled on destruction.
+ */
+
+const CWL_ATTACKS_PER_MEMBER = 1
+
+interface NetAttack {
+  attack: WarAttack
+  previousStars: number | null  // null on the first hit of the base
+  netStars: number
+}
+
+function toStep(
+  action: PostMortemFlipStep['action'],
+  attacker: { tag: string; name: string; order: number | null },
+  base: { tag: string; name: string; rank: number },
+  stars: number
+): PostMortemFlipStep {
+  return {
+    action,
+    order: attacker.order,
+    attackerTag: attacker.tag,
+    attackerName: attacker.name,
+    defenderTag: base.tag,
+    defenderName: base.name,
+    defenderRank: base.rank,
+    stars,
+  }
+}
+
+interface BaseRemoval {
+  all: WarAttack[]      // Every hit on the base
+  removed: WarAttack[]  // Hits to take away, best first
+}
+
+/**
+ * Fewest of our attacks whose removal takes `starsNeeded` stars off our score,
+ * given the hits on each base. Taking a base down to k stars means removing
+ * every hit on it above k, so each base offers one option per level below its
+ * best; a small knapsack over the bases picks the cheapest mix. When no mix is
+ * enough, every scoring hit is removed.
+ */
+function findFewestRemovals(hitsByBase: WarAttack[][], starsNeeded: number): { bases: BaseRemoval[] } {
+  const byStars = (a: WarAttack, b: WarAttack) => b.stars - a.stars || a.order - b.order
+  const options = hitsByBase.map(hits => {
+    const sorted = [...hits].sort(byStars)
+    const bestStars = sorted[0]?.stars ?? 0
+    return Array.from({ length: bestStars }, (_, level) => {
+      const removed = sorted.filter(a => a.stars > level)
+      return { all: hits, removed, gain: bestStars - level }
+    })
+  })
+
+  // cost[g]: fewest removals reaching a gain of g (capped at starsNeeded), with the option picked per base
+  let cost: Array<{ attacks: number; picks: Array<number | null> } | null> = Array(starsNeeded + 1).fill(null)
+  cost[0] = { attacks: 0, picks: [] }
+  options.forEach(baseOptions => {
+    const next = cost.map(entry => entry && { attacks: entry.attacks, picks: [...entry.picks, null] })
+    cost.forEach((entry, gain) => {
+      if (!entry) return
+      baseOptions.forEach((option, i) => {
+        const target = Math.min(starsNeeded, gain + option.gain)
+        const attacks = entry.attacks + option.removed.length
+        if (!next[target] || attacks < next[target]!.attacks) next[target] = { attacks, picks: [...entry.picks, i] }
+      })
+    })
+    cost = next
+  })
+
+  const found = cost[starsNeeded]
+  const bases = found
+    ? found.picks.flatMap((pick, i) => pick === null ? [] : [options[i][pick]])
+    : options.flatMap(baseOptions => baseOptions.length > 0 ? [baseOptions[baseOptions.length - 1]] : [])
+  return {
+    bases: bases
+      .sort((a, b) => b.gain - a.gain || a.removed[0].order - b.removed[0].order)
+      .map(({ all, removed }) => ({ all, removed })),
+  }
+}
+
+export function analyzeWar(war: WarTimeline): WarPostMortem {
+  const ourAttacks = war.attackTimeline
+    .filter(a => a.side === 'clan')
+    .sort((a, b) => a.order - b.order)
+  const defenderRanks = getMapRanks(war.opponent.members)
+  const attackerRanks = getMapRanks(war.clan.members)
+  const rankOf = (tag: string) => defenderRanks.get(tag) ?? 0
+
+  // Net stars of each of our attacks, in order
+  const netStars = getNetStars(ourAttacks)
+  const best = new Map<string, { stars: number; destruction: number; attacks: NetAttack[] }>()
+  const netAttacks: NetAttack[] = ourAttacks.map(attack => {
+    const base = best.get(attack.defenderTag)
+    const previousStars = base ? base.stars : null
+    const netAttack = { attack, previousStars, netStars: netStars.get(attack) ?? 0 }
+    if (base) {
+      base.stars = Math.max(base.stars, attack.stars)
+      base.destruction = Math.max(base.destruction, attack.destructionPercentage)
+      base.attacks.push(netAttack)
+    } else {
+      best.set(attack.defenderTag, { stars: attack.stars, destruction: attack.destructionPercentage, attacks: [netAttack] })
+    }
+    return netAttack
+  })
+
+  const basesBelowThree: PostMortemBase[] = war.opponent.members
+    .filter(m => defenderRanks.has(m.tag) && (best.get(m.tag)?.stars ?? 0) < 3)
+    .map(m => ({
+      tag: m.tag,
+      name: m.name,
+      townhallLevel: m.townhallLevel,
+      rank: rankOf(m.tag),
+      stars: best.get(m.tag)?.stars ?? 0,
+      destruction: best.get(m.tag)?.destruction ?? 0,
+      attacks: best.get(m.tag)?.attacks.length ?? 0,
+    }))
+    .sort((a, b) => a.rank - b.rank)
+
+  const zeroGainAttacks: PostMortemAttack[] = netAttacks
+    .filter(n => n.previousStars !== null && n.netStars === 0)
+    .map(({ attack, previousStars }) => ({
+      order: attack.order,
+      attackerTag: attack.attackerTag,
+      attackerName: attack.attackerName,
+      defenderTag: attack.defenderTag,
+      defenderName: attack.defenderName,
+      defenderRank: rankOf(attack.defenderTag),
+      stars: attack.stars,
+      destructionPercentage: attack.destructionPercentage,
+      previousStars: previousStars ?? 0,
+    }))
+
+  const duplicateHits: PostMortemDuplicate[] = [...best.entries()]
+    .filter(([, base]) => base.attacks.length > 1)
+    .map(([tag, base]) => ({
+      defenderTag: tag,
+      defenderName: base.attacks[0].attack.defenderName,
+      defenderRank: rankOf(tag),
+      orders: base.attacks.map(n => n.attack.order),
+      stars: base.stars,
+    }))
+    .sort((a, b) => a.defenderRank - b.defenderRank)
+
+  const missedAttacks: PostMortemMissed[] = war.clan.members
+    .filter(m => m.attacks.length < CWL_ATTACKS_PER_MEMBER)
+    .map(m => ({
+      tag: m.tag,
+      name: m.name,
+      townhallLevel: m.townhallLevel,
+      rank: attackerRanks.get(m.tag) ?? 0,
+      missed: CWL_ATTACKS_PER_MEMBER - m.attacks.length,
+    }))
+    .sort((a, b) => a.rank - b.rank)
+
+  const marginStars = war.clan.stars - war.opponent.stars
+  const starsNeeded = Math.abs(marginStars) + 1
+  const steps: PostMortemFlipStep[] = []
+  let gained = 0
+
+  if (war.result === 'win') {
+    const removal = findFewestRemovals([...best.values()].map(base => base.attacks.map(n => n.attack)), starsNeeded)
+    for (const hits of removal.bases) {
+      // Once a hit is gone the base falls back to the best hit left on it
+      let remaining = hits.all
+      for (const attack of hits.removed) {
+        const before = Math.max(0, ...remaining.map(a => a.stars))
+        remaining = remaining.filter(a => a !== attack)
+        const drop = before - Math.max(0, ...remaining.map(a => a.stars))
+        steps.push(toStep(
+          'remove',
+          { tag: attack.attackerTag, name: attack.attackerName, order: attack.order },
+          { tag: attack.defenderTag, name: attack.defenderName, rank: rankOf(attack.defenderTag) },
+          drop
+        ))
+        gained += drop
+      }
+    }
+  } else {
+    // Fewest attacks that win it: every step takes one base to three stars. An attacked base
+    // can be tripled by its best hit; an untouched one needs a spare attack: a missed one
+    // first, then the zero-gain hits, overkills before the rest.
+    const spares = [
+      ...missedAttacks.flatMap(m => Array.from({ length: m.missed }, () => ({ action: 'attack' as const, tag: m.tag, name: m.name, order: null }))),
+      ...[...zeroGainAttacks]
+        .sort((a, b) => b.previousStars - a.previousStars || a.order - b.order)
+        .map(a => ({ action: 'redirect' as const, tag: a.attackerTag, name: a.attackerName, order: a.order as number | null })),
+    ]
+    const byHeadroom = [...basesBelowThree].sort((a, b) => a.stars - b.stars || a.rank - b.rank)
+    for (const base of byHeadroom) {
+      if (gained >= starsNeeded) break
+      const headroom = 3 - base.stars
+      const bestHit = best.get(base.tag)?.attacks
+        .filter(n => n.attack.stars === base.stars)
+        .sort((a, b) => a.attack.order - b.attack.order)[0]
+      if (bestHit) {
+        const { attack } = bestHit
+        steps.push(toStep('triple', { tag: attack.attackerTag, name: attack.attackerName, order: attack.order }, base, headroom))
+      } else {
+        const spare = spares.shift()
+        if (!spare) continue
+        steps.push(toStep(spare.action, spare, base, headroom))
+      }
+      gained += headroom
+    }
+  }
+
+  return {
+    margin: {
+      stars: marginStars,
+      destruction: Math.round((war.clan.destructionPercentage - war.opponent.destructionPercentage) * 100) / 100,
+    },
+    basesBelowThree,
+    zeroGainAttacks,
+    duplicateHits,
+    missedAttacks,
+    flip: {
+      to: war.result === 'win' ? 'loss' : 'win',
+      starsNeeded,
+      steps,
+      possible: gained >= starsNeeded,
+    },
+  }
+}
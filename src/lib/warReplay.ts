@@ -0,0 +1,105 @@
+import { getMapRanks } from './attackTypes'
+import { getNetStars } from './netStars'
+import type { WarAttack, WarMemberSummary, WarTimeline } from './types'
+
+/**
+ * Step-by-step replay of a war's attack timeline.
+ *
+ * A war side's score is the best attack on each enemy base: stars add up, and
+ * destruction is the average best destruction over the enemy lineup. Frame 0 is
+ * the start of battle day; frame n is the score right after the n-th attack.
+ */
+
+export interface BaseResult {
+  stars: number
+  destruction: number
+}
+
+export interface WarReplaySide {
+  stars: number
+  destruction: number  // Percent of the enemy lineup destroyed
+  attacks: number
+}
+
+export interface WarReplayFrame {
+  step: number
+  attack: WarAttack | null
+  clan: WarReplaySide
+  opponent: WarReplaySide
+  lead: number                              // Clan stars minus opponent stars
+  leader: 'clan' | 'opponent' | null        // Ahead on stars, then destruction
+  bases: Map<string, BaseResult>            // Defender tag → best attack so far, both lineups
+}
+
+export interface ReplayBase {
+  tag: string
+  name: string
+  townhallLevel: number
+  rank: number  // 1-based position in the lineup
+}
+
+export interface WarReplay {
+  frames: WarReplayFrame[]
+  clanBases: ReplayBase[]       // Our lineup, attacked by the opponent
+  opponentBases: ReplayBase[]
+  leadChanges: number
+}
+
+function getLineup(members: WarMemberSummary[]): ReplayBase[] {
+  const ranks = getMapRanks(members)
+  return members
+    .filter(m => ranks.has(m.tag))
+    .map(m => ({ tag: m.tag, name: m.name, townhallLevel: m.townhallLevel, rank: ranks.get(m.tag)! }))
+    .sort((a, b) => a.rank - b.rank)
+}
+
+function getLeader(clan: WarReplaySide, opponent: WarReplaySide): WarReplayFrame['leader'] {
+  if (clan.stars !== opponent.stars) return clan.stars > opponent.stars ? 'clan' : 'opponent'
+  if (clan.destruction !== opponent.destruction) return clan.destruction > opponent.destruction ? 'clan' : 'opponent'
+  return null
+}
+
+export function buildWarReplay(war: WarTimeline): WarReplay {
+  const attacks = [...war.attackTimeline].sort((a, b) => a.order - b.order)
+  const netStars = getNetStars(attacks)
+  const bases = new Map<string, BaseResult>()
+  const totals = {
+    clan: { stars: 0, destructionSum: 0, attacks: 0 },
+    opponent: { stars: 0, destructionSum: 0, attacks: 0 },
+  }
+  const teamSize = war.teamSize || 1
+
+  const snapshot = (step: number, attack: WarAttack | null): WarReplayFrame => {
+    const clan = { stars: totals.clan.stars, destruction: totals.clan.destructionSum / teamSize, attacks: totals.clan.attacks }
+    const opponent = { stars: totals.opponent.stars, destruction: totals.opponent.destructionSum / teamSize, attacks: totals.opponent.attacks }
+    return { step, attack, clan, opponent, lead: clan.stars - opponent.stars, leader: getLeader(clan, opponent), bases: new Map(bases) }
+  }
+
+  const frames = [snapshot(0, null)]
+  let leadChanges = 0
+  let lastLeader: WarReplayFrame['leader'] = null
+
+  attacks.forEach((attack, i) => {
+    const side = totals[attack.side]
+    const best = bases.get(attack.defenderTag) ?? { stars: 0, destruction: 0 }
+    side.attacks++
+    side.stars += netStars.get(attack) ?? 0
+    side.destructionSum += Math.max(0, attack.destructionPercentage - best.destruction)
+    bases.set(attack.defenderTag, {
+      stars: Math.max(best.stars, attack.stars),
+      destruction: Math.max(best.destruction, attack.destructionPercentage),
+    })
+
+    const frame = snapshot(i + 1, attack)
+    if (frame.leader && lastLeader && frame.leader !== lastLeader) leadChanges++
+    if (frame.leader) lastLeader = frame.leader
+    frames.push(frame)
+  })
+
+  return {
+    frames,
+    clanBases: getLineup(war.clan.members),
+    opponentBases: getLineup(war.opponent.members),
+    leadChanges,
+  }
+}
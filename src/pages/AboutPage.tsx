@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { getFamilyClans } from '@/lib/family'
 import {
   Calculator,
   ChartLine,
@@ -524,16 +525,12 @@ export function AboutPage() {
                       <CardTitle className="text-base">{t('aboutRoster.autodistribute.thRequirementsTitle')}</CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-2 text-sm">
-                      {[
-                        ['coc masters PL', '#P0J2J8GJ', 'TH16+', 'Champion League I'],
-                        ['Akademia CoC PL', '#JPRPRVUY', 'TH12+', 'Master League II'],
-                        ['Psychole!', '#29RYVJ8C8', 'TH10+', 'Master League III'],
-                      ].map((clan) => (
-                        <div key={clan[0]} className="grid grid-cols-4 gap-2 p-2 rounded border border-border/50">
-                          <span className="font-semibold">{clan[0]}</span>
-                          <span className="text-muted-foreground">{clan[1]}</span>
-                          <span className="text-primary font-bold">{clan[2]}</span>
-                          <span className="text-muted-foreground">{clan[3]}</span>
+                      {getFamilyClans().map((clan) => (
+                        <div key={clan.tag} className="grid grid-cols-4 gap-2 p-2 rounded border border-border/50">
+                          <span className="font-semibold">{clan.name}</span>
+                          <span className="text-muted-foreground">{clan.tag}</span>
+                          <span className="text-primary font-bold">TH{clan.minTH}+</span>
+                          <span className="text-muted-foreground">{clan.league}</span>
                         </div>
                       ))}
                     </CardContent>
@@ -1,11 +1,14 @@
 import { CWLGroupStandings } from '@/components/CWLGroupStandings'
+import { DefenseHeatmap } from '@/components/DefenseHeatmap'
 import { LeagueBadge } from '@/components/LeagueBadge'
+import { LeagueBonusPanel } from '@/components/LeagueBonusPanel'
 import { MVPBadge } from '@/components/MVPBadge'
 import { RosterStatsTable } from '@/components/RosterStatsTable'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { WarsTable } from '@/components/WarsTable'
-import { getSeasonClanDetail } from '@/lib/data'
+import { getScoutingIndex, getSeasonClanDetail } from '@/lib/data'
+import { stripClanTag } from '@/lib/family'
 import type { SeasonClanDetail, SeasonWar } from '@/lib/types'
 import { ArrowLeft, Sword, Trophy, Users } from '@phosphor-icons/react'
 import { useEffect, useMemo, useState } from 'react'
@@ -18,6 +21,7 @@ export function ClanSeasonDetailPage() {
   const navigate = useNavigate()
   const [data, setData] = useState<SeasonClanDetail | null>(null)
   const [loading, setLoading] = useState(true)
+  const [scoutedOpponents, setScoutedOpponents] = useState<Set<string>>(() => new Set())
 
   useEffect(() => {
     if (!season || !tag) return
@@ -44,6 +48,20 @@ export function ClanSeasonDetailPage() {
     loadData()
   }, [season, tag])
 
+  useEffect(() => {
+    if (!season) return
+
+    let cancelled = false
+    getScoutingIndex()
+      .then(index => {
+        if (!cancelled) setScoutedOpponents(new Set(index?.seasons[season] ?? []))
+      })
+      .catch(err => console.error('Failed to load scouting index:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [season])
+
   // Calculate MVP (player with highest stars)
   // Must be before early returns to maintain hook order
   const mvp = useMemo(() => {
@@ -53,6 +71,13 @@ export function ClanSeasonDetailPage() {
       , data.roster[0])
   }, [data?.roster])
 
+  // Only seasons the pipeline scouted have reports, so elsewhere opponents aren't links
+  const openScoutingReport = scoutedOpponents.size > 0
+    ? (opponentTag: string) => {
+      navigate(`/season/${season}/opponent/${encodeURIComponent(stripClanTag(opponentTag))}`)
+    }
+    : undefined
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -121,7 +146,10 @@ export function ClanSeasonDetailPage() {
 
       {/* CWL Group Standings */}
       {data.cwlGroup && data.cwlGroup.length > 0 && (
-        <CWLGroupStandings cwlGroup={data.cwlGroup} />
+        <CWLGroupStandings
+          cwlGroup={data.cwlGroup}
+          onOpponentClick={openScoutingReport && (clan => openScoutingReport(clan.tag))}
+        />
       )}
 
       {/* Stats Summary */}
@@ -178,6 +206,7 @@ export function ClanSeasonDetailPage() {
             const warEndTime = encodeURIComponent(war.endTime.replace(/[:.]/g, ''))
             navigate(`/history/${season}/clan/${tag}/war/${warEndTime}`)
           }}
+          onOpponentClick={openScoutingReport && (war => openScoutingReport(war.opponent.tag))}
         />
       </div>
 
@@ -188,7 +217,29 @@ export function ClanSeasonDetailPage() {
         </h2>
         <RosterStatsTable
           roster={data.roster}
-          leagueTier={data.league?.tier}
+          leagueTier={data.league?.tier ?? undefined}
+        />
+      </div>
+
+      {/* Defense Map */}
+      {data.wars.length > 0 && (
+        <div className="space-y-3">
+          <div>
+            <h2 className="text-2xl font-bold">{t('clanSeason.defenseMap.title')}</h2>
+            <p className="text-sm text-muted-foreground">{t('clanSeason.defenseMap.subtitle')}</p>
+          </div>
+          <DefenseHeatmap season={data.season} clanTag={data.clan.tag} />
+        </div>
+      )}
+
+      {/* League Bonus Allocation */}
+      <div className="space-y-3">
+        <h2 className="text-2xl font-bold">{t('leagueBonus.title')}</h2>
+        <LeagueBonusPanel
+          roster={data.roster}
+          leagueTier={data.league?.tier ?? null}
+          clanName={data.clan.name}
+          season={data.season}
         />
       </div>
     </div>
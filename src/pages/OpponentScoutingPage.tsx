@@ -0,0 +1,270 @@
+import { AttackTypeBreakdownTable } from '@/components/AttackTypeBreakdownTable'
+import { THBadge } from '@/components/THBadge'
+import { THDistributionChart } from '@/components/THDistributionChart'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { getOpponentScoutingReport } from '@/lib/data'
+import type { OpponentScoutingReport, ScoutingMember } from '@/lib/types'
+import { ArrowLeft, Binoculars, Shield, Star, Sword, Timer } from '@phosphor-icons/react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate, useParams } from 'react-router-dom'
+
+export function OpponentScoutingPage() {
+  const { t } = useTranslation()
+  const { season, tag } = useParams<{ season: string; tag: string }>()
+  const navigate = useNavigate()
+  const [data, setData] = useState<OpponentScoutingReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!season || !tag) return
+
+    const currentSeason = season
+    const currentTag = tag
+
+    async function loadData() {
+      setLoading(true)
+      try {
+        const result = await getOpponentScoutingReport(currentSeason, decodeURIComponent(currentTag))
+        setData(result)
+      } catch (err) {
+        console.error('Failed to load scouting report:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [season, tag])
+
+  const membersByTag = useMemo(
+    () => new Map((data?.members ?? []).map(m => [m.tag, m])),
+    [data?.members]
+  )
+
+  const totals = useMemo(() => {
+    const members = data?.members ?? []
+    const attacks = members.reduce((sum, m) => sum + m.attacks, 0)
+    const stars = members.reduce((sum, m) => sum + m.stars, 0)
+    const triples = members.reduce((sum, m) => sum + m.triples, 0)
+    return {
+      avgStars: attacks > 0 ? stars / attacks : 0,
+      threeStarRate: attacks > 0 ? (triples / attacks) * 100 : 0,
+    }
+  }, [data?.members])
+
+  const backButton = (
+    <Button variant="ghost" onClick={() => navigate(-1)}>
+      <ArrowLeft className="mr-2" size={16} />
+      {t('scouting.back')}
+    </Button>
+  )
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        {backButton}
+        <Skeleton className="h-12 w-64 skeleton-shimmer" />
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-24 rounded-lg skeleton-shimmer" />
+          ))}
+        </div>
+        <Skeleton className="h-64 rounded-lg skeleton-shimmer" />
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="space-y-6">
+        {backButton}
+        <div className="text-center py-12 text-muted-foreground">
+          {t('scouting.noData')}
+        </div>
+      </div>
+    )
+  }
+
+  const weakestDefenders = data.weakestDefenders
+    .map(memberTag => membersByTag.get(memberTag))
+    .filter((m): m is ScoutingMember => !!m)
+  const attackOrder = data.attackOrder
+    .map(memberTag => membersByTag.get(memberTag))
+    .filter((m): m is ScoutingMember => !!m)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {backButton}
+      </div>
+
+      {/* Title */}
+      <div className="space-y-4">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight mb-2">{data.opponent.name}</h1>
+          <p className="text-lg text-muted-foreground">
+            {data.opponent.tag} · {t('clanSeason.seasonLabel')}: {data.season}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Badge variant="outline" className="gap-2">
+            <Binoculars size={14} />
+            {t('scouting.groupOf', { clan: data.familyClan.name })}
+          </Badge>
+          <Badge variant="secondary">
+            {t('scouting.warsScouted', { count: data.warsScouted })}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">{t('scouting.description')}</p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="rounded-lg border border-border/80 bg-card/70 p-4">
+          <p className="text-sm text-muted-foreground mb-1">{t('clanSeason.record')}</p>
+          <p className="text-2xl font-bold">
+            {data.record.wins}-{data.record.losses}-{data.record.ties}
+          </p>
+        </div>
+        <div className="rounded-lg border border-border/80 bg-card/70 p-4">
+          <div className="flex items-center gap-2 mb-1">
+            <Star size={16} weight="fill" className="text-yellow-400" />
+            <p className="text-sm text-muted-foreground">{t('scouting.starsForAgainst')}</p>
+          </div>
+          <p className="text-2xl font-bold">
+            <span className="text-yellow-400">{data.record.stars}</span>
+            <span className="text-muted-foreground mx-1">/</span>
+            <span className="text-muted-foreground">{data.record.starsAllowed}</span>
+          </p>
+        </div>
+        <div className="rounded-lg border border-border/80 bg-card/70 p-4">
+          <div className="flex items-center gap-2 mb-1">
+            <Sword size={16} className="text-primary" />
+            <p className="text-sm text-muted-foreground">{t('scouting.avgStars')}</p>
+          </div>
+          <p className="text-2xl font-bold">{totals.avgStars.toFixed(2)}</p>
+        </div>
+        <div className="rounded-lg border border-border/80 bg-card/70 p-4">
+          <p className="text-sm text-muted-foreground mb-1">{t('scouting.threeStarRate')}</p>
+          <p className="text-2xl font-bold text-primary">{totals.threeStarRate.toFixed(1)}%</p>
+        </div>
+      </div>
+
+      {/* Roster TH spread & attack types */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <THDistributionChart roster={data.members} />
+        <div className="rounded-lg border border-border/80 bg-card/70 p-4">
+          <h2 className="text-lg font-semibold mb-3">{t('attackTypes.title')}</h2>
+          <AttackTypeBreakdownTable breakdown={data.attackTypes} />
+        </div>
+      </div>
+
+      {/* Weakest defenders & habitual attack order */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="rounded-lg border border-border/80 bg-card/70 p-4">
+          <div className="flex items-center gap-2 mb-1">
+            <Shield size={18} className="text-red-400" />
+            <h2 className="text-lg font-semibold">{t('scouting.weakestDefenders')}</h2>
+          </div>
+          <p className="text-xs text-muted-foreground mb-3">{t('scouting.weakestDefendersHint')}</p>
+          {weakestDefenders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('scouting.notEnoughData')}</p>
+          ) : (
+            <ol className="space-y-2">
+              {weakestDefenders.map((m, i) => (
+                <li key={m.tag} className="flex items-center gap-3 text-sm">
+                  <span className="w-5 text-muted-foreground tabular-nums">{i + 1}.</span>
+                  {m.townHallLevel && <THBadge level={m.townHallLevel} size="sm" />}
+                  <span className="flex-1 font-medium truncate">{m.name}</span>
+                  <span className="tabular-nums text-yellow-400">{m.avgStarsAllowed.toFixed(2)}★</span>
+                  <span className="w-20 text-right tabular-nums text-muted-foreground">
+                    {t('scouting.triplesAllowed', { triples: m.triplesAllowed, defenses: m.defenses })}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="rounded-lg border border-border/80 bg-card/70 p-4">
+          <div className="flex items-center gap-2 mb-1">
+            <Timer size={18} className="text-primary" />
+            <h2 className="text-lg font-semibold">{t('scouting.attackOrder')}</h2>
+          </div>
+          <p className="text-xs text-muted-foreground mb-3">{t('scouting.attackOrderHint')}</p>
+          {attackOrder.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('scouting.notEnoughData')}</p>
+          ) : (
+            <ol className="space-y-2 max-h-72 overflow-y-auto">
+              {attackOrder.map((m, i) => (
+                <li key={m.tag} className="flex items-center gap-3 text-sm">
+                  <span className="w-5 text-muted-foreground tabular-nums">{i + 1}.</span>
+                  {m.townHallLevel && <THBadge level={m.townHallLevel} size="sm" />}
+                  <span className="flex-1 font-medium truncate">{m.name}</span>
+                  <div className="w-24 h-2 bg-muted rounded overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${m.avgAttackTiming ?? 0}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {/* Members */}
+      <div className="space-y-3">
+        <h2 className="text-2xl font-bold">{t('scouting.members')}</h2>
+        <div className="rounded-lg border border-border/80 bg-card/50 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent border-border/50">
+                <TableHead className="w-16">{t('scouting.mapRank')}</TableHead>
+                <TableHead>{t('warDetail.player')}</TableHead>
+                <TableHead className="text-center">{t('scouting.wars')}</TableHead>
+                <TableHead className="text-center">{t('scouting.attacks')}</TableHead>
+                <TableHead className="text-center">{t('scouting.avgStars')}</TableHead>
+                <TableHead className="text-center">{t('scouting.avgDestruction')}</TableHead>
+                <TableHead className="text-center">{t('scouting.defenses')}</TableHead>
+                <TableHead className="text-center">{t('scouting.avgStarsAllowed')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.members.map(m => (
+                <TableRow key={m.tag} className={`border-border/30 ${m.warsPlayed === 0 ? 'opacity-50' : ''}`}>
+                  <TableCell className="font-mono text-muted-foreground">
+                    {m.avgMapRank ?? '—'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {m.townHallLevel && <THBadge level={m.townHallLevel} size="sm" />}
+                      <div>
+                        <p className="font-medium">{m.name}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{m.tag}</p>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center tabular-nums">{m.warsPlayed}</TableCell>
+                  <TableCell className="text-center tabular-nums">{m.attacks}</TableCell>
+                  <TableCell className="text-center tabular-nums">
+                    {m.attacks > 0 ? m.avgStars.toFixed(2) : '—'}
+                  </TableCell>
+                  <TableCell className="text-center tabular-nums">
+                    {m.attacks > 0 ? `${m.avgDestruction.toFixed(1)}%` : '—'}
+                  </TableCell>
+                  <TableCell className="text-center tabular-nums">{m.defenses}</TableCell>
+                  <TableCell className="text-center tabular-nums">
+                    {m.defenses > 0 ? m.avgStarsAllowed.toFixed(2) : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,3 +1,5 @@
+import { AttackDurationChart } from '@/components/AttackDurationChart'
+import { AttackTypeBreakdownTable } from '@/components/AttackTypeBreakdownTable'
 import { PlayerSeasonChart } from '@/components/PlayerSeasonChart'
 import { PlayerSeasonHistoryTable } from '@/components/PlayerSeasonHistoryTable'
 import { StarBucketsChart } from '@/components/StarBucketsChart'
@@ -5,9 +7,10 @@ import { THBadge } from '@/components/THBadge'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
+import { getClutchRate } from '@/lib/clutch'
 import { getPlayerHistory } from '@/lib/data'
 import type { PlayerCareerStats } from '@/lib/types'
-import { ArrowLeft, Star, Sword, Target, Trophy } from '@phosphor-icons/react'
+import { ArrowLeft, Lightning, Star, Sword, Target, Timer, Trophy } from '@phosphor-icons/react'
 import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate, useParams } from 'react-router-dom'
@@ -221,6 +224,70 @@ export function PlayerHistoryPage() {
         </div>
       )}
 
+      {/* Attack Types */}
+      {data.attackTypes && (
+        <div className="space-y-3 animate-fade-in-up stagger-5">
+          <h2 className="text-2xl font-bold">{t('attackTypes.title')}</h2>
+          <div className="rounded-lg border border-border/80 bg-card/70 p-6">
+            <p className="text-sm text-muted-foreground mb-4">{t('attackTypes.description')}</p>
+            <AttackTypeBreakdownTable breakdown={data.attackTypes} />
+          </div>
+        </div>
+      )}
+
+      {/* Clutch Attacks */}
+      {data.clutch && (
+        <div className="space-y-3 animate-fade-in-up stagger-5">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Lightning size={22} weight="fill" className="text-orange-400" />
+            {t('clutch.title')}
+          </h2>
+          <div className="rounded-lg border border-border/80 bg-card/70 p-6 space-y-4">
+            <p className="text-sm text-muted-foreground">{t('clutch.description')}</p>
+            {data.clutch.attacks === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('clutch.none')}</p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">{t('clutch.attacks')}</p>
+                  <p className="text-2xl font-bold">{data.clutch.attacks}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('clutch.share', { share: ((data.clutch.attacks / Math.max(1, data.totalAttacks)) * 100).toFixed(1) })}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t('clutch.netStars')}</p>
+                  <p className="text-2xl font-bold text-yellow-400">{data.clutch.netStars}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t('clutch.rate')}</p>
+                  <p className="text-2xl font-bold text-orange-400">{getClutchRate(data.clutch).toFixed(2)}</p>
+                  <p className="text-xs text-muted-foreground">{t('playerHistory.perAttack')}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t('clutch.triples')}</p>
+                  <p className="text-2xl font-bold text-purple-400">{data.clutch.triples}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {((data.clutch.triples / data.clutch.attacks) * 100).toFixed(1)}%
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Attack Duration */}
+      {data.durations && (
+        <div className="space-y-3 animate-fade-in-up stagger-5">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Timer size={22} className="text-primary" />
+            {t('attackDuration.title')}
+          </h2>
+          <AttackDurationChart durations={data.durations} avgDuration={data.avgDuration} />
+        </div>
+      )}
+
       {/* Season by Season Table */}
       <div className="space-y-3 animate-fade-in-up stagger-6">
         <h2 className="text-2xl font-bold">{t('playerHistory.seasonHistory')}</h2>
@@ -1,12 +1,17 @@
 import { FiltersBar, type PlayersSortKey, type PlayersViewMode } from '@/components/FiltersBar'
 import { PlayerCard } from '@/components/PlayerCard'
 import { PlayerModal } from '@/components/PlayerModal'
+import { ReliabilitySettingsPanel } from '@/components/ReliabilitySettingsPanel'
 import { type PlayerRole } from '@/components/RoleBadge'
 import { THBadge } from '@/components/THBadge'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useReliabilityConfig } from '@/hooks/useReliabilityConfig'
+import { getClutchRate } from '@/lib/clutch'
 import { getPlayers } from '@/lib/data'
+import { getStarTotals, type StarsMode } from '@/lib/netStars'
+import { rescoreReliability } from '@/lib/reliability'
 import type { GlobalPlayer } from '@/lib/types'
 import { cn } from '@/lib/utils'
 import { useEffect, useMemo, useState } from 'react'
@@ -58,10 +63,12 @@ export function PlayersPage() {
   const [selectedClans, setSelectedClans] = useState<string[]>([])
   const [selectedTHs, setSelectedTHs] = useState<number[]>([])
   const [sortBy, setSortBy] = useState<PlayersSortKey>('reliability')
+  const [starsMode, setStarsMode] = useState<StarsMode>('raw')
   const [minWars, setMinWars] = useState(0)
   const [minReliability, setMinReliability] = useState(0)
   const [selectedPlayer, setSelectedPlayer] = useState<{ player: GlobalPlayer; role: PlayerRole } | null>(null)
   const [modalOpen, setModalOpen] = useState(false)
+  const reliability = useReliabilityConfig()
   const { t } = useTranslation()
 
   useEffect(() => {
@@ -78,6 +85,20 @@ export function PlayersPage() {
     return { clanOptions: clans, thOptions: ths }
   }, [players])
 
+  // Recompute reliability from the breakdown components when a what-if formula is set
+  const scoredPlayers = useMemo(() => {
+    if (reliability.isOfficial) return players
+    return players.map((player) => {
+      if (!player.reliabilityBreakdown) return player
+      const reliabilityBreakdown = rescoreReliability(
+        player.reliabilityBreakdown,
+        reliability.config,
+        player.leagueHistory?.map(entry => ({ tier: entry.leagueTier, attacks: entry.attacksInLeague }))
+      )
+      return { ...player, reliabilityBreakdown, reliabilityScore: reliabilityBreakdown.weighted }
+    })
+  }, [players, reliability.config, reliability.isOfficial])
+
   // Determine player role based on stats
   function getPlayerRole(player: GlobalPlayer, rank: number): PlayerRole {
     if (rank === 1) return 'mvp'
@@ -89,7 +110,7 @@ export function PlayersPage() {
 
   // Filter, sort, and rank players
   const processedPlayers = useMemo(() => {
-    const filtered = players.filter((player) => {
+    const filtered = scoredPlayers.filter((player) => {
       const matchesSearch =
         searchQuery === '' ||
         player.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -101,63 +122,79 @@ export function PlayersPage() {
       return matchesSearch && matchesClan && matchesTH && matchesMinWars && matchesMinReliability
     })
 
-    // Sort based on selected criteria
+    // Sort based on selected criteria; star totals follow the raw / net toggle
+    const starsOf = (player: GlobalPlayer) => getStarTotals(player, starsMode).stars
     filtered.sort((a, b) => {
       switch (sortBy) {
         case 'reliability': {
           const relA = a.reliabilityScore ?? 0
           const relB = b.reliabilityScore ?? 0
           if (relB !== relA) return relB - relA
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
         }
         case 'performance': {
           const perfA = a.reliabilityBreakdown?.performance ?? 0
           const perfB = b.reliabilityBreakdown?.performance ?? 0
           if (perfB !== perfA) return perfB - perfA
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
         }
         case 'attendance': {
           const attA = a.reliabilityBreakdown?.attendance ?? 0
           const attB = b.reliabilityBreakdown?.attendance ?? 0
           if (attB !== attA) return attB - attA
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
         }
         case 'leagueAdj': {
           const leagueA = a.reliabilityBreakdown?.leagueAdj ?? 0
           const leagueB = b.reliabilityBreakdown?.leagueAdj ?? 0
           if (leagueB !== leagueA) return leagueB - leagueA
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
         }
         case 'threeStarRate': {
           const rateA = a.threeStarRate ?? 0
           const rateB = b.threeStarRate ?? 0
           if (rateB !== rateA) return rateB - rateA
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
         }
         case 'th': {
           const thA = a.th ?? 0
           const thB = b.th ?? 0
           if (thB !== thA) return thB - thA
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
         }
         case 'wars': {
           const warsA = a.wars ?? 0
           const warsB = b.wars ?? 0
           if (warsB !== warsA) return warsB - warsA
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
         }
         case 'stars':
-          if (b.stars !== a.stars) return b.stars - a.stars
+          if (starsOf(b) !== starsOf(a)) return starsOf(b) - starsOf(a)
           return a.name.localeCompare(b.name)
         case 'avgStars': {
-          const avgA = a.avgStars ?? 0
-          const avgB = b.avgStars ?? 0
+          const avgA = getStarTotals(a, starsMode).avgStars ?? 0
+          const avgB = getStarTotals(b, starsMode).avgStars ?? 0
           if (avgB !== avgA) return avgB - avgA
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
+        }
+        case 'aboveExpected': {
+          const aboveA = a.avgStarsAboveExpected ?? -Infinity
+          const aboveB = b.avgStarsAboveExpected ?? -Infinity
+          if (aboveB !== aboveA) return aboveB - aboveA
+          return starsOf(b) - starsOf(a)
+        }
+        case 'clutch': {
+          const clutchA = a.clutch?.netStars ?? -Infinity
+          const clutchB = b.clutch?.netStars ?? -Infinity
+          if (clutchB !== clutchA) return clutchB - clutchA
+          const rateA = a.clutch ? getClutchRate(a.clutch) : 0
+          const rateB = b.clutch ? getClutchRate(b.clutch) : 0
+          if (rateB !== rateA) return rateB - rateA
+          return starsOf(b) - starsOf(a)
         }
         case 'attacks':
           if (b.attacks !== a.attacks) return b.attacks - a.attacks
-          return b.stars - a.stars
+          return starsOf(b) - starsOf(a)
         case 'name':
           return a.name.localeCompare(b.name)
         default:
@@ -166,7 +203,7 @@ export function PlayersPage() {
     })
 
     return filtered
-  }, [players, searchQuery, selectedClans, selectedTHs, sortBy, minWars, minReliability])
+  }, [scoredPlayers, searchQuery, selectedClans, selectedTHs, sortBy, starsMode, minWars, minReliability])
 
   function handlePlayerClick(player: GlobalPlayer, rank: number) {
     const role = getPlayerRole(player, rank)
@@ -181,9 +218,17 @@ export function PlayersPage() {
   return (
     <div className="space-y-8">
       {/* Header */}
-      <section className="animate-fade-in-up">
-        <h1 className="text-4xl font-bold tracking-tight mb-2">{t('players.title')}</h1>
-        <p className="text-lg text-muted-foreground">{t('players.subtitle')}</p>
+      <section className="animate-fade-in-up flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight mb-2">{t('players.title')}</h1>
+          <p className="text-lg text-muted-foreground">{t('players.subtitle')}</p>
+        </div>
+        <ReliabilitySettingsPanel
+          config={reliability.config}
+          isOfficial={reliability.isOfficial}
+          onChange={reliability.setConfig}
+          onReset={reliability.reset}
+        />
       </section>
 
       {/* Filters Bar */}
@@ -196,6 +241,8 @@ export function PlayersPage() {
         onTHsChange={setSelectedTHs}
         sortBy={sortBy}
         onSortChange={setSortBy}
+        starsMode={starsMode}
+        onStarsModeChange={setStarsMode}
         viewMode={viewMode}
         onViewModeChange={setViewMode}
         clanOptions={clanOptions}
@@ -221,6 +268,7 @@ export function PlayersPage() {
               player={player}
               rank={index + 1}
               role={getPlayerRole(player, index + 1)}
+              starsMode={starsMode}
               onClick={() => handlePlayerClick(player, index + 1)}
               style={{ animationDelay: `${Math.min(index * 0.02, 0.5)}s` }}
             />
@@ -237,11 +285,25 @@ export function PlayersPage() {
                 <TableHead className="font-bold hidden lg:table-cell">{t('players.table.clan')}</TableHead>
                 <TableHead className="font-bold text-center">{t('players.table.th')}</TableHead>
                 <TableHead className="font-bold text-right">{t('players.table.reliability', 'Reliability')}</TableHead>
-                <TableHead className="font-bold text-right hidden sm:table-cell">{t('players.table.stars')}</TableHead>
+                <TableHead className="font-bold text-right hidden sm:table-cell">
+                  {starsMode === 'net' ? t('netStars.net') : t('players.table.stars')}
+                </TableHead>
                 <TableHead className="font-bold text-right hidden md:table-cell">{t('players.table.wars', 'Wars')}</TableHead>
                 <TableHead className="font-bold text-right hidden md:table-cell">{t('players.table.threeStarRate', '3★ Rate')}</TableHead>
                 <TableHead className="font-bold text-right hidden lg:table-cell">{t('players.table.attacks')}</TableHead>
                 <TableHead className="font-bold text-right hidden xl:table-cell">{t('players.table.avg')}</TableHead>
+                <TableHead
+                  className="font-bold text-right hidden xl:table-cell"
+                  title={t('players.table.aboveExpectedTip')}
+                >
+                  {t('players.table.aboveExpected')}
+                </TableHead>
+                <TableHead
+                  className="font-bold text-right hidden xl:table-cell"
+                  title={t('players.table.clutchTip')}
+                >
+                  {t('players.table.clutch')}
+                </TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -279,7 +341,7 @@ export function PlayersPage() {
                     </span>
                   </TableCell>
                   <TableCell className="text-right hidden sm:table-cell">
-                    <span className="text-lg font-bold tabular-nums">{player.stars}</span>
+                    <span className="text-lg font-bold tabular-nums">{getStarTotals(player, starsMode).stars}</span>
                   </TableCell>
                   <TableCell className="text-right tabular-nums hidden md:table-cell">
                     {player.wars}
@@ -297,7 +359,28 @@ export function PlayersPage() {
                     {player.attacks}
                   </TableCell>
                   <TableCell className="text-right font-medium tabular-nums hidden xl:table-cell">
-                    {player.avgStars !== null ? player.avgStars.toFixed(2) : '—'}
+                    {getStarTotals(player, starsMode).avgStars?.toFixed(2) ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-right hidden xl:table-cell">
+                    {player.avgStarsAboveExpected !== undefined ? (
+                      <span className={cn(
+                        "font-medium tabular-nums",
+                        player.avgStarsAboveExpected >= 0.1 ? "text-green-500" :
+                          player.avgStarsAboveExpected <= -0.1 ? "text-red-500" : "text-muted-foreground"
+                      )}>
+                        {player.avgStarsAboveExpected >= 0 ? '+' : ''}{player.avgStarsAboveExpected.toFixed(2)}
+                      </span>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell className="text-right hidden xl:table-cell">
+                    {player.clutch ? (
+                      <span
+                        className="font-medium tabular-nums"
+                        title={t('players.table.clutchCell', { count: player.clutch.attacks, triples: player.clutch.triples })}
+                      >
+                        {player.clutch.netStars}
+                      </span>
+                    ) : '—'}
                   </TableCell>
                 </TableRow>
               ))}
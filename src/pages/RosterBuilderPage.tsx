@@ -1,37 +1,83 @@
 import { ManualPlayerDialog } from '@/components/ManualPlayerDialog'
+import { ReliabilitySettingsPanel } from '@/components/ReliabilitySettingsPanel'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 import { useLeagueProjections } from '@/hooks/useLeagueProjections'
+import { useReliabilityConfig } from '@/hooks/useReliabilityConfig'
+import { useRosterDrafts } from '@/hooks/useRosterDrafts'
+import { useAvailability } from '@/hooks/useAvailability'
 import { useRosterHistory } from '@/hooks/useRosterHistory'
-import { getPlayerHistory, getRecentPlayerPool } from '@/lib/data'
+import { useHistoryActionLabel } from '@/hooks/useHistoryActionLabel'
+import { useWarLineups } from '@/hooks/useWarLineups'
+import { usePromotionOdds } from '@/hooks/usePromotionOdds'
+import { getPlayerHistory, getRecentPlayerPool, leagueIconUrl } from '@/lib/data'
+import { CLAN_ACCENTS, FAMILY, getFamilyClans } from '@/lib/family'
+import { rescoreReliability } from '@/lib/reliability'
+import { AvailabilitySheetError, getAvailableWars, parseAvailabilitySheet } from '@/lib/availability'
+import { getPlanningSeasonId } from '@/lib/rosterDrafts'
+import { getClanRosterStats } from '@/lib/rosterComparison'
 import {
   ATTACKS_PER_SEASON,
-  calculatePlayerScore,
-  getLeagueAdjustedProjection
+  calculateForm
 } from '@/lib/rosterCalculations'
-import type { ManualPlayerEntry, RosterMode, RosterPlayerStats, CustomClan } from '@/lib/types'
-import { ArrowDown, ArrowUp, ArrowCounterClockwise, ArrowClockwise, CircleNotch, Download, Image, Info, Plus, Question, Sparkle, Users, Warning, X } from '@phosphor-icons/react'
-import { useEffect, useMemo, useState } from 'react'
+import {
+  buildRosterBriefingPdf,
+  buildRosterWorkbook,
+  collectRosterExport,
+  formatLeagueAdjustment
+} from '@/lib/rosterExport'
+import { DEFAULT_OPTIMIZER_CONSTRAINTS, optimizeRosters } from '@/lib/rosterOptimizer'
+import {
+  createCustomClan,
+  createRosterPlanFile,
+  decodeRosterPlanParam,
+  diffRosterPlans,
+  encodeRosterPlanParam,
+  fromRosterPlan,
+  parseRosterPlanFile,
+  ROSTER_PLAN_PARAM,
+  RosterPlanError,
+  toRosterPlan
+} from '@/lib/rosterPlan'
+import type { ManualPlayerEntry, OptimizerPlacement, RosterHistoryAction, RosterMode, RosterOptimizerConstraints, RosterPlan, RosterPlayerStats, CustomClan } from '@/lib/types'
+import { ArrowDown, ArrowUp, ArrowCounterClockwise, ArrowsLeftRight, ArrowClockwise, CircleNotch, Download, FilePdf, FileXls, Image, Info, Plus, Question, Sparkle, Users, Warning, X } from '@phosphor-icons/react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { useSearchParams } from 'react-router-dom'
 import { RosterDndContext } from '@/components/roster-builder/RosterDndContext'
 import { DraggablePlayerRow } from '@/components/roster-builder/DraggablePlayerRow'
 import { DroppableClanCard } from '@/components/roster-builder/DroppableClanCard'
+import { AvailabilityPanel } from '@/components/roster-builder/AvailabilityPanel'
+import { OptimizerConstraintsPanel } from '@/components/roster-builder/OptimizerConstraintsPanel'
+import { RosterDraftComparisonDialog } from '@/components/roster-builder/RosterDraftComparisonDialog'
+import { RosterDraftsPanel } from '@/components/roster-builder/RosterDraftsPanel'
+import { RosterHistoryPanel } from '@/components/roster-builder/RosterHistoryPanel'
+import { RosterPlanCompareDialog, type ComparablePlan } from '@/components/roster-builder/RosterPlanCompareDialog'
+import { RosterPlanImportDialog } from '@/components/roster-builder/RosterPlanImportDialog'
+import { RosterPlanShareMenu } from '@/components/roster-builder/RosterPlanShareMenu'
+import { WarLineupDialog } from '@/components/roster-builder/WarLineupDialog'
 import { toast } from 'sonner'
 
-// CoC Masters PL clan tier configuration for multi-clan distribution
+// Clan tier configuration for multi-clan distribution, built from config/family.json
 // Ordered from strongest to weakest clan for cascading player assignment
-// - coc masters PL (#P0J2J8GJ) - main clan
-// - Akademia CoC PL (#JPRPRVUY) - academy
-// - Psychole! (#29RYVJ8C8) - training
-// League data updated for 2026-03 season based on 2026-02 results
-const CLAN_TIERS = [
-  { name: 'coc masters PL', tag: '#P0J2J8GJ', league: 'Champion League I', minTH: 16, color: 'text-blue-400', bgColor: 'bg-blue-400/10', borderColor: 'border-blue-400/30', leagueIcon: '/images/leagues/champion-1.png', isCustom: false },
-  { name: 'Akademia CoC PL', tag: '#JPRPRVUY', league: 'Master League II', minTH: 12, color: 'text-green-400', bgColor: 'bg-green-400/10', borderColor: 'border-green-400/30', leagueIcon: '/images/leagues/master-2.png', isCustom: false },
-  { name: 'Psychole!', tag: '#29RYVJ8C8', league: 'Master League III', minTH: 10, color: 'text-orange-400', bgColor: 'bg-orange-400/10', borderColor: 'border-orange-400/30', leagueIcon: '/images/leagues/master-3.png', isCustom: false },
-] as const satisfies readonly CustomClan[]
+const CLAN_TIERS: readonly CustomClan[] = getFamilyClans().map(clan => ({
+  name: clan.name,
+  tag: clan.tag,
+  league: clan.league,
+  minTH: clan.minTH,
+  color: CLAN_ACCENTS[clan.accent].text,
+  bgColor: CLAN_ACCENTS[clan.accent].bg,
+  borderColor: CLAN_ACCENTS[clan.accent].border,
+  leagueIcon: leagueIconUrl(clan.league) ?? '/images/leagues/unranked.png',
+  isCustom: false,
+}))
+
+// Stable empty rosters for the lineup dialog while it is closed
+const NO_PLAYERS: RosterPlayerStats[] = []
+const NO_MANUAL_PLAYERS: ManualPlayerEntry[] = []
 
 type SortField = 'playerName' | 'totalWars' | 'totalAttacks' | 'totalStars' | 'avgStars' | 'threeStarRate' | 'reliabilityScore' | 'currentTH' | 'form'
 type SortDirection = 'asc' | 'desc'
@@ -47,6 +93,8 @@ const saveRosterState = (data: {
   customClans: CustomClan[]
   clanRosterModes: Record<string, RosterMode>
   manualPlayers: Record<string, ManualPlayerEntry[]>
+  optimizerConstraints: RosterOptimizerConstraints
+  activeDraftId: string | null
 }) => {
   try {
     const serialized = {
@@ -56,6 +104,8 @@ const saveRosterState = (data: {
       customClans: data.customClans,
       clanRosterModes: data.clanRosterModes,
       manualPlayers: data.manualPlayers,
+      optimizerConstraints: data.optimizerConstraints,
+      activeDraftId: data.activeDraftId,
     }
     localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(serialized))
   } catch (err) {
@@ -70,6 +120,8 @@ const loadRosterState = (): {
   customClans: CustomClan[]
   clanRosterModes: Record<string, RosterMode>
   manualPlayers: Record<string, ManualPlayerEntry[]>
+  optimizerConstraints: RosterOptimizerConstraints
+  activeDraftId: string | null
 } | null => {
   try {
     const stored = localStorage.getItem(ROSTER_STORAGE_KEY)
@@ -83,6 +135,8 @@ const loadRosterState = (): {
       customClans: data.customClans as CustomClan[],
       clanRosterModes: data.clanRosterModes || {},
       manualPlayers: data.manualPlayers || {},
+      optimizerConstraints: { ...DEFAULT_OPTIMIZER_CONSTRAINTS, ...data.optimizerConstraints },
+      activeDraftId: data.activeDraftId ?? null,
     }
   } catch (err) {
     console.warn('Failed to load roster state from localStorage:', err)
@@ -98,11 +152,12 @@ const clearRosterState = () => {
   }
 }
 
-// calculateForm is now imported from @/lib/rosterCalculations
+const getPlanErrorKey = (err: unknown): string =>
+  `rosterBuilder.plan.errors.${err instanceof RosterPlanError ? err.reason : 'invalid'}`
 
 export function RosterBuilderPage() {
-  const { t } = useTranslation()
-  const [players, setPlayers] = useState<RosterPlayerStats[]>([])
+  const { t, i18n } = useTranslation()
+  const [playerPool, setPlayerPool] = useState<RosterPlayerStats[]>([])
   const [loading, setLoading] = useState(true)
 
   // Multi-clan state - load from localStorage if available
@@ -138,6 +193,33 @@ export function RosterBuilderPage() {
     return savedState?.manualPlayers || {}
   })
 
+  // Soft constraints for auto-distribute, and the optimizer's explanations from its last run
+  const [optimizerConstraints, setOptimizerConstraints] = useState<RosterOptimizerConstraints>(() => {
+    const savedState = loadRosterState()
+    return savedState?.optimizerConstraints || DEFAULT_OPTIMIZER_CONSTRAINTS
+  })
+  const [optimizerPlacements, setOptimizerPlacements] = useState<Map<string, OptimizerPlacement>>(new Map())
+
+  // Named drafts: edits are saved into the active draft unless it is frozen
+  const rosterDrafts = useRosterDrafts()
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(() => {
+    const savedState = loadRosterState()
+    return savedState?.activeDraftId ?? null
+  })
+  const [comparingDraftId, setComparingDraftId] = useState<string | null>(null)
+
+  // Sign-ups of the season being planned: the active draft's season, else the next CWL
+  const planningSeason = rosterDrafts.drafts.find(d => d.id === activeDraftId)?.season ?? getPlanningSeasonId()
+  const { availability, setPlayerAvailability, importAvailability, clearAvailability } = useAvailability(planningSeason)
+
+  // Day-by-day war lineups of the season being planned
+  const warLineups = useWarLineups(planningSeason)
+  const [lineupClanTag, setLineupClanTag] = useState<string | null>(null)
+
+  // Plan shared via link (?plan=) or imported from a file, waiting for confirmation in the diff preview
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [pendingPlan, setPendingPlan] = useState<{ plan: RosterPlan; source: 'link' | 'file' } | null>(null)
+
   // Manual player dialog state
   const [showManualPlayerDialog, setShowManualPlayerDialog] = useState(false)
   const [selectedClanForManual, setSelectedClanForManual] = useState<string | null>(null)
@@ -155,31 +237,51 @@ export function RosterBuilderPage() {
 
   // Image export state
   const [isExportingImage, setIsExportingImage] = useState(false)
+  const [exportingDocument, setExportingDocument] = useState<'pdf' | 'xlsx' | null>(null)
 
   // League projections hook for player tooltips
   const { getProjection, prefetchPlayer } = useLeagueProjections()
 
   // Undo/Redo history hook
   const rosterHistory = useRosterHistory()
+  const describeHistoryAction = useHistoryActionLabel()
+
+  // Side-by-side comparison of the current plan, drafts and history snapshots
+  const [showCompare, setShowCompare] = useState(false)
+
+  // What-if reliability formula (from the URL), applied to the whole pool
+  const reliability = useReliabilityConfig()
+  const players = useMemo(() => {
+    if (reliability.isOfficial) return playerPool
+    return playerPool.map(p => {
+      if (!p.reliabilityBreakdown) return p
+      const reliabilityBreakdown = rescoreReliability(p.reliabilityBreakdown, reliability.config, p.leagueData)
+      return { ...p, reliabilityBreakdown, reliabilityScore: reliabilityBreakdown.weighted }
+    })
+  }, [playerPool, reliability.config, reliability.isOfficial])
 
   // All clans (built-in + custom)
   const allClans = useMemo(() => [...CLAN_TIERS, ...customClans], [customClans])
 
+  const playerNames = useMemo(
+    () => new Map(players.map(p => [p.playerTag, p.playerName])),
+    [players]
+  )
+  const playerLabel = (playerTag: string) => playerNames.get(playerTag) ?? playerTag
+  const clanLabel = (clanTag: string) => allClans.find(c => c.tag === clanTag)?.name ?? clanTag
+
+  // Label for the next history entry; the entry itself is recorded once the plan changes
+  const pendingHistoryAction = useRef<RosterHistoryAction | null>(null)
+  const labelNextChange = (action: RosterHistoryAction) => {
+    pendingHistoryAction.current = action
+  }
+
   // Add custom clan
   const handleAddCustomClan = () => {
     if (!newClanName.trim()) return
     const tag = newClanTag.trim() || `#CUSTOM${Date.now()}`
-    const newClan: CustomClan = {
-      name: newClanName.trim(),
-      tag: tag.startsWith('#') ? tag : `#${tag}`,
-      league: 'Custom',
-      minTH: 1,
-      color: 'text-orange-400',
-      bgColor: 'bg-orange-400/10',
-      borderColor: 'border-orange-400/30',
-      leagueIcon: '/images/leagues/unranked.png',
-      isCustom: true,
-    }
+    const newClan = createCustomClan(newClanName.trim(), tag)
+    labelNextChange({ type: 'customClanAdd', clan: newClan.name })
     setCustomClans([...customClans, newClan])
     setNewClanName('')
     setNewClanTag('')
@@ -188,6 +290,7 @@ export function RosterBuilderPage() {
 
   // Remove custom clan
   const handleRemoveCustomClan = (tag: string) => {
+    labelNextChange({ type: 'customClanRemove', clan: clanLabel(tag) })
     setCustomClans(customClans.filter(c => c.tag !== tag))
     // Also remove its roster
     const newRosters = new Map(clanRosters)
@@ -198,6 +301,7 @@ export function RosterBuilderPage() {
   // Toggle player exclusion (Out)
   const togglePlayerExcluded = (playerTag: string) => {
     const newSet = new Set(excludedPlayers)
+    labelNextChange({ type: newSet.has(playerTag) ? 'include' : 'exclude', player: playerLabel(playerTag) })
     if (newSet.has(playerTag)) {
       newSet.delete(playerTag)
     } else {
@@ -219,6 +323,7 @@ export function RosterBuilderPage() {
   // Toggle clan lock
   const toggleClanLock = (clanTag: string) => {
     const newSet = new Set(lockedClans)
+    labelNextChange({ type: newSet.has(clanTag) ? 'unlock' : 'lock', clan: clanLabel(clanTag) })
     if (newSet.has(clanTag)) {
       newSet.delete(clanTag)
     } else {
@@ -252,6 +357,7 @@ export function RosterBuilderPage() {
       return // Prevent mode switch
     }
 
+    labelNextChange({ type: 'mode', clan: clanLabel(clanTag), mode: newMode })
     setClanRosterModes({
       ...clanRosterModes,
       [clanTag]: newMode
@@ -275,6 +381,7 @@ export function RosterBuilderPage() {
       return
     }
 
+    labelNextChange({ type: 'manualAdd', player: player.name, clan: clanLabel(selectedClanForManual) })
     setManualPlayers({
       ...manualPlayers,
       [selectedClanForManual]: [...existing, player]
@@ -284,6 +391,8 @@ export function RosterBuilderPage() {
   // Remove manual player from clan by addedAt timestamp (unique identifier)
   const removeManualPlayer = (clanTag: string, addedAt: string) => {
     const existing = manualPlayers[clanTag] || []
+    const removed = existing.find(p => p.addedAt === addedAt)
+    if (removed) labelNextChange({ type: 'manualRemove', player: removed.name, clan: clanLabel(clanTag) })
     setManualPlayers({
       ...manualPlayers,
       [clanTag]: existing.filter(p => p.addedAt !== addedAt)
@@ -305,15 +414,17 @@ export function RosterBuilderPage() {
       customClans,
       clanRosterModes,
       manualPlayers,
+      optimizerConstraints,
+      activeDraftId,
     })
-  }, [clanRosters, lockedClans, excludedPlayers, customClans, clanRosterModes, manualPlayers])
+  }, [clanRosters, lockedClans, excludedPlayers, customClans, clanRosterModes, manualPlayers, optimizerConstraints, activeDraftId])
 
   useEffect(() => {
     async function loadPlayers() {
       setLoading(true)
       try {
         const data = await getRecentPlayerPool(lastNSeasons)
-        setPlayers(data)
+        setPlayerPool(data)
       } catch (err) {
         console.error('Failed to load player pool:', err)
       } finally {
@@ -416,8 +527,8 @@ export function RosterBuilderPage() {
     }
   }
 
-  // Multi-clan mode: auto distribute players across all clans
-  // Respects locked clans, excluded players, manual players, and roster modes
+  // Multi-clan mode: optimize the rosters of all unlocked clans at once (see lib/rosterOptimizer)
+  // Respects locked clans, excluded players, manual players, roster modes and the optimizer constraints
   const handleAutoDistribute = () => {
     // Collect all manually added player tags
     const manualPlayerTags = new Set<string>()
@@ -427,68 +538,60 @@ export function RosterBuilderPage() {
       })
     })
 
-    // Score all players for ranking (exclude "Out" players and manually added players)
-    // Uses calculatePlayerScore from rosterCalculations for consistent scoring
-    const scored = filteredPlayers
-      .filter(p => !excludedPlayers.has(p.playerTag) && !manualPlayerTags.has(p.playerTag))
-      .map(p => ({
-        player: p,
-        score: calculatePlayerScore(p)
-      }))
-    scored.sort((a, b) => b.score - a.score)
-
-    const newRosters = new Map<string, Set<string>>(clanRosters)
-    const usedPlayers = new Set<string>()
-
-    // First, mark all players in locked clans as used
-    lockedClans.forEach(clanTag => {
-      const roster = clanRosters.get(clanTag)
-      if (roster) {
-        roster.forEach(playerTag => usedPlayers.add(playerTag))
-      }
+    // Sign-ups: "out" players stay home, partial ones count for their war days, and a player's own
+    // preferred clan applies unless the optimizer constraints already set one
+    const availableWars = new Map<string, number>()
+    const signUpPreferences: Record<string, string> = {}
+    Object.entries(availability).forEach(([playerTag, entry]) => {
+      if (entry.status === 'partial') availableWars.set(playerTag, getAvailableWars(entry))
+      if (entry.preferredClan && entry.status !== 'out') signUpPreferences[playerTag] = entry.preferredClan
     })
 
-    // Iterate through all clans (built-in + custom) from strongest to weakest
-    // Skip locked clans, assign top performers who meet TH requirements
-    allClans.forEach(clan => {
-      // Skip locked clans - keep their existing roster
-      if (lockedClans.has(clan.tag)) {
-        return
-      }
-
-      const roster = new Set<string>()
-
-      // Calculate available slots (accounting for manual players)
-      const manualCount = manualPlayers[clan.tag]?.length || 0
-      const maxCapacity = getMaxCapacity(clan.tag, true) // Include subs
-      const availableSlots = maxCapacity - manualCount
-
-      // Filter eligible players: meet TH requirement and not already assigned
-      const eligiblePlayers = scored.filter(s =>
-        !usedPlayers.has(s.player.playerTag) &&
-        (s.player.currentTH || 0) >= clan.minTH
-      )
-
-      // Take top N players based on available slots
-      eligiblePlayers.slice(0, availableSlots).forEach(s => {
-        roster.add(s.player.playerTag)
-        usedPlayers.add(s.player.playerTag)
-      })
-
-      newRosters.set(clan.tag, roster)
+    labelNextChange({ type: 'autoDistribute' })
+    const result = optimizeRosters({
+      players: filteredPlayers.filter(p =>
+        !excludedPlayers.has(p.playerTag) &&
+        !manualPlayerTags.has(p.playerTag) &&
+        availability[p.playerTag]?.status !== 'out'
+      ),
+      // Manual players take their clan's slots first
+      clans: allClans.map(clan => {
+        const manualCount = manualPlayers[clan.tag]?.length || 0
+        return {
+          tag: clan.tag,
+          league: clan.league,
+          minTH: clan.minTH,
+          locked: lockedClans.has(clan.tag),
+          capacity: Math.max(0, getMaxCapacity(clan.tag, true) - manualCount),
+          mainSlots: Math.max(0, getMaxCapacity(clan.tag, false) - manualCount),
+        }
+      }),
+      lockedRosters: clanRosters,
+      constraints: {
+        ...optimizerConstraints,
+        preferredClans: { ...signUpPreferences, ...optimizerConstraints.preferredClans },
+      },
+      availableWars,
     })
 
+    const newRosters = new Map<string, Set<string>>(clanRosters)
+    result.rosters.forEach((roster, clanTag) => newRosters.set(clanTag, roster))
     setClanRosters(newRosters)
+    setOptimizerPlacements(result.placements)
+
+    const placed = Array.from(result.rosters.values()).reduce((sum, roster) => sum + roster.size, 0)
+    toast.success(t('rosterBuilder.optimizer.done', { players: placed, stars: result.projectedStars.toFixed(0) }), {
+      description: result.unmetConstraints > 0
+        ? t('rosterBuilder.optimizer.unmet', { count: result.unmetConstraints })
+        : undefined
+    })
   }
 
   // Multi-clan mode: assign player to specific clan
   const assignPlayerToClan = (playerTag: string, clanTag: string | 'none') => {
-    // Push current state to history before making changes
-    rosterHistory.push({
-      clanRosters: new Map(clanRosters),
-      lockedClans: new Set(lockedClans),
-      excludedPlayers: new Set(excludedPlayers)
-    })
+    labelNextChange(clanTag === 'none'
+      ? { type: 'bench', player: playerLabel(playerTag) }
+      : { type: 'move', player: playerLabel(playerTag), clan: clanLabel(clanTag) })
 
     const newRosters = new Map(clanRosters)
 
@@ -523,6 +626,7 @@ export function RosterBuilderPage() {
     const newRosters = new Map(clanRosters)
     const roster = newRosters.get(clanTag)
     if (roster) {
+      labelNextChange({ type: 'bench', player: playerLabel(playerTag) })
       const updated = new Set(roster)
       updated.delete(playerTag)
       newRosters.set(clanTag, updated)
@@ -538,23 +642,31 @@ export function RosterBuilderPage() {
     return null
   }
 
+  // Set the whole working plan at once (one history entry)
+  const setPlan = (plan: RosterPlan) => {
+    const state = fromRosterPlan(plan)
+    setClanRosters(state.clanRosters)
+    setLockedClans(state.lockedClans)
+    setExcludedPlayers(state.excludedPlayers)
+    setCustomClans(state.customClans)
+    setClanRosterModes(state.clanRosterModes)
+    setManualPlayers(state.manualPlayers)
+  }
+
   // Undo/Redo handlers
   const handleUndo = () => {
-    const previousState = rosterHistory.undo()
-    if (previousState) {
-      setClanRosters(previousState.clanRosters)
-      setLockedClans(previousState.lockedClans)
-      setExcludedPlayers(previousState.excludedPlayers)
-    }
+    const plan = rosterHistory.undo()
+    if (plan) setPlan(plan)
   }
 
   const handleRedo = () => {
-    const nextState = rosterHistory.redo()
-    if (nextState) {
-      setClanRosters(nextState.clanRosters)
-      setLockedClans(nextState.lockedClans)
-      setExcludedPlayers(nextState.excludedPlayers)
-    }
+    const plan = rosterHistory.redo()
+    if (plan) setPlan(plan)
+  }
+
+  const handleJumpToHistory = (index: number) => {
+    const plan = rosterHistory.jumpTo(index)
+    if (plan) setPlan(plan)
   }
 
   // Validation message handler for DnD
@@ -564,13 +676,7 @@ export function RosterBuilderPage() {
 
   // Clear all rosters
   const handleClearAllRosters = () => {
-    // Push current state to history before clearing
-    rosterHistory.push({
-      clanRosters: new Map(clanRosters),
-      lockedClans: new Set(lockedClans),
-      excludedPlayers: new Set(excludedPlayers)
-    })
-    
+    labelNextChange({ type: 'clear' })
     setClanRosters(new Map())
     setLockedClans(new Set())
     setExcludedPlayers(new Set())
@@ -579,6 +685,173 @@ export function RosterBuilderPage() {
     clearRosterState() // Clear localStorage
   }
 
+  // Shareable plan: the six pieces of roster state, as a link or versioned JSON file
+  const currentPlan = useMemo(() => toRosterPlan({
+    clanRosters,
+    lockedClans,
+    excludedPlayers,
+    customClans,
+    clanRosterModes,
+    manualPlayers,
+  }), [clanRosters, lockedClans, excludedPlayers, customClans, clanRosterModes, manualPlayers])
+
+  // Plans the compare view can put side by side, only built while it is open
+  const comparablePlans = useMemo<ComparablePlan[]>(() => {
+    if (!showCompare) return []
+    return [
+      { id: 'current', label: t('rosterBuilder.compare.currentPlan'), group: 'current', plan: currentPlan },
+      ...rosterDrafts.drafts.map(d => ({ id: `draft-${d.id}`, label: `${d.name} (${d.season})`, group: 'draft' as const, plan: d.plan })),
+      ...rosterHistory.entries
+        .map((entry, index) => ({ entry, index }))
+        .filter(({ index }) => index !== rosterHistory.currentIndex)
+        .reverse()
+        .map(({ entry, index }) => ({
+          id: `history-${index}`,
+          label: `${describeHistoryAction(entry.action)} · ${new Date(entry.at).toLocaleString(i18n.language, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`,
+          group: 'history' as const,
+          plan: entry.plan,
+        })),
+    ]
+  }, [showCompare, currentPlan, rosterDrafts.drafts, rosterHistory.entries, rosterHistory.currentIndex, describeHistoryAction, t, i18n.language])
+
+  // Every change of the plan becomes a history entry, labelled by the handler that made it
+  const { record: recordHistory } = rosterHistory
+  useEffect(() => {
+    recordHistory(currentPlan, pendingHistoryAction.current ?? { type: 'edit' })
+    pendingHistoryAction.current = null
+  }, [currentPlan, recordHistory])
+
+  const planDiff = useMemo(
+    () => pendingPlan ? diffRosterPlans(currentPlan, pendingPlan.plan) : null,
+    [currentPlan, pendingPlan]
+  )
+
+  const showPlanError = (err: unknown) => {
+    console.warn('Failed to read roster plan:', err)
+    toast.error(t(getPlanErrorKey(err)))
+  }
+
+  // Open the diff preview for a plan link
+  const planParam = searchParams.get(ROSTER_PLAN_PARAM)
+  useEffect(() => {
+    if (!planParam) return
+    decodeRosterPlanParam(planParam)
+      .then(plan => setPendingPlan({ plan, source: 'link' }))
+      .catch(err => {
+        console.warn('Failed to read roster plan link:', err)
+        toast.error(t(getPlanErrorKey(err)))
+      })
+  }, [planParam, t])
+
+  const closePlanPreview = () => {
+    setPendingPlan(null)
+    if (searchParams.has(ROSTER_PLAN_PARAM)) {
+      setSearchParams(prev => {
+        const next = new URLSearchParams(prev)
+        next.delete(ROSTER_PLAN_PARAM)
+        return next
+      }, { replace: true })
+    }
+  }
+
+  const applyPendingPlan = () => {
+    if (!pendingPlan) return
+    labelNextChange({ type: 'importPlan' })
+    setPlan(pendingPlan.plan)
+    closePlanPreview()
+    toast.success(t('rosterBuilder.plan.applied'))
+  }
+
+  const handleCopyPlanLink = async () => {
+    try {
+      const url = new URL(window.location.href)
+      url.searchParams.set(ROSTER_PLAN_PARAM, await encodeRosterPlanParam(currentPlan))
+      await navigator.clipboard.writeText(url.toString())
+      toast.success(t('rosterBuilder.plan.linkCopied'))
+    } catch (err) {
+      console.warn('Failed to copy roster plan link:', err)
+      toast.error(t('rosterBuilder.plan.linkCopyFailed'))
+    }
+  }
+
+  const handleExportPlanFile = () => {
+    const json = JSON.stringify(createRosterPlanFile(currentPlan), null, 2)
+    const blob = new Blob([json], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `cwl-roster-plan-${new Date().toISOString().slice(0, 10)}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImportPlanFile = async (file: File) => {
+    try {
+      const plan = parseRosterPlanFile(JSON.parse(await file.text()))
+      setPendingPlan({ plan, source: 'file' })
+    } catch (err) {
+      showPlanError(err)
+    }
+  }
+
+  // Keep the active draft in sync with the working plan
+  const activeDraft = rosterDrafts.drafts.find(d => d.id === activeDraftId) ?? null
+  const { updateDraftPlan } = rosterDrafts
+  useEffect(() => {
+    if (!activeDraft || activeDraft.frozenAt) return
+    if (JSON.stringify(activeDraft.plan) !== JSON.stringify(currentPlan)) {
+      updateDraftPlan(activeDraft.id, currentPlan)
+    }
+  }, [activeDraft, currentPlan, updateDraftPlan])
+
+  const handleCreateDraft = (name: string, season: string) => {
+    const draft = rosterDrafts.createDraft(name, season, currentPlan)
+    setActiveDraftId(draft.id)
+    toast.success(t('rosterBuilder.drafts.saved', { name }))
+  }
+
+  const handleLoadDraft = (id: string) => {
+    const draft = rosterDrafts.drafts.find(d => d.id === id)
+    if (!draft) return
+    labelNextChange({ type: 'loadDraft', name: draft.name })
+    setPlan(draft.plan)
+    setActiveDraftId(draft.id)
+    toast.success(t('rosterBuilder.drafts.loaded', { name: draft.name }))
+  }
+
+  const handleDuplicateDraft = (id: string) => {
+    const source = rosterDrafts.drafts.find(d => d.id === id)
+    if (!source) return
+    rosterDrafts.duplicateDraft(id, t('rosterBuilder.drafts.copyName', { name: source.name }))
+  }
+
+  const handleDeleteDraft = (id: string) => {
+    rosterDrafts.deleteDraft(id)
+    if (id === activeDraftId) setActiveDraftId(null)
+  }
+
+  const handleFreezeDraft = (id: string) => {
+    const draft = rosterDrafts.drafts.find(d => d.id === id)
+    if (!draft) return
+    rosterDrafts.freezeDraft(id)
+    toast.success(t('rosterBuilder.drafts.frozen', { name: draft.name, season: draft.season }))
+  }
+
+  const handleImportAvailability = async (file: File) => {
+    try {
+      const { availability: imported, skipped } = parseAvailabilitySheet(await file.text(), players, allClans)
+      importAvailability(imported)
+      toast.success(t('rosterBuilder.availability.imported', { count: Object.keys(imported).length, season: planningSeason }), {
+        description: skipped.length > 0
+          ? t('rosterBuilder.availability.skipped', { count: skipped.length, names: skipped.slice(0, 5).join(', ') })
+          : undefined
+      })
+    } catch (err) {
+      console.warn('Failed to import sign-up sheet:', err)
+      toast.error(t(`rosterBuilder.availability.errors.${err instanceof AvailabilitySheetError ? err.reason : 'invalid'}`))
+    }
+  }
+
   const csvEscape = (value: unknown): string => {
     if (value === null || value === undefined) return ''
     const str = String(value)
@@ -587,6 +860,42 @@ export function RosterBuilderPage() {
     return needsQuoting ? `"${escaped}"` : escaped
   }
 
+  // Every clan's roster as the exports see it (see lib/rosterExport)
+  const getExportClans = () => multiClanStats.map(({ clan, players: clanPlayers, manualPlayers: clanManualPlayers }) => ({
+    clan,
+    players: clanPlayers,
+    manualPlayers: clanManualPlayers,
+    rosterMode: clanRosterModes[clan.tag] || '15v15' as const,
+    maxCapacity: getMaxCapacity(clan.tag, false),
+    promotionOdds: promotionOdds.get(clan.tag),
+  }))
+
+  const downloadExport = (blob: Blob, extension: string) => {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `cwl-rosters-${planningSeason}.${extension}`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleExportDocument = async (format: 'pdf' | 'xlsx') => {
+    setExportingDocument(format)
+    try {
+      const clans = await collectRosterExport(getExportClans(), availability, getPlayerHistory)
+      const meta = { familyName: FAMILY.name, season: planningSeason, generatedAt: new Date() }
+      downloadExport(
+        format === 'pdf' ? await buildRosterBriefingPdf(clans, meta) : await buildRosterWorkbook(clans, meta),
+        format
+      )
+    } catch (err) {
+      console.error(`Failed to export ${format}:`, err)
+      toast.error(t('rosterBuilder.exportFailed'))
+    } finally {
+      setExportingDocument(null)
+    }
+  }
+
   // Multi-clan export with enhanced columns
   const handleExportMultiClan = async () => {
     const header = [
@@ -615,98 +924,33 @@ export function RosterBuilderPage() {
     ]
     const rows: string[][] = [header]
 
-    // Process all clans (built-in + custom)
-    for (const clan of allClans) {
-      const roster = clanRosters.get(clan.tag) || new Set()
-      const rosterPlayers = filteredPlayers.filter(p => roster.has(p.playerTag))
-      const clanManualPlayers = manualPlayers[clan.tag] || []
-      const maxCapacity = getMaxCapacity(clan.tag, false)
-
-      // Sort all players by avgStars for consistent ordering
-      const sortedRosterPlayers = [...rosterPlayers].sort((a, b) => b.avgStars - a.avgStars)
-
-      let playerIndex = 0
-
-      // Process database players
-      for (const p of sortedRosterPlayers) {
-        const isSubstitute = playerIndex >= maxCapacity
-
-        // Fetch player season data for league adjustments
-        let historicalLeague = 'N/A'
-        let leagueAdjustment = 0
-        let adjustedProjection = p.avgStars * ATTACKS_PER_SEASON
-
-        try {
-          const playerHistory = await getPlayerHistory(p.playerTag)
-          if (playerHistory && playerHistory.seasons && playerHistory.seasons.length > 0) {
-            const projection = getLeagueAdjustedProjection(p, clan.league, playerHistory.seasons)
-            historicalLeague = projection.historicalLeague || 'N/A'
-            leagueAdjustment = projection.adjustment
-            adjustedProjection = projection.projectedStars
-          }
-        } catch (err) {
-          console.warn(`Failed to get league adjustment for ${p.playerTag}:`, err)
-        }
-
+    for (const { clan, players: clanPlayers } of await collectRosterExport(getExportClans(), availability, getPlayerHistory)) {
+      for (const p of clanPlayers) {
+        const isManual = p.type === 'manual'
         rows.push([
           clan.name,
           clan.league,
-          p.playerName,
-          p.playerTag,
-          p.clanName,
-          String(p.currentTH || '-'),
-          'DB Player',                                          // Type
-          isSubstitute ? 'Yes' : 'No',                          // Substitute
-          String(p.seasonsPlayed),
-          String(p.totalWars),
-          String(p.totalAttacks),
-          String(p.missedAttacks ?? 0),
-          String(p.totalStars),
+          p.name,
+          p.tag || 'N/A',
+          p.currentClan ?? 'Manual Entry',
+          String(p.th || '-'),
+          isManual ? 'Manual' : 'DB Player',                   // Type
+          p.substitute ? 'Yes' : 'No',                         // Substitute
+          p.seasons !== null ? String(p.seasons) : '-',
+          p.wars !== null ? String(p.wars) : '-',
+          p.attacks !== null ? String(p.attacks) : '-',
+          p.missedAttacks !== null ? String(p.missedAttacks) : '-',
+          p.stars !== null ? String(p.stars) : '-',
           p.avgStars.toFixed(2),
-          p.threeStarRate.toFixed(1) + '%',
-          p.reliabilityScore.toFixed(0) + '%',
-          calculateForm(p).toFixed(2),
-          historicalLeague,                                     // Historical League
-          clan.league,                                          // Target League
-          leagueAdjustment !== 0 ? `${leagueAdjustment > 0 ? '+' : ''}${leagueAdjustment.toFixed(0)}%` : '0%', // League Adjustment %
-          (p.avgStars * ATTACKS_PER_SEASON).toFixed(1),       // Projected Stars (Base)
-          adjustedProjection.toFixed(1)                        // Projected Stars (Adjusted)
-        ])
-
-        playerIndex++
-      }
-
-      // Process manual players
-      for (const mp of clanManualPlayers) {
-        const isSubstitute = playerIndex >= maxCapacity
-        const baseProjection = mp.estimatedAvgStars * ATTACKS_PER_SEASON
-
-        rows.push([
-          clan.name,
-          clan.league,
-          mp.name,
-          mp.tag || 'N/A',
-          'Manual Entry',
-          String(mp.th || '-'),
-          'Manual',                                             // Type
-          isSubstitute ? 'Yes' : 'No',                          // Substitute
-          '-',                                                  // Seasons
-          '-',                                                  // Wars
-          '-',                                                  // Attacks
-          '-',                                                  // Missed Attacks
-          '-',                                                  // Stars
-          mp.estimatedAvgStars.toFixed(2),                     // Avg Stars
-          '-',                                                  // 3★ Rate
-          '-',                                                  // Reliability
-          '-',                                                  // Form
-          'N/A',                                                // Historical League
+          p.threeStarRate !== null ? p.threeStarRate.toFixed(1) + '%' : '-',
+          p.reliability !== null ? p.reliability.toFixed(0) + '%' : '-',
+          p.form !== null ? p.form.toFixed(2) : '-',
+          p.historicalLeague || 'N/A',                         // Historical League
           clan.league,                                          // Target League
-          'N/A',                                                // League Adjustment %
-          baseProjection.toFixed(1),                           // Projected Stars (Base)
-          baseProjection.toFixed(1)                            // Projected Stars (Adjusted)
+          isManual ? 'N/A' : formatLeagueAdjustment(p.leagueAdjustment ?? 0), // League Adjustment %
+          p.baseProjection.toFixed(1),                         // Projected Stars (Base)
+          p.projectedStars.toFixed(1)                          // Projected Stars (Adjusted)
         ])
-
-        playerIndex++
       }
     }
 
@@ -764,16 +1008,7 @@ export function RosterBuilderPage() {
         const manualProjected = clanManualPlayers.reduce((sum, p) => sum + (p.estimatedAvgStars * ATTACKS_PER_SEASON), 0)
         const projectedStars = dbProjected + manualProjected
 
-        const colorMap: Record<string, string> = {
-          'text-yellow-400': '#facc15',
-          'text-purple-400': '#a855f7',
-          'text-blue-400': '#3b82f6',
-          'text-cyan-400': '#22d3ee',
-          'text-green-400': '#4ade80',
-          'text-emerald-400': '#34d399',
-          'text-orange-400': '#fb923c',
-        }
-        const accentColor = colorMap[clan.color] || '#888'
+        const accentColor = Object.values(CLAN_ACCENTS).find(accent => accent.text === clan.color)?.hex || '#888'
 
         const playerList = allRosterMembers.map((member, idx) => {
           const isSubstitute = idx >= maxCapacity
@@ -875,7 +1110,7 @@ export function RosterBuilderPage() {
             <!-- Header -->
             <div style="text-align: center; margin-bottom: 32px; padding-bottom: 24px; border-bottom: 2px solid rgba(255,255,255,0.1);">
               <h1 style="font-size: 36px; font-weight: 800; margin-bottom: 8px; background: linear-gradient(90deg, #f59e0b, #fbbf24); -webkit-background-clip: text; -webkit-text-fill-color: transparent;">⚔️ CWL MULTI-CLAN ROSTER</h1>
-              <p style="color: #94a3b8; font-size: 16px;">CoC Masters PL Family • ${new Date().toLocaleDateString()}</p>
+              <p style="color: #94a3b8; font-size: 16px;">${FAMILY.name} Family • ${new Date().toLocaleDateString()}</p>
               <div style="display: flex; justify-content: center; gap: 48px; margin-top: 20px;">
                 <div>
                   <span style="font-size: 28px; font-weight: 800; color: #f59e0b;">${totalPlayers}</span>
@@ -895,7 +1130,7 @@ export function RosterBuilderPage() {
 
             <!-- Footer -->
             <div style="text-align: center; margin-top: 32px; padding-top: 20px; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #64748b; font-size: 12px;">🏆 Generated by CoC Masters PL CWL Dashboard</p>
+              <p style="color: #64748b; font-size: 12px;">🏆 Generated by ${FAMILY.name} CWL Dashboard</p>
             </div>
           </div>
         </body>
@@ -928,53 +1163,35 @@ export function RosterBuilderPage() {
     }
   }
 
-  // Multi-clan stats for each clan
+  // Multi-clan stats for each clan (see lib/rosterComparison)
   const multiClanStats = useMemo(() => {
     return allClans.map(clan => {
       const roster = clanRosters.get(clan.tag) || new Set()
       const rosterPlayers = filteredPlayers.filter(p => roster.has(p.playerTag))
       const clanManualPlayers = manualPlayers[clan.tag] || []
-
-      const totalCount = roster.size + clanManualPlayers.length
-
-      if (totalCount === 0) {
-        return {
-          clan,
-          count: 0,
-          projectedStars: '0',
-          avgTH: '0',
-          avgReliability: '0',
-          players: [],
-          manualPlayers: []
-        }
-      }
-
-      // Calculate projected stars including manual players
-      const dbPlayerProjected = rosterPlayers.reduce((sum, p) => sum + (p.avgStars * ATTACKS_PER_SEASON), 0)
-      const manualPlayerProjected = clanManualPlayers.reduce((sum, p) => sum + (p.estimatedAvgStars * ATTACKS_PER_SEASON), 0)
-      const totalProjectedStars = dbPlayerProjected + manualPlayerProjected
-
-      // Calculate average TH including manual players
-      const dbPlayerTH = rosterPlayers.reduce((sum, p) => sum + (p.currentTH || 0), 0)
-      const manualPlayerTH = clanManualPlayers.reduce((sum, p) => sum + p.th, 0)
-      const avgTH = (dbPlayerTH + manualPlayerTH) / totalCount
-
-      // Calculate average reliability (manual players don't have reliability)
-      const avgReliability = rosterPlayers.length > 0
-        ? rosterPlayers.reduce((sum, p) => sum + p.reliabilityScore, 0) / rosterPlayers.length
-        : 0
+      const stats = getClanRosterStats(rosterPlayers, clanManualPlayers, availability)
 
       return {
         clan,
-        count: totalCount,
-        projectedStars: totalProjectedStars.toFixed(0),
-        avgTH: avgTH.toFixed(1),
-        avgReliability: avgReliability.toFixed(0),
+        count: roster.size + clanManualPlayers.length,
+        projectedStars: stats.projectedStars.toFixed(0),
+        avgTH: stats.avgTH.toFixed(1),
+        avgReliability: stats.avgReliability.toFixed(0),
         players: rosterPlayers,
         manualPlayers: clanManualPlayers
       }
     })
-  }, [allClans, clanRosters, filteredPlayers, manualPlayers])
+  }, [allClans, clanRosters, filteredPlayers, manualPlayers, availability])
+  const lineupClanStats = multiClanStats.find(s => s.clan.tag === lineupClanTag)
+
+  // Group position odds shown on each clan card (see lib/promotionSimulator)
+  const promotionOddsClans = useMemo(() => multiClanStats.map(({ clan, players, manualPlayers: clanManualPlayers }) => ({
+    clan,
+    players,
+    manualPlayers: clanManualPlayers,
+    rosterMode: clanRosterModes[clan.tag] || '15v15' as const,
+  })), [multiClanStats, clanRosterModes])
+  const promotionOdds = usePromotionOdds(promotionOddsClans, availability, warLineups.lineups)
 
   // Total players assigned across all clans (including manual players)
   const totalAssigned = useMemo(() => {
@@ -1039,10 +1256,18 @@ export function RosterBuilderPage() {
 
       {/* Filters */}
       <div className="rounded-lg border border-border/80 bg-card/70 p-4 space-y-4 mt-4">
-        <h2 className="text-lg font-semibold flex items-center gap-2">
-          <Users size={20} className="text-primary" />
-          {t('rosterBuilder.filters')}
-        </h2>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Users size={20} className="text-primary" />
+            {t('rosterBuilder.filters')}
+          </h2>
+          <ReliabilitySettingsPanel
+            config={reliability.config}
+            isOfficial={reliability.isOfficial}
+            onChange={reliability.setConfig}
+            onReset={reliability.reset}
+          />
+        </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
           <div>
@@ -1238,6 +1463,24 @@ export function RosterBuilderPage() {
             <Download size={16} />
             {t('rosterBuilder.exportCSV')}
           </Button>
+          <Button
+            onClick={() => handleExportDocument('pdf')}
+            variant="secondary"
+            className="gap-2"
+            disabled={totalAssigned === 0 || exportingDocument !== null}
+          >
+            {exportingDocument === 'pdf' ? <CircleNotch size={16} className="animate-spin" /> : <FilePdf size={16} />}
+            {t('rosterBuilder.exportPDF')}
+          </Button>
+          <Button
+            onClick={() => handleExportDocument('xlsx')}
+            variant="secondary"
+            className="gap-2"
+            disabled={totalAssigned === 0 || exportingDocument !== null}
+          >
+            {exportingDocument === 'xlsx' ? <CircleNotch size={16} className="animate-spin" /> : <FileXls size={16} />}
+            {t('rosterBuilder.exportExcel')}
+          </Button>
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -1258,11 +1501,56 @@ export function RosterBuilderPage() {
               <p className="text-xs text-muted-foreground italic">{t('rosterBuilder.guide.annotations.exportJoke')}</p>
             </TooltipContent>
           </Tooltip>
+          <Button onClick={() => setShowCompare(true)} variant="outline" className="gap-2">
+            <ArrowsLeftRight size={16} />
+            {t('rosterBuilder.compare.open')}
+          </Button>
+          <RosterPlanShareMenu
+            onCopyLink={handleCopyPlanLink}
+            onExportFile={handleExportPlanFile}
+            onImportFile={handleImportPlanFile}
+          />
           <div className="ml-auto text-sm text-muted-foreground">
             {t('rosterBuilder.totalAssigned')}: <span className="font-bold text-primary">{totalAssigned}</span> / {filteredPlayers.length}
           </div>
         </div>
 
+        <OptimizerConstraintsPanel
+          constraints={optimizerConstraints}
+          onChange={setOptimizerConstraints}
+          players={players}
+          allClans={allClans}
+        />
+
+        <RosterDraftsPanel
+          drafts={rosterDrafts.drafts}
+          activeDraftId={activeDraftId}
+          onCreate={handleCreateDraft}
+          onLoad={handleLoadDraft}
+          onDuplicate={handleDuplicateDraft}
+          onRename={rosterDrafts.renameDraft}
+          onDelete={handleDeleteDraft}
+          onFreeze={handleFreezeDraft}
+          onUnfreeze={rosterDrafts.unfreezeDraft}
+          onCompare={setComparingDraftId}
+        />
+
+        <AvailabilityPanel
+          season={planningSeason}
+          availability={availability}
+          poolSize={players.length}
+          onImportFile={handleImportAvailability}
+          onClear={clearAvailability}
+        />
+
+        <RosterHistoryPanel
+          entries={rosterHistory.entries}
+          currentIndex={rosterHistory.currentIndex}
+          savedEntries={rosterHistory.savedEntries}
+          onJumpTo={handleJumpToHistory}
+          onClear={rosterHistory.clear}
+        />
+
         {/* Add Custom Clan Section */}
         <div className="rounded-lg border border-border/60 bg-card/40 p-4">
           <div className="flex items-center gap-3 flex-wrap">
@@ -1360,6 +1648,7 @@ export function RosterBuilderPage() {
                 isLocked={isLocked}
                 count={count}
                 projectedStars={projectedStars}
+                promotionOdds={promotionOdds.get(clan.tag)}
                 avgTH={avgTH}
                 avgReliability={avgReliability}
                 players={players}
@@ -1372,8 +1661,13 @@ export function RosterBuilderPage() {
                 onRemovePlayer={removePlayerFromClan}
                 onRemoveManualPlayer={removeManualPlayer}
                 onAddManualPlayer={openManualPlayerDialog}
+                onOpenLineups={setLineupClanTag}
                 getProjection={getProjection}
                 prefetchPlayer={prefetchPlayer}
+                placements={optimizerPlacements}
+                allClans={allClans}
+                playerNames={playerNames}
+                availability={availability}
               />
             )
           })}
@@ -1489,6 +1783,7 @@ export function RosterBuilderPage() {
                   const assignedClan = getPlayerAssignment(player.playerTag)
                   const assignedClanInfo = allClans.find(c => c.tag === assignedClan)
                   const isExcluded = excludedPlayers.has(player.playerTag)
+                  const placement = optimizerPlacements.get(player.playerTag)
 
                   return (
                     <DraggablePlayerRow
@@ -1502,6 +1797,10 @@ export function RosterBuilderPage() {
                       onToggleExcluded={togglePlayerExcluded}
                       onAssignToClan={assignPlayerToClan}
                       getMaxCapacity={getMaxCapacity}
+                      placement={!assignedClan && !isExcluded && placement?.clanTag === null ? placement : undefined}
+                      playerNames={playerNames}
+                      availability={availability[player.playerTag]}
+                      onAvailabilityChange={setPlayerAvailability}
                     />
                   )
                 })}
@@ -1524,6 +1823,59 @@ export function RosterBuilderPage() {
         <p>🐺 {t('rosterBuilder.guide.welcomeShort')} 🐺</p>
       </div>
 
+      {/* Imported plan preview */}
+      <RosterPlanImportDialog
+        open={pendingPlan !== null}
+        onOpenChange={(open) => {
+          if (!open) closePlanPreview()
+        }}
+        diff={planDiff}
+        source={pendingPlan?.source ?? 'file'}
+        allClans={[...allClans, ...(planDiff?.customClansAdded ?? [])]}
+        playerNames={playerNames}
+        onApply={applyPendingPlan}
+      />
+
+      {/* Official roster vs who actually played */}
+      <RosterDraftComparisonDialog
+        draft={rosterDrafts.drafts.find(d => d.id === comparingDraftId) ?? null}
+        onOpenChange={(open) => {
+          if (!open) setComparingDraftId(null)
+        }}
+        allClans={allClans}
+        playerNames={playerNames}
+      />
+
+      <RosterPlanCompareDialog
+        open={showCompare}
+        onOpenChange={setShowCompare}
+        plans={comparablePlans}
+        builtInClans={CLAN_TIERS}
+        players={filteredPlayers}
+        availability={availability}
+        getProjection={getProjection}
+        prefetchPlayer={prefetchPlayer}
+        playerNames={playerNames}
+      />
+
+      <WarLineupDialog
+        clan={lineupClanStats?.clan ?? null}
+        onOpenChange={(open) => {
+          if (!open) setLineupClanTag(null)
+        }}
+        season={planningSeason}
+        players={lineupClanStats?.players ?? NO_PLAYERS}
+        manualPlayers={lineupClanStats?.manualPlayers ?? NO_MANUAL_PLAYERS}
+        rosterMode={(lineupClanTag && clanRosterModes[lineupClanTag]) || '15v15'}
+        lineups={warLineups.lineups}
+        availability={availability}
+        onChange={warLineups.setClanLineups}
+        getProjection={getProjection}
+        prefetchPlayer={prefetchPlayer}
+        allClans={allClans}
+        playerNames={playerNames}
+      />
+
       {/* Manual Player Dialog */}
       <ManualPlayerDialog
         open={showManualPlayerDialog}
@@ -1,16 +1,22 @@
+import { AttackTypeBadge } from '@/components/AttackTypeBreakdownTable'
 import { THBadge } from '@/components/THBadge'
+import { WarPostMortemPanel } from '@/components/WarPostMortemPanel'
+import { WarReplay } from '@/components/WarReplay'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { classifyAttack, getMapRanks } from '@/lib/attackTypes'
 import { getWarTimeline } from '@/lib/data'
-import type { WarMemberSummary, WarTimeline } from '@/lib/types'
+import { FAMILY, FAMILY_SITE_HOST } from '@/lib/family'
+import type { AttackType, WarMemberSummary, WarTimeline } from '@/lib/types'
 import {
   ArrowLeft,
   Clock,
   Download,
   Funnel,
+  Play,
   Shield,
   Star,
   Sword,
@@ -35,7 +41,7 @@ export function WarDetailPage() {
   const navigate = useNavigate()
   const [data, setData] = useState<WarTimeline | null>(null)
   const [loading, setLoading] = useState(true)
-  const [viewMode, setViewMode] = useState<'timeline' | 'clan' | 'opponent'>('timeline')
+  const [viewMode, setViewMode] = useState<'timeline' | 'clan' | 'opponent' | 'replay'>('timeline')
   const [filters, setFilters] = useState<TimelineFilters>({
     minStars: null,
     attackerTH: null,
@@ -119,6 +125,22 @@ export function WarDetailPage() {
     return Array.from(ths).sort((a, b) => b - a)
   }, [data?.attackTimeline])
 
+  // Mirror / hit-up / hit-down / off-mirror of each attack, keyed by attack order
+  const attackTypes = useMemo(() => {
+    const types = new Map<number, AttackType | null>()
+    if (!data) return types
+    const ranks = new Map([...getMapRanks(data.clan.members), ...getMapRanks(data.opponent.members)])
+    for (const attack of data.attackTimeline) {
+      types.set(attack.order, classifyAttack(
+        attack.attackerTH,
+        attack.defenderTH,
+        ranks.get(attack.attackerTag),
+        ranks.get(attack.defenderTag)
+      ))
+    }
+    return types
+  }, [data])
+
   // Filter timeline attacks
   const filteredTimeline = useMemo(() => {
     if (!data?.attackTimeline) return []
@@ -245,7 +267,7 @@ export function WarDetailPage() {
             
             <!-- Footer -->
             <div style="text-align: center; padding-top: 16px; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #666666; font-size: 12px; margin: 0;">CoC Masters PL • coc-masters-pl.vercel.app</p>
+              <p style="color: #666666; font-size: 12px; margin: 0;">${FAMILY.name} • ${FAMILY_SITE_HOST}</p>
             </div>
           </div>
         </body>
@@ -470,6 +492,15 @@ export function WarDetailPage() {
           <Shield size={16} className="mr-2" />
           {t('warDetail.viewDefenses')}
         </Button>
+        <Button
+          variant={viewMode === 'replay' ? 'default' : 'outline'}
+          onClick={() => setViewMode('replay')}
+          size="sm"
+          className="transition-all"
+        >
+          <Play size={16} className="mr-2" />
+          {t('warDetail.viewReplay')}
+        </Button>
 
         {/* Filter toggle */}
         {viewMode === 'timeline' && (
@@ -586,12 +617,13 @@ export function WarDetailPage() {
                   <TableHead className="text-center">{t('warDetail.stars')}</TableHead>
                   <TableHead className="text-center">{t('warDetail.destruction')}</TableHead>
                   <TableHead className="text-center">{t('warDetail.duration')}</TableHead>
+                  <TableHead>{t('attackTypes.type')}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredTimeline.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
                       {t('warDetail.noMatchingAttacks')}
                     </TableCell>
                   </TableRow>
@@ -635,6 +667,9 @@ export function WarDetailPage() {
                       <TableCell className="text-center font-mono text-muted-foreground">
                         {formatDuration(attack.duration)}
                       </TableCell>
+                      <TableCell>
+                        <AttackTypeBadge type={attackTypes.get(attack.order)} />
+                      </TableCell>
                     </TableRow>
                   ))
                 )}
@@ -648,7 +683,7 @@ export function WarDetailPage() {
       {viewMode === 'clan' && (
         <div className="space-y-3 animate-in fade-in duration-300">
           <h2 className="text-xl font-bold">{t('warDetail.clanAttacks')}</h2>
-          <MemberAttacksTable members={data.clan.members} t={t} />
+          <MemberAttacksTable members={data.clan.members} attackTypes={attackTypes} t={t} />
         </div>
       )}
 
@@ -656,7 +691,23 @@ export function WarDetailPage() {
       {viewMode === 'opponent' && (
         <div className="space-y-3 animate-in fade-in duration-300">
           <h2 className="text-xl font-bold">{t('warDetail.opponentAttacks')}</h2>
-          <MemberAttacksTable members={data.opponent.members} t={t} />
+          <MemberAttacksTable members={data.opponent.members} attackTypes={attackTypes} t={t} />
+        </div>
+      )}
+
+      {/* Replay View */}
+      {viewMode === 'replay' && (
+        <div className="space-y-3 animate-in fade-in duration-300">
+          <h2 className="text-xl font-bold">{t('warDetail.replay.title')}</h2>
+          <WarReplay war={data} />
+        </div>
+      )}
+
+      {/* Post-mortem */}
+      {data.postMortem && (
+        <div className="space-y-3 animate-in fade-in duration-300">
+          <h2 className="text-xl font-bold">{t('warDetail.postMortem.title')}</h2>
+          <WarPostMortemPanel postMortem={data.postMortem} result={data.result} />
         </div>
       )}
     </div>
@@ -665,10 +716,11 @@ export function WarDetailPage() {
 
 interface MemberAttacksTableProps {
   members: WarMemberSummary[]
+  attackTypes: Map<number, AttackType | null>
   t: (key: string) => string
 }
 
-function MemberAttacksTable({ members, t }: MemberAttacksTableProps) {
+function MemberAttacksTable({ members, attackTypes, t }: MemberAttacksTableProps) {
   const getStarDisplay = (stars: number) => (
     <span className="text-yellow-400">
       {'★'.repeat(stars)}
@@ -710,10 +762,13 @@ function MemberAttacksTable({ members, t }: MemberAttacksTableProps) {
                 {member.attacks.length > 0 ? (
                   <div className="space-y-1">
                     {member.attacks.map((attack, atkIdx) => (
-                      <div key={atkIdx} className="text-sm">
-                        <span className="text-muted-foreground">vs </span>
-                        <span className="font-medium">{attack.defenderName}</span>
-                        <span className="text-muted-foreground"> #{attack.defenderMapPosition}</span>
+                      <div key={atkIdx} className="text-sm flex items-center gap-2">
+                        <span>
+                          <span className="text-muted-foreground">vs </span>
+                          <span className="font-medium">{attack.defenderName}</span>
+                          <span className="text-muted-foreground"> #{attack.defenderMapPosition}</span>
+                        </span>
+                        <AttackTypeBadge type={attackTypes.get(attack.order)} />
                       </div>
                     ))}
                   </div>
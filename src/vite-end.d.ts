@@ -1,3 +1,5 @@
 /// <reference types="vite/client" />
 declare const GITHUB_RUNTIME_PERMANENT_NAME: string
-declare const BASE_KV_SERVICE_URL: string
\ No newline at end of file
+declare const BASE_KV_SERVICE_URL: string
+// Active family profile id, injected by vite.config.ts (see src/lib/family.ts)
+declare const __FAMILY_ID__: string
@@ -1,16 +1,35 @@
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react-swc";
 import { resolve } from 'path';
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
+import { FAMILY } from "./src/lib/family";
 
 const projectRoot = process.env.PROJECT_ROOT || import.meta.dirname
 
+// Fill the family branding placeholders (%FAMILY_NAME%, %FAMILY_SITE_URL%) in index.html
+function familyBranding(): Plugin {
+  return {
+    name: 'family-branding',
+    transformIndexHtml: {
+      order: 'pre',
+      handler: html => html
+        .replaceAll('%FAMILY_NAME%', FAMILY.name)
+        .replaceAll('%FAMILY_SITE_URL%', FAMILY.siteUrl.replace(/\/$/, '')),
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
     tailwindcss(),
+    familyBranding(),
   ],
+  // Family profile selected with FAMILY=<id> (see src/lib/family.ts)
+  define: {
+    __FAMILY_ID__: JSON.stringify(FAMILY.id),
+  },
   resolve: {
     alias: {
       '@': resolve(projectRoot, 'src')